@@ -8,7 +8,9 @@
 -- 曜日表現は 0=日,1=月,2=火,3=水,4=木,5=金,6=土 を前提
 
 PRAGMA foreign_keys = ON;
-PRAGMA user_version = 3;
+-- スキーマ版数（PRAGMA user_version）はアプリ側（TASK_DB_SCHEMA_VERSION / TASK_DB_MIGRATIONS）で管理する。
+-- このファイルは常に最新形を記述し、変更時は同じ内容のマイグレーションを追加すること。
+-- 既存DBにも毎回適用されるため、後から追加した列を参照する索引はここではなくマイグレーション側で作成する。
 
 CREATE TABLE IF NOT EXISTS "TASKS" (
   "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -27,23 +29,51 @@ CREATE TABLE IF NOT EXISTS "TASKS" (
   "UPDATED_AT" TEXT
 );
 
+-- ユーザー定義の休業日カレンダー（会社の休業日・学校の休暇など）
+CREATE TABLE IF NOT EXISTS "CALENDARS" (
+  "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "NAME" TEXT NOT NULL UNIQUE,
+  "DESCRIPTION" TEXT,
+  "CREATED_AT" TEXT,
+  "UPDATED_AT" TEXT
+);
+
+-- カレンダーの休業期間（開始日〜終了日、両端を含む。単日は同じ日付）
+CREATE TABLE IF NOT EXISTS "CALENDAR_ENTRIES" (
+  "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "CALENDAR_ID" INTEGER NOT NULL REFERENCES "CALENDARS"("ID") ON DELETE CASCADE,
+  "START_DATE" TEXT NOT NULL,
+  "END_DATE" TEXT NOT NULL,
+  "LABEL" TEXT,
+  "CREATED_AT" TEXT,
+  "UPDATED_AT" TEXT
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_CALENDAR_ENTRIES_CAL_DATE" ON "CALENDAR_ENTRIES" ("CALENDAR_ID", "START_DATE");
+
 -- 繰り返し定義
 CREATE TABLE IF NOT EXISTS "RECURRENCE_RULES" (
   "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
   "TASK_ID" INTEGER UNIQUE NOT NULL REFERENCES "TASKS"("ID") ON DELETE CASCADE,
-  -- 繰り返し頻度: 日/週/月/年
-  "FREQ" TEXT NOT NULL CHECK("FREQ" IN ('daily','weekly','monthly','yearly')),
+  -- 繰り返し頻度: 日/週/月/年/日付リスト（RECURRENCE_DATES に列挙した日付だけ）/cron 式（CRON_EXPR）
+  "FREQ" TEXT NOT NULL CHECK("FREQ" IN ('daily','weekly','monthly','yearly','dates','cron')),
   -- 間隔（UIの「1 日ごと」の数字）
   "INTERVAL" INTEGER NOT NULL DEFAULT 1 CHECK("INTERVAL" > 0),
   -- 終了条件: なし/日付/回数
   "END_KIND" TEXT NOT NULL DEFAULT 'none' CHECK("END_KIND" IN ('none','until','count')),
   "UNTIL_DATE" TEXT,
   "COUNT" INTEGER,
+  -- 間隔の基準: 予定日基準(scheduled) / 完了日基準(completed)
+  "INTERVAL_ANCHOR" TEXT NOT NULL DEFAULT 'scheduled',
   -- 完了時に次期日を手動指定するモード
   "MANUAL_NEXT_DUE" INTEGER NOT NULL DEFAULT 0,
   -- 発生日を基準日からずらす日数（負数で前倒し）
   "OCCURRENCE_OFFSET_DAYS" INTEGER NOT NULL DEFAULT 0,
-  -- 日次の生成ウィンドウ（日数）。daily のみで使用。既定14日。
+  -- 予定日が土日・祝日に当たる場合: そのまま(keep) / 前の営業日(prev) / 次の営業日(next) / その回は休み(skip)
+  "HOLIDAY_POLICY" TEXT NOT NULL DEFAULT 'keep',
+  -- 土日・祝日に加えて休業日とするユーザー定義カレンダー（HOLIDAY_POLICY が keep 以外、または営業日指定のときに使用）
+  "CALENDAR_ID" INTEGER REFERENCES "CALENDARS"("ID") ON DELETE SET NULL,
+  -- 日次の生成ウィンドウ（日数）。daily と cron で使用。既定14日。
   "HORIZON_DAYS" INTEGER DEFAULT 14,
   -- 週次用: 曜日ビットマスク（bit0=日〜bit6=土）
   "WEEKLY_DOWS" INTEGER DEFAULT 0,
@@ -52,14 +82,112 @@ CREATE TABLE IF NOT EXISTS "RECURRENCE_RULES" (
   -- 月次（第N曜日指定）: N=1..5 / -1=最終, 曜日=0..6
   "MONTHLY_NTH" INTEGER,
   "MONTHLY_NTH_DOW" INTEGER,
+  -- 月次の複数指定（2件以上のときのみ。先頭の1件は MONTHLY_DAY / MONTHLY_NTH にも入れる）
+  -- 日付: '1,15' / 第N曜日: 'N:曜日' のカンマ区切り（'2:3,4:3' = 第2・第4水曜）
+  "MONTHLY_DAYS" TEXT,
+  "MONTHLY_NTH_PAIRS" TEXT,
+  -- 月次（営業日指定）: 1..23=月初から第N営業日 / -1..-23=月末から第N営業日（-1=最終営業日）
+  "MONTHLY_BUSINESS_DAY" INTEGER,
   -- 年次: 対象の月(1..12)。日付/第N曜日指定は上記を併用
   "YEARLY_MONTH" INTEGER,
+  -- cron 式（FREQ='cron'）: 「分 時 日 月 曜日」。時・分の組み合わせごとに1日に複数のオカレンスを作る（COUNT も1回ずつ数える）
+  "CRON_EXPR" TEXT,
+  -- 1日の時刻リスト（'08:00,13:00,21:00'。昇順・重複なし）。指定があれば各日に時刻ごとのオカレンスを作り、START_TIME は使わない
+  -- （日次（予定日基準）・週次・月次・年次のみ。COUNT も時刻ごとに1回と数える）
+  "TIMES_OF_DAY" TEXT,
+  -- このルール（現在の版）の適用開始日。NULL はタスクの開始日から。日付を指定して変更すると、その日以降だけが新しいルールになる
+  "EFFECTIVE_FROM" TEXT,
+  -- 現在の版の番号（1から。日付を指定して変更するたびに1増える）。以前の版は RECURRENCE_RULE_VERSIONS に残す
+  "RULE_VERSION" INTEGER NOT NULL DEFAULT 1,
+  -- オカレンスの生成済みの範囲（系列上の日付。この日までの回は作成済み）。NULL は未生成で、ルールや回を変えると NULL に戻す。
+  -- 回数指定・日付リスト・前回完了基準・単発はすべての回を作るため '9999-12-31'
+  "GENERATED_THROUGH" TEXT,
   "CREATED_AT" TEXT,
   "UPDATED_AT" TEXT
 );
 
 CREATE INDEX IF NOT EXISTS "IDX_RULES_TASK" ON "RECURRENCE_RULES" ("TASK_ID");
 
+-- 繰り返しルールの以前の版。日付を指定して変更したときに、変更前のルールを適用期間つきで残す。
+-- 適用期間は EFFECTIVE_FROM（NULL はタスクの開始日）から EFFECTIVE_TO の前日まで（系列上の日付）。各列の意味は RECURRENCE_RULES と同じ
+CREATE TABLE IF NOT EXISTS "RECURRENCE_RULE_VERSIONS" (
+  "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "TASK_ID" INTEGER NOT NULL REFERENCES "TASKS"("ID") ON DELETE CASCADE,
+  "VERSION" INTEGER NOT NULL,
+  "EFFECTIVE_FROM" TEXT,
+  "EFFECTIVE_TO" TEXT NOT NULL,
+  -- その版の開始時刻（TASKS.START_TIME の変更前の値）
+  "START_TIME" TEXT,
+  "FREQ" TEXT NOT NULL,
+  "INTERVAL" INTEGER NOT NULL DEFAULT 1,
+  "INTERVAL_ANCHOR" TEXT NOT NULL DEFAULT 'scheduled',
+  "END_KIND" TEXT NOT NULL DEFAULT 'none',
+  "UNTIL_DATE" TEXT,
+  "COUNT" INTEGER,
+  "OCCURRENCE_OFFSET_DAYS" INTEGER NOT NULL DEFAULT 0,
+  "HOLIDAY_POLICY" TEXT NOT NULL DEFAULT 'keep',
+  "CALENDAR_ID" INTEGER REFERENCES "CALENDARS"("ID") ON DELETE SET NULL,
+  "HORIZON_DAYS" INTEGER,
+  "WEEKLY_DOWS" INTEGER,
+  "MONTHLY_DAY" INTEGER,
+  "MONTHLY_DAYS" TEXT,
+  "MONTHLY_NTH" INTEGER,
+  "MONTHLY_NTH_DOW" INTEGER,
+  "MONTHLY_NTH_PAIRS" TEXT,
+  "MONTHLY_BUSINESS_DAY" INTEGER,
+  "YEARLY_MONTH" INTEGER,
+  "CRON_EXPR" TEXT,
+  "TIMES_OF_DAY" TEXT,
+  -- 「すべての回を変更」で版を持てない設定（回数指定・日付リストなど）に変えた日時。NULL 以外は履歴としてのみ残し、展開には使わない
+  "SUPERSEDED_AT" TEXT,
+  "CREATED_AT" TEXT,
+  UNIQUE("TASK_ID", "VERSION")
+);
+
+-- 日付リスト（FREQ='dates'）の発生日。規則では表せない不規則な日程を1日1行で持つ。
+-- 回数は行数で決まり、RECURRENCE_RULES.COUNT にも同じ値を入れる
+CREATE TABLE IF NOT EXISTS "RECURRENCE_DATES" (
+  "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "TASK_ID" INTEGER NOT NULL REFERENCES "TASKS"("ID") ON DELETE CASCADE,
+  "LIST_DATE" TEXT NOT NULL,
+  -- その日だけの開始時刻（HH:MM）。NULL はタスクの開始時刻に従う
+  "LIST_TIME" TEXT,
+  "CREATED_AT" TEXT,
+  UNIQUE("TASK_ID", "LIST_DATE")
+);
+
+-- 追加ルール（1タスクに複数可）。パターン（頻度・間隔・曜日/日付指定）のみを持ち、
+-- 開始日・終了条件・オフセット・祝日の扱い・例外は RECURRENCE_RULES（主ルール）に従う。各列の意味は RECURRENCE_RULES と同じ
+CREATE TABLE IF NOT EXISTS "RECURRENCE_EXTRA_RULES" (
+  "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "TASK_ID" INTEGER NOT NULL REFERENCES "TASKS"("ID") ON DELETE CASCADE,
+  -- 表示・優先順（同じ日付になった場合は小さいほうを発生元とする）
+  "POSITION" INTEGER NOT NULL DEFAULT 0,
+  "FREQ" TEXT NOT NULL CHECK("FREQ" IN ('daily','weekly','monthly','yearly')),
+  "INTERVAL" INTEGER NOT NULL DEFAULT 1 CHECK("INTERVAL" > 0),
+  "WEEKLY_DOWS" INTEGER,
+  "MONTHLY_DAY" INTEGER,
+  "MONTHLY_DAYS" TEXT,
+  "MONTHLY_NTH" INTEGER,
+  "MONTHLY_NTH_DOW" INTEGER,
+  "MONTHLY_NTH_PAIRS" TEXT,
+  "MONTHLY_BUSINESS_DAY" INTEGER,
+  "YEARLY_MONTH" INTEGER,
+  "CREATED_AT" TEXT,
+  "UPDATED_AT" TEXT
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_EXTRA_RULES_TASK" ON "RECURRENCE_EXTRA_RULES" ("TASK_ID", "POSITION");
+
+-- 追加日付（ルールによらず発生させる個別の日付）。例外（skip/reschedule）のみ適用し、オフセット・祝日の扱い・終了条件は適用しない
+CREATE TABLE IF NOT EXISTS "RECURRENCE_EXTRA_DATES" (
+  "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "TASK_ID" INTEGER NOT NULL REFERENCES "TASKS"("ID") ON DELETE CASCADE,
+  "EXTRA_DATE" TEXT NOT NULL,
+  "CREATED_AT" TEXT,
+UNIQUE("TASK_ID", "EXTRA_DATE")
+);
+
 -- 各発生インスタンス（各回）
 CREATE TABLE IF NOT EXISTS "TASK_OCCURRENCES" (
   "ID" INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -70,6 +198,9 @@ CREATE TABLE IF NOT EXISTS "TASK_OCCURRENCES" (
   "DEFERRED_DATE" TEXT,
   "STATUS" TEXT CHECK("STATUS" IN ('pending','done','skipped','cancelled')) DEFAULT 'pending',
   "COMPLETED_AT" TEXT,
+  -- 発生元: NULL=主ルール（単発を含む） / 'extra'=追加ルール（EXTRA_RULE_ID） / 'date'=追加日付
+  "SOURCE" TEXT,
+  "EXTRA_RULE_ID" INTEGER REFERENCES "RECURRENCE_EXTRA_RULES"("ID") ON DELETE SET NULL,
   "CREATED_AT" TEXT,
   "UPDATED_AT" TEXT
 );
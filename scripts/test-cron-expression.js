@@ -0,0 +1,59 @@
+/*
+  非GUI動作確認: cron 式の解析（parseCronExpression）のエラーと説明を検証
+  手順:
+    - 空・項目数違い・範囲外・逆順の範囲・間隔0・空の要素・存在しない日付・1日の回数超過・未知のマクロがエラーになるか
+    - 正しい式の説明（describeCronSchedule）と曜日の正規化（7 → 日曜）
+*/
+
+const { parseCronExpression, describeCronSchedule, MAX_CRON_TIMES_PER_DAY } = require('../dist/renderer/cronExpression');
+
+function expect(label, actual, expected) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  console.log(`${label}:`, a);
+  if (a !== e) {
+    console.error(`期待値(${e})と不一致:`, a);
+    process.exit(1);
+  }
+}
+
+(async () => {
+  const errorCases = [
+    ['', 'cron 式を入力してください'],
+    ['   ', 'cron 式を入力してください'],
+    ['0 8 * *', 'cron 式は「分 時 日 月 曜日」の5項目で指定してください（4項目あります）'],
+    ['60 * * * *', '分の値「60」が範囲外です（0〜59）'],
+    ['0 10-8 * * *', '時の範囲「10-8」は小さい値から指定してください'],
+    ['*/0 * * * *', '分の間隔「*/0」は1以上を指定してください'],
+    ['0 8 1,,15 * *', '日の指定に空の要素があります（1,,15）'],
+    ['0 8 * FOO *', '月の「FOO」を解釈できません'],
+    ['0 0 30 2 *', '指定した月に存在しない日付です（例: 2月30日）'],
+    ['0 0 31 2,4 *', '指定した月に存在しない日付です（例: 2月30日）'],
+    ['* * * * *', `1日の発生回数が多すぎます（1440回。${MAX_CRON_TIMES_PER_DAY}回まで）`],
+    ['@foo', '@foo は使えません（@yearly / @annually / @monthly / @weekly / @daily / @midnight / @hourly）']
+  ];
+  for (const [text, message] of errorCases) {
+    expect(`エラー（${text.trim() || '空'}）`, parseCronExpression(text), { schedule: null, errors: [message] });
+  }
+  // 項目ごとのエラーはまとめて返す
+  expect('複数項目のエラー', parseCronExpression('60 24 * * *').errors, ['分の値「60」が範囲外です（0〜59）', '時の値「24」が範囲外です（0〜23）']);
+
+  const validCases = [
+    ['0 8,13,21 * * *', '毎日 8:00・13:00・21:00'],
+    ['0 9 * * MON-FRI', '毎週月〜金曜 9:00'],
+    ['30 7 1,15 * *', '毎月1・15日 7:30'],
+    ['@weekly', '毎週日曜 0:00'],
+    ['*/30 9-17 * * 1-5', '毎週月〜金曜 9〜17時の0・30分（1日18回）']
+  ];
+  for (const [text, description] of validCases) {
+    const res = parseCronExpression(text);
+    expect(`説明（${text}）`, { errors: res.errors, description: res.schedule && describeCronSchedule(res.schedule) }, { errors: [], description });
+  }
+  expect('曜日の7は日曜', parseCronExpression('0 0 * * 0,7').schedule.dows, [0]);
+
+  console.log('OK: cron 式の解析は期待通りです');
+  process.exit(0);
+})().catch(async (e) => {
+  console.error('テスト実行エラー:', e);
+  process.exit(2);
+});
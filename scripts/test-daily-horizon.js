@@ -2,7 +2,8 @@
   非GUI動作確認: 日次の生成ウィンドウ（HORIZON_DAYS）が反映されるかを検証
   手順:
     - 一時DBを作成
-    - 毎日タスク(horizon=3)を作成し、オカレンスの件数を確認
+    - 毎日タスク(horizon=3)を作成し、生成処理（generateOccurrences）後のオカレンスの件数を確認
+    - 生成処理をもう一度呼んでも、生成済みの範囲内なので何も作られないことを確認
     - horizon=7に更新し、追加生成されることを確認
 */
 
@@ -37,6 +38,7 @@ function todayStr(offset = 0) {
   const id = await db.createTask(payload);
 
   // 3日分生成されるか
+  await db.generateOccurrences();
   const occ1 = await db.listOccurrences({ from: todayStr(0), to: todayStr(30) });
   const occTask1 = occ1.filter(o => o.TASK_ID === id);
   console.log('[Step1] horizon=3 -> occurrences:', occTask1.length);
@@ -44,6 +46,12 @@ function todayStr(offset = 0) {
     console.error('期待件数(3)と不一致:', occTask1.length);
     process.exit(1);
   }
+  const again = await db.generateOccurrences();
+  console.log('[Step1] 再生成 -> created:', again.created);
+  if (again.created !== 0) {
+    console.error('期待件数(0)と不一致:', again.created);
+    process.exit(1);
+  }
 
   // 7に更新
   await db.updateTask(id, {
@@ -55,6 +63,7 @@ function todayStr(offset = 0) {
     recurrence: { freq: 'daily', count: 0, horizonDays: 7 }
   });
 
+  await db.generateOccurrences();
   const occ2 = await db.listOccurrences({ from: todayStr(0), to: todayStr(30) });
   const occTask2 = occ2.filter(o => o.TASK_ID === id);
   console.log('[Step2] horizon=7 -> occurrences:', occTask2.length);
@@ -0,0 +1,72 @@
+/*
+  非GUI動作確認: 日本の祝日の算出（japaneseHolidays）を検証
+  手順:
+    - ハッピーマンデー（成人の日・海の日・敬老の日・スポーツの日）が第N月曜になるか
+    - 振替休日（連休の後・2006年までの翌日のみ）、国民の休日、特例年（即位・五輪による移動）
+    - 法施行前の日付は祝日なし、営業日判定（土日・祝日・休日以外）
+*/
+
+const {
+  japaneseHolidaysOfYear,
+  japaneseHolidayName,
+  isBusinessDay
+} = require('../dist/renderer/japaneseHolidays');
+
+function expect(label, actual, expected) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  console.log(`${label}:`, a);
+  if (a !== e) {
+    console.error(`期待値(${e})と不一致:`, a);
+    process.exit(1);
+  }
+}
+
+function names(dates) {
+  return dates.map(d => `${d}:${japaneseHolidayName(d)}`);
+}
+
+(async () => {
+  expect('ハッピーマンデー（2026年）', names(['2026-01-12', '2026-07-20', '2026-09-21', '2026-10-12']), [
+    '2026-01-12:成人の日', '2026-07-20:海の日', '2026-09-21:敬老の日', '2026-10-12:スポーツの日'
+  ]);
+  // 第2月曜の前週・翌週は祝日ではない
+  expect('成人の日の前後の月曜', names(['2026-01-05', '2026-01-19']), ['2026-01-05:null', '2026-01-19:null']);
+  expect('2000年より前の成人の日は1月15日', names(['1999-01-15', '1999-01-11']), ['1999-01-15:成人の日', '1999-01-11:null']);
+
+  // 2026-05-03（日）の振替は、5/4・5/5 が祝日のため 5/6
+  expect('振替休日（連休の後）', names(['2026-05-06', '2025-02-24', '2024-02-12', '2020-02-24']), [
+    '2026-05-06:振替休日', '2025-02-24:振替休日', '2024-02-12:振替休日', '2020-02-24:振替休日'
+  ]);
+  // 2006年までは翌日のみ（2006-01-01（日）→ 01-02）
+  expect('振替休日（2006年まで）', names(['2006-01-02', '1973-04-30']), ['2006-01-02:振替休日', '1973-04-30:振替休日']);
+
+  // 敬老の日（9/21）と秋分の日（9/23）に挟まれた平日
+  expect('国民の休日', names(['2026-09-22', '2019-04-30', '2019-05-02']), [
+    '2026-09-22:国民の休日', '2019-04-30:国民の休日', '2019-05-02:国民の休日'
+  ]);
+  expect('特例年（即位）', names(['2019-05-01', '2019-10-22', '2019-05-06']), [
+    '2019-05-01:天皇の即位の日', '2019-10-22:即位礼正殿の儀', '2019-05-06:振替休日'
+  ]);
+  // 2021年の山の日は 8/8（日）に移動し、8/9 が振替休日。本来の 8/11 は平日
+  expect('特例年（五輪）', names(['2021-07-22', '2021-07-23', '2021-08-08', '2021-08-09', '2021-08-11', '2021-07-19']), [
+    '2021-07-22:海の日', '2021-07-23:スポーツの日', '2021-08-08:山の日', '2021-08-09:振替休日', '2021-08-11:null', '2021-07-19:null'
+  ]);
+  expect('法施行前', names(['1948-01-01', '1948-05-05']), ['1948-01-01:null', '1948-05-05:null']);
+
+  expect('2026年の祝日・休日の一覧', Array.from(japaneseHolidaysOfYear(2026).keys()), [
+    '2026-01-01', '2026-01-12', '2026-02-11', '2026-02-23', '2026-03-20', '2026-04-29',
+    '2026-05-03', '2026-05-04', '2026-05-05', '2026-05-06', '2026-07-20', '2026-08-11',
+    '2026-09-21', '2026-09-22', '2026-09-23', '2026-10-12', '2026-11-03', '2026-11-23'
+  ]);
+
+  expect('営業日判定', ['2026-01-09', '2026-01-10', '2026-01-11', '2026-01-12', '2026-01-13', '2026-05-06'].map(isBusinessDay), [
+    true, false, false, false, true, false
+  ]);
+
+  console.log('OK: 祝日・振替休日・国民の休日の算出は期待通りです');
+  process.exit(0);
+})().catch(async (e) => {
+  console.error('テスト実行エラー:', e);
+  process.exit(2);
+});
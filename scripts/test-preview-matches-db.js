@@ -0,0 +1,147 @@
+/*
+  非GUI動作確認: 編集画面のプレビュー（planUnionOccurrences）と、保存後の生成処理（generateOccurrences）が同じ日付になるかを検証
+  手順:
+    - 一時DBを作成
+    - 各ケースの recurrence（編集画面が送る形）でタスクを作成し、生成処理を実行
+    - 同じ recurrence を編集画面と同じ変換（ruleSpecFromUI 相当）で展開し、DB のオカレンス（日付・発生元）と一致することを確認
+    - 今日によらないケースは、期待する日付とも比べる
+  ケース: 週次（無限）/ 3ヶ月ごとの31日（回数指定・無限）/ 祝日の扱い next・skip / 追加ルール＋追加日付
+*/
+
+const path = require('path');
+const fs = require('fs');
+const { TaskDatabase } = require('../dist/taskDatabase');
+const {
+  planUnionOccurrences,
+  addDaysYmd,
+  todayYmd,
+  DEFAULT_DAILY_HORIZON_DAYS,
+  DEFAULT_MONTHS_AHEAD,
+  DEFAULT_YEARS_AHEAD
+} = require('../dist/renderer/recurrenceExpander');
+
+function expect(label, actual, expected) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  console.log(`${label}:`, a);
+  if (a !== e) {
+    console.error(`期待値(${e})と不一致:`, a);
+    process.exit(1);
+  }
+}
+
+function dowMask(...dates) {
+  return dates.reduce((mask, ymd) => mask | (1 << new Date(`${ymd}T00:00:00`).getDay()), 0);
+}
+
+// タスク編集画面（taskEditor2.ts の ruleSpecFromUI）と同じ変換
+function ruleSpecFromPayload(rec, startDate) {
+  const freq = String(rec.freq || '');
+  return {
+    freq,
+    startDate,
+    interval: Math.max(1, Number(rec.interval || 1)),
+    anchor: String(rec.anchor || 'scheduled') === 'completed' ? 'completed' : 'scheduled',
+    count: Math.max(0, Number(rec.count || 0) || 0),
+    untilDate: typeof rec.until === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(rec.until) ? rec.until : null,
+    offsetDays: Number(rec.occurrenceOffsetDays || 0) || 0,
+    horizonDays: rec.horizonDays != null ? Number(rec.horizonDays) : null,
+    weeklyDows: Number(rec.weeklyDows || 0),
+    monthlyDay: freq === 'yearly' ? Number(rec.yearlyDay || 1) : Number(rec.monthlyDay || 1),
+    monthlyNth: rec.monthlyNth != null ? Number(rec.monthlyNth) : null,
+    monthlyNthDow: rec.monthlyNthDow != null ? Number(rec.monthlyNthDow) : null,
+    monthlyDays: freq === 'monthly' && Array.isArray(rec.monthlyDays) ? rec.monthlyDays : null,
+    monthlyNthPairs: freq === 'monthlyNth' && Array.isArray(rec.monthlyNthPairs) ? rec.monthlyNthPairs : null,
+    monthlyBusinessDay: rec.monthlyBusinessDay != null ? Number(rec.monthlyBusinessDay) : null,
+    yearlyMonth: rec.yearlyMonth != null ? Number(rec.yearlyMonth) : null,
+    dateList: null,
+    cronExpr: null,
+    timesOfDay: null,
+    holidayPolicy: rec.holidayPolicy || 'keep',
+    closedDates: null
+  };
+}
+
+// 編集画面のプレビュー（computeTargetDates と同じ展開）。発生元も並べる
+function preview(rec, startDate) {
+  const policy = {
+    today: todayYmd(),
+    dailyHorizonDays: DEFAULT_DAILY_HORIZON_DAYS,
+    monthsAhead: DEFAULT_MONTHS_AHEAD,
+    yearsAhead: DEFAULT_YEARS_AHEAD
+  };
+  const extras = (rec.extraRules || []).map(x => ruleSpecFromPayload(x, startDate));
+  return planUnionOccurrences(ruleSpecFromPayload(rec, startDate), extras, rec.extraDates || [], null, null, policy)
+    .map(o => `${o.date}:${o.source}`);
+}
+
+(async () => {
+  const tmpDb = path.resolve(__dirname, '..', '.tmp', `test_tasks_${Date.now()}.sqlite`);
+  fs.mkdirSync(path.dirname(tmpDb), { recursive: true });
+
+  const db = new TaskDatabase(tmpDb);
+  await db.init();
+
+  const today = todayYmd();
+  const cases = [
+    {
+      label: '週次（無限）今日と3日後の曜日',
+      startDate: addDaysYmd(today, -14),
+      recurrence: { freq: 'weekly', weeklyDows: dowMask(today, addDaysYmd(today, 3)), interval: 1, count: 0 },
+      expected: [`${today}:rule`]
+    },
+    {
+      label: '3ヶ月ごとの31日（回数指定）',
+      startDate: '2026-01-31',
+      recurrence: { freq: 'monthly', monthlyDay: 31, interval: 3, count: 6 },
+      expected: ['2026-01-31', '2026-04-30', '2026-07-31', '2026-10-31', '2027-01-31', '2027-04-30'].map(d => `${d}:rule`)
+    },
+    {
+      label: '2ヶ月ごとの31日（無限）',
+      startDate: '2026-01-31',
+      recurrence: { freq: 'monthly', monthlyDay: 31, interval: 2, count: 0 }
+    },
+    {
+      // 2026-01-12 は成人の日（月曜）
+      label: '毎週月曜 祝日は翌営業日（next）',
+      startDate: '2026-01-05',
+      recurrence: { freq: 'weekly', weeklyDows: dowMask('2026-01-05'), interval: 1, count: 4, holidayPolicy: 'next' },
+      expected: ['2026-01-05', '2026-01-13', '2026-01-19', '2026-01-26'].map(d => `${d}:rule`)
+    },
+    {
+      label: '毎週月曜 祝日は休み（skip）',
+      startDate: '2026-01-05',
+      recurrence: { freq: 'weekly', weeklyDows: dowMask('2026-01-05'), interval: 1, count: 4, holidayPolicy: 'skip' },
+      expected: ['2026-01-05', '2026-01-19', '2026-01-26'].map(d => `${d}:rule`)
+    },
+    {
+      label: '毎月10日＋追加ルール（毎月20日）＋追加日付',
+      startDate: '2026-01-10',
+      recurrence: {
+        freq: 'monthly', monthlyDay: 10, interval: 1, count: 3,
+        extraRules: [{ freq: 'monthly', monthlyDay: 20, interval: 1 }],
+        extraDates: ['2026-02-14', '2026-03-10']
+      },
+      // 3月10日は主ルールと重なるため主ルールの1件にまとめる
+      expected: ['2026-01-10:rule', '2026-01-20:extra', '2026-02-10:rule', '2026-02-14:date', '2026-02-20:extra', '2026-03-10:rule', '2026-03-20:extra']
+    }
+  ];
+
+  for (const c of cases) {
+    const id = await db.createTask({ title: c.label, isRecurring: true, startDate: c.startDate, recurrence: c.recurrence });
+    await db.generateOccurrences();
+    const created = (await db.listOccurrencesByTask(id))
+      .map(o => `${o.scheduledDate}:${o.source}`)
+      .sort();
+    const planned = preview(c.recurrence, c.startDate);
+    expect(`[${c.label}] 生成`, created, planned);
+    if (c.expected) expect(`[${c.label}] 期待値`, created, c.expected);
+  }
+
+  console.log('OK: 編集画面のプレビューと生成処理の日付は一致しました');
+  await db.close();
+  process.exit(0);
+})().catch(async (e) => {
+  console.error('テスト実行エラー:', e);
+  process.exit(2);
+});
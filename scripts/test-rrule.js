@@ -0,0 +1,124 @@
+/*
+  非GUI動作確認: RRULE との相互変換（formatRRule / parseRRule）を検証
+  手順:
+    - RECURRENCE_RULES の行を RRULE にし、解析して同じ行・同じ RRULE に戻るか（往復）
+    - 解析結果を createTask() の recurrence に変換した形
+    - 表現できない行（unsupported）と取り込めない RRULE（errors）のメッセージ
+*/
+
+const { formatRRule, parseRRule, recurrencePayloadFromRRule } = require('../dist/renderer/rrule');
+
+function expect(label, actual, expected) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  console.log(`${label}:`, a);
+  if (a !== e) {
+    console.error(`期待値(${e})と不一致:`, a);
+    process.exit(1);
+  }
+}
+
+const ROW_KEYS = ['FREQ', 'INTERVAL', 'WEEKLY_DOWS', 'MONTHLY_DAY', 'MONTHLY_NTH', 'MONTHLY_NTH_DOW', 'MONTHLY_DAYS', 'MONTHLY_NTH_PAIRS', 'YEARLY_MONTH', 'COUNT', 'END_KIND', 'UNTIL_DATE'];
+
+// 比較する列だけを取り出す（未設定は null にそろえる）
+function pick(row) {
+  const res = {};
+  for (const k of ROW_KEYS) res[k] = row[k] ?? null;
+  return res;
+}
+
+const BASE = { INTERVAL: 1, COUNT: 0, END_KIND: 'none', UNTIL_DATE: null };
+
+(async () => {
+  const cases = [
+    {
+      label: '隔週 月・水',
+      row: { ...BASE, FREQ: 'weekly', INTERVAL: 2, WEEKLY_DOWS: (1 << 1) | (1 << 3) },
+      rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;WKST=SU',
+      payload: { freq: 'weekly', weeklyDows: 10, interval: 2, count: 0 }
+    },
+    {
+      label: '毎月31日（6回）',
+      row: { ...BASE, FREQ: 'monthly', MONTHLY_DAY: 31, COUNT: 6, END_KIND: 'count' },
+      rrule: 'FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=6',
+      payload: { freq: 'monthly', monthlyDay: 31, interval: 1, count: 6 }
+    },
+    {
+      label: '毎月30日（無い月は月末）',
+      row: { ...BASE, FREQ: 'monthly', MONTHLY_DAY: 30 },
+      rrule: 'FREQ=MONTHLY;BYMONTHDAY=28,29,30;BYSETPOS=-1',
+      payload: { freq: 'monthly', monthlyDay: 30, interval: 1, count: 0 }
+    },
+    {
+      label: '毎月1・15・31日',
+      row: { ...BASE, FREQ: 'monthly', MONTHLY_DAY: 1, MONTHLY_DAYS: '1,15,31' },
+      rrule: 'FREQ=MONTHLY;BYMONTHDAY=1,15,-1',
+      payload: { freq: 'monthly', monthlyDay: 1, monthlyDays: [1, 15, 31], interval: 1, count: 0 }
+    },
+    {
+      label: '第2月曜（期限日まで）',
+      row: { ...BASE, FREQ: 'monthly', MONTHLY_NTH: 2, MONTHLY_NTH_DOW: 1, END_KIND: 'until', UNTIL_DATE: '2026-12-31' },
+      rrule: 'FREQ=MONTHLY;BYDAY=2MO;UNTIL=20261231',
+      payload: { freq: 'monthlyNth', monthlyNth: 2, monthlyNthDow: 1, interval: 1, until: '2026-12-31', count: 0 }
+    },
+    {
+      label: '第2・第4水曜',
+      row: { ...BASE, FREQ: 'monthly', MONTHLY_NTH: 2, MONTHLY_NTH_DOW: 3, MONTHLY_NTH_PAIRS: '2:3,4:3' },
+      rrule: 'FREQ=MONTHLY;BYDAY=2WE,4WE',
+      payload: { freq: 'monthlyNth', monthlyNth: 2, monthlyNthDow: 3, monthlyNthPairs: [{ nth: 2, dow: 3 }, { nth: 4, dow: 3 }], interval: 1, count: 0 }
+    },
+    {
+      label: '毎年2月29日（平年は28日）',
+      row: { ...BASE, FREQ: 'yearly', YEARLY_MONTH: 2, MONTHLY_DAY: 29 },
+      rrule: 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=28,29;BYSETPOS=-1',
+      payload: { freq: 'yearly', yearlyMonth: 2, yearlyDay: 29, interval: 1, count: 0 }
+    },
+    {
+      label: '3日ごと',
+      row: { ...BASE, FREQ: 'daily', INTERVAL: 3 },
+      rrule: 'FREQ=DAILY;INTERVAL=3',
+      payload: { freq: 'daily', interval: 3, anchor: 'scheduled', horizonDays: 14, count: 0 }
+    }
+  ];
+
+  for (const c of cases) {
+    const formatted = formatRRule(c.row);
+    expect(`[${c.label}] RRULE`, formatted, { rrule: c.rrule, unsupported: [] });
+    const parsed = parseRRule(formatted.rrule);
+    expect(`[${c.label}] 解析`, { errors: parsed.errors, notes: parsed.notes }, { errors: [], notes: [] });
+    expect(`[${c.label}] 行に戻る`, pick(parsed.rule), pick(c.row));
+    expect(`[${c.label}] 再変換`, formatRRule(parsed.rule).rrule, c.rrule);
+    expect(`[${c.label}] recurrence`, recurrencePayloadFromRRule(parsed.rule), c.payload);
+  }
+
+  // 第5週は「無い月は第4週」＝常に最終週（-1）として往復する
+  const fifth = parseRRule(formatRRule({ ...BASE, FREQ: 'monthly', MONTHLY_NTH: 5, MONTHLY_NTH_DOW: 5 }).rrule);
+  expect('第5金曜は最終金曜になる', [fifth.rule.MONTHLY_NTH, fifth.rule.MONTHLY_NTH_DOW], [-1, 5]);
+
+  const withStart = parseRRule('DTSTART:20260105T090000\nRRULE:FREQ=WEEKLY;INTERVAL=2');
+  expect('DTSTART の曜日・日時', [withStart.rule.START_DATE, withStart.rule.START_TIME, withStart.rule.WEEKLY_DOWS], ['2026-01-05', '09:00', 2]);
+
+  expect('表現できない行', formatRRule({ ...BASE, FREQ: 'monthly', MONTHLY_DAY: 10, HOLIDAY_POLICY: 'next', TIMES_OF_DAY: '08:00' }), {
+    rrule: null,
+    unsupported: ['土日・祝日の扱い（HOLIDAY_POLICY）は RRULE で表現できません', '1日の時刻リスト（TIMES_OF_DAY）は RRULE で表現できません']
+  });
+
+  const errorCases = [
+    ['', 'RRULE が入力されていません'],
+    ['FREQ=HOURLY', 'FREQ=HOURLY は未対応です（DAILY / WEEKLY / MONTHLY / YEARLY のみ）'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20261231', 'COUNT と UNTIL は同時に指定できません'],
+    ['FREQ=MONTHLY;BYMONTHDAY=-2', 'BYMONTHDAY=-2（月末から数えた日付）は -1 以外未対応です'],
+    ['FREQ=MONTHLY;BYDAY=6MO', 'BYDAY=6MO は未対応です（第1〜5週または最終週の単一曜日のみ）'],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=SU', 'WKST=MO（既定） の隔週などで日曜日を含む指定は未対応です（本アプリの週は日曜始まりのため WKST=SU のみ）']
+  ];
+  for (const [text, message] of errorCases) {
+    const res = parseRRule(text);
+    expect(`取り込めない RRULE（${text || '空'}）`, { rule: res.rule, errors: res.errors }, { rule: null, errors: [message] });
+  }
+
+  console.log('OK: RRULE の相互変換は期待通りです');
+  process.exit(0);
+})().catch(async (e) => {
+  console.error('テスト実行エラー:', e);
+  process.exit(2);
+});
@@ -0,0 +1,83 @@
+/*
+  非GUI動作確認: 週次の完了時の次回が「次の指定曜日」になり、生成処理（次の1件のみ保持）と食い違わないかを検証
+  手順:
+    - 次回算出（stepSeriesDate）: 月・水・金の回の次が同じ週の次の指定曜日になるか、隔週で開始日の週から数えるか
+    - 一時DBを作成
+    - 今日と2日後の曜日を指定した毎週タスク（無限）を作成し、今日の回を完了
+    - 次回が2日後の1件のみで、生成処理を経ても削除されず、完了済みの回も残ることを確認
+*/
+
+const path = require('path');
+const fs = require('fs');
+const { TaskDatabase } = require('../dist/taskDatabase');
+const { stepSeriesDate, planOccurrences } = require('../dist/renderer/recurrenceExpander');
+
+function todayStr(offset = 0) {
+  const d = new Date();
+  d.setDate(d.getDate() + offset);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const da = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${da}`;
+}
+
+function dowMask(...dates) {
+  return dates.reduce((mask, ymd) => mask | (1 << new Date(`${ymd}T00:00:00`).getDay()), 0);
+}
+
+function expect(label, actual, expected) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  console.log(`${label}:`, a);
+  if (a !== e) {
+    console.error(`期待値(${e})と不一致:`, a);
+    process.exit(1);
+  }
+}
+
+(async () => {
+  // 2026-01-05 は月曜日
+  const mwf = { freq: 'weekly', startDate: '2026-01-05', weeklyDows: 0b0101010, interval: 1, count: 0 };
+  expect('[Step1] 月・水・金 月曜の次', stepSeriesDate(mwf, '2026-01-05'), '2026-01-07');
+  expect('[Step1] 月・水・金 金曜の次', stepSeriesDate(mwf, '2026-01-09'), '2026-01-12');
+  const biweekly = { freq: 'weekly', startDate: '2026-01-05', weeklyDows: 0b0100010, interval: 2, count: 0 };
+  expect('[Step1] 隔週 月・金 月曜の次', stepSeriesDate(biweekly, '2026-01-05'), '2026-01-09');
+  expect('[Step1] 隔週 月・金 金曜の次', stepSeriesDate(biweekly, '2026-01-09'), '2026-01-19');
+  const policy = { today: '2026-01-07', dailyHorizonDays: 14, monthsAhead: 2, yearsAhead: 2, completedKeys: new Set(['2026-01-07']) };
+  expect('[Step1] 今日（水）完了済みの次の1件', planOccurrences(mwf, null, null, policy).map(p => p.date), ['2026-01-09']);
+
+  const tmpDb = path.resolve(__dirname, '..', '.tmp', `test_tasks_${Date.now()}.sqlite`);
+  fs.mkdirSync(path.dirname(tmpDb), { recursive: true });
+
+  const db = new TaskDatabase(tmpDb);
+  await db.init();
+
+  const id = await db.createTask({
+    title: '毎週テスト',
+    description: '完了時の次回',
+    isRecurring: true,
+    startDate: todayStr(0),
+    startTime: '00:00',
+    recurrence: { freq: 'weekly', weeklyDows: dowMask(todayStr(0), todayStr(2)), count: 0 }
+  });
+  const listTask = async () => (await db.listOccurrences({ from: todayStr(-7), to: todayStr(30) }))
+    .filter(o => o.TASK_ID === id)
+    .map(o => `${o.SCHEDULED_DATE}:${o.OCC_STATUS}`);
+
+  await db.generateOccurrences();
+  expect('[Step2] 作成直後', await listTask(), [`${todayStr(0)}:pending`]);
+
+  const first = (await db.listOccurrences({ from: todayStr(0), to: todayStr(0) })).find(o => o.TASK_ID === id);
+  await db.completeOccurrence(first.OCCURRENCE_ID);
+  expect('[Step3] 今日の回を完了', await listTask(), [`${todayStr(0)}:done`, `${todayStr(2)}:pending`]);
+  // 完了でこのタスクの生成済みの範囲が破棄され、生成処理（ensureRecurringWeeklyOccurrences）で展開し直しても結果が変わらないこと
+  await db.generateOccurrences();
+  expect('[Step3] 再生成後', await listTask(), [`${todayStr(0)}:done`, `${todayStr(2)}:pending`]);
+
+  console.log('OK: 週次の完了時の次回と生成処理は期待通りに動作しました');
+  await db.close();
+  process.exit(0);
+})().catch(async (e) => {
+  console.error('テスト実行エラー:', e);
+  process.exit(2);
+});
@@ -26,9 +26,157 @@ export interface TagMap {
   TAG_ID: number;
 }
 
+/**
+ * ファイルDBのマイグレーション版数。
+ * ファイルDBは他ツールと共有する外部スキーマのため、PRAGMA user_version やテーブル定義には手を付けず、
+ * 適用履歴は専用テーブル（FILE_DB_MIGRATIONS_TABLE）に記録し、変更は索引の追加と重複整理に限る。
+ */
+export const FILE_DB_SCHEMA_VERSION = 3;
+
+const FILE_DB_MIGRATIONS_TABLE = 'NYANTASKNOTES_FILE_DB_MIGRATIONS';
+
+export type FileDbMigrationContext = {
+  run: (sql: string, params?: any[]) => Promise<number>;
+  all: <T>(sql: string, params?: any[]) => Promise<T[]>;
+};
+
+export type FileDbMigration = {
+  version: number;
+  description: string;
+  /** 戻り値はレポートとして履歴テーブルに JSON で保存される */
+  up: (ctx: FileDbMigrationContext) => Promise<any>;
+};
+
+export type FileDbMigrationResult = {
+  version: number;
+  description: string;
+  report: any;
+};
+
+/** 重複行を最小IDに寄せるときのグループ情報（レポート用に削除行の内容も残す） */
+type DuplicateGroup<T> = { keepId: number; removed: T[] };
+
+async function findDuplicateGroups<T extends { ID: number }>(
+  ctx: FileDbMigrationContext,
+  table: string,
+  keyExpr: string,
+  where: string,
+  columns: string
+): Promise<Array<DuplicateGroup<T>>> {
+  const rows = await ctx.all<T & { DUP_KEY: any }>(
+    `SELECT ${columns}, ${keyExpr} AS DUP_KEY FROM ${table}
+     WHERE ${where} AND ${keyExpr} IN (
+       SELECT ${keyExpr} FROM ${table} WHERE ${where} GROUP BY ${keyExpr} HAVING COUNT(*) > 1
+     )
+     ORDER BY DUP_KEY, ID`
+  );
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = JSON.stringify(row.DUP_KEY);
+    const { DUP_KEY: _dup, ...rest } = row as any;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(rest as T);
+  }
+  return [...groups.values()].map((list) => ({ keepId: list[0].ID, removed: list.slice(1) }));
+}
+
+/**
+ * 番号付きマイグレーション（昇順）。各番号は1トランザクションで適用され、履歴テーブルに記録される。
+ * 重複は最小IDの行に寄せ（TAG_MAPS の参照も付け替え）、削除した行はレポートに全列を残す。
+ */
+const FILE_DB_MIGRATIONS: FileDbMigration[] = [
+  {
+    version: 1,
+    description: 'FILE_INFOS: SHA_256 の重複を統合し、大文字小文字を区別しない一意索引を追加',
+    up: async (ctx) => {
+      const groups = await findDuplicateGroups<FileInfo & { ID: number }>(
+        ctx,
+        'FILE_INFOS',
+        'UPPER(SHA_256)',
+        "SHA_256 IS NOT NULL AND SHA_256 <> ''",
+        'ID, CREATED_AT, UPDATED_AT, FOLDER_PATH, FILE_NAME, SHA_256'
+      );
+      let repointedTagMaps = 0;
+      for (const g of groups) {
+        for (const row of g.removed) {
+          repointedTagMaps += await ctx.run('UPDATE TAG_MAPS SET FILE_INFO_ID = ? WHERE FILE_INFO_ID = ?', [g.keepId, row.ID]);
+          await ctx.run('DELETE FROM FILE_INFOS WHERE ID = ?', [row.ID]);
+        }
+      }
+      await ctx.run(
+        `CREATE UNIQUE INDEX IF NOT EXISTS "UX_FILE_INFOS_SHA_256" ON "FILE_INFOS" (UPPER("SHA_256"))
+         WHERE "SHA_256" IS NOT NULL AND "SHA_256" <> ''`
+      );
+      return {
+        duplicateGroups: groups.length,
+        removedRows: groups.reduce((n, g) => n + g.removed.length, 0),
+        repointedTagMaps,
+        merged: groups
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'TAG_INFOS: NAME の重複を統合し、一意索引を追加',
+    up: async (ctx) => {
+      const groups = await findDuplicateGroups<TagInfo & { ID: number }>(
+        ctx,
+        'TAG_INFOS',
+        'NAME',
+        'NAME IS NOT NULL',
+        'ID, CREATED_AT, UPDATED_AT, NAME'
+      );
+      let repointedTagMaps = 0;
+      for (const g of groups) {
+        for (const row of g.removed) {
+          repointedTagMaps += await ctx.run('UPDATE TAG_MAPS SET TAG_ID = ? WHERE TAG_ID = ?', [g.keepId, row.ID]);
+          await ctx.run('DELETE FROM TAG_INFOS WHERE ID = ?', [row.ID]);
+        }
+      }
+      await ctx.run('CREATE UNIQUE INDEX IF NOT EXISTS "UX_TAG_INFOS_NAME" ON "TAG_INFOS" ("NAME")');
+      return {
+        duplicateGroups: groups.length,
+        removedRows: groups.reduce((n, g) => n + g.removed.length, 0),
+        repointedTagMaps,
+        merged: groups
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'TAG_MAPS: (FILE_INFO_ID, TAG_ID) の重複を削除し、一意索引とタグ検索用索引を追加',
+    up: async (ctx) => {
+      const groups = await findDuplicateGroups<TagMap & { ID: number }>(
+        ctx,
+        'TAG_MAPS',
+        "(FILE_INFO_ID || ':' || TAG_ID)",
+        'FILE_INFO_ID IS NOT NULL AND TAG_ID IS NOT NULL',
+        'ID, CREATED_AT, UPDATED_AT, FILE_INFO_ID, TAG_ID'
+      );
+      for (const g of groups) {
+        for (const row of g.removed) {
+          await ctx.run('DELETE FROM TAG_MAPS WHERE ID = ?', [row.ID]);
+        }
+      }
+      await ctx.run('CREATE UNIQUE INDEX IF NOT EXISTS "UX_TAG_MAPS_FILE_TAG" ON "TAG_MAPS" ("FILE_INFO_ID", "TAG_ID")');
+      await ctx.run('CREATE INDEX IF NOT EXISTS "IDX_TAG_MAPS_TAG" ON "TAG_MAPS" ("TAG_ID")');
+      return {
+        duplicateGroups: groups.length,
+        removedRows: groups.reduce((n, g) => n + g.removed.length, 0),
+        merged: groups
+      };
+    }
+  }
+];
+
+function fileDbTooNewMessage(version: number): string {
+  return `このファイルDBは新しいバージョンのアプリで更新されています（マイグレーション版数 ${version} / 対応版数 ${FILE_DB_SCHEMA_VERSION}）。アプリを更新するか、別のDBファイルを選択してください。`;
+}
+
 export class FileDatabase {
   private db: sqlite3.Database | null = null;
   private dbPath: string;
+  private appliedMigrations: FileDbMigrationResult[] = [];
 
   constructor(dbPath: string) {
     this.dbPath = dbPath;
@@ -59,6 +207,86 @@ export class FileDatabase {
     await new Promise<void>((resolve, reject) => {
       this.db!.exec(sql, (err) => (err ? reject(err) : resolve()));
     });
+    await this.migrateSchema();
+  }
+
+  private async migrateSchema(): Promise<void> {
+    await this.run(
+      `CREATE TABLE IF NOT EXISTS "${FILE_DB_MIGRATIONS_TABLE}" (
+        "VERSION" INTEGER PRIMARY KEY,
+        "DESCRIPTION" TEXT,
+        "APPLIED_AT" TEXT,
+        "REPORT" TEXT
+      )`
+    );
+    const current = await this.readMigrationVersion();
+    if (current > FILE_DB_SCHEMA_VERSION) {
+      throw new Error(fileDbTooNewMessage(current));
+    }
+    const ctx: FileDbMigrationContext = {
+      run: (sql, params) => this.run(sql, params),
+      all: (sql, params) => this.allQuery(sql, params)
+    };
+    for (const migration of FILE_DB_MIGRATIONS) {
+      if (migration.version <= current) continue;
+      const report = await this.withTransaction(async () => {
+        const result = await migration.up(ctx);
+        let reportStr: string | null = null;
+        try { reportStr = JSON.stringify(result ?? null); } catch { reportStr = null; }
+        await this.run(
+          `INSERT INTO "${FILE_DB_MIGRATIONS_TABLE}" (VERSION, DESCRIPTION, APPLIED_AT, REPORT) VALUES (?, ?, ?, ?)`,
+          [migration.version, migration.description, this.nowIso(), reportStr]
+        );
+        return result;
+      });
+      this.appliedMigrations.push({ version: migration.version, description: migration.description, report });
+    }
+  }
+
+  private async readMigrationVersion(): Promise<number> {
+    const row = await this.getQuery<{ v: number | null }>(`SELECT MAX(VERSION) AS v FROM "${FILE_DB_MIGRATIONS_TABLE}"`);
+    return Number(row?.v ?? 0) || 0;
+  }
+
+  /** 今回の init() で適用したマイグレーションとレポート（起動ログ用） */
+  getAppliedMigrations(): FileDbMigrationResult[] {
+    return [...this.appliedMigrations];
+  }
+
+  /**
+   * DBファイルを読み取り専用で開き、このアプリで扱えるマイグレーション版数かを調べる。
+   * 履歴テーブルがない（他ツールのみで使われていた）場合は版数0として扱う。
+   */
+  static async inspectSchemaVersion(dbPath: string): Promise<{ version: number; latestVersion: number; supported: boolean; message: string | null }> {
+    const latestVersion = FILE_DB_SCHEMA_VERSION;
+    if (!dbPath || !fs.existsSync(dbPath)) {
+      return { version: 0, latestVersion, supported: true, message: null };
+    }
+    const version = await new Promise<number>((resolve, reject) => {
+      const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY, (openErr) => {
+        if (openErr) return reject(openErr);
+        db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [FILE_DB_MIGRATIONS_TABLE], (err, row) => {
+          if (err || !row) return db.close(() => (err ? reject(err) : resolve(0)));
+          db.get(`SELECT MAX(VERSION) AS v FROM "${FILE_DB_MIGRATIONS_TABLE}"`, [], (err2, r2: any) => {
+            db.close(() => (err2 ? reject(err2) : resolve(Number(r2?.v ?? 0) || 0)));
+          });
+        });
+      });
+    });
+    const supported = version <= latestVersion;
+    return { version, latestVersion, supported, message: supported ? null : fileDbTooNewMessage(version) };
+  }
+
+  private async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    await this.run('BEGIN TRANSACTION');
+    try {
+      const result = await fn();
+      await this.run('COMMIT');
+      return result;
+    } catch (error) {
+      try { await this.run('ROLLBACK'); } catch {}
+      throw error;
+    }
   }
 
   private nowIso(): string {
@@ -103,7 +331,8 @@ export class FileDatabase {
 
   async insertFileInfo(folderPath: string, fileName: string, sha256: string): Promise<FileInfo> {
     const now = this.nowIso();
-    const sql = `INSERT INTO FILE_INFOS (CREATED_AT, UPDATED_AT, FOLDER_PATH, FILE_NAME, SHA_256) VALUES (?, ?, ?, ?, ?)`;
+    // UX_FILE_INFOS_SHA_256 により同時登録でも1行に収束する
+    const sql = `INSERT OR IGNORE INTO FILE_INFOS (CREATED_AT, UPDATED_AT, FOLDER_PATH, FILE_NAME, SHA_256) VALUES (?, ?, ?, ?, ?)`;
     await this.run(sql, [now, now, folderPath, fileName, sha256.toUpperCase()]);
     const created = await this.getFileInfoBySha256(sha256);
     if (!created) throw new Error('Failed to insert FILE_INFOS');
@@ -122,7 +351,7 @@ export class FileDatabase {
     const existing = await this.getTagInfoByName(name);
     if (existing) return existing;
     const now = this.nowIso();
-    const sql = `INSERT INTO TAG_INFOS (CREATED_AT, UPDATED_AT, NAME) VALUES (?, ?, ?)`;
+    const sql = `INSERT OR IGNORE INTO TAG_INFOS (CREATED_AT, UPDATED_AT, NAME) VALUES (?, ?, ?)`;
     await this.run(sql, [now, now, name]);
     const created = await this.getTagInfoByName(name);
     if (!created) throw new Error('Failed to insert TAG_INFOS');
@@ -130,11 +359,8 @@ export class FileDatabase {
   }
 
   async ensureTagMap(fileInfoId: number, tagId: number): Promise<void> {
-    const maps = await this.getTagMapsByFileId(fileInfoId);
-    const exists = maps.some(m => m.TAG_ID === tagId);
-    if (exists) return;
     const now = this.nowIso();
-    const sql = `INSERT INTO TAG_MAPS (CREATED_AT, UPDATED_AT, FILE_INFO_ID, TAG_ID) VALUES (?, ?, ?, ?)`;
+    const sql = `INSERT OR IGNORE INTO TAG_MAPS (CREATED_AT, UPDATED_AT, FILE_INFO_ID, TAG_ID) VALUES (?, ?, ?, ?)`;
     await this.run(sql, [now, now, fileInfoId, tagId]);
   }
 
@@ -164,7 +390,8 @@ export class FileDatabase {
 
   async getFileInfoBySha256(sha256: string): Promise<FileInfo | undefined> {
     return this.getQuery<FileInfo>(
-      'SELECT ID, CREATED_AT, UPDATED_AT, FOLDER_PATH, FILE_NAME, SHA_256 FROM FILE_INFOS WHERE UPPER(SHA_256) = UPPER(?)',
+      // 条件は UX_FILE_INFOS_SHA_256（部分索引）と揃える
+      "SELECT ID, CREATED_AT, UPDATED_AT, FOLDER_PATH, FILE_NAME, SHA_256 FROM FILE_INFOS WHERE UPPER(SHA_256) = UPPER(?) AND SHA_256 IS NOT NULL AND SHA_256 <> ''",
       [sha256]
     );
   }
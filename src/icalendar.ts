@@ -0,0 +1,367 @@
+// iCalendar（RFC 5545）テキストの組み立てと解析（純粋関数）
+// 日時はタイムゾーンを持たない「フローティング時刻」で出力する（アプリ内の日時と同じくローカル時刻として扱われる）。
+import { parseRRule, recurrencePayloadFromRRule } from './renderer/rrule';
+
+export type ICalComponentKind = 'VEVENT' | 'VTODO';
+
+export type ICalEntry = {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  categories?: string[];
+  // 'YYYY-MM-DD'。time が無い（または '00:00'）場合は終日扱い
+  date: string;
+  time?: string | null;
+  status?: 'pending' | 'done';
+  completedAt?: string | null;
+  // 繰り返し（1件のマスターとして出力する場合）
+  rrule?: string | null;
+  exdates?: string[];
+  // 振替などの個別変更（マスターと同じ uid で出力する）
+  recurrenceId?: string | null;
+  // EXDATE / RECURRENCE-ID の時刻（マスターの DTSTART と型を揃える）
+  seriesTime?: string | null;
+};
+
+export const ICAL_PRODID = '-//NyanTaskNotes//NyanTaskNotes//JA';
+export const ICAL_UID_DOMAIN = 'nyantasknotes';
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+export function escapeICalText(value: string): string {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// 75オクテットで折り返す（UTF-8 の文字の途中では切らない）
+export function foldICalLine(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, 'utf8');
+    const limit = out.length === 0 ? 75 : 74; // 継続行は先頭の空白1文字分を差し引く
+    if (bytes + size > limit) {
+      out.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+function isAllDay(time?: string | null): boolean {
+  return !time || time === '00:00';
+}
+
+function formatICalDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+function formatICalDateTime(date: string, time: string): string {
+  const [hh, mi] = time.split(':');
+  return `${formatICalDate(date)}T${pad2(Number(hh || 0))}${pad2(Number(mi || 0))}00`;
+}
+
+export function formatICalUtc(value: Date): string {
+  return `${value.getUTCFullYear()}${pad2(value.getUTCMonth() + 1)}${pad2(value.getUTCDate())}T${pad2(value.getUTCHours())}${pad2(value.getUTCMinutes())}${pad2(value.getUTCSeconds())}Z`;
+}
+
+function dateProperty(name: string, date: string, time?: string | null): string {
+  return isAllDay(time) ? `${name};VALUE=DATE:${formatICalDate(date)}` : `${name}:${formatICalDateTime(date, time as string)}`;
+}
+
+function nextDay(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const next = new Date(y, m - 1, d + 1);
+  return `${next.getFullYear()}-${pad2(next.getMonth() + 1)}-${pad2(next.getDate())}`;
+}
+
+function buildComponent(entry: ICalEntry, kind: ICalComponentKind, stamp: string): string[] {
+  const lines: string[] = [`BEGIN:${kind}`, `UID:${entry.uid}`, `DTSTAMP:${stamp}`];
+  if (entry.recurrenceId) lines.push(dateProperty('RECURRENCE-ID', entry.recurrenceId, entry.seriesTime));
+  if (kind === 'VEVENT') {
+    lines.push(dateProperty('DTSTART', entry.date, entry.time));
+    if (isAllDay(entry.time)) lines.push(dateProperty('DTEND', nextDay(entry.date), null));
+  } else {
+    // RRULE を持つ VTODO は DTSTART が必須。単独の回は期日（DUE）として出力する
+    lines.push(dateProperty(entry.rrule ? 'DTSTART' : 'DUE', entry.date, entry.time));
+  }
+  if (entry.rrule) lines.push(`RRULE:${entry.rrule}`);
+  for (const ex of entry.exdates || []) lines.push(dateProperty('EXDATE', ex, entry.seriesTime ?? entry.time));
+  lines.push(`SUMMARY:${escapeICalText(entry.summary)}`);
+  if (entry.description) lines.push(`DESCRIPTION:${escapeICalText(entry.description)}`);
+  if (entry.categories && entry.categories.length) {
+    lines.push(`CATEGORIES:${entry.categories.map(escapeICalText).join(',')}`);
+  }
+  if (kind === 'VTODO') {
+    if (entry.status === 'done') {
+      lines.push('STATUS:COMPLETED');
+      const completed = entry.completedAt ? new Date(entry.completedAt) : null;
+      if (completed && !isNaN(completed.getTime())) lines.push(`COMPLETED:${formatICalUtc(completed)}`);
+    } else {
+      lines.push('STATUS:NEEDS-ACTION');
+    }
+  } else {
+    lines.push('STATUS:CONFIRMED');
+  }
+  lines.push(`END:${kind}`);
+  return lines;
+}
+
+export function buildICalendar(entries: ICalEntry[], options: { component: ICalComponentKind; now?: Date }): string {
+  const stamp = formatICalUtc(options.now ?? new Date());
+  const lines: string[] = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICAL_PRODID}`, 'CALSCALE:GREGORIAN'];
+  for (const entry of entries) lines.push(...buildComponent(entry, options.component, stamp));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+// ---- 取り込み ----
+
+export type ICalProperty = { name: string; params: Record<string, string>; value: string };
+export type ICalComponent = { kind: ICalComponentKind; props: ICalProperty[] };
+
+// 取り込み候補1件。payload は TaskDatabase.createTask() にそのまま渡す。
+export type ICalImportItem = {
+  uid: string | null;
+  title: string;
+  date: string | null;
+  time: string | null;
+  // 'recurring'=繰り返しとして作成 / 'single'=1回のみのタスクとして作成 / 'skip'=取り込めない
+  mode: 'recurring' | 'single' | 'skip';
+  rrule: string | null;
+  exceptionCount: number;
+  // 表現できない要素（繰り返しを1回のみに落とした理由など）
+  issues: string[];
+  // 意味の差異など注意点（取り込みは可能）
+  notes: string[];
+  payload: any | null;
+};
+
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+// 'NAME;PARAM=a;PARAM="b:c":VALUE' を分解する（引用符内の区切りは無視）
+function parseContentLine(line: string): ICalProperty | null {
+  let inQuote = false;
+  const cuts: number[] = [];
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuote = !inQuote;
+    else if (!inQuote && ch === ';') cuts.push(i);
+    else if (!inQuote && ch === ':') { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const head = line.slice(0, colon);
+  const segments: string[] = [];
+  let prev = 0;
+  for (const c of cuts) { segments.push(head.slice(prev, c)); prev = c + 1; }
+  segments.push(head.slice(prev));
+  const params: Record<string, string> = {};
+  for (const seg of segments.slice(1)) {
+    const eq = seg.indexOf('=');
+    if (eq <= 0) continue;
+    params[seg.slice(0, eq).toUpperCase()] = seg.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: segments[0].toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// VEVENT / VTODO を取り出す（VALARM など入れ子のコンポーネントの内容は含めない）
+export function parseICalendar(text: string): ICalComponent[] {
+  const unfolded = String(text || '').replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '');
+  const stack: string[] = [];
+  const out: ICalComponent[] = [];
+  let current: ICalComponent | null = null;
+  for (const raw of unfolded.split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+    const prop = parseContentLine(raw);
+    if (!prop) continue;
+    if (prop.name === 'BEGIN') {
+      const name = prop.value.trim().toUpperCase();
+      stack.push(name);
+      if ((name === 'VEVENT' || name === 'VTODO') && stack.length === 2) current = { kind: name, props: [] };
+      continue;
+    }
+    if (prop.name === 'END') {
+      const name = stack.pop();
+      if (current && (name === 'VEVENT' || name === 'VTODO') && stack.length === 1) {
+        out.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (current && stack.length === 2) current.props.push(prop);
+  }
+  return out;
+}
+
+function firstProp(comp: ICalComponent, name: string): ICalProperty | undefined {
+  return comp.props.find(p => p.name === name);
+}
+
+// DATE / DATE-TIME の値をローカルの日付・時刻に変換する。TZID は無視し記載の時刻をそのまま使う。
+export function parseICalDateValue(prop: ICalProperty, raw?: string): { date: string; time: string | null } | null {
+  const value = (raw ?? prop.value).trim();
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!m) return null;
+  const [, y, mo, d, hh, mi, , z] = m;
+  if (prop.params.VALUE === 'DATE' || hh == null) return { date: `${y}-${mo}-${d}`, time: null };
+  if (!z) return { date: `${y}-${mo}-${d}`, time: `${hh}:${mi}` };
+  const local = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(hh), Number(mi)));
+  return {
+    date: `${local.getFullYear()}-${pad2(local.getMonth() + 1)}-${pad2(local.getDate())}`,
+    time: `${pad2(local.getHours())}:${pad2(local.getMinutes())}`
+  };
+}
+
+function parseICalDateList(comp: ICalComponent, name: string): Array<{ date: string; time: string | null }> {
+  const res: Array<{ date: string; time: string | null }> = [];
+  for (const prop of comp.props.filter(p => p.name === name)) {
+    for (const v of prop.value.split(',')) {
+      const parsed = parseICalDateValue(prop, v);
+      if (parsed) res.push(parsed);
+    }
+  }
+  return res;
+}
+
+function textProp(comp: ICalComponent, name: string): string {
+  const prop = firstProp(comp, name);
+  return prop ? unescapeICalText(prop.value).trim() : '';
+}
+
+function categoriesOf(comp: ICalComponent): string[] {
+  const tags: string[] = [];
+  for (const prop of comp.props.filter(p => p.name === 'CATEGORIES')) {
+    // 区切りのカンマ（エスケープされていないもの）で分割する
+    for (const part of prop.value.split(/(?<!\\),/)) {
+      const tag = unescapeICalText(part).trim();
+      if (tag && !tags.includes(tag)) tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+const SINGLE_ONLY_PREFIX = '1回のみのタスクとして取り込みます';
+
+// .ics のテキストから取り込み候補を作る（DBには書き込まない）
+export function planICalendarImport(text: string): ICalImportItem[] {
+  const comps = parseICalendar(text);
+  const items: ICalImportItem[] = [];
+  const masters = new Map<string, ICalImportItem>();
+  const overrides: Array<{ uid: string; comp: ICalComponent }> = [];
+
+  for (const comp of comps) {
+    const uid = textProp(comp, 'UID') || null;
+    if (uid && firstProp(comp, 'RECURRENCE-ID')) {
+      overrides.push({ uid, comp });
+      continue;
+    }
+    const title = textProp(comp, 'SUMMARY') || '(無題)';
+    const issues: string[] = [];
+    const notes: string[] = [];
+    const startProp = firstProp(comp, 'DTSTART') || (comp.kind === 'VTODO' ? firstProp(comp, 'DUE') : undefined);
+    const start = startProp ? parseICalDateValue(startProp) : null;
+    const item: ICalImportItem = { uid, title, date: start?.date ?? null, time: start?.time ?? null, mode: 'single', rrule: null, exceptionCount: 0, issues, notes, payload: null };
+    items.push(item);
+    if (!start) {
+      item.mode = 'skip';
+      issues.push('開始日（DTSTART / DUE）が無いか形式が不正なため取り込めません');
+      continue;
+    }
+    if (textProp(comp, 'STATUS').toUpperCase() === 'CANCELLED') {
+      item.mode = 'skip';
+      issues.push('キャンセル済み（STATUS:CANCELLED）のため取り込みません');
+      continue;
+    }
+    if (startProp && startProp.params.TZID) notes.push(`TZID=${startProp.params.TZID} は無視し、記載の日時をそのまま使用します`);
+    if (comp.kind === 'VTODO' && textProp(comp, 'STATUS').toUpperCase() === 'COMPLETED') notes.push('完了状態は取り込みません（未完了として作成します）');
+    const base = {
+      title,
+      description: textProp(comp, 'DESCRIPTION') || null,
+      tags: categoriesOf(comp),
+      startDate: start.date,
+      startTime: start.time
+    };
+
+    const rruleProps = comp.props.filter(p => p.name === 'RRULE');
+    if (rruleProps.length) {
+      item.rrule = rruleProps.map(p => p.value).join('\n');
+      const parsed = rruleProps.length === 1
+        ? parseRRule(rruleProps[0].value, { startDate: start.date })
+        : { rule: null, errors: ['RRULE が複数あります（複数ルールは未対応です）'], notes: [] };
+      notes.push(...parsed.notes);
+      if (parsed.rule) {
+        const exceptions = parseICalDateList(comp, 'EXDATE').map(ex => ({ date: ex.date, action: 'skip' as const }));
+        item.mode = 'recurring';
+        item.exceptionCount = exceptions.length;
+        item.payload = { ...base, isRecurring: true, recurrence: recurrencePayloadFromRRule(parsed.rule), recurrenceExceptions: exceptions };
+        if (uid) masters.set(uid, item);
+      } else {
+        issues.push(...parsed.errors, `${SINGLE_ONLY_PREFIX}（初回: ${start.date}）`);
+      }
+    }
+    if (item.mode === 'single') {
+      item.payload = { ...base, isRecurring: false, dueAt: start.date };
+    }
+    // RDATE（追加の日付）は1回のみのタスクとして追加する
+    for (const rd of parseICalDateList(comp, 'RDATE')) {
+      items.push({
+        uid, title, date: rd.date, time: rd.time ?? start.time, mode: 'single', rrule: null, exceptionCount: 0,
+        issues: [`RDATE（追加日付）のため${SINGLE_ONLY_PREFIX}`], notes: [],
+        payload: { ...base, isRecurring: false, dueAt: rd.date, startDate: rd.date, startTime: rd.time ?? start.time }
+      });
+    }
+  }
+
+  // RECURRENCE-ID 付き（個別に変更された回）は、繰り返しとして取り込むマスターの例外にする
+  for (const { uid, comp } of overrides) {
+    const ridProp = firstProp(comp, 'RECURRENCE-ID') as ICalProperty;
+    const rid = parseICalDateValue(ridProp);
+    const startProp = firstProp(comp, 'DTSTART') || firstProp(comp, 'DUE');
+    const start = startProp ? parseICalDateValue(startProp) : null;
+    const master = masters.get(uid);
+    const cancelled = textProp(comp, 'STATUS').toUpperCase() === 'CANCELLED';
+    if (master && rid) {
+      const exceptions: any[] = master.payload.recurrenceExceptions;
+      const rest = exceptions.filter(ex => ex.date !== rid.date);
+      if (cancelled || !start) {
+        rest.push({ date: rid.date, action: 'skip' });
+      } else if (start.date !== rid.date || (start.time ?? null) !== (master.time ?? null)) {
+        rest.push({ date: rid.date, action: 'reschedule', newDate: start.date, newTime: start.time });
+      } else {
+        master.notes.push(`${rid.date} の回の内容変更（日時以外）は取り込みません`);
+      }
+      master.payload.recurrenceExceptions = rest;
+      master.exceptionCount = rest.length;
+      continue;
+    }
+    const title = textProp(comp, 'SUMMARY') || '(無題)';
+    const item: ICalImportItem = {
+      uid, title, date: start?.date ?? null, time: start?.time ?? null, mode: 'single', rrule: null, exceptionCount: 0,
+      issues: [`繰り返しのマスターが無い個別変更（RECURRENCE-ID）のため${SINGLE_ONLY_PREFIX}`], notes: [], payload: null
+    };
+    if (!start || cancelled) {
+      item.mode = 'skip';
+      item.issues = [cancelled ? 'キャンセルされた回のため取り込みません' : '開始日が無いため取り込めません'];
+    } else {
+      item.payload = {
+        title, description: textProp(comp, 'DESCRIPTION') || null, tags: categoriesOf(comp),
+        isRecurring: false, dueAt: start.date, startDate: start.date, startTime: start.time
+      };
+    }
+    items.push(item);
+  }
+  return items;
+}
@@ -0,0 +1,56 @@
+import { dialog, ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import type { TaskDbBackupService } from '../taskDbBackup';
+
+export function registerBackupIpcHandlers(opts: {
+  backup: TaskDbBackupService;
+  getMainWindow: () => BrowserWindow | null;
+}): void {
+  const { backup, getMainWindow } = opts;
+
+  ipcMain.handle('backup:list', async () => {
+    try {
+      const entries = await backup.listBackups();
+      return { success: true, dir: backup.getBackupDir(), settings: backup.getSettings(), entries };
+    } catch (e: any) {
+      log.error('backup:list error', e);
+      return { success: false, message: e?.message || 'バックアップ一覧の取得に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('backup:run-now', async () => {
+    try {
+      const entry = await backup.backupNow('manual');
+      if (!entry) return { success: false, message: 'タスクDBが初期化されていません' };
+      return { success: true, entry };
+    } catch (e: any) {
+      log.error('backup:run-now error', e);
+      return { success: false, message: e?.message || 'バックアップに失敗しました' };
+    }
+  });
+
+  ipcMain.handle('backup:restore', async (_event, fileName: string) => {
+    try {
+      const result = await backup.restore(String(fileName || ''));
+      return { success: true, ...result };
+    } catch (e: any) {
+      log.error('backup:restore error', e);
+      return { success: false, message: e?.message || '復元に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('backup:select-dir', async () => {
+    const mainWindow = getMainWindow();
+    const options: Electron.OpenDialogOptions = {
+      title: 'バックアップの保存先フォルダを選択',
+      properties: ['openDirectory', 'createDirectory']
+    };
+    const result = mainWindow
+      ? await dialog.showOpenDialog(mainWindow, options)
+      : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) {
+      return { dirPath: null, canceled: true };
+    }
+    return { dirPath: result.filePaths[0], canceled: false };
+  });
+}
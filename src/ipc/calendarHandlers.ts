@@ -0,0 +1,139 @@
+import { dialog, ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TaskDatabase } from '../taskDatabase';
+import { decodeCsvBuffer, parseCsv } from '../taskCsv';
+import type { CsvImportEncoding } from '../taskCsv';
+import { planCalendarCsvImport, planCalendarIcsImport } from '../taskCalendar';
+import type { CalendarEntryInput } from '../taskCalendar';
+
+export function registerCalendarIpcHandlers(opts: {
+  taskDb: () => TaskDatabase | null;
+  getMainWindow: () => BrowserWindow | null;
+}): void {
+  const getTaskDb = opts.taskDb;
+  const { getMainWindow } = opts;
+
+  ipcMain.handle('calendars:list', async () => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      return { success: true, calendars: await db.listCalendars() };
+    } catch (e: any) {
+      log.error('calendars:list error', e);
+      return { success: false, message: e?.message || 'カレンダーの取得に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('calendars:entries', async (_event, calendarId: number) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      return { success: true, entries: await db.listCalendarEntries(Number(calendarId)) };
+    } catch (e: any) {
+      log.error('calendars:entries error', e);
+      return { success: false, message: e?.message || '休業日の取得に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('calendars:closed-dates', async (_event, calendarId: number) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      return { success: true, dates: await db.listCalendarClosedDates(Number(calendarId)) };
+    } catch (e: any) {
+      log.error('calendars:closed-dates error', e);
+      return { success: false, message: e?.message || '休業日の取得に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('calendars:create', async (_event, params: { name: string; description?: string | null }) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      return { success: true, id: await db.createCalendar(params || ({} as any)) };
+    } catch (e: any) {
+      log.error('calendars:create error', e);
+      return { success: false, message: e?.message || 'カレンダーの作成に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('calendars:update', async (_event, calendarId: number, params: { name: string; description?: string | null }) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      await db.updateCalendar(Number(calendarId), params || ({} as any));
+      return { success: true };
+    } catch (e: any) {
+      log.error('calendars:update error', e);
+      return { success: false, message: e?.message || 'カレンダーの更新に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('calendars:delete', async (_event, calendarId: number) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      await db.deleteCalendar(Number(calendarId));
+      return { success: true };
+    } catch (e: any) {
+      log.error('calendars:delete error', e);
+      return { success: false, message: e?.message || 'カレンダーの削除に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('calendars:add-entries', async (_event, calendarId: number, entries: CalendarEntryInput[]) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const result = await db.addCalendarEntries(Number(calendarId), Array.isArray(entries) ? entries : []);
+      return { success: true, ...result };
+    } catch (e: any) {
+      log.error('calendars:add-entries error', e);
+      return { success: false, message: e?.message || '休業日の追加に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('calendars:delete-entry', async (_event, entryId: number) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      await db.deleteCalendarEntry(Number(entryId));
+      return { success: true };
+    } catch (e: any) {
+      log.error('calendars:delete-entry error', e);
+      return { success: false, message: e?.message || '休業日の削除に失敗しました' };
+    }
+  });
+
+  // 取り込み: CSV / .ics を選択して休業期間の候補（プレビュー）を返す。DBには書き込まない。
+  // 追加は calendars:add-entries で行う
+  ipcMain.handle('calendars:import-preview', async (_event, params: { encoding: CsvImportEncoding }) => {
+    try {
+      const mainWindow = getMainWindow();
+      const options: Electron.OpenDialogOptions = {
+        title: '取り込む休業日ファイルを選択',
+        properties: ['openFile'],
+        filters: [
+          { name: 'CSV / iCalendar', extensions: ['csv', 'ics', 'ical'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      };
+      const picked = mainWindow
+        ? await dialog.showOpenDialog(mainWindow, options)
+        : await dialog.showOpenDialog(options);
+      if (picked.canceled || picked.filePaths.length === 0) return { success: false, canceled: true };
+      const filePath = picked.filePaths[0];
+      const data = await fs.promises.readFile(filePath);
+      const ext = path.extname(filePath).toLowerCase();
+      const items = ext === '.ics' || ext === '.ical'
+        ? planCalendarIcsImport(data.toString('utf8'))
+        : planCalendarCsvImport(parseCsv(decodeCsvBuffer(data, params?.encoding || 'auto').text));
+      return { success: true, filePath, items };
+    } catch (e: any) {
+      log.error('calendars:import-preview error', e);
+      return { success: false, message: e?.message || '休業日ファイルの読み込みに失敗しました' };
+    }
+  });
+}
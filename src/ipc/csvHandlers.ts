@@ -0,0 +1,173 @@
+import { app, dialog, ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TaskDatabase } from '../taskDatabase';
+import {
+  CSV_IMPORT_FIELDS,
+  buildOccurrenceHistoryCsvRows,
+  buildTasksCsvRows,
+  decodeCsvBuffer,
+  encodeCsvText,
+  formatCsv,
+  parseCsv,
+  planCsvImport,
+  planDateListCsvImport,
+  suggestCsvMapping
+} from '../taskCsv';
+import type { CsvExportEncoding, CsvImportEncoding, CsvImportMapping } from '../taskCsv';
+
+type CsvImportParams = { filePath: string; encoding: CsvImportEncoding; hasHeader: boolean; mapping: CsvImportMapping };
+
+export function registerCsvIpcHandlers(opts: {
+  taskDb: () => TaskDatabase | null;
+  getMainWindow: () => BrowserWindow | null;
+}): void {
+  const getTaskDb = opts.taskDb;
+  const { getMainWindow } = opts;
+
+  async function saveCsv(rows: any[][], defaultName: string, encoding: CsvExportEncoding) {
+    const mainWindow = getMainWindow();
+    const options: Electron.SaveDialogOptions = {
+      title: 'CSVファイルの保存先を選択',
+      defaultPath: path.join(app.getPath('documents'), defaultName),
+      filters: [
+        { name: 'CSV', extensions: ['csv'] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    };
+    const saved = mainWindow
+      ? await dialog.showSaveDialog(mainWindow, options)
+      : await dialog.showSaveDialog(options);
+    if (saved.canceled || !saved.filePath) return { success: false, canceled: true };
+    const { data, unmappable } = encodeCsvText(formatCsv(rows), encoding === 'shift_jis' ? 'shift_jis' : 'utf8bom');
+    await fs.promises.writeFile(saved.filePath, data);
+    return { success: true, filePath: saved.filePath, rowCount: rows.length - 1, unmappable };
+  }
+
+  async function readCsvRows(filePath: string, encoding: CsvImportEncoding) {
+    const decoded = decodeCsvBuffer(await fs.promises.readFile(filePath), encoding);
+    return { rows: parseCsv(decoded.text), encoding: decoded.encoding };
+  }
+
+  function planFromParams(rows: string[][], params: CsvImportParams) {
+    const body = params.hasHeader ? rows.slice(1) : rows;
+    return planCsvImport(body, params.mapping || {}, { firstRowNumber: params.hasHeader ? 2 : 1 });
+  }
+
+  ipcMain.handle('csv:export-tasks', async (_event, params: { encoding: CsvExportEncoding }) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const tasks = await db.listTasks({});
+      return await saveCsv(buildTasksCsvRows(tasks), 'nyantasknotes_tasks.csv', params?.encoding);
+    } catch (e: any) {
+      log.error('csv:export-tasks error', e);
+      return { success: false, message: e?.message || 'CSVの書き出しに失敗しました' };
+    }
+  });
+
+  ipcMain.handle('csv:export-history', async (_event, params: { from: string; to: string; encoding: CsvExportEncoding }) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const rows = await db.listOccurrenceHistory({ from: params.from, to: params.to });
+      const name = `nyantasknotes_history_${params.from.replace(/-/g, '')}-${params.to.replace(/-/g, '')}.csv`;
+      return await saveCsv(buildOccurrenceHistoryCsvRows(rows), name, params.encoding);
+    } catch (e: any) {
+      log.error('csv:export-history error', e);
+      return { success: false, message: e?.message || 'CSVの書き出しに失敗しました' };
+    }
+  });
+
+  async function pickCsvFile(title: string): Promise<string | null> {
+    const mainWindow = getMainWindow();
+    const options: Electron.OpenDialogOptions = {
+      title,
+      properties: ['openFile'],
+      filters: [
+        { name: 'CSV', extensions: ['csv', 'txt'] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    };
+    const picked = mainWindow
+      ? await dialog.showOpenDialog(mainWindow, options)
+      : await dialog.showOpenDialog(options);
+    return picked.canceled || picked.filePaths.length === 0 ? null : picked.filePaths[0];
+  }
+
+  // 取り込み: ファイルを選択して見出し・先頭行と推定した列の対応付けを返す。DBには書き込まない。
+  ipcMain.handle('csv:import-open', async (_event, params: { encoding: CsvImportEncoding }) => {
+    try {
+      const filePath = await pickCsvFile('取り込むCSVファイルを選択');
+      if (!filePath) return { success: false, canceled: true };
+      const { rows, encoding } = await readCsvRows(filePath, params?.encoding || 'auto');
+      if (!rows.length) return { success: false, message: 'CSVにデータがありません' };
+      return {
+        success: true,
+        filePath,
+        encoding,
+        headers: rows[0],
+        sampleRows: rows.slice(1, 6),
+        rowCount: rows.length,
+        fields: CSV_IMPORT_FIELDS.map(({ key, label, required }) => ({ key, label, required: !!required })),
+        suggestedMapping: suggestCsvMapping(rows[0])
+      };
+    } catch (e: any) {
+      log.error('csv:import-open error', e);
+      return { success: false, message: e?.message || 'CSVの読み込みに失敗しました' };
+    }
+  });
+
+  // 日付リストの取り込み: 選択した CSV の日付・時刻を返す（DBには書き込まない。編集画面の日付リスト欄に反映して保存する）
+  ipcMain.handle('csv:import-date-list', async (_event, params: { encoding: CsvImportEncoding }) => {
+    try {
+      const filePath = await pickCsvFile('日付リストのCSVファイルを選択');
+      if (!filePath) return { success: false, canceled: true };
+      const { rows, encoding } = await readCsvRows(filePath, params?.encoding || 'auto');
+      if (!rows.length) return { success: false, message: 'CSVにデータがありません' };
+      return { success: true, filePath, encoding, ...planDateListCsvImport(rows) };
+    } catch (e: any) {
+      log.error('csv:import-date-list error', e);
+      return { success: false, message: e?.message || 'CSVの読み込みに失敗しました' };
+    }
+  });
+
+  // 取り込み: 対応付けに従って作成内容を確認する（DBには書き込まない）
+  ipcMain.handle('csv:import-plan', async (_event, params: CsvImportParams) => {
+    try {
+      const { rows } = await readCsvRows(params.filePath, params.encoding);
+      return { success: true, items: planFromParams(rows, params) };
+    } catch (e: any) {
+      log.error('csv:import-plan error', e);
+      return { success: false, message: e?.message || 'CSVの読み込みに失敗しました' };
+    }
+  });
+
+  ipcMain.handle('csv:import-commit', async (_event, params: CsvImportParams) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const { rows } = await readCsvRows(params.filePath, params.encoding);
+      const created: number[] = [];
+      const failed: Array<{ rowNumber: number; title: string; message: string }> = [];
+      let skipped = 0;
+      for (const item of planFromParams(rows, params)) {
+        if (item.mode === 'skip' || !item.payload) {
+          skipped++;
+          continue;
+        }
+        try {
+          created.push(await db.createTask(item.payload));
+        } catch (e: any) {
+          log.error('csv:import-commit error', e);
+          failed.push({ rowNumber: item.rowNumber, title: item.title, message: e?.message || 'タスクの作成に失敗しました' });
+        }
+      }
+      return { success: failed.length === 0, created: created.length, skipped, failed };
+    } catch (e: any) {
+      log.error('csv:import-commit error', e);
+      return { success: false, message: e?.message || 'CSVの取り込みに失敗しました' };
+    }
+  });
+}
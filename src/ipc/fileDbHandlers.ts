@@ -4,7 +4,7 @@ import * as fs from 'fs';
 import * as crypto from 'crypto';
 import log from 'electron-log';
 import type Store from 'electron-store';
-import type { FileDatabase } from '../fileDatabase';
+import { FileDatabase } from '../fileDatabase';
 
 export function registerFileDbIpcHandlers(opts: {
   fileDb: () => FileDatabase | null;
@@ -35,7 +35,26 @@ export function registerFileDbIpcHandlers(opts: {
     if (result.canceled || result.filePaths.length === 0) {
       return { filePath: null, canceled: true };
     }
-    return { filePath: result.filePaths[0], canceled: false };
+    const filePath = result.filePaths[0];
+    try {
+      const info = await FileDatabase.inspectSchemaVersion(filePath);
+      if (!info.supported) return { filePath: null, canceled: false, message: info.message };
+    } catch (e) {
+      log.error('select-file-db-path inspect error', e);
+      return { filePath: null, canceled: false, message: `ファイルDBとして開けません: ${(e as any)?.message || String(e)}` };
+    }
+    return { filePath, canceled: false };
+  });
+
+  // 指定パスのファイルDBがこのアプリのマイグレーション版数で扱えるかを確認（設定保存前のチェック用）
+  ipcMain.handle('filedb:inspect-db-version', async (_event, filePath: string) => {
+    try {
+      const info = await FileDatabase.inspectSchemaVersion(String(filePath || ''));
+      return { success: true, ...info };
+    } catch (e: any) {
+      log.error('filedb:inspect-db-version error', e);
+      return { success: false, message: `ファイルDBとして開けません: ${e?.message || String(e)}` };
+    }
   });
 
   async function calculateFileSha256(filePath: string): Promise<string> {
@@ -0,0 +1,85 @@
+import { app, dialog, ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TaskDatabase } from '../taskDatabase';
+import { planICalendarImport } from '../icalendar';
+import type { ICalComponentKind, ICalImportItem } from '../icalendar';
+
+export function registerIcsIpcHandlers(opts: {
+  taskDb: () => TaskDatabase | null;
+  getMainWindow: () => BrowserWindow | null;
+}): void {
+  const getTaskDb = opts.taskDb;
+  const { getMainWindow } = opts;
+
+  ipcMain.handle('ics:export', async (_event, params: { from: string; to: string; component?: ICalComponentKind; recurringAsRule?: boolean }) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const result = await db.exportICalendar(params);
+      const mainWindow = getMainWindow();
+      const options: Electron.SaveDialogOptions = {
+        title: 'iCalendarファイルの保存先を選択',
+        defaultPath: path.join(app.getPath('documents'), `nyantasknotes_${params.from.replace(/-/g, '')}-${params.to.replace(/-/g, '')}.ics`),
+        filters: [
+          { name: 'iCalendar', extensions: ['ics'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      };
+      const saved = mainWindow
+        ? await dialog.showSaveDialog(mainWindow, options)
+        : await dialog.showSaveDialog(options);
+      if (saved.canceled || !saved.filePath) return { success: false, canceled: true };
+      await fs.promises.writeFile(saved.filePath, result.text, 'utf8');
+      return { success: true, filePath: saved.filePath, occurrenceCount: result.occurrenceCount, ruleCount: result.ruleCount };
+    } catch (e: any) {
+      log.error('ics:export error', e);
+      return { success: false, message: e?.message || 'iCalendarの書き出しに失敗しました' };
+    }
+  });
+
+  // 取り込み: ファイルを選択して取り込み候補（プレビュー）を返す。DBには書き込まない。
+  ipcMain.handle('ics:import-preview', async () => {
+    try {
+      const mainWindow = getMainWindow();
+      const options: Electron.OpenDialogOptions = {
+        title: '取り込むiCalendarファイルを選択',
+        properties: ['openFile'],
+        filters: [
+          { name: 'iCalendar', extensions: ['ics', 'ical', 'ifb'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      };
+      const picked = mainWindow
+        ? await dialog.showOpenDialog(mainWindow, options)
+        : await dialog.showOpenDialog(options);
+      if (picked.canceled || picked.filePaths.length === 0) return { success: false, canceled: true };
+      const filePath = picked.filePaths[0];
+      const text = await fs.promises.readFile(filePath, 'utf8');
+      const items = planICalendarImport(text);
+      return { success: true, filePath, items };
+    } catch (e: any) {
+      log.error('ics:import-preview error', e);
+      return { success: false, message: e?.message || 'iCalendarの読み込みに失敗しました' };
+    }
+  });
+
+  // 取り込み: プレビューで選択された候補をタスクとして作成する
+  ipcMain.handle('ics:import-commit', async (_event, items: ICalImportItem[]) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    const created: number[] = [];
+    const failed: Array<{ title: string; message: string }> = [];
+    for (const item of Array.isArray(items) ? items : []) {
+      if (!item || item.mode === 'skip' || !item.payload) continue;
+      try {
+        created.push(await db.createTask(item.payload));
+      } catch (e: any) {
+        log.error('ics:import-commit error', e);
+        failed.push({ title: item.title, message: e?.message || 'タスクの作成に失敗しました' });
+      }
+    }
+    return { success: failed.length === 0, created: created.length, failed };
+  });
+}
@@ -2,17 +2,29 @@ import type { BrowserWindow } from 'electron';
 import type Store from 'electron-store';
 import type { FileDatabase } from '../fileDatabase';
 import type { TaskDatabase } from '../taskDatabase';
+import type { TaskDbBackupService } from '../taskDbBackup';
 import { registerFileDbIpcHandlers } from './fileDbHandlers';
 import { registerTaskIpcHandlers } from './taskHandlers';
 import { registerTaskFileHandlers } from './taskFileHandlers';
+import { registerIcsIpcHandlers } from './icsHandlers';
+import { registerBackupIpcHandlers } from './backupHandlers';
+import { registerTaskJsonIpcHandlers } from './taskJsonHandlers';
+import { registerCsvIpcHandlers } from './csvHandlers';
+import { registerCalendarIpcHandlers } from './calendarHandlers';
 
 export function registerIpcHandlers(opts: {
   fileDb: () => FileDatabase | null;
   taskDb: () => TaskDatabase | null;
   store: Store<any>;
+  backup: TaskDbBackupService;
   getMainWindow: () => BrowserWindow | null;
 }): void {
   registerFileDbIpcHandlers(opts);
   registerTaskIpcHandlers(opts as any);
   registerTaskFileHandlers(opts);
+  registerIcsIpcHandlers(opts);
+  registerBackupIpcHandlers(opts);
+  registerTaskJsonIpcHandlers(opts);
+  registerCsvIpcHandlers(opts);
+  registerCalendarIpcHandlers(opts);
 }
@@ -1,7 +1,7 @@
 import { app, dialog, ipcMain, BrowserWindow } from 'electron';
 import log from 'electron-log';
 import type Store from 'electron-store';
-import type { TaskDatabase } from '../taskDatabase';
+import { TaskDatabase } from '../taskDatabase';
 import * as path from 'path';
 
 export function registerTaskIpcHandlers(opts: {
@@ -30,7 +30,26 @@ export function registerTaskIpcHandlers(opts: {
     if (result.canceled || result.filePaths.length === 0) {
       return { filePath: null, canceled: true };
     }
-    return { filePath: result.filePaths[0], canceled: false };
+    const filePath = result.filePaths[0];
+    try {
+      const info = await TaskDatabase.inspectSchemaVersion(filePath);
+      if (!info.supported) return { filePath: null, canceled: false, message: info.message };
+    } catch (e) {
+      log.error('select-task-db-path inspect error', e);
+      return { filePath: null, canceled: false, message: `タスクDBとして開けません: ${(e as any)?.message || String(e)}` };
+    }
+    return { filePath, canceled: false };
+  });
+
+  // 指定パスのタスクDBがこのアプリのスキーマ版数で扱えるかを確認（設定保存前のチェック用）
+  ipcMain.handle('tasks:inspect-db-version', async (_event, filePath: string) => {
+    try {
+      const info = await TaskDatabase.inspectSchemaVersion(String(filePath || ''));
+      return { success: true, ...info };
+    } catch (e: any) {
+      log.error('tasks:inspect-db-version error', e);
+      return { success: false, message: `タスクDBとして開けません: ${e?.message || String(e)}` };
+    }
   });
 
   ipcMain.handle('tasks:list', async (_event, params: { query?: string; status?: string } = {}) => {
@@ -91,6 +110,18 @@ export function registerTaskIpcHandlers(opts: {
     }
   });
 
+  ipcMain.handle('tasks:split', async (_event, id: number, date: string) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const newId = await db.splitTask(id, date);
+      return { success: true, id: newId };
+    } catch (e: any) {
+      log.error('tasks:split error', e);
+      return { success: false, message: e?.message || 'タスクの分割に失敗しました' };
+    }
+  });
+
   // Occurrences
   ipcMain.handle('occ:list', async (_event, params: { from?: string; to?: string; query?: string; status?: string } = {}) => {
     const db = getTaskDb();
@@ -163,6 +194,55 @@ export function registerTaskIpcHandlers(opts: {
     }
   });
 
+  // Recurrence exceptions (skip / reschedule a single occurrence)
+  ipcMain.handle('occ:skip', async (_event, occurrenceId: number) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      await (db as any).skipOccurrence(occurrenceId);
+      return { success: true };
+    } catch (e: any) {
+      log.error('occ:skip error', e);
+      return { success: false, message: e?.message || 'スキップに失敗しました' };
+    }
+  });
+
+  ipcMain.handle('occ:reschedule', async (_event, occurrenceId: number, newDate: string, newTime?: string | null) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      await (db as any).rescheduleOccurrence(occurrenceId, newDate, newTime ?? null);
+      return { success: true };
+    } catch (e: any) {
+      log.error('occ:reschedule error', e);
+      return { success: false, message: e?.message || '振替に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('rec-ex:list', async (_event, taskId: number) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const records = await (db as any).listRecurrenceExceptions(taskId);
+      return { success: true, records };
+    } catch (e: any) {
+      log.error('rec-ex:list error', e);
+      return { success: false, message: e?.message || '例外の取得に失敗しました' };
+    }
+  });
+
+  ipcMain.handle('rec-ex:delete', async (_event, exceptionId: number) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      await (db as any).deleteRecurrenceException(exceptionId);
+      return { success: true };
+    } catch (e: any) {
+      log.error('rec-ex:delete error', e);
+      return { success: false, message: e?.message || '例外の取り消しに失敗しました' };
+    }
+  });
+
   // Task tag helpers
   ipcMain.handle('task-tags:list', async () => {
     const db = getTaskDb();
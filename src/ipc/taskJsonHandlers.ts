@@ -0,0 +1,94 @@
+import { app, dialog, ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TASK_DB_SCHEMA_VERSION } from '../taskDatabase';
+import type { TaskDatabase } from '../taskDatabase';
+import type { TaskDbBackupService } from '../taskDbBackup';
+import { parseTaskJson, summarizeTaskJson } from '../taskJson';
+import type { TaskJsonImportMode } from '../taskJson';
+
+export function registerTaskJsonIpcHandlers(opts: {
+  taskDb: () => TaskDatabase | null;
+  backup: TaskDbBackupService;
+  getMainWindow: () => BrowserWindow | null;
+}): void {
+  const getTaskDb = opts.taskDb;
+  const { backup, getMainWindow } = opts;
+
+  ipcMain.handle('json:export', async (_event, params: { includeEvents?: boolean } = {}) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const doc = await db.exportJson({ includeEvents: !!params.includeEvents });
+      const mainWindow = getMainWindow();
+      const stamp = doc.exportedAt.slice(0, 10).replace(/-/g, '');
+      const options: Electron.SaveDialogOptions = {
+        title: 'JSONファイルの保存先を選択',
+        defaultPath: path.join(app.getPath('documents'), `nyantasknotes_tasks_${stamp}.json`),
+        filters: [
+          { name: 'JSON', extensions: ['json'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      };
+      const saved = mainWindow
+        ? await dialog.showSaveDialog(mainWindow, options)
+        : await dialog.showSaveDialog(options);
+      if (saved.canceled || !saved.filePath) return { success: false, canceled: true };
+      await fs.promises.writeFile(saved.filePath, `${JSON.stringify(doc, null, 2)}\n`, 'utf8');
+      return { success: true, filePath: saved.filePath, counts: summarizeTaskJson(doc) };
+    } catch (e: any) {
+      log.error('json:export error', e);
+      return { success: false, message: e?.message || 'JSONの書き出しに失敗しました' };
+    }
+  });
+
+  // 取り込み: ファイルを選択して内容を検証し、件数を返す。DBには書き込まない。
+  ipcMain.handle('json:import-preview', async () => {
+    try {
+      const mainWindow = getMainWindow();
+      const options: Electron.OpenDialogOptions = {
+        title: '取り込むJSONファイルを選択',
+        properties: ['openFile'],
+        filters: [
+          { name: 'JSON', extensions: ['json'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      };
+      const result = mainWindow
+        ? await dialog.showOpenDialog(mainWindow, options)
+        : await dialog.showOpenDialog(options);
+      if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true };
+      const filePath = result.filePaths[0];
+      const doc = parseTaskJson(await fs.promises.readFile(filePath, 'utf8'), TASK_DB_SCHEMA_VERSION);
+      return {
+        success: true,
+        filePath,
+        exportedAt: doc.exportedAt,
+        schemaVersion: doc.schemaVersion,
+        includesEvents: doc.includesEvents,
+        counts: summarizeTaskJson(doc)
+      };
+    } catch (e: any) {
+      log.error('json:import-preview error', e);
+      return { success: false, message: e?.message || 'JSONの読み込みに失敗しました' };
+    }
+  });
+
+  // replace の場合は取り込み前にスナップショットを保存する
+  ipcMain.handle('json:import-commit', async (_event, params: { filePath: string; mode: TaskJsonImportMode }) => {
+    const db = getTaskDb();
+    if (!db) return { success: false, message: 'タスクDBが初期化されていません' };
+    try {
+      const doc = parseTaskJson(await fs.promises.readFile(String(params?.filePath || ''), 'utf8'), TASK_DB_SCHEMA_VERSION);
+      const mode: TaskJsonImportMode = params?.mode === 'replace' ? 'replace' : 'merge';
+      const snapshot = mode === 'replace' ? await backup.backupNow('preimport') : null;
+      const report = await db.importJson(doc, { mode });
+      log.info('Task JSON imported:', params.filePath, JSON.stringify(report));
+      return { success: true, report, backupFile: snapshot?.fileName ?? null };
+    } catch (e: any) {
+      log.error('json:import-commit error', e);
+      return { success: false, message: e?.message || 'JSONの取り込みに失敗しました' };
+    }
+  });
+}
@@ -1,10 +1,12 @@
-import { app, BrowserWindow, Menu, ipcMain } from 'electron';
+import { app, BrowserWindow, Menu, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import log from 'electron-log';
 import Store from 'electron-store';
 import { FileDatabase } from './fileDatabase';
 import { registerIpcHandlers } from './ipc';
 import { TaskDatabase } from './taskDatabase';
+import { DEFAULT_TASK_DB_BACKUP_SETTINGS, TaskDbBackupService } from './taskDbBackup';
+import { OccurrenceGenerationScheduler } from './occurrenceScheduler';
 
 log.transports.file.level = 'info';
 log.transports.console.level = 'debug';
@@ -15,13 +17,26 @@ const store = new Store({
     windowState: { isMaximized: false, width: 900, height: 640, x: undefined as any, y: undefined as any },
     fileDbPath: '',
     taskDbPath: '',
-    taskFileAutoTagName: 'タスク'
+    taskFileAutoTagName: 'タスク',
+    taskDbBackup: DEFAULT_TASK_DB_BACKUP_SETTINGS
   }
 });
 
 let fileDb: FileDatabase | null = null;
 let taskDb: TaskDatabase | null = null;
 let mainWindow: BrowserWindow | null = null;
+let quitBackupDone = false;
+
+const occurrenceScheduler = new OccurrenceGenerationScheduler({ getTaskDb: () => taskDb });
+
+const taskDbBackup = new TaskDbBackupService({
+  store,
+  getTaskDb: () => taskDb,
+  setTaskDb: (db) => {
+    taskDb = db;
+    occurrenceScheduler.attach(db);
+  }
+});
 
 function saveWindowState(): void {
   if (!mainWindow) return;
@@ -38,6 +53,7 @@ function createMenu(): void {
         { label: 'Top', click: () => mainWindow?.loadFile('index.html') },
         { label: '設定', click: () => mainWindow?.loadFile('settings.html') },
         { label: 'タグ編集', click: () => mainWindow?.loadFile('tag-manager.html') },
+        { label: '休業日カレンダー', click: () => mainWindow?.loadFile('calendar-manager.html') },
         { label: 'タスク設定一覧', click: () => mainWindow?.loadFile('task-settings.html') },
         { label: 'タスク表示', click: () => mainWindow?.loadFile('task-view.html') },
         { label: 'タスク編集（新規/新画面）', click: () => mainWindow?.loadFile('task-editor2.html', { query: { new: '1' } }) }
@@ -91,17 +107,31 @@ app.whenReady().then(async () => {
       }
       taskDb = new TaskDatabase(taskDbPath);
       await taskDb.init();
+      for (const m of taskDb.getAppliedMigrations()) {
+        log.info(`Task DB migrated to v${m.version}: ${m.description}`);
+      }
       log.info('Task DB initialized:', taskDbPath);
     } catch (e) {
       log.error('Failed to init task DB:', e);
+      try { await taskDb?.close(); } catch {}
       taskDb = null;
+      dialog.showErrorBox('タスクDBを開けませんでした', e instanceof Error ? e.message : String(e));
     }
 
     // ファイルDB（外部ファイル管理）は任意設定
     const fileDbPath = settings.fileDbPath;
     if (fileDbPath) {
       fileDb = new FileDatabase(fileDbPath);
-      await fileDb.init();
+      try {
+        await fileDb.init();
+      } catch (e) {
+        try { await fileDb.close(); } catch {}
+        dialog.showErrorBox('ファイルDBを開けませんでした', e instanceof Error ? e.message : String(e));
+        throw e;
+      }
+      for (const m of fileDb.getAppliedMigrations()) {
+        log.info(`File DB migrated to v${m.version}: ${m.description}`, JSON.stringify(m.report));
+      }
       log.info('File DB initialized:', fileDbPath);
     } else {
       log.info('File DB path not set yet.');
@@ -119,21 +149,38 @@ app.whenReady().then(async () => {
     fileDb: () => fileDb,
     taskDb: () => taskDb,
     store,
+    backup: taskDbBackup,
     getMainWindow
   });
 
+  taskDbBackup.startSchedule();
+  occurrenceScheduler.start();
+
   createMenu();
   createWindow();
 });
 
-app.on('before-quit', async () => {
+// 終了時スナップショットを取り終えてからDBを閉じるため、初回の before-quit は終了を保留する
+app.on('before-quit', (event) => {
+  if (quitBackupDone) return;
+  event.preventDefault();
   saveWindowState();
-  if (taskDb) {
-    try { await taskDb.close(); } catch { /* noop */ }
-  }
-  if (fileDb) {
-    try { await fileDb.close(); } catch { /* noop */ }
-  }
+  taskDbBackup.stopSchedule();
+  void (async () => {
+    // 実行中の生成を待ってからスナップショットを取る
+    await occurrenceScheduler.stop();
+    if (taskDbBackup.getSettings().enabled) {
+      try { await taskDbBackup.backupNow('quit'); } catch (e) { log.error('Task DB backup on quit failed:', e); }
+    }
+    if (taskDb) {
+      try { await taskDb.close(); } catch { /* noop */ }
+    }
+    if (fileDb) {
+      try { await fileDb.close(); } catch { /* noop */ }
+    }
+    quitBackupDone = true;
+    app.quit();
+  })();
 });
 
 app.on('window-all-closed', () => {
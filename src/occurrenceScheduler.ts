@@ -0,0 +1,112 @@
+import { BrowserWindow, powerMonitor } from 'electron';
+import log from 'electron-log';
+import { TaskDatabase } from './taskDatabase';
+
+/**
+ * 生成を行うきっかけ。
+ * open: タスクDBを開いたとき（起動・バックアップからの復元） / midnight: 日付の変わり目 / resume: スリープからの復帰 / edit: ルールや回の変更後
+ */
+export type OccurrenceGenerationReason = 'open' | 'midnight' | 'resume' | 'edit';
+
+/** レンダラへ送る通知（occurrences:changed）の内容 */
+export type OccurrencesChangedEvent = { reason: OccurrenceGenerationReason; created: number; removed: number };
+
+/** 日付が変わってから生成するまでの余裕（タイマーが早めに発火しても前日のまま生成しないように） */
+const MIDNIGHT_MARGIN_MS = 5 * 1000;
+/** ルールの変更が続いた場合に、最後の変更から生成するまでの待ち時間 */
+const EDIT_DEBOUNCE_MS = 300;
+
+/**
+ * オカレンスの生成をメインプロセスで行うスケジューラ。
+ * 一覧の取得（listOccurrences）は読み取りのみのため、起動時・日付の変わり目・ルールの変更後にここから
+ * TaskDatabase.generateOccurrences を呼び、オカレンスが作成・削除されたら各ウィンドウへ occurrences:changed を送る。
+ */
+export class OccurrenceGenerationScheduler {
+  private getTaskDb: () => TaskDatabase | null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private midnightTimer: NodeJS.Timeout | null = null;
+  private editTimer: NodeJS.Timeout | null = null;
+  private readonly onResume = () => { void this.runNow('resume'); };
+
+  constructor(opts: { getTaskDb: () => TaskDatabase | null }) {
+    this.getTaskDb = opts.getTaskDb;
+  }
+
+  /** 生成は1つずつ順番に実行する */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn, fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /** 開いたタスクDBの変更を受け取るようにして生成する（起動時と、復元でインスタンスが替わったとき） */
+  attach(db: TaskDatabase | null): void {
+    if (!db) return;
+    db.setGenerationListener(() => this.requestRun());
+    void this.runNow('open');
+  }
+
+  start(): void {
+    void this.stop();
+    this.attach(this.getTaskDb());
+    this.scheduleMidnight();
+    powerMonitor.on('resume', this.onResume);
+  }
+
+  /** 予約をすべて取り消し、実行中の生成が終わるのを待つ（終了時はこの後にバックアップを取り、DBを閉じる） */
+  stop(): Promise<void> {
+    if (this.midnightTimer) clearTimeout(this.midnightTimer);
+    if (this.editTimer) clearTimeout(this.editTimer);
+    this.midnightTimer = null;
+    this.editTimer = null;
+    powerMonitor.removeListener('resume', this.onResume);
+    this.getTaskDb()?.setGenerationListener(null);
+    return this.queue.then(() => undefined);
+  }
+
+  /** ルールや回の変更後の生成を予約する。続けて変更された場合は最後の変更の後に1回だけ生成する */
+  requestRun(): void {
+    if (this.editTimer) clearTimeout(this.editTimer);
+    this.editTimer = setTimeout(() => {
+      this.editTimer = null;
+      void this.runNow('edit');
+    }, EDIT_DEBOUNCE_MS);
+  }
+
+  /** 生成を実行し、作成・削除したオカレンスの件数を返す（失敗した場合はログに残して 0） */
+  runNow(reason: OccurrenceGenerationReason): Promise<{ created: number; removed: number }> {
+    return this.exclusive(async () => {
+      const db = this.getTaskDb();
+      if (!db) return { created: 0, removed: 0 };
+      try {
+        const { created, removed } = await db.generateOccurrences();
+        // 週次の次の1件の入れ替えのように、作成せず削除だけの場合も一覧は変わる
+        if (created + removed > 0) {
+          log.info(`Occurrences generated (${reason}): created ${created}, removed ${removed}`);
+          this.notify({ reason, created, removed });
+        }
+        return { created, removed };
+      } catch (e) {
+        log.error(`Occurrence generation failed (${reason}):`, e);
+        return { created: 0, removed: 0 };
+      }
+    });
+  }
+
+  /** 次の日付の変わり目に生成する（スリープ中に過ぎた場合は resume で補う） */
+  private scheduleMidnight(): void {
+    const now = new Date();
+    const next = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    this.midnightTimer = setTimeout(() => {
+      this.midnightTimer = null;
+      void this.runNow('midnight');
+      this.scheduleMidnight();
+    }, next.getTime() - now.getTime() + MIDNIGHT_MARGIN_MS);
+  }
+
+  private notify(event: OccurrencesChangedEvent): void {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) win.webContents.send('occurrences:changed', event);
+    }
+  }
+}
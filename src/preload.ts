@@ -5,7 +5,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getSettings: () => ipcRenderer.invoke('get-settings'),
   saveSettings: (settings: any) => ipcRenderer.invoke('save-settings', settings),
   selectFileDbPath: () => ipcRenderer.invoke('select-file-db-path'),
+  inspectFileDbVersion: (filePath: string) => ipcRenderer.invoke('filedb:inspect-db-version', filePath),
   selectTaskDbPath: () => ipcRenderer.invoke('select-task-db-path'),
+  inspectTaskDbVersion: (filePath: string) => ipcRenderer.invoke('tasks:inspect-db-version', filePath),
 
   // File dialog
   showFileDialog: (options: any) => ipcRenderer.invoke('show-file-dialog', options),
@@ -26,7 +28,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getTask: (id: number) => ipcRenderer.invoke('tasks:get', id),
   createTask: (payload: any) => ipcRenderer.invoke('tasks:create', payload),
   updateTask: (id: number, payload: any) => ipcRenderer.invoke('tasks:update', id, payload),
-  deleteTask: (id: number) => ipcRenderer.invoke('tasks:delete', id)
+  deleteTask: (id: number) => ipcRenderer.invoke('tasks:delete', id),
+  splitTask: (id: number, date: string) => ipcRenderer.invoke('tasks:split', id, date)
   ,
   // Occurrences
   listOccurrences: (params?: any) => ipcRenderer.invoke('occ:list', params || {}),
@@ -34,13 +37,60 @@ contextBridge.exposeInMainWorld('electronAPI', {
   deferOccurrence: (id: number, newDate?: string | null) => ipcRenderer.invoke('occ:defer', id, newDate ?? null),
   prunePastOccurrences: (taskId: number) => ipcRenderer.invoke('occ:prune-past', taskId),
   listOccurrencesByTask: (taskId: number) => ipcRenderer.invoke('occ:list-by-task', taskId),
-  setOccurrenceStatus: (occurrenceId: number, status: 'pending' | 'done') => ipcRenderer.invoke('occ:set-status', occurrenceId, status)
+  setOccurrenceStatus: (occurrenceId: number, status: 'pending' | 'done') => ipcRenderer.invoke('occ:set-status', occurrenceId, status),
+  skipOccurrence: (occurrenceId: number) => ipcRenderer.invoke('occ:skip', occurrenceId),
+  rescheduleOccurrence: (occurrenceId: number, newDate: string, newTime?: string | null) => ipcRenderer.invoke('occ:reschedule', occurrenceId, newDate, newTime ?? null),
+  // メインプロセスのスケジューラが新しいオカレンスを作ったときの通知。戻り値は購読の解除
+  onOccurrencesChanged: (callback: (event: { reason: string; created: number; removed: number }) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, payload: { reason: string; created: number; removed: number }) => callback(payload);
+    ipcRenderer.on('occurrences:changed', listener);
+    return () => { ipcRenderer.removeListener('occurrences:changed', listener); };
+  }
+  ,
+  // Recurrence exceptions
+  listRecurrenceExceptions: (taskId: number) => ipcRenderer.invoke('rec-ex:list', taskId),
+  deleteRecurrenceException: (exceptionId: number) => ipcRenderer.invoke('rec-ex:delete', exceptionId)
   ,
   // Task tags
   listTaskTags: () => ipcRenderer.invoke('task-tags:list'),
   listTaskTagInfos: () => ipcRenderer.invoke('task-tags:list-infos'),
   renameTaskTag: (id: number, name: string) => ipcRenderer.invoke('task-tags:rename', id, name)
   ,
+  // iCalendar
+  exportICalendar: (params: { from: string; to: string; component?: 'VEVENT' | 'VTODO'; recurringAsRule?: boolean }) => ipcRenderer.invoke('ics:export', params),
+  previewICalendarImport: () => ipcRenderer.invoke('ics:import-preview'),
+  commitICalendarImport: (items: any[]) => ipcRenderer.invoke('ics:import-commit', items),
+
+  // Task DB backups
+  listTaskDbBackups: () => ipcRenderer.invoke('backup:list'),
+  backupTaskDbNow: () => ipcRenderer.invoke('backup:run-now'),
+  restoreTaskDbBackup: (fileName: string) => ipcRenderer.invoke('backup:restore', fileName),
+  selectBackupDir: () => ipcRenderer.invoke('backup:select-dir'),
+
+  // Task JSON export/import
+  exportTaskJson: (params: { includeEvents?: boolean }) => ipcRenderer.invoke('json:export', params),
+  previewTaskJsonImport: () => ipcRenderer.invoke('json:import-preview'),
+  commitTaskJsonImport: (params: { filePath: string; mode: 'replace' | 'merge' }) => ipcRenderer.invoke('json:import-commit', params),
+
+  // CSV export/import
+  exportTasksCsv: (params: { encoding: 'utf8bom' | 'shift_jis' }) => ipcRenderer.invoke('csv:export-tasks', params),
+  exportOccurrenceHistoryCsv: (params: { from: string; to: string; encoding: 'utf8bom' | 'shift_jis' }) => ipcRenderer.invoke('csv:export-history', params),
+  openCsvImport: (params: { encoding: 'auto' | 'utf8' | 'shift_jis' }) => ipcRenderer.invoke('csv:import-open', params),
+  planCsvImport: (params: { filePath: string; encoding: 'auto' | 'utf8' | 'shift_jis'; hasHeader: boolean; mapping: Record<string, number | null> }) => ipcRenderer.invoke('csv:import-plan', params),
+  commitCsvImport: (params: { filePath: string; encoding: 'auto' | 'utf8' | 'shift_jis'; hasHeader: boolean; mapping: Record<string, number | null> }) => ipcRenderer.invoke('csv:import-commit', params),
+  importDateListCsv: (params: { encoding: 'auto' | 'utf8' | 'shift_jis' }) => ipcRenderer.invoke('csv:import-date-list', params)
+  ,
+  // Custom calendars (closed days)
+  listCalendars: () => ipcRenderer.invoke('calendars:list'),
+  listCalendarEntries: (calendarId: number) => ipcRenderer.invoke('calendars:entries', calendarId),
+  listCalendarClosedDates: (calendarId: number) => ipcRenderer.invoke('calendars:closed-dates', calendarId),
+  createCalendar: (params: { name: string; description?: string | null }) => ipcRenderer.invoke('calendars:create', params),
+  updateCalendar: (calendarId: number, params: { name: string; description?: string | null }) => ipcRenderer.invoke('calendars:update', calendarId, params),
+  deleteCalendar: (calendarId: number) => ipcRenderer.invoke('calendars:delete', calendarId),
+  addCalendarEntries: (calendarId: number, entries: Array<{ startDate: string; endDate?: string | null; label?: string | null }>) => ipcRenderer.invoke('calendars:add-entries', calendarId, entries),
+  deleteCalendarEntry: (entryId: number) => ipcRenderer.invoke('calendars:delete-entry', entryId),
+  previewCalendarImport: (params: { encoding: 'auto' | 'utf8' | 'shift_jis' }) => ipcRenderer.invoke('calendars:import-preview', params)
+  ,
   // Events (logs)
   listEvents: (params: { taskId: number; limit?: number }) => ipcRenderer.invoke('events:list', params)
   ,
@@ -53,8 +103,10 @@ declare global {
     electronAPI: {
       getSettings: () => Promise<any>;
       saveSettings: (settings: any) => Promise<{ success: boolean }>;
-      selectFileDbPath: () => Promise<{ filePath: string | null; canceled: boolean }>;
-      selectTaskDbPath: () => Promise<{ filePath: string | null; canceled: boolean }>;
+      selectFileDbPath: () => Promise<{ filePath: string | null; canceled: boolean; message?: string | null }>;
+      inspectFileDbVersion: (filePath: string) => Promise<{ success: boolean; version?: number; latestVersion?: number; supported?: boolean; message?: string | null }>;
+      selectTaskDbPath: () => Promise<{ filePath: string | null; canceled: boolean; message?: string | null }>;
+      inspectTaskDbVersion: (filePath: string) => Promise<{ success: boolean; userVersion?: number; latestVersion?: number; supported?: boolean; message?: string | null }>;
       showFileDialog: (options: any) => Promise<any>;
       addFilesToFileDb: (tagNames: string[]) => Promise<{ success: boolean; added?: number; skipped?: number; total?: number; message?: string }>;
       getFileInfoBySha256: (sha256: string) => Promise<any>;
@@ -68,15 +120,46 @@ declare global {
       createTask: (payload: any) => Promise<{ success: boolean; id?: number }>;
       updateTask: (id: number, payload: any) => Promise<{ success: boolean }>;
       deleteTask: (id: number) => Promise<{ success: boolean }>;
+      splitTask: (id: number, date: string) => Promise<{ success: boolean; id?: number; message?: string }>;
       listOccurrences: (params?: any) => Promise<any[]>;
       completeOccurrence: (id: number, options?: { comment?: string; completedAt?: string; manualNextDue?: string }) => Promise<{ success: boolean }>;
       deferOccurrence: (id: number, newDate?: string | null) => Promise<{ success: boolean }>;
       prunePastOccurrences: (taskId: number) => Promise<{ success: boolean; removed?: number; keptOccurrenceId?: number | null; totalMatched?: number; skippedManualNext?: boolean; message?: string }>;
-      listOccurrencesByTask: (taskId: number) => Promise<{ success: boolean; records?: Array<{ occurrenceId: number; taskId: number; status: string; scheduledDate: string | null; scheduledTime: string | null; deferredDate: string | null; completedAt: string | null; createdAt: string | null; updatedAt: string | null }>; message?: string }>;
+      listOccurrencesByTask: (taskId: number) => Promise<{ success: boolean; records?: Array<{ occurrenceId: number; taskId: number; status: string; scheduledDate: string | null; scheduledTime: string | null; deferredDate: string | null; completedAt: string | null; source: 'rule' | 'extra' | 'date'; extraRuleId: number | null; createdAt: string | null; updatedAt: string | null }>; message?: string }>;
       setOccurrenceStatus: (occurrenceId: number, status: 'pending' | 'done') => Promise<{ success: boolean; message?: string }>;
+      skipOccurrence: (occurrenceId: number) => Promise<{ success: boolean; message?: string }>;
+      rescheduleOccurrence: (occurrenceId: number, newDate: string, newTime?: string | null) => Promise<{ success: boolean; message?: string }>;
+      onOccurrencesChanged: (callback: (event: { reason: 'open' | 'midnight' | 'resume' | 'edit'; created: number; removed: number }) => void) => () => void;
+      listRecurrenceExceptions: (taskId: number) => Promise<{ success: boolean; records?: Array<{ id: number; taskId: number; exceptionDate: string; action: 'skip' | 'reschedule'; newDate: string | null; newTime: string | null; createdAt: string | null; updatedAt: string | null }>; message?: string }>;
+      deleteRecurrenceException: (exceptionId: number) => Promise<{ success: boolean; message?: string }>;
       listTaskTags: () => Promise<string[]>;
       listTaskTagInfos: () => Promise<Array<{ id: number; name: string; createdAt: string | null; updatedAt: string | null }>>;
       renameTaskTag: (id: number, name: string) => Promise<{ success: boolean; message?: string }>;
+      exportICalendar: (params: { from: string; to: string; component?: 'VEVENT' | 'VTODO'; recurringAsRule?: boolean }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; occurrenceCount?: number; ruleCount?: number; message?: string }>;
+      previewICalendarImport: () => Promise<{ success: boolean; canceled?: boolean; filePath?: string; items?: Array<{ uid: string | null; title: string; date: string | null; time: string | null; mode: 'recurring' | 'single' | 'skip'; rrule: string | null; exceptionCount: number; issues: string[]; notes: string[]; payload: any | null }>; message?: string }>;
+      commitICalendarImport: (items: any[]) => Promise<{ success: boolean; created?: number; failed?: Array<{ title: string; message: string }>; message?: string }>;
+      listTaskDbBackups: () => Promise<{ success: boolean; dir?: string; settings?: { enabled: boolean; dir: string; keepDaily: number; keepWeekly: number; keepMonthly: number }; entries?: Array<{ fileName: string; filePath: string; createdAt: string; reason: 'scheduled' | 'quit' | 'manual' | 'prerestore' | 'preimport'; size: number }>; message?: string }>;
+      backupTaskDbNow: () => Promise<{ success: boolean; entry?: { fileName: string; filePath: string; createdAt: string; reason: string; size: number }; message?: string }>;
+      restoreTaskDbBackup: (fileName: string) => Promise<{ success: boolean; restored?: { fileName: string }; preRestore?: { fileName: string } | null; message?: string }>;
+      selectBackupDir: () => Promise<{ dirPath: string | null; canceled: boolean }>;
+      exportTaskJson: (params: { includeEvents?: boolean }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; counts?: Record<string, number>; message?: string }>;
+      previewTaskJsonImport: () => Promise<{ success: boolean; canceled?: boolean; filePath?: string; exportedAt?: string; schemaVersion?: number; includesEvents?: boolean; counts?: Record<string, number>; message?: string }>;
+      exportTasksCsv: (params: { encoding: 'utf8bom' | 'shift_jis' }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; rowCount?: number; unmappable?: number; message?: string }>;
+      exportOccurrenceHistoryCsv: (params: { from: string; to: string; encoding: 'utf8bom' | 'shift_jis' }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; rowCount?: number; unmappable?: number; message?: string }>;
+      openCsvImport: (params: { encoding: 'auto' | 'utf8' | 'shift_jis' }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; encoding?: 'utf8' | 'shift_jis'; headers?: string[]; sampleRows?: string[][]; rowCount?: number; fields?: Array<{ key: string; label: string; required: boolean }>; suggestedMapping?: Record<string, number | null>; message?: string }>;
+      planCsvImport: (params: { filePath: string; encoding: 'auto' | 'utf8' | 'shift_jis'; hasHeader: boolean; mapping: Record<string, number | null> }) => Promise<{ success: boolean; items?: Array<{ rowNumber: number; title: string; mode: 'recurring' | 'single' | 'skip'; rrule: string | null; issues: string[]; notes: string[]; payload: any | null }>; message?: string }>;
+      commitCsvImport: (params: { filePath: string; encoding: 'auto' | 'utf8' | 'shift_jis'; hasHeader: boolean; mapping: Record<string, number | null> }) => Promise<{ success: boolean; created?: number; skipped?: number; failed?: Array<{ rowNumber: number; title: string; message: string }>; message?: string }>;
+      importDateListCsv: (params: { encoding: 'auto' | 'utf8' | 'shift_jis' }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; encoding?: 'utf8' | 'shift_jis'; entries?: Array<{ date: string; time: string | null }>; issues?: string[]; message?: string }>;
+      commitTaskJsonImport: (params: { filePath: string; mode: 'replace' | 'merge' }) => Promise<{ success: boolean; report?: { mode: 'replace' | 'merge'; inserted: Record<string, number>; reused: Record<string, number>; droppedColumns: Record<string, string[]>; warnings: string[] }; backupFile?: string | null; message?: string }>;
+      listCalendars: () => Promise<{ success: boolean; calendars?: Array<{ id: number; name: string; description: string | null; entryCount: number; ruleCount: number; createdAt: string | null; updatedAt: string | null }>; message?: string }>;
+      listCalendarEntries: (calendarId: number) => Promise<{ success: boolean; entries?: Array<{ id: number; calendarId: number; startDate: string; endDate: string; label: string | null; createdAt: string | null; updatedAt: string | null }>; message?: string }>;
+      listCalendarClosedDates: (calendarId: number) => Promise<{ success: boolean; dates?: string[]; message?: string }>;
+      createCalendar: (params: { name: string; description?: string | null }) => Promise<{ success: boolean; id?: number; message?: string }>;
+      updateCalendar: (calendarId: number, params: { name: string; description?: string | null }) => Promise<{ success: boolean; message?: string }>;
+      deleteCalendar: (calendarId: number) => Promise<{ success: boolean; message?: string }>;
+      addCalendarEntries: (calendarId: number, entries: Array<{ startDate: string; endDate?: string | null; label?: string | null }>) => Promise<{ success: boolean; added?: number; duplicates?: number; message?: string }>;
+      deleteCalendarEntry: (entryId: number) => Promise<{ success: boolean; message?: string }>;
+      previewCalendarImport: (params: { encoding: 'auto' | 'utf8' | 'shift_jis' }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; items?: Array<{ source: string; startDate: string | null; endDate: string | null; label: string | null; issues: string[]; notes: string[] }>; message?: string }>;
       listEvents: (params: { taskId: number; limit?: number }) => Promise<any[]>;
       promptText: (options: { title?: string; label?: string; placeholder?: string; ok?: string; cancel?: string }) => Promise<string | null>;
     };
@@ -0,0 +1,314 @@
+(() => {
+  type CalendarInfo = { id: number; name: string; description: string | null; entryCount: number; ruleCount: number; createdAt: string | null; updatedAt: string | null };
+  type CalendarEntry = { id: number; calendarId: number; startDate: string; endDate: string; label: string | null };
+  type ImportItem = { source: string; startDate: string | null; endDate: string | null; label: string | null; issues: string[]; notes: string[] };
+  type StatusKind = 'info' | 'error' | 'success';
+
+  const state: { calendars: CalendarInfo[]; selectedId: number | null; entries: CalendarEntry[]; importItems: ImportItem[]; loading: boolean } = {
+    calendars: [],
+    selectedId: null,
+    entries: [],
+    importItems: [],
+    loading: false
+  };
+
+  function byId<T extends HTMLElement>(id: string): T {
+    const element = document.getElementById(id) as T | null;
+    if (!element) throw new Error(`休業日カレンダー画面の初期化に失敗しました: #${id}`);
+    return element;
+  }
+
+  const elements = {
+    tbody: byId<HTMLTableSectionElement>('calendarTableBody'),
+    empty: byId<HTMLDivElement>('emptyState'),
+    status: byId<HTMLSpanElement>('statusMessage'),
+    nameInput: byId<HTMLInputElement>('calendarName'),
+    createButton: byId<HTMLButtonElement>('createCalendarButton'),
+    reloadButton: byId<HTMLButtonElement>('reloadButton'),
+    entrySection: byId<HTMLElement>('entrySection'),
+    entryHeading: byId<HTMLHeadingElement>('entryHeading'),
+    entryStart: byId<HTMLInputElement>('entryStart'),
+    entryEnd: byId<HTMLInputElement>('entryEnd'),
+    entryLabel: byId<HTMLInputElement>('entryLabel'),
+    addEntryButton: byId<HTMLButtonElement>('addEntryButton'),
+    entryTbody: byId<HTMLTableSectionElement>('entryTableBody'),
+    entryEmpty: byId<HTMLDivElement>('entryEmptyState'),
+    importEncoding: byId<HTMLSelectElement>('importEncoding'),
+    importPreviewButton: byId<HTMLButtonElement>('importPreviewButton'),
+    importCommitButton: byId<HTMLButtonElement>('importCommitButton'),
+    importTable: byId<HTMLTableElement>('importTable'),
+    importTbody: byId<HTMLTableSectionElement>('importTableBody')
+  };
+
+  function setStatus(message: string, kind: StatusKind = 'info'): void {
+    elements.status.textContent = message;
+    elements.status.dataset.kind = kind;
+  }
+
+  function cell(text: string, className?: string): HTMLTableCellElement {
+    const td = document.createElement('td');
+    td.textContent = text;
+    if (className) td.className = className;
+    return td;
+  }
+
+  function actionButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  function selectedCalendar(): CalendarInfo | null {
+    return state.calendars.find(c => c.id === state.selectedId) ?? null;
+  }
+
+  function renderCalendars(): void {
+    elements.tbody.innerHTML = '';
+    elements.empty.hidden = state.calendars.length > 0;
+    state.calendars.forEach(calendar => {
+      const tr = document.createElement('tr');
+      if (calendar.id === state.selectedId) tr.classList.add('selected');
+      tr.appendChild(cell(calendar.name, 'col-name'));
+      tr.appendChild(cell(calendar.description || '', 'col-description'));
+      tr.appendChild(cell(String(calendar.entryCount), 'col-count'));
+      tr.appendChild(cell(calendar.ruleCount ? `${calendar.ruleCount}件` : '-', 'col-rules'));
+      const actions = cell('', 'col-actions');
+      actions.appendChild(actionButton('休業日を編集', () => selectCalendar(calendar.id)));
+      actions.appendChild(actionButton('名前・説明を変更', () => editCalendar(calendar)));
+      actions.appendChild(actionButton('削除', () => deleteCalendar(calendar)));
+      tr.appendChild(actions);
+      elements.tbody.appendChild(tr);
+    });
+  }
+
+  function renderEntries(): void {
+    const calendar = selectedCalendar();
+    elements.entrySection.hidden = !calendar;
+    if (!calendar) return;
+    elements.entryHeading.textContent = `休業日: ${calendar.name}`;
+    elements.entryTbody.innerHTML = '';
+    elements.entryEmpty.hidden = state.entries.length > 0;
+    state.entries.forEach(entry => {
+      const tr = document.createElement('tr');
+      tr.appendChild(cell(entry.startDate, 'col-start'));
+      tr.appendChild(cell(entry.endDate === entry.startDate ? '' : entry.endDate, 'col-end'));
+      tr.appendChild(cell(entry.label || '', 'col-label'));
+      const actions = cell('', 'col-actions');
+      actions.appendChild(actionButton('削除', () => deleteEntry(entry)));
+      tr.appendChild(actions);
+      elements.entryTbody.appendChild(tr);
+    });
+  }
+
+  function renderImportItems(): void {
+    elements.importTbody.innerHTML = '';
+    elements.importTable.hidden = state.importItems.length === 0;
+    state.importItems.forEach(item => {
+      const tr = document.createElement('tr');
+      tr.appendChild(cell(item.source));
+      tr.appendChild(cell(item.startDate || '-'));
+      tr.appendChild(cell(item.endDate && item.endDate !== item.startDate ? item.endDate : ''));
+      tr.appendChild(cell(item.label || ''));
+      tr.appendChild(cell(item.issues.join(' / '), 'col-issue'));
+      tr.appendChild(cell(item.notes.join(' / '), 'col-note'));
+      elements.importTbody.appendChild(tr);
+    });
+    elements.importCommitButton.disabled = !state.importItems.some(item => item.issues.length === 0);
+  }
+
+  async function loadCalendars(): Promise<void> {
+    if (state.loading) return;
+    state.loading = true;
+    elements.reloadButton.disabled = true;
+    setStatus('読み込み中...', 'info');
+    try {
+      const res = await window.electronAPI.listCalendars();
+      if (!res?.success) {
+        setStatus(res?.message || 'カレンダーの取得に失敗しました', 'error');
+        return;
+      }
+      state.calendars = res.calendars || [];
+      if (state.selectedId != null && !selectedCalendar()) state.selectedId = null;
+      renderCalendars();
+      await loadEntries();
+      setStatus(`${state.calendars.length}件のカレンダー`, 'info');
+    } catch (error) {
+      console.error(error);
+      setStatus(error instanceof Error ? error.message : 'カレンダーの取得に失敗しました', 'error');
+    } finally {
+      state.loading = false;
+      elements.reloadButton.disabled = false;
+    }
+  }
+
+  async function loadEntries(): Promise<void> {
+    state.entries = [];
+    if (state.selectedId != null) {
+      const res = await window.electronAPI.listCalendarEntries(state.selectedId);
+      if (!res?.success) throw new Error(res?.message || '休業日の取得に失敗しました');
+      state.entries = res.entries || [];
+    }
+    renderEntries();
+  }
+
+  async function selectCalendar(id: number): Promise<void> {
+    state.selectedId = id;
+    state.importItems = [];
+    renderImportItems();
+    renderCalendars();
+    try {
+      await loadEntries();
+    } catch (error) {
+      console.error(error);
+      setStatus(error instanceof Error ? error.message : '休業日の取得に失敗しました', 'error');
+    }
+  }
+
+  async function createCalendar(): Promise<void> {
+    const name = elements.nameInput.value.trim();
+    if (!name) {
+      setStatus('カレンダー名を入力してください', 'error');
+      return;
+    }
+    const res = await window.electronAPI.createCalendar({ name });
+    if (!res?.success) {
+      setStatus(res?.message || 'カレンダーの作成に失敗しました', 'error');
+      return;
+    }
+    elements.nameInput.value = '';
+    state.selectedId = res.id ?? null;
+    await loadCalendars();
+    setStatus('カレンダーを作成しました', 'success');
+  }
+
+  async function editCalendar(calendar: CalendarInfo): Promise<void> {
+    const name = await window.electronAPI.promptText({
+      title: 'カレンダー名を変更',
+      label: `新しいカレンダー名 (${calendar.name})`,
+      placeholder: calendar.name,
+      ok: '次へ',
+      cancel: 'キャンセル'
+    });
+    if (name == null) {
+      setStatus('変更をキャンセルしました', 'info');
+      return;
+    }
+    const description = await window.electronAPI.promptText({
+      title: '説明を変更',
+      label: '説明（空欄で削除）',
+      placeholder: calendar.description || '',
+      ok: '更新',
+      cancel: 'キャンセル'
+    });
+    if (description == null) {
+      setStatus('変更をキャンセルしました', 'info');
+      return;
+    }
+    const res = await window.electronAPI.updateCalendar(calendar.id, { name: name.trim() || calendar.name, description });
+    if (!res?.success) {
+      setStatus(res?.message || 'カレンダーの更新に失敗しました', 'error');
+      return;
+    }
+    await loadCalendars();
+    setStatus('カレンダーを更新しました', 'success');
+  }
+
+  async function deleteCalendar(calendar: CalendarInfo): Promise<void> {
+    const usage = calendar.ruleCount ? `\n使用中のタスク ${calendar.ruleCount} 件は土日・祝日のみで判定するようになります。` : '';
+    if (!confirm(`カレンダー「${calendar.name}」を削除しますか？${usage}`)) return;
+    const res = await window.electronAPI.deleteCalendar(calendar.id);
+    if (!res?.success) {
+      setStatus(res?.message || 'カレンダーの削除に失敗しました', 'error');
+      return;
+    }
+    if (state.selectedId === calendar.id) state.selectedId = null;
+    await loadCalendars();
+    setStatus('カレンダーを削除しました', 'success');
+  }
+
+  async function addEntries(entries: Array<{ startDate: string; endDate?: string | null; label?: string | null }>): Promise<boolean> {
+    if (state.selectedId == null) return false;
+    const res = await window.electronAPI.addCalendarEntries(state.selectedId, entries);
+    if (!res?.success) {
+      setStatus(res?.message || '休業日の追加に失敗しました', 'error');
+      return false;
+    }
+    await loadCalendars();
+    const dup = res.duplicates ? `（登録済みの ${res.duplicates} 件は追加しませんでした）` : '';
+    setStatus(`${res.added ?? 0} 件の休業日を追加しました${dup}`, 'success');
+    return true;
+  }
+
+  async function addEntryFromForm(): Promise<void> {
+    const startDate = elements.entryStart.value;
+    if (!startDate) {
+      setStatus('開始日を入力してください', 'error');
+      return;
+    }
+    const ok = await addEntries([{ startDate, endDate: elements.entryEnd.value || null, label: elements.entryLabel.value.trim() || null }]);
+    if (ok) {
+      elements.entryStart.value = '';
+      elements.entryEnd.value = '';
+      elements.entryLabel.value = '';
+    }
+  }
+
+  async function deleteEntry(entry: CalendarEntry): Promise<void> {
+    const period = entry.endDate === entry.startDate ? entry.startDate : `${entry.startDate}〜${entry.endDate}`;
+    if (!confirm(`${period}${entry.label ? ` ${entry.label}` : ''} を削除しますか？`)) return;
+    const res = await window.electronAPI.deleteCalendarEntry(entry.id);
+    if (!res?.success) {
+      setStatus(res?.message || '休業日の削除に失敗しました', 'error');
+      return;
+    }
+    await loadCalendars();
+    setStatus('休業日を削除しました', 'success');
+  }
+
+  async function previewImport(): Promise<void> {
+    const encoding = elements.importEncoding.value as 'auto' | 'utf8' | 'shift_jis';
+    const res = await window.electronAPI.previewCalendarImport({ encoding });
+    if (res?.canceled) return;
+    if (!res?.success) {
+      setStatus(res?.message || '休業日ファイルの読み込みに失敗しました', 'error');
+      return;
+    }
+    state.importItems = res.items || [];
+    renderImportItems();
+    const valid = state.importItems.filter(item => item.issues.length === 0).length;
+    setStatus(`${res.filePath}\n取り込み候補 ${state.importItems.length} 件（取り込み可能 ${valid} 件）`, 'info');
+  }
+
+  async function commitImport(): Promise<void> {
+    const entries = state.importItems
+      .filter(item => item.issues.length === 0 && item.startDate)
+      .map(item => ({ startDate: item.startDate!, endDate: item.endDate, label: item.label }));
+    if (!entries.length) return;
+    if (await addEntries(entries)) {
+      state.importItems = [];
+      renderImportItems();
+    }
+  }
+
+  function guard(task: () => Promise<void>, fallback: string): () => void {
+    return () => {
+      task().catch(error => {
+        console.error(error);
+        setStatus(error instanceof Error ? error.message : fallback, 'error');
+      });
+    };
+  }
+
+  elements.createButton.addEventListener('click', guard(createCalendar, 'カレンダーの作成に失敗しました'));
+  elements.nameInput.addEventListener('keydown', event => {
+    if (event.key === 'Enter') guard(createCalendar, 'カレンダーの作成に失敗しました')();
+  });
+  elements.reloadButton.addEventListener('click', guard(loadCalendars, 'カレンダーの再読み込みに失敗しました'));
+  elements.addEntryButton.addEventListener('click', guard(addEntryFromForm, '休業日の追加に失敗しました'));
+  elements.importPreviewButton.addEventListener('click', guard(previewImport, '休業日ファイルの読み込みに失敗しました'));
+  elements.importCommitButton.addEventListener('click', guard(commitImport, '休業日の取り込みに失敗しました'));
+
+  guard(loadCalendars, 'カレンダーの初期読込に失敗しました')();
+})();
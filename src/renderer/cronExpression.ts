@@ -0,0 +1,210 @@
+// cron 形式（「分 時 日 月 曜日」の5項目）の解析・説明・展開（純粋関数・依存なし）
+// メインプロセス（TaskDatabase の生成処理）とレンダラ（タスク編集画面の説明・次回の表示）の双方から使用する。
+// 各項目は * / 値 / 範囲（a-b）/ 間隔（*/n・a-b/n・a/n）/ カンマ区切りの組み合わせ。月・曜日は英語の略称（JAN, MON など）も使える。
+// 日と曜日の両方を指定した場合は、一般的な cron と同じくどちらかに当たる日に発生する。
+
+export type CronSchedule = {
+  // 正規化前の式（前後の空白を除いたもの）
+  expr: string;
+  minutes: number[];
+  hours: number[];
+  days: number[];
+  months: number[];
+  // 0=日〜6=土（7 も日曜として受け付ける）
+  dows: number[];
+  // 日・曜日が * （制限なし）か
+  dayAny: boolean;
+  dowAny: boolean;
+};
+
+export type CronParseResult = { schedule: CronSchedule | null; errors: string[] };
+
+// 1日に発生する回数の上限（毎分などでオカレンスが膨れ上がらないようにする）
+export const MAX_CRON_TIMES_PER_DAY = 48;
+
+// 条件に当たる日を探す最大日数（2月29日だけの式でも次回が見つかる長さ）
+const CRON_SEARCH_MAX_DAYS = 366 * 8;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DOW_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const DOW_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+// 各月の最大日数（2月はうるう年の29日）
+const MONTH_MAX_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+type FieldDef = { label: string; min: number; max: number; names?: string[]; nameBase?: number };
+
+const FIELDS: FieldDef[] = [
+  { label: '分', min: 0, max: 59 },
+  { label: '時', min: 0, max: 23 },
+  { label: '日', min: 1, max: 31 },
+  { label: '月', min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  { label: '曜日', min: 0, max: 7, names: DOW_NAMES, nameBase: 0 }
+];
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function parseFieldValue(token: string, def: FieldDef): number | null {
+  if (/^\d+$/.test(token)) return Number(token);
+  if (def.names) {
+    const idx = def.names.indexOf(token.toUpperCase());
+    if (idx >= 0) return idx + (def.nameBase ?? 0);
+  }
+  return null;
+}
+
+// 1項目を値の集合にする。解釈できない部分は errors に加える
+function parseField(text: string, def: FieldDef, errors: string[]): number[] {
+  const values = new Set<number>();
+  for (const item of text.split(',')) {
+    if (!item) {
+      errors.push(`${def.label}の指定に空の要素があります（${text}）`);
+      continue;
+    }
+    const m = item.match(/^([^/]+)(?:\/(\d+))?$/);
+    if (!m) {
+      errors.push(`${def.label}の「${item}」を解釈できません`);
+      continue;
+    }
+    const step = m[2] != null ? Number(m[2]) : 1;
+    if (step < 1) {
+      errors.push(`${def.label}の間隔「${item}」は1以上を指定してください`);
+      continue;
+    }
+    let from: number | null;
+    let to: number | null;
+    if (m[1] === '*' || m[1] === '?') {
+      from = def.min;
+      to = def.max;
+    } else {
+      const range = m[1].split('-');
+      if (range.length > 2) {
+        errors.push(`${def.label}の「${item}」を解釈できません`);
+        continue;
+      }
+      from = parseFieldValue(range[0], def);
+      // 'a/n' は a から最大値まで
+      to = range.length === 2 ? parseFieldValue(range[1], def) : (m[2] != null ? def.max : from);
+      if (from == null || to == null) {
+        errors.push(`${def.label}の「${item}」を解釈できません`);
+        continue;
+      }
+      if (from < def.min || from > def.max || to < def.min || to > def.max) {
+        errors.push(`${def.label}の値「${item}」が範囲外です（${def.min}〜${def.max}）`);
+        continue;
+      }
+      if (from > to) {
+        errors.push(`${def.label}の範囲「${item}」は小さい値から指定してください`);
+        continue;
+      }
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+export function parseCronExpression(text: string | null | undefined): CronParseResult {
+  const expr = String(text ?? '').trim();
+  if (!expr) return { schedule: null, errors: ['cron 式を入力してください'] };
+  const expanded = expr.startsWith('@') ? MACROS[expr.toLowerCase()] : expr;
+  if (!expanded) return { schedule: null, errors: [`${expr} は使えません（${Object.keys(MACROS).join(' / ')}）`] };
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5) {
+    return { schedule: null, errors: [`cron 式は「分 時 日 月 曜日」の5項目で指定してください（${parts.length}項目あります）`] };
+  }
+  const errors: string[] = [];
+  const [minutes, hours, days, months, rawDows] = parts.map((p, i) => parseField(p, FIELDS[i], errors));
+  if (errors.length) return { schedule: null, errors };
+  const dows = Array.from(new Set(rawDows.map(d => d % 7))).sort((a, b) => a - b);
+  const dayAny = parts[2] === '*' || parts[2] === '?';
+  const dowAny = parts[4] === '*' || parts[4] === '?';
+  const timesPerDay = minutes.length * hours.length;
+  if (timesPerDay > MAX_CRON_TIMES_PER_DAY) {
+    errors.push(`1日の発生回数が多すぎます（${timesPerDay}回。${MAX_CRON_TIMES_PER_DAY}回まで）`);
+  }
+  if (!dayAny && dowAny && !months.some(m => days.some(d => d <= MONTH_MAX_DAYS[m - 1]))) {
+    errors.push('指定した月に存在しない日付です（例: 2月30日）');
+  }
+  if (errors.length) return { schedule: null, errors };
+  return { schedule: { expr, minutes, hours, days, months, dows, dayAny, dowAny }, errors: [] };
+}
+
+// その日（'YYYY-MM-DD'）が条件に当たるか
+export function cronMatchesDate(schedule: CronSchedule, ymd: string): boolean {
+  const [y, m, d] = ymd.split('-').map(Number);
+  if (!schedule.months.includes(m)) return false;
+  const dayOk = schedule.days.includes(d);
+  const dowOk = schedule.dows.includes(new Date(y, m - 1, d).getDay());
+  if (schedule.dayAny && schedule.dowAny) return true;
+  if (schedule.dayAny) return dowOk;
+  if (schedule.dowAny) return dayOk;
+  return dayOk || dowOk;
+}
+
+// 1日の発生時刻（'HH:MM'、昇順）
+export function cronTimesOfDay(schedule: CronSchedule): string[] {
+  const res: string[] = [];
+  for (const h of schedule.hours) {
+    for (const m of schedule.minutes) res.push(`${pad2(h)}:${pad2(m)}`);
+  }
+  return res;
+}
+
+function addDays(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split('-').map(Number);
+  const dt = new Date(y, m - 1, d + days);
+  return `${dt.getFullYear()}-${pad2(dt.getMonth() + 1)}-${pad2(dt.getDate())}`;
+}
+
+// from 以降（from を含む）で条件に当たる日を昇順に列挙する。maxDays 日先まで探す
+export function* iterateCronDates(schedule: CronSchedule, from: string, maxDays: number = CRON_SEARCH_MAX_DAYS): Generator<string> {
+  for (let i = 0; i < maxDays; i++) {
+    const d = addDays(from, i);
+    if (cronMatchesDate(schedule, d)) yield d;
+  }
+}
+
+// 連続する値を「a〜b」にまとめる（[1,2,3,5] → '1〜3・5'）
+function formatNumberRuns(values: number[], label: (n: number) => string = String): string {
+  const parts: string[] = [];
+  for (let i = 0; i < values.length; i++) {
+    let j = i;
+    while (j + 1 < values.length && values[j + 1] === values[j] + 1) j++;
+    parts.push(j - i >= 2 ? `${label(values[i])}〜${label(values[j])}` : values.slice(i, j + 1).map(label).join('・'));
+    i = j;
+  }
+  return parts.join('・');
+}
+
+// 人が読める説明（例: '0 8,13,21 * * *' → '毎日 8:00・13:00・21:00'）
+export function describeCronSchedule(schedule: CronSchedule): string {
+  const allMonths = schedule.months.length === 12;
+  const monthPart = allMonths ? '' : `${formatNumberRuns(schedule.months)}月`;
+  const dowPart = formatNumberRuns(schedule.dows, d => DOW_LABELS[d]) + '曜';
+  let datePart: string;
+  if (schedule.dayAny && schedule.dowAny) {
+    datePart = allMonths ? '毎日' : `${monthPart}の毎日`;
+  } else if (schedule.dowAny) {
+    datePart = `${allMonths ? '毎月' : monthPart}${formatNumberRuns(schedule.days)}日`;
+  } else if (schedule.dayAny) {
+    datePart = `${allMonths ? '' : `${monthPart}の`}毎週${dowPart}`;
+  } else {
+    datePart = `${allMonths ? '毎月' : monthPart}${formatNumberRuns(schedule.days)}日または${dowPart}`;
+  }
+  const times = cronTimesOfDay(schedule);
+  const timePart = times.length <= 6
+    ? times.map(t => t.replace(/^0(\d)/, '$1')).join('・')
+    : `${formatNumberRuns(schedule.hours)}時の${formatNumberRuns(schedule.minutes)}分（1日${times.length}回）`;
+  return `${datePart} ${timePart}`;
+}
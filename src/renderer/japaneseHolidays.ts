@@ -0,0 +1,164 @@
+// 日本の祝日（「国民の祝日に関する法律」）を年ごとに算出する（純粋関数・依存なし・オフライン）
+// メインプロセス（オカレンス生成）とレンダラ（編集画面のプレビュー・タスク表示）の双方から使用する。
+// - 固定日・ハッピーマンデー・春分/秋分（天文計算の近似式）・振替休日・国民の休日・特例年（皇室行事、五輪による移動）
+// - 1948年7月20日（法施行）より前の日付は祝日なし
+// 日付はローカル日付の 'YYYY-MM-DD' 文字列で扱う。
+
+const LAW_START = '1948-07-20';
+
+function ymdOf(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function dowOf(year: number, month: number, day: number): number {
+  return new Date(year, month - 1, day).getDay();
+}
+
+// 第 nth 月曜日（ハッピーマンデー）
+function nthMonday(year: number, month: number, nth: number): number {
+  const offset = (1 - dowOf(year, month, 1) + 7) % 7;
+  return 1 + offset + (nth - 1) * 7;
+}
+
+// 春分日・秋分日（海上保安庁水路部の近似式。1900〜2150年で官報の公表値と一致する）
+function equinoxDay(year: number, kind: 'vernal' | 'autumnal'): number {
+  let base: number;
+  let ref: number;
+  if (year < 1980) {
+    base = kind === 'vernal' ? 20.8357 : 23.2588;
+    ref = 1983;
+  } else if (year < 2100) {
+    base = kind === 'vernal' ? 20.8431 : 23.2488;
+    ref = 1980;
+  } else {
+    base = kind === 'vernal' ? 21.8510 : 24.2488;
+    ref = 1980;
+  }
+  return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - ref) / 4));
+}
+
+// 皇室行事などによる一度限りの祝日
+const SPECIAL_HOLIDAYS: Record<string, string> = {
+  '1959-04-10': '皇太子明仁親王の結婚の儀',
+  '1989-02-24': '昭和天皇の大喪の礼',
+  '1990-11-12': '即位礼正殿の儀',
+  '1993-06-09': '皇太子徳仁親王の結婚の儀',
+  '2019-05-01': '天皇の即位の日',
+  '2019-10-22': '即位礼正殿の儀'
+};
+
+// 東京五輪の特措法による移動（2020・2021年）
+const OLYMPIC_MOVES: Record<number, { umi: number[]; yama: number[]; sports: number[] }> = {
+  2020: { umi: [7, 23], yama: [8, 10], sports: [7, 24] },
+  2021: { umi: [7, 22], yama: [8, 8], sports: [7, 23] }
+};
+
+// 振替休日・国民の休日を除いた「国民の祝日」
+function nationalHolidays(year: number): Map<string, string> {
+  const res = new Map<string, string>();
+  const add = (month: number, day: number, name: string) => {
+    const key = ymdOf(year, month, day);
+    if (key >= LAW_START) res.set(key, name);
+  };
+  if (year < 1948) return res;
+  const olympic = OLYMPIC_MOVES[year];
+
+  add(1, 1, '元日');
+  if (year >= 2000) add(1, nthMonday(year, 1, 2), '成人の日');
+  else if (year >= 1949) add(1, 15, '成人の日');
+  if (year >= 1967) add(2, 11, '建国記念の日');
+  if (year >= 2020) add(2, 23, '天皇誕生日');
+  if (year >= 1949) add(3, equinoxDay(year, 'vernal'), '春分の日');
+  if (year >= 2007) add(4, 29, '昭和の日');
+  else if (year >= 1989) add(4, 29, 'みどりの日');
+  else if (year >= 1949) add(4, 29, '天皇誕生日');
+  add(5, 3, '憲法記念日');
+  if (year >= 2007) add(5, 4, 'みどりの日');
+  add(5, 5, 'こどもの日');
+  if (olympic) add(olympic.umi[0], olympic.umi[1], '海の日');
+  else if (year >= 2003) add(7, nthMonday(year, 7, 3), '海の日');
+  else if (year >= 1996) add(7, 20, '海の日');
+  if (olympic) add(olympic.yama[0], olympic.yama[1], '山の日');
+  else if (year >= 2016) add(8, 11, '山の日');
+  if (year >= 2003) add(9, nthMonday(year, 9, 3), '敬老の日');
+  else if (year >= 1966) add(9, 15, '敬老の日');
+  add(9, equinoxDay(year, 'autumnal'), '秋分の日');
+  if (olympic) add(olympic.sports[0], olympic.sports[1], 'スポーツの日');
+  else if (year >= 2020) add(10, nthMonday(year, 10, 2), 'スポーツの日');
+  else if (year >= 2000) add(10, nthMonday(year, 10, 2), '体育の日');
+  else if (year >= 1966) add(10, 10, '体育の日');
+  add(11, 3, '文化の日');
+  add(11, 23, '勤労感謝の日');
+  if (year >= 1989 && year <= 2018) add(12, 23, '天皇誕生日');
+
+  for (const [date, name] of Object.entries(SPECIAL_HOLIDAYS)) {
+    if (date.startsWith(`${year}-`)) res.set(date, name);
+  }
+  return res;
+}
+
+function addDays(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split('-').map(Number);
+  const dt = new Date(y, m - 1, d + days);
+  return ymdOf(dt.getFullYear(), dt.getMonth() + 1, dt.getDate());
+}
+
+function isSunday(ymd: string): boolean {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return dowOf(y, m, d) === 0;
+}
+
+const yearCache = new Map<number, Map<string, string>>();
+
+/** 指定年の祝日・休日（日付 → 名称）。振替休日・国民の休日を含む */
+export function japaneseHolidaysOfYear(year: number): Map<string, string> {
+  const cached = yearCache.get(year);
+  if (cached) return cached;
+  // 年をまたぐ判定に備えて前後の年の祝日も参照する
+  const national = new Map<string, string>([...nationalHolidays(year - 1), ...nationalHolidays(year), ...nationalHolidays(year + 1)]);
+  const res = new Map<string, string>();
+  for (const [date, name] of national) {
+    if (date.startsWith(`${year}-`)) res.set(date, name);
+  }
+  // 国民の休日（1985年12月27日施行）: 前日と翌日が祝日である平日
+  for (const [date] of national) {
+    if (date < '1985-12-27') continue;
+    const between = addDays(date, 1);
+    if (!between.startsWith(`${year}-`) || national.has(between) || isSunday(between)) continue;
+    if (national.has(addDays(date, 2))) res.set(between, '国民の休日');
+  }
+  // 振替休日（1973年4月12日施行）: 日曜の祝日の後の最初の休日でない日（2006年までは翌日のみ）
+  for (const [date] of national) {
+    if (date < '1973-04-12' || !isSunday(date)) continue;
+    let sub = addDays(date, 1);
+    if (date >= '2007-01-01') {
+      while (national.has(sub)) sub = addDays(sub, 1);
+    } else if (national.has(sub)) {
+      continue;
+    }
+    if (sub.startsWith(`${year}-`)) res.set(sub, '振替休日');
+  }
+  const sorted = new Map(Array.from(res).sort((a, b) => a[0].localeCompare(b[0])));
+  yearCache.set(year, sorted);
+  return sorted;
+}
+
+/** 祝日・休日の名称。該当しなければ null */
+export function japaneseHolidayName(ymd: string): string | null {
+  const s = String(ymd || '').split('T')[0];
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return null;
+  return japaneseHolidaysOfYear(Number(s.slice(0, 4))).get(s) ?? null;
+}
+
+export function isJapaneseHoliday(ymd: string): boolean {
+  return japaneseHolidayName(ymd) != null;
+}
+
+/** 営業日（土日・祝日・休日以外） */
+export function isBusinessDay(ymd: string): boolean {
+  const s = String(ymd || '').split('T')[0];
+  const [y, m, d] = s.split('-').map(Number);
+  const dow = dowOf(y, m, d);
+  if (dow === 0 || dow === 6) return false;
+  return !isJapaneseHoliday(s);
+}
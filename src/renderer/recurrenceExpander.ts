@@ -0,0 +1,800 @@
+// 繰り返しルールの展開（純粋関数・依存なし）
+// メインプロセス（TaskDatabase の生成処理）とレンダラ（タスク編集画面のプレビュー）の双方から使用する。
+// 日付はすべてローカル日付の 'YYYY-MM-DD' 文字列で扱う。
+
+import { isBusinessDay } from './japaneseHolidays.js';
+import { CronSchedule, cronTimesOfDay, iterateCronDates, parseCronExpression } from './cronExpression.js';
+
+export type RecurrenceFreq = 'daily' | 'weekly' | 'monthly' | 'monthlyNth' | 'monthlyBusinessDay' | 'yearly' | 'dates' | 'cron';
+
+// 予定日が土日・祝日に当たる場合の扱い: そのまま / 前の営業日 / 次の営業日 / その回は休み
+export type HolidayShiftPolicy = 'keep' | 'prev' | 'next' | 'skip';
+
+export const HOLIDAY_SHIFT_POLICIES: HolidayShiftPolicy[] = ['keep', 'prev', 'next', 'skip'];
+
+export type RecurrenceRuleSpec = {
+  freq: RecurrenceFreq;
+  // 基準日（オフセット適用前）
+  startDate: string;
+  // タスクの開始日。日付を指定してルールを変更した場合、startDate は新しいルールの適用開始日になり、追加ルールはこちらから数える
+  seriesStartDate?: string | null;
+  interval?: number;
+  anchor?: 'scheduled' | 'completed';
+  // 0 または未指定 = 無限
+  count?: number;
+  // 系列上の予定日（オフセット適用後）がこの日を過ぎたら終了
+  untilDate?: string | null;
+  offsetDays?: number;
+  // 日次（発生基準・無限）の生成ウィンドウ（日数）
+  horizonDays?: number | null;
+  // bit0=日〜bit6=土
+  weeklyDows?: number;
+  monthlyDay?: number | null;
+  monthlyNth?: number | null;
+  monthlyNthDow?: number | null;
+  // 月次の複数指定（例: 1日と15日 / 第2・第4水曜）。指定があれば monthlyDay / monthlyNth より優先する
+  monthlyDays?: number[] | null;
+  monthlyNthPairs?: MonthlyNthPair[] | null;
+  // 月次（営業日指定）: 1..23=月初から第N営業日 / -1..-23=月末から（-1=最終営業日）
+  monthlyBusinessDay?: number | null;
+  yearlyMonth?: number | null;
+  // 日付リスト（freq='dates'）: 発生日（基準日）と時刻の一覧。時刻が null の日は開始時刻を使う
+  dateList?: RecurrenceDateEntry[] | null;
+  // cron 式（freq='cron'）: 「分 時 日 月 曜日」。発生時刻は式の時・分で決まり、開始時刻は使わない
+  cronExpr?: string | null;
+  // 1日の時刻リスト（'HH:MM' の昇順）。指定があれば各日に時刻ごとのオカレンスを作り、開始時刻は使わない（日付リスト・cron 式では使わない）
+  timesOfDay?: string[] | null;
+  holidayPolicy?: HolidayShiftPolicy;
+  // 参照カレンダー（会社の休業日など）の休業日。土日・祝日に加えて営業日でない日として扱う
+  closedDates?: ReadonlySet<string> | null;
+};
+
+// 日付リストの1件（date: 'YYYY-MM-DD', time: 'HH:MM' または null）
+export type RecurrenceDateEntry = { date: string; time: string | null };
+
+// 第N曜日の組（nth=1..5 / -1=最終, dow=0(日)..6(土)）
+export type MonthlyNthPair = { nth: number; dow: number };
+
+export type RecurrenceExceptionEntry = { action: 'skip' | 'reschedule'; newDate: string | null; newTime: string | null };
+export type RecurrenceExceptionMap = Map<string, RecurrenceExceptionEntry>;
+
+// seriesDate: 系列上の予定日（例外適用前）。date/time: 例外適用後の実際の日付・時刻。
+export type PlannedOccurrence = { seriesDate: string; date: string; time: string | null };
+
+export type GenerationPolicy = {
+  today: string;
+  dailyHorizonDays: number;
+  monthsAhead: number;
+  yearsAhead: number;
+  // 主ルールの完了済みの回（occurrenceMatchKey）。週次（無限）の「次の1回」はこれを飛ばして決める
+  completedKeys?: ReadonlySet<string> | null;
+};
+
+// 無限（COUNT=0）の先出し生成の既定値。DB生成とプレビューで共通。
+export const DEFAULT_DAILY_HORIZON_DAYS = 14;
+export const DEFAULT_MONTHS_AHEAD = 2;
+export const DEFAULT_YEARS_AHEAD = 2;
+
+// 展開の安全上限（周期数）
+const SERIES_PERIOD_CAP: Record<RecurrenceFreq, number> = {
+  daily: 36600,
+  weekly: 520,
+  monthly: 240,
+  monthlyNth: 240,
+  monthlyBusinessDay: 240,
+  yearly: 200,
+  dates: 1000,
+  // cron 式は日数（条件に当たる日を探す範囲）
+  cron: 36600
+};
+
+export function formatYmd(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const da = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${da}`;
+}
+
+export function parseYmd(value: string): Date {
+  const s = String(value).split('T')[0];
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) {
+    const d = new Date(value);
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  }
+  const [yy, mm, dd] = s.split('-').map(Number);
+  return new Date(yy, (mm ?? 1) - 1, dd ?? 1);
+}
+
+export function addDaysYmd(value: string, days: number): string {
+  const d = parseYmd(value);
+  if (days) d.setDate(d.getDate() + days);
+  return formatYmd(d);
+}
+
+export function todayYmd(): string {
+  return formatYmd(new Date());
+}
+
+export function clampMonthlyDate(year: number, monthIndex0: number, day: number): string {
+  const last = new Date(year, monthIndex0 + 1, 0).getDate();
+  const d = Math.min(Math.max(day, 1), last);
+  return formatYmd(new Date(year, monthIndex0, d));
+}
+
+// nth=1..5 / -1=最終。第5週が存在しない月は第4週に丸める。
+export function nthWeekdayOfMonth(year: number, monthIndex0: number, nth: number, dow: number): string {
+  if (nth === -1) {
+    const lastDay = new Date(year, monthIndex0 + 1, 0).getDate();
+    const lastDow = new Date(year, monthIndex0, lastDay).getDay();
+    const diff = (lastDow - dow + 7) % 7;
+    return formatYmd(new Date(year, monthIndex0, lastDay - diff));
+  }
+  const firstDow = new Date(year, monthIndex0, 1).getDay();
+  const offset = (dow - firstDow + 7) % 7;
+  let day = 1 + offset + (nth - 1) * 7;
+  const last = new Date(year, monthIndex0 + 1, 0).getDate();
+  if (day > last) day -= 7;
+  return formatYmd(new Date(year, monthIndex0, day));
+}
+
+// 月次・年次の INTERVAL の上限（Nヶ月ごと / N年ごと）
+export const MAX_MONTHLY_INTERVAL = 120;
+export const MAX_YEARLY_INTERVAL = 50;
+// 週次の INTERVAL の上限（完了基準の N週ごと）
+export const MAX_WEEKLY_INTERVAL = 52;
+
+// 営業日指定の上限（1ヶ月の営業日はおおむね23日以下）
+export const MAX_MONTHLY_BUSINESS_DAY = 23;
+
+// 日付リストの上限件数
+export const MAX_DATE_LIST_ENTRIES = 1000;
+
+// 1日の時刻リストの上限件数
+export const MAX_TIMES_OF_DAY = 48;
+
+// 1日の時刻リスト（'8:00, 13:00, 21:00'）を解析する。空白・カンマ・読点で区切り、重複を除いて昇順にする
+export function parseTimesOfDayText(text: string | null | undefined): { times: string[]; errors: string[] } {
+  const times = new Set<string>();
+  const errors: string[] = [];
+  for (const token of String(text ?? '').split(/[\s,、]+/).filter(Boolean)) {
+    const m = /^(\d{1,2}):(\d{2})$/.exec(token);
+    if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) {
+      errors.push(`時刻として読めません: ${token}`);
+      continue;
+    }
+    times.add(`${m[1].padStart(2, '0')}:${m[2]}`);
+  }
+  if (times.size > MAX_TIMES_OF_DAY) errors.push(`1日の時刻は${MAX_TIMES_OF_DAY}件までです（${times.size}件）`);
+  return { times: Array.from(times).sort(), errors };
+}
+
+export function formatTimesOfDayList(times: string[]): string {
+  return times.join(',');
+}
+
+// 日付リストの貼り付け（1行に1件。「日付 [時刻]」を空白・タブ・カンマで区切る）を解析する。
+// 日付は YYYY-MM-DD / YYYY/MM/DD、時刻は HH:MM。同じ日付が複数あれば後の行を使う。結果は日付順
+export function parseDateListText(text: string): { entries: RecurrenceDateEntry[]; errors: string[] } {
+  const byDate = new Map<string, RecurrenceDateEntry>();
+  const errors: string[] = [];
+  String(text ?? '').split(/\r?\n/).forEach((raw, i) => {
+    const cells = raw.split(/[\s,]+/).filter(Boolean);
+    if (!cells.length) return;
+    const dm = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(cells[0]);
+    const date = dm ? `${dm[1]}-${dm[2].padStart(2, '0')}-${dm[3].padStart(2, '0')}` : null;
+    if (!date || formatYmd(parseYmd(date)) !== date) {
+      errors.push(`${i + 1}行目: 日付として読めません: ${cells[0]}`);
+      return;
+    }
+    let time: string | null = null;
+    if (cells[1]) {
+      const tm = /^(\d{1,2}):(\d{2})$/.exec(cells[1]);
+      if (!tm || Number(tm[1]) > 23 || Number(tm[2]) > 59) {
+        errors.push(`${i + 1}行目: 時刻として読めません: ${cells[1]}`);
+        return;
+      }
+      time = `${tm[1].padStart(2, '0')}:${tm[2]}`;
+    }
+    byDate.set(date, { date, time });
+  });
+  const entries = Array.from(byDate.values()).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  if (entries.length > MAX_DATE_LIST_ENTRIES) errors.push(`日付リストは${MAX_DATE_LIST_ENTRIES}件までです（${entries.length}件）`);
+  return { entries, errors };
+}
+
+// 日付リストを貼り付け欄の形式（1行に「日付 [時刻]」）にする
+export function formatDateListText(entries: RecurrenceDateEntry[]): string {
+  return entries.map(e => (e.time ? `${e.date} ${e.time}` : e.date)).join('\n');
+}
+
+// 月初（nth>0）または月末（nth<0）から数えて第N営業日。営業日が足りない月はその月の最後（月末からの場合は最初）の営業日に丸める。
+// closedDates の日も営業日でない日として扱う。
+export function nthBusinessDayOfMonth(year: number, monthIndex0: number, nth: number, closedDates?: ReadonlySet<string> | null): string {
+  const first = formatYmd(new Date(year, monthIndex0, 1));
+  const last = formatYmd(new Date(year, monthIndex0 + 1, 0));
+  const fromEnd = nth < 0;
+  const step = fromEnd ? -1 : 1;
+  let d = fromEnd ? last : first;
+  let found: string | null = null;
+  let remaining = Math.max(1, Math.abs(nth));
+  while (d >= first && d <= last) {
+    if (isOpenDay(d, closedDates)) {
+      found = d;
+      if (--remaining === 0) break;
+    }
+    d = addDaysYmd(d, step);
+  }
+  // 営業日が1日もない月は暦日の月初/月末とする
+  return found ?? (fromEnd ? last : first);
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+  return Math.round((parseYmd(toYmd).getTime() - parseYmd(fromYmd).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function isFiniteCount(rule: RecurrenceRuleSpec): boolean {
+  return Number(rule.count || 0) >= 1;
+}
+
+// cron 式の解析結果（不正な式は null）
+function cronScheduleOf(rule: RecurrenceRuleSpec): CronSchedule | null {
+  return parseCronExpression(rule.cronExpr).schedule;
+}
+
+// 日付リストの基準日（昇順・重複なし）
+function dateListBaseDates(rule: RecurrenceRuleSpec): string[] {
+  return Array.from(new Set((rule.dateList || []).map(e => e.date))).sort();
+}
+
+// 月次の日付リスト（'1,15'）。範囲外・重複は除き昇順にする
+export function parseMonthlyDayList(value: string | null | undefined): number[] {
+  const days = String(value ?? '')
+    .split(/[,、\s]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((d) => Number.isInteger(d) && d >= 1 && d <= 31);
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+export function formatMonthlyDayList(days: number[]): string {
+  return days.join(',');
+}
+
+// 第N曜日の組のリスト（'2:3,4:3' = 第2水・第4水）。不正な組・重複は除き、nth（最終は末尾）→曜日の順に並べる
+export function parseMonthlyNthPairList(value: string | null | undefined): MonthlyNthPair[] {
+  const pairs: MonthlyNthPair[] = [];
+  for (const token of String(value ?? '').split(',')) {
+    const m = token.trim().match(/^(-1|[1-5]):([0-6])$/);
+    if (!m) continue;
+    const pair = { nth: Number(m[1]), dow: Number(m[2]) };
+    if (!pairs.some((p) => p.nth === pair.nth && p.dow === pair.dow)) pairs.push(pair);
+  }
+  const order = (nth: number) => (nth === -1 ? 6 : nth);
+  return pairs.sort((a, b) => order(a.nth) - order(b.nth) || a.dow - b.dow);
+}
+
+export function formatMonthlyNthPairList(pairs: MonthlyNthPair[]): string {
+  return pairs.map((p) => `${p.nth}:${p.dow}`).join(',');
+}
+
+function monthlyDaysOf(rule: RecurrenceRuleSpec): number[] {
+  if (rule.monthlyDays && rule.monthlyDays.length) return rule.monthlyDays;
+  const day = Number(rule.monthlyDay || 0);
+  return day >= 1 && day <= 31 ? [day] : [];
+}
+
+function monthlyNthPairsOf(rule: RecurrenceRuleSpec): MonthlyNthPair[] {
+  if (rule.monthlyNthPairs && rule.monthlyNthPairs.length) return rule.monthlyNthPairs;
+  if (rule.monthlyNth == null || rule.monthlyNthDow == null) return [];
+  return [{ nth: Number(rule.monthlyNth), dow: Number(rule.monthlyNthDow) }];
+}
+
+// その月の基準日（昇順・重複なし）。31日と30日の指定が短い月で同じ日に丸まる場合は1回にまとめる。
+// ルールが不完全な場合は空。
+function monthlyBaseDates(rule: RecurrenceRuleSpec, year: number, monthIndex0: number): string[] {
+  let dates: string[];
+  if (rule.freq === 'monthlyNth') {
+    dates = monthlyNthPairsOf(rule).map((p) => nthWeekdayOfMonth(year, monthIndex0, p.nth, p.dow));
+  } else if (rule.freq === 'monthlyBusinessDay') {
+    const nth = Number(rule.monthlyBusinessDay || 0);
+    if (!Number.isInteger(nth) || nth === 0 || Math.abs(nth) > MAX_MONTHLY_BUSINESS_DAY) return [];
+    dates = [nthBusinessDayOfMonth(year, monthIndex0, nth, rule.closedDates)];
+  } else {
+    dates = monthlyDaysOf(rule).map((day) => clampMonthlyDate(year, monthIndex0, day));
+  }
+  return Array.from(new Set(dates)).sort();
+}
+
+// 基準日（オフセット適用前）を昇順に列挙する。skipToBase を指定すると、その付近から列挙を始める（COUNT 有限時は不可）。
+function* iterateBaseDates(rule: RecurrenceRuleSpec, skipToBase?: string | null): Generator<string> {
+  const start = String(rule.startDate).split('T')[0];
+  const interval = Math.max(1, Number(rule.interval || 1));
+  const cap = SERIES_PERIOD_CAP[rule.freq];
+  const skip = skipToBase && skipToBase > start ? skipToBase : null;
+  if (rule.freq === 'dates') {
+    // 開始日はリストの先頭日に揃えて保存するため、開始日による絞り込みはしない
+    yield* dateListBaseDates(rule).slice(0, cap);
+    return;
+  }
+  if (rule.freq === 'cron') {
+    const schedule = cronScheduleOf(rule);
+    if (schedule) yield* iterateCronDates(schedule, skip ?? start, cap);
+    return;
+  }
+  if (rule.freq === 'daily') {
+    let k = skip ? Math.floor(daysBetween(start, skip) / interval) : 0;
+    for (let n = 0; n < cap; n++, k++) {
+      yield addDaysYmd(start, k * interval);
+    }
+    return;
+  }
+  if (rule.freq === 'weekly') {
+    const mask = Number(rule.weeklyDows || 0);
+    if (!mask) return;
+    const start0 = parseYmd(start);
+    const startSunday = addDaysYmd(start, -start0.getDay());
+    let w = 0;
+    if (skip) {
+      const weeks = Math.floor(daysBetween(startSunday, skip) / 7);
+      w = Math.max(0, Math.floor(weeks / interval) * interval);
+    }
+    for (let n = 0; n < cap; n++, w += interval) {
+      for (let dow = 0; dow <= 6; dow++) {
+        if (!(mask & (1 << dow))) continue;
+        const d = addDaysYmd(startSunday, w * 7 + dow);
+        if (d < start) continue;
+        yield d;
+      }
+    }
+    return;
+  }
+  if (rule.freq === 'monthly' || rule.freq === 'monthlyNth' || rule.freq === 'monthlyBusinessDay') {
+    // INTERVAL ヶ月ごと: 開始日の月を起点に INTERVAL ヶ月おき（開始日より前になる回は飛ばす。RFC 5545 と同じ）
+    const s = parseYmd(start);
+    let i = 0;
+    if (skip) {
+      const k = parseYmd(skip);
+      const months = Math.max(0, (k.getFullYear() - s.getFullYear()) * 12 + (k.getMonth() - s.getMonth()) - 1);
+      i = Math.floor(months / interval) * interval;
+    }
+    for (let n = 0; n < cap; n++, i += interval) {
+      const bases = monthlyBaseDates(rule, s.getFullYear(), s.getMonth() + i);
+      if (!bases.length) return;
+      for (const base of bases) {
+        if (base < start) continue;
+        yield base;
+      }
+    }
+    return;
+  }
+  if (rule.freq === 'yearly') {
+    const month = Number(rule.yearlyMonth || 0);
+    const day = Number(rule.monthlyDay || 0);
+    if (!(month >= 1 && month <= 12) || !(day >= 1 && day <= 31)) return;
+    const startYear = parseYmd(start).getFullYear();
+    let y = startYear;
+    if (skip) y += Math.floor(Math.max(0, parseYmd(skip).getFullYear() - 1 - startYear) / interval) * interval;
+    for (let n = 0; n < cap; n++, y += interval) {
+      const base = clampMonthlyDate(y, month - 1, day);
+      if (base < start) continue;
+      yield base;
+    }
+  }
+}
+
+// 系列上の予定日（オフセット適用後・例外適用前）を昇順に列挙する。COUNT / UNTIL_DATE で終了する。
+// COUNT はスキップした回も含めて数える（cron 式・1日の時刻リストは時刻ごとに1回と数える）。
+export function* iterateSeriesDates(rule: RecurrenceRuleSpec, from?: string | null): Generator<string> {
+  const offset = Number(rule.offsetDays || 0);
+  const count = Number(rule.count || 0);
+  const finite = isFiniteCount(rule);
+  const until = rule.untilDate || null;
+  const perDate = seriesTimesOf(rule, null).length;
+  // COUNT 有限の場合は回数を数えるため先頭から列挙する
+  const skipToBase = !finite && from ? addDaysYmd(from, -offset - 7) : null;
+  let index = 0;
+  for (const base of iterateBaseDates(rule, skipToBase)) {
+    if (finite && index >= count) return;
+    index += perDate;
+    const series = addDaysYmd(base, offset);
+    if (until && series > until) return;
+    yield series;
+  }
+}
+
+// from..to（系列上の予定日）の範囲の日付を返す
+export function expandSeriesDates(rule: RecurrenceRuleSpec, window: { from?: string | null; to?: string | null } = {}): string[] {
+  const res: string[] = [];
+  const from = window.from || null;
+  const to = window.to || null;
+  if (!isFiniteCount(rule) && !rule.untilDate && !to) {
+    throw new Error('無限の繰り返しには終了日付（to）が必要です');
+  }
+  for (const d of iterateSeriesDates(rule, from)) {
+    if (to && d > to) break;
+    if (from && d < from) continue;
+    res.push(d);
+  }
+  return res;
+}
+
+// 例外を適用した実際の日付・時刻を返す。skip の場合は null。
+export function resolveRecurrenceException(
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  seriesDate: string,
+  defaultTime: string | null
+): { date: string; time: string | null } | null {
+  const ex = exceptions ? exceptions.get(seriesDate) : undefined;
+  if (!ex) return { date: seriesDate, time: defaultTime };
+  if (ex.action === 'skip') return null;
+  return { date: ex.newDate || seriesDate, time: ex.newTime || defaultTime };
+}
+
+// 祝日の扱いで日付をずらす最大日数（学校の長期休暇など長い休業期間も抜けられるようにする）
+const HOLIDAY_SHIFT_MAX_DAYS = 92;
+
+function isOpenDay(date: string, closedDates: ReadonlySet<string> | null | undefined): boolean {
+  return isBusinessDay(date) && !(closedDates && closedDates.has(date));
+}
+
+// 祝日の扱いを適用した日付。営業日ならそのまま、skip の場合は null。closedDates の日も営業日でない日として扱う。
+export function applyHolidayPolicy(date: string, policy: HolidayShiftPolicy | null | undefined, closedDates?: ReadonlySet<string> | null): string | null {
+  if (!policy || policy === 'keep' || isOpenDay(date, closedDates)) return date;
+  if (policy === 'skip') return null;
+  const step = policy === 'prev' ? -1 : 1;
+  let d = date;
+  // 営業日が見つからないほど長い休業期間では、暴走しないよう元の日付のままにする
+  for (let guard = 0; guard < HOLIDAY_SHIFT_MAX_DAYS; guard++) {
+    d = addDaysYmd(d, step);
+    if (isOpenDay(d, closedDates)) return d;
+  }
+  return date;
+}
+
+// 系列上の予定日から実際の日付・時刻を求める。個別の例外（skip/reschedule）があればそれを優先し、なければ祝日の扱いを適用する。
+export function resolveSeriesOccurrence(
+  rule: RecurrenceRuleSpec,
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  seriesDate: string,
+  defaultTime: string | null
+): { date: string; time: string | null } | null {
+  const time = seriesTimeOf(rule, seriesDate, defaultTime);
+  if (exceptions && exceptions.has(seriesDate)) return resolveRecurrenceException(exceptions, seriesDate, time);
+  const date = applyHolidayPolicy(seriesDate, rule.holidayPolicy, rule.closedDates);
+  return date ? { date, time } : null;
+}
+
+// 系列上の予定日の時刻。日付リストで時刻を指定した日はその時刻、それ以外は defaultTime（開始時刻）
+function seriesTimeOf(rule: RecurrenceRuleSpec, seriesDate: string, defaultTime: string | null): string | null {
+  if (rule.freq !== 'dates' || !rule.dateList) return defaultTime;
+  const base = addDaysYmd(seriesDate, -Number(rule.offsetDays || 0));
+  const entry = rule.dateList.find(e => e.date === base);
+  return entry && entry.time ? entry.time : defaultTime;
+}
+
+// 1日の発生時刻。cron 式は式の時刻、1日の時刻リストがあればその時刻（いずれも複数ありうる）、それ以外は defaultTime の1件
+export function seriesTimesOf(rule: RecurrenceRuleSpec, defaultTime: string | null): Array<string | null> {
+  if (rule.freq === 'cron') {
+    const schedule = cronScheduleOf(rule);
+    return schedule ? cronTimesOfDay(schedule) : [];
+  }
+  if (rule.freq !== 'dates' && rule.timesOfDay && rule.timesOfDay.length) return rule.timesOfDay.slice();
+  return [defaultTime];
+}
+
+// 1日に複数回ありうるルール（cron 式・1日の時刻リスト）か。該当する場合、オカレンスは日付と時刻の組で区別する
+export function matchesOccurrenceTime(rule: RecurrenceRuleSpec): boolean {
+  return rule.freq === 'cron' || (rule.freq !== 'dates' && !!(rule.timesOfDay && rule.timesOfDay.length));
+}
+
+// オカレンスの照合キー: 日付と時刻の組で区別するルールは occurrenceKey、それ以外は日付のみ
+export function occurrenceMatchKey(rule: RecurrenceRuleSpec, date: string, time: string | null | undefined): string {
+  return matchesOccurrenceTime(rule) ? occurrenceKey(date, time) : date;
+}
+
+// 振替済みオカレンスの日付から系列上の元の日付を求める。
+// rule を指定すると祝日の扱いによる移動も考慮する（同じ日に寄った回が複数あれば最後の回を返す）。
+export function seriesDateOf(exceptions: RecurrenceExceptionMap | null | undefined, scheduledDate: string, rule?: RecurrenceRuleSpec | null): string {
+  if (exceptions) {
+    for (const [date, ex] of exceptions) {
+      if (ex.action === 'reschedule' && ex.newDate === scheduledDate) return date;
+    }
+  }
+  const policy = rule ? rule.holidayPolicy : undefined;
+  if (!rule || (policy !== 'prev' && policy !== 'next')) return scheduledDate;
+  let found: string | null = null;
+  const from = addDaysYmd(scheduledDate, -HOLIDAY_SHIFT_MAX_DAYS);
+  const to = addDaysYmd(scheduledDate, HOLIDAY_SHIFT_MAX_DAYS);
+  for (const d of iterateSeriesDates(rule, from)) {
+    if (d > to) break;
+    if (d < from) continue;
+    const target = resolveSeriesOccurrence(rule, exceptions, d, null);
+    if (target && target.date === scheduledDate) found = d;
+  }
+  return found ?? scheduledDate;
+}
+
+// 系列上の予定日ごとに発生時刻を展開して例外・祝日の扱いを適用する。
+// limit を指定すると先頭から limit 回で打ち切る（1日に複数回ある場合、最後の日は残りの回数分だけ。スキップした回も数える）
+function applyExceptions(
+  rule: RecurrenceRuleSpec,
+  dates: string[],
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  defaultTime: string | null,
+  limit: number = Infinity
+): PlannedOccurrence[] {
+  const res: PlannedOccurrence[] = [];
+  const times = seriesTimesOf(rule, defaultTime);
+  let fired = 0;
+  for (const seriesDate of dates) {
+    for (const time of times) {
+      if (fired++ >= limit) return res;
+      const target = resolveSeriesOccurrence(rule, exceptions, seriesDate, time);
+      if (target) res.push({ seriesDate, date: target.date, time: target.time });
+    }
+  }
+  return res;
+}
+
+function monthEnd(year: number, monthIndex0: number): string {
+  return formatYmd(new Date(year, monthIndex0 + 1, 0));
+}
+
+// 保持すべきオカレンスを算出する（DB生成とプレビューで共通）。
+// - COUNT>=1: 開始日から COUNT 回分
+// - 日次・cron 式（無限）: 今日から horizon 日間（cron 式は1日に複数回ありうる）
+// - 週次（無限）: 今日以降の次の1回のみ（完了済みの回は飛ばす。1日の時刻リストがあれば時刻ごとに次の1回）
+// - 月次（無限）: 今月から monthsAhead ヶ月分（INTERVAL がそれより長い場合は INTERVAL ヶ月分）
+// - 年次（無限）: 今年から yearsAhead 年分（同上）
+// - 日付リスト: リストの全日付（COUNT はリストの件数）
+// 完了基準（anchor='completed'）は完了履歴に依存するため対象外（空配列）。
+export function planOccurrences(
+  rule: RecurrenceRuleSpec,
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  defaultTime: string | null,
+  policy: GenerationPolicy
+): PlannedOccurrence[] {
+  if (rule.anchor === 'completed') return [];
+  if (isFiniteCount(rule) || rule.freq === 'dates') {
+    return applyExceptions(rule, Array.from(iterateSeriesDates(rule)), exceptions, defaultTime, isFiniteCount(rule) ? Number(rule.count) : Infinity);
+  }
+  const today = policy.today;
+  if (rule.freq === 'weekly') {
+    // 振替で今日以降へ移された過去の回も拾えるよう、1年前から探す。
+    // 今日の回を完了済みなら次の指定曜日の回になり、完了時の次回（stepSeriesDate）と一致する
+    const slots = new Set(seriesTimesOf(rule, defaultTime).map(time => (matchesOccurrenceTime(rule) ? time : null)));
+    const res: PlannedOccurrence[] = [];
+    for (const seriesDate of iterateSeriesDates(rule, addDaysYmd(today, -366))) {
+      for (const p of applyExceptions(rule, [seriesDate], exceptions, defaultTime)) {
+        const slot = matchesOccurrenceTime(rule) ? p.time : null;
+        if (p.date < today || !slots.has(slot) || policy.completedKeys?.has(occurrenceMatchKey(rule, p.date, p.time))) continue;
+        slots.delete(slot);
+        res.push(p);
+      }
+      if (!slots.size) break;
+    }
+    return res;
+  }
+  const window = generationWindow(rule, policy);
+  return window ? applyExceptions(rule, expandSeriesDates(rule, window), exceptions, defaultTime) : [];
+}
+
+// 日次・cron 式・月次・年次（無限）の生成ウィンドウ
+function generationWindow(rule: RecurrenceRuleSpec, policy: GenerationPolicy): { from: string; to: string } | null {
+  const today = policy.today;
+  const t = parseYmd(today);
+  if (rule.freq === 'daily' || rule.freq === 'cron') {
+    let horizon = Number(rule.horizonDays || policy.dailyHorizonDays);
+    if (!isFinite(horizon) || horizon <= 0) horizon = policy.dailyHorizonDays;
+    if (horizon > 365) horizon = 365;
+    return { from: today, to: addDaysYmd(today, horizon - 1) };
+  }
+  if (rule.freq === 'monthly' || rule.freq === 'monthlyNth' || rule.freq === 'monthlyBusinessDay') {
+    // 間隔がウィンドウより長くても次の1回が必ず入るよう、ウィンドウを INTERVAL まで広げる
+    const months = Math.max(1, policy.monthsAhead, Number(rule.interval || 1));
+    return { from: formatYmd(new Date(t.getFullYear(), t.getMonth(), 1)), to: monthEnd(t.getFullYear(), t.getMonth() + months - 1) };
+  }
+  if (rule.freq === 'yearly') {
+    const years = Math.max(1, policy.yearsAhead, Number(rule.interval || 1));
+    return { from: `${t.getFullYear()}-01-01`, to: `${t.getFullYear() + years - 1}-12-31` };
+  }
+  return null;
+}
+
+// planOccurrences が作る回の範囲の終わり（この日を過ぎるまでは展開し直しても回が増えない）。
+// 週次（無限）は次の1回が完了や日付の経過で変わるため今日。回数指定・日付リスト・完了基準は今日によらないため null
+export function generationWindowEnd(rule: RecurrenceRuleSpec, policy: GenerationPolicy): string | null {
+  if (rule.anchor === 'completed' || isFiniteCount(rule) || rule.freq === 'dates') return null;
+  if (rule.freq === 'weekly') return policy.today;
+  return generationWindow(rule, policy)?.to ?? policy.today;
+}
+
+// 指定日時（after）以降の発生（例外・祝日の扱い適用後）を先頭から limit 件返す。cron 式の次回の表示に使う（COUNT は時刻ごとに1回と数える）
+export function nextSeriesOccurrences(
+  rule: RecurrenceRuleSpec,
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  defaultTime: string | null,
+  after: { date: string; time: string | null },
+  limit: number
+): PlannedOccurrence[] {
+  const res: PlannedOccurrence[] = [];
+  const finite = isFiniteCount(rule);
+  const times = seriesTimesOf(rule, defaultTime);
+  const afterKey = occurrenceKey(after.date, after.time);
+  let fired = 0;
+  for (const seriesDate of iterateSeriesDates(rule, finite ? null : after.date)) {
+    for (const time of times) {
+      if (finite && fired++ >= Number(rule.count)) return res;
+      const target = resolveSeriesOccurrence(rule, exceptions, seriesDate, time);
+      if (!target || occurrenceKey(target.date, target.time) < afterKey) continue;
+      res.push({ seriesDate, date: target.date, time: target.time });
+      if (res.length >= limit) return res;
+    }
+  }
+  return res;
+}
+
+// 完了時の次回（系列上の予定日）を算出する。オフセットを外した基準日で1周期進めてから再適用する。
+// ルールが不完全な場合は null。
+export function stepSeriesDate(rule: RecurrenceRuleSpec, seriesDate: string): string | null {
+  const offset = Number(rule.offsetDays || 0);
+  const base = addDaysYmd(seriesDate, -offset);
+  const b = parseYmd(base);
+  const interval = Math.max(1, Number(rule.interval || 1));
+  if (rule.anchor === 'completed') return addDaysYmd(stepCompletionPeriod(rule, base), offset);
+  let next: string | null = null;
+  if (rule.freq === 'daily') {
+    next = addDaysYmd(base, interval);
+  } else if (rule.freq === 'weekly') {
+    // 同じ週の後の指定曜日、なければ次の周期（開始日の週から INTERVAL 週おき）の最初の指定曜日
+    // （曜日の指定が無い場合は INTERVAL 週後の同じ曜日）
+    if (!Number(rule.weeklyDows || 0)) next = addDaysYmd(base, 7 * interval);
+    for (const d of iterateBaseDates(rule, base)) {
+      if (d > base) { next = d; break; }
+    }
+  } else if (rule.freq === 'monthly' || rule.freq === 'monthlyNth' || rule.freq === 'monthlyBusinessDay') {
+    // 同じ月の後の指定日があればそれ、なければ INTERVAL ヶ月後の最初の指定日
+    const later = monthlyBaseDates(rule, b.getFullYear(), b.getMonth()).find((d) => d > base);
+    next = later ?? monthlyBaseDates(rule, b.getFullYear(), b.getMonth() + interval)[0] ?? null;
+  } else if (rule.freq === 'yearly') {
+    const month = Number(rule.yearlyMonth || 0);
+    const day = Number(rule.monthlyDay || 0);
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) next = clampMonthlyDate(b.getFullYear() + interval, month - 1, day);
+  } else if (rule.freq === 'dates') {
+    next = dateListBaseDates(rule).find((d) => d > base) ?? null;
+  } else if (rule.freq === 'cron') {
+    const schedule = cronScheduleOf(rule);
+    const found = schedule ? iterateCronDates(schedule, addDaysYmd(base, 1)).next() : null;
+    next = found && !found.done ? found.value : null;
+  }
+  return next ? addDaysYmd(next, offset) : null;
+}
+
+// 完了基準の1周期: 日次は INTERVAL 日、週次は INTERVAL 週、月次は INTERVAL ヶ月、年次は INTERVAL 年後の同じ日
+// （月・年単位で該当日が無い場合は月末に丸める。例: 1/31 の1ヶ月後 → 2/28）
+function stepCompletionPeriod(rule: RecurrenceRuleSpec, base: string): string {
+  const interval = Math.max(1, Number(rule.interval || 1));
+  const b = parseYmd(base);
+  if (rule.freq === 'weekly') return addDaysYmd(base, 7 * interval);
+  if (rule.freq === 'monthly') return clampMonthlyDate(b.getFullYear(), b.getMonth() + interval, b.getDate());
+  if (rule.freq === 'yearly') return clampMonthlyDate(b.getFullYear() + interval, b.getMonth(), b.getDate());
+  return addDaysYmd(base, interval);
+}
+
+// 完了基準（anchor='completed'）の次回: 完了日 + INTERVAL 日・週・ヶ月・年（+ オフセット）
+export function completionAnchoredNext(rule: RecurrenceRuleSpec, completedYmd: string): string {
+  return addDaysYmd(stepCompletionPeriod(rule, completedYmd), Number(rule.offsetDays || 0));
+}
+
+// 次回候補から例外（skip）と祝日の扱い（skip）を飛ばし、終了日を過ぎていなければ確定する
+export function resolveNextOccurrence(
+  rule: RecurrenceRuleSpec,
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  candidate: string,
+  defaultTime: string | null,
+  step: (from: string) => string | null = (from) => stepSeriesDate(rule, from)
+): PlannedOccurrence | null {
+  let seriesDate = candidate;
+  let target = resolveSeriesOccurrence(rule, exceptions, seriesDate, defaultTime);
+  for (let guard = 0; !target && guard < 366; guard++) {
+    const next = step(seriesDate);
+    if (!next) return null;
+    seriesDate = next;
+    target = resolveSeriesOccurrence(rule, exceptions, seriesDate, defaultTime);
+  }
+  if (!target) return null;
+  if (rule.untilDate && seriesDate > rule.untilDate) return null;
+  return { seriesDate, date: target.date, time: target.time };
+}
+
+// ===== 追加ルール・個別日付 =====
+// 1件のタスクは主ルールに加えて、追加ルール（パターンのみ）と個別日付を持てる。
+// 追加ルールは主ルールの開始日・終了条件（回数はルールごとに数える）・オフセット・祝日の扱い・例外を共有する。
+
+export type RecurrencePattern = {
+  // RECURRENCE_EXTRA_RULES.ID（未保存のプレビューでは null）
+  id?: number | null;
+  freq: RecurrenceFreq;
+  interval?: number;
+  weeklyDows?: number;
+  monthlyDay?: number | null;
+  monthlyDays?: number[] | null;
+  monthlyNth?: number | null;
+  monthlyNthDow?: number | null;
+  monthlyNthPairs?: MonthlyNthPair[] | null;
+  monthlyBusinessDay?: number | null;
+  yearlyMonth?: number | null;
+};
+
+// オカレンスの日時の比較キー（時刻なしはその日の先頭）
+export function occurrenceKey(date: string, time: string | null | undefined): string {
+  return `${date} ${time ?? ''}`;
+}
+
+// 発生元: 主ルール / 追加ルール / 個別日付
+export type OccurrenceSource = 'rule' | 'extra' | 'date';
+export type SourcedOccurrence = PlannedOccurrence & { source: OccurrenceSource; extraRuleId: number | null };
+
+// 追加ルールの展開用ルール（主ルールの共通設定にパターンを重ねる。完了基準は使わない）
+export function extraRuleSpec(main: RecurrenceRuleSpec, pattern: RecurrencePattern): RecurrenceRuleSpec {
+  return {
+    ...main,
+    startDate: main.seriesStartDate || main.startDate,
+    freq: pattern.freq,
+    interval: Math.max(1, Number(pattern.interval || 1)),
+    anchor: 'scheduled',
+    weeklyDows: Number(pattern.weeklyDows || 0),
+    monthlyDay: pattern.monthlyDay ?? null,
+    monthlyDays: pattern.monthlyDays ?? null,
+    monthlyNth: pattern.monthlyNth ?? null,
+    monthlyNthDow: pattern.monthlyNthDow ?? null,
+    monthlyNthPairs: pattern.monthlyNthPairs ?? null,
+    monthlyBusinessDay: pattern.monthlyBusinessDay ?? null,
+    yearlyMonth: pattern.yearlyMonth ?? null
+  };
+}
+
+// 個別日付はその日そのもの（オフセット・祝日の扱い・終了条件は適用しない）。例外（skip/reschedule）だけを適用する
+// times を指定すると各日にその時刻ごとの回を作る（主ルールの1日の時刻リスト）
+export function planExplicitDates(
+  dates: string[],
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  defaultTime: string | null,
+  times: Array<string | null> = [defaultTime]
+): PlannedOccurrence[] {
+  const res: PlannedOccurrence[] = [];
+  for (const seriesDate of Array.from(new Set(dates)).sort()) {
+    for (const time of times) {
+      const target = resolveRecurrenceException(exceptions, seriesDate, time);
+      if (target) res.push({ seriesDate, date: target.date, time: target.time });
+    }
+  }
+  return res;
+}
+
+// 主ルール・追加ルール・個別日付の和集合（実際の日時で重複を除いて昇順）。
+// 同じ日時になる場合は 主ルール → 追加ルール（並び順） → 個別日付 の順に優先し、その発生元を記録する。
+export function planUnionOccurrences(
+  main: RecurrenceRuleSpec,
+  extras: RecurrencePattern[],
+  extraDates: string[],
+  exceptions: RecurrenceExceptionMap | null | undefined,
+  defaultTime: string | null,
+  policy: GenerationPolicy
+): SourcedOccurrence[] {
+  const byDateTime = new Map<string, SourcedOccurrence>();
+  const add = (planned: PlannedOccurrence[], source: OccurrenceSource, extraRuleId: number | null) => {
+    for (const p of planned) {
+      const key = occurrenceKey(p.date, p.time);
+      if (!byDateTime.has(key)) byDateTime.set(key, { ...p, source, extraRuleId });
+    }
+  };
+  add(planOccurrences(main, exceptions, defaultTime, policy), 'rule', null);
+  // 完了済みの回（completedKeys）は主ルールのもの
+  const extraPolicy = { ...policy, completedKeys: null };
+  for (const pattern of extras) {
+    add(planOccurrences(extraRuleSpec(main, pattern), exceptions, defaultTime, extraPolicy), 'extra', pattern.id ?? null);
+  }
+  add(planExplicitDates(extraDates, exceptions, defaultTime, seriesTimesOf(main, defaultTime)), 'date', null);
+  return Array.from(byDateTime.values()).sort((a, b) => occurrenceKey(a.date, a.time).localeCompare(occurrenceKey(b.date, b.time)));
+}
@@ -0,0 +1,471 @@
+// RFC 5545 RRULE と RECURRENCE_RULES の行（カラム名）との相互変換（純粋関数・依存なし）
+// メインプロセス・レンダラの双方から使用する。
+// 本アプリの繰り返しで表現できない要素は黙って捨てず、errors（取り込み不可）または notes（意味の差異）として返す。
+
+export type RecurrenceRuleRow = {
+  FREQ?: string | null;
+  INTERVAL?: number | null;
+  INTERVAL_ANCHOR?: string | null;
+  WEEKLY_DOWS?: number | null;
+  MONTHLY_DAY?: number | null;
+  MONTHLY_NTH?: number | null;
+  MONTHLY_NTH_DOW?: number | null;
+  // 月次の複数指定（'1,15' / '2:3,4:3'）。2件以上のときのみ
+  MONTHLY_DAYS?: string | null;
+  MONTHLY_NTH_PAIRS?: string | null;
+  MONTHLY_BUSINESS_DAY?: number | null;
+  YEARLY_MONTH?: number | null;
+  COUNT?: number | null;
+  END_KIND?: string | null;
+  UNTIL_DATE?: string | null;
+  MANUAL_NEXT_DUE?: number | null;
+  OCCURRENCE_OFFSET_DAYS?: number | null;
+  HOLIDAY_POLICY?: string | null;
+  // 1日の時刻リスト（'08:00,13:00'）
+  TIMES_OF_DAY?: string | null;
+};
+
+// DTSTART 行があれば START_DATE / START_TIME も返す
+export type ParsedRRule = RecurrenceRuleRow & { START_DATE?: string | null; START_TIME?: string | null };
+
+export type RRuleParseResult = { rule: ParsedRRule | null; errors: string[]; notes: string[] };
+export type RRuleFormatResult = { rrule: string | null; unsupported: string[] };
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQ_TO_RRULE: Record<string, string> = { daily: 'DAILY', weekly: 'WEEKLY', monthly: 'MONTHLY', yearly: 'YEARLY' };
+// 本アプリの週は日曜始まり（開始日の週から INTERVAL 週おきに数える）。間隔のある週次では WKST=SU と同じ意味になる
+const APP_WEEK_START = 'SU';
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// 本アプリは日付が存在しない月を月末に丸める（29〜31日）。RFC 5545 で同じ意味になる表現にする。
+function monthDayParts(day: number): string[] {
+  if (day <= 28) return [`BYMONTHDAY=${day}`];
+  if (day >= 31) return ['BYMONTHDAY=-1'];
+  const days: number[] = [];
+  for (let d = 28; d <= day; d++) days.push(d);
+  return [`BYMONTHDAY=${days.join(',')}`, 'BYSETPOS=-1'];
+}
+
+function splitList(value: string | null | undefined): string[] {
+  return String(value ?? '').split(',').map(v => v.trim()).filter(Boolean);
+}
+
+// 第5週が無い月は第4週に丸める＝常に最終週
+function nthDayPart(nth: number, dow: number): string {
+  return `${nth === 5 ? -1 : nth}${RRULE_DAYS[dow]}`;
+}
+
+export function formatRRule(row: RecurrenceRuleRow): RRuleFormatResult {
+  const unsupported: string[] = [];
+  if (Number(row.MANUAL_NEXT_DUE || 0) === 1) {
+    unsupported.push('「完了後に次の期日を指定」は RRULE で表現できません');
+  }
+  if (String(row.INTERVAL_ANCHOR || 'scheduled') === 'completed') {
+    unsupported.push('前回完了日基準の繰り返しは RRULE で表現できません');
+  }
+  if (Number(row.OCCURRENCE_OFFSET_DAYS || 0) !== 0) {
+    unsupported.push('発生日のずらし（OCCURRENCE_OFFSET_DAYS）は RRULE で表現できません');
+  }
+  if (String(row.HOLIDAY_POLICY || 'keep') !== 'keep') {
+    unsupported.push('土日・祝日の扱い（HOLIDAY_POLICY）は RRULE で表現できません');
+  }
+  if (row.MONTHLY_BUSINESS_DAY != null) {
+    // BYDAY=MO,TU,WE,TH,FR;BYSETPOS=N では祝日・休業日を除けない
+    unsupported.push('営業日指定（MONTHLY_BUSINESS_DAY）は RRULE で表現できません');
+  }
+  const monthlyDays = splitList(row.MONTHLY_DAYS).map(Number);
+  if (monthlyDays.some(d => d === 29 || d === 30)) {
+    // 単一日付なら BYSETPOS=-1 で月末に丸められるが、複数日付とは組み合わせられない
+    unsupported.push(`複数日付（${row.MONTHLY_DAYS}）に含まれる29・30日の月末への丸めは RRULE で表現できません`);
+  }
+  if (row.TIMES_OF_DAY) {
+    // BYHOUR × BYMINUTE の組み合わせでは任意の時刻の並びを表せない
+    unsupported.push('1日の時刻リスト（TIMES_OF_DAY）は RRULE で表現できません');
+  }
+  const freq = String(row.FREQ || '').toLowerCase();
+  const rruleFreq = FREQ_TO_RRULE[freq];
+  if (freq === 'dates') unsupported.push('日付リストは RRULE で表現できません');
+  else if (freq === 'cron') unsupported.push('cron 式は RRULE で表現できません');
+  else if (!rruleFreq) unsupported.push(`FREQ=${row.FREQ ?? '(なし)'} は変換できません`);
+  if (unsupported.length) return { rrule: null, unsupported };
+
+  const parts: string[] = [`FREQ=${rruleFreq}`];
+  const interval = Math.max(1, Number(row.INTERVAL || 1));
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (freq === 'weekly') {
+    const mask = Number(row.WEEKLY_DOWS || 0);
+    const days = RRULE_DAYS.filter((_, i) => mask & (1 << i));
+    // 曜日未指定は開始日の曜日（RFC 5545 の DTSTART の曜日と同じ）
+    if (days.length) parts.push(`BYDAY=${days.join(',')}`);
+    // 隔週などは週の区切り（既定は月曜始まり）で日曜の回の周期が変わるため、本アプリの日曜始まりを明示する
+    if (interval > 1) parts.push(`WKST=${APP_WEEK_START}`);
+  } else if (freq === 'monthly') {
+    if (row.MONTHLY_NTH_PAIRS) {
+      const pairs = splitList(row.MONTHLY_NTH_PAIRS).map(v => v.split(':').map(Number));
+      parts.push(`BYDAY=${pairs.map(([nth, dow]) => nthDayPart(nth, dow)).join(',')}`);
+    } else if (row.MONTHLY_NTH != null && row.MONTHLY_NTH_DOW != null) {
+      parts.push(`BYDAY=${nthDayPart(Number(row.MONTHLY_NTH), Number(row.MONTHLY_NTH_DOW))}`);
+    } else if (monthlyDays.length) {
+      // 31日は月末（-1）。29・30日は上で除外済み
+      parts.push(`BYMONTHDAY=${monthlyDays.map(d => (d >= 31 ? -1 : d)).join(',')}`);
+    } else {
+      parts.push(...monthDayParts(Number(row.MONTHLY_DAY || 1)));
+    }
+  } else if (freq === 'yearly') {
+    parts.push(`BYMONTH=${Number(row.YEARLY_MONTH || 1)}`);
+    parts.push(...monthDayParts(Number(row.MONTHLY_DAY || 1)));
+  }
+  if (row.END_KIND === 'until' && row.UNTIL_DATE) {
+    parts.push(`UNTIL=${String(row.UNTIL_DATE).slice(0, 10).replace(/-/g, '')}`);
+  } else if (Number(row.COUNT || 0) > 0) {
+    parts.push(`COUNT=${Number(row.COUNT)}`);
+  }
+  return { rrule: parts.join(';'), unsupported };
+}
+
+// 'YYYYMMDD' / 'YYYYMMDDTHHMMSS' / 'YYYYMMDDTHHMMSSZ' を解釈する（Z はローカル時刻に変換）
+function parseRRuleDateTime(value: string): { date: string; time: string | null } | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!m) return null;
+  const [, y, mo, d, hh, mi, , z] = m;
+  const local = z
+    ? new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(hh), Number(mi)))
+    : new Date(Number(y), Number(mo) - 1, Number(d), Number(hh || 0), Number(mi || 0));
+  if (isNaN(local.getTime())) return null;
+  if (!z && (local.getMonth() !== Number(mo) - 1 || local.getDate() !== Number(d))) return null;
+  const date = `${local.getFullYear()}-${pad2(local.getMonth() + 1)}-${pad2(local.getDate())}`;
+  return { date, time: hh != null ? `${pad2(local.getHours())}:${pad2(local.getMinutes())}` : null };
+}
+
+function parseIntStrict(value: string): number | null {
+  return /^[+-]?\d+$/.test(value) ? Number(value) : null;
+}
+
+// BYMONTHDAY（+BYSETPOS）を本アプリの MONTHLY_DAY に変換する。monthDayParts() の逆変換。
+function parseMonthDay(byMonthDay: string, bySetPos: string | undefined, errors: string[], notes: string[]): number | null {
+  const values = byMonthDay.split(',').map(parseIntStrict);
+  if (values.some(v => v == null || v === 0 || v < -31 || v > 31)) {
+    errors.push(`BYMONTHDAY=${byMonthDay} の値が不正です`);
+    return null;
+  }
+  const days = values as number[];
+  if (bySetPos == null && days.length === 1) {
+    if (days[0] === -1) return 31;
+    if (days[0] < 0) {
+      errors.push(`BYMONTHDAY=${byMonthDay}（月末から数えた日付）は -1 以外未対応です`);
+      return null;
+    }
+    if (days[0] > 28) notes.push(`${days[0]}日が無い月は月末に発生します（RFC 5545 ではその月は発生しません）`);
+    return days[0];
+  }
+  const consecutiveFrom28 = days.every((d, i) => d === 28 + i);
+  if (bySetPos === '-1' && consecutiveFrom28 && days.length >= 2) return days[days.length - 1];
+  errors.push(`BYMONTHDAY=${byMonthDay}${bySetPos != null ? `;BYSETPOS=${bySetPos}` : ''}（複数日付）は未対応です`);
+  return null;
+}
+
+// 月次の BYMONTHDAY（BYSETPOS なし・複数日付）を MONTHLY_DAYS（昇順・重複なし）に変換する。-1 は31日（月末）として扱う
+function parseMonthDayList(byMonthDay: string, errors: string[], notes: string[]): number[] | null {
+  const values = byMonthDay.split(',').map(parseIntStrict);
+  if (values.some(v => v == null || v === 0 || v < -31 || v > 31)) {
+    errors.push(`BYMONTHDAY=${byMonthDay} の値が不正です`);
+    return null;
+  }
+  if (values.some(v => (v as number) < -1)) {
+    errors.push(`BYMONTHDAY=${byMonthDay}（月末から数えた日付）は -1 以外未対応です`);
+    return null;
+  }
+  const days = Array.from(new Set(values.map(v => (v === -1 ? 31 : v as number)))).sort((a, b) => a - b);
+  const long = days.filter(d => d > 28 && d < 31);
+  if (long.length) notes.push(`${long.join('・')}日が無い月は月末に発生します（RFC 5545 ではその月は発生しません）`);
+  return days;
+}
+
+// 月次の BYDAY（序数つき・複数）を第N曜日の組に変換する。第5週の注記は呼び出し側で行う
+function parseNthDayList(byDay: string, errors: string[]): Array<{ nth: number; dow: number }> | null {
+  const pairs: Array<{ nth: number; dow: number }> = [];
+  for (const d of byDay.split(',')) {
+    const m = /^([+-]?\d)(SU|MO|TU|WE|TH|FR|SA)$/.exec(d);
+    const nth = m ? Number(m[1]) : null;
+    if (!m || nth == null || !(nth === -1 || (nth >= 1 && nth <= 5))) {
+      errors.push(`BYDAY=${byDay} は未対応です（複数指定は 2WE,4WE のような第1〜5週または最終週の曜日のみ）`);
+      return null;
+    }
+    const dow = RRULE_DAYS.indexOf(m[2]);
+    if (!pairs.some(p => p.nth === nth && p.dow === dow)) pairs.push({ nth, dow });
+  }
+  const order = (nth: number) => (nth === -1 ? 6 : nth);
+  return pairs.sort((a, b) => order(a.nth) - order(b.nth) || a.dow - b.dow);
+}
+
+export function parseRRule(text: string, options: { startDate?: string | null } = {}): RRuleParseResult {
+  const errors: string[] = [];
+  const notes: string[] = [];
+  let ruleLine: string | null = null;
+  let start: { date: string; time: string | null } | null = null;
+
+  const lines = String(text || '').split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper.startsWith('DTSTART')) {
+      const idx = line.indexOf(':');
+      const params = idx >= 0 ? line.slice(0, idx).split(';').slice(1) : [];
+      const value = idx >= 0 ? line.slice(idx + 1).trim() : '';
+      start = parseRRuleDateTime(value);
+      if (!start) errors.push(`DTSTART の値が不正です: ${value}`);
+      const tzid = params.find(p => p.toUpperCase().startsWith('TZID='));
+      if (tzid) notes.push(`${tzid} は無視し、記載の日時をそのまま使用します`);
+    } else if (upper.startsWith('RRULE:')) {
+      if (ruleLine != null) errors.push('RRULE が複数あります（複数ルールは未対応です）');
+      ruleLine = line.slice(6);
+    } else if (/^[A-Z-]+[:;]/.test(upper) && !upper.startsWith('FREQ=')) {
+      errors.push(`未対応の行です: ${line.split(/[:;]/)[0]}`);
+    } else {
+      if (ruleLine != null) errors.push('RRULE が複数あります（複数ルールは未対応です）');
+      ruleLine = line;
+    }
+  }
+  if (ruleLine == null) {
+    errors.push('RRULE が入力されていません');
+    return { rule: null, errors, notes };
+  }
+
+  const parts = new Map<string, string>();
+  for (const raw of ruleLine.split(';').map(s => s.trim()).filter(Boolean)) {
+    const eq = raw.indexOf('=');
+    if (eq <= 0) {
+      errors.push(`RRULE の要素が不正です: ${raw}`);
+      continue;
+    }
+    const name = raw.slice(0, eq).toUpperCase();
+    if (parts.has(name)) errors.push(`${name} が重複しています`);
+    parts.set(name, raw.slice(eq + 1).trim().toUpperCase());
+  }
+
+  const take = (name: string): string | undefined => {
+    const v = parts.get(name);
+    parts.delete(name);
+    return v;
+  };
+  const freq = take('FREQ');
+  const intervalRaw = take('INTERVAL');
+  const countRaw = take('COUNT');
+  const untilRaw = take('UNTIL');
+  const byDay = take('BYDAY');
+  const byMonthDay = take('BYMONTHDAY');
+  const byMonth = take('BYMONTH');
+  const bySetPos = take('BYSETPOS');
+  const wkst = take('WKST');
+  for (const name of Array.from(parts.keys())) {
+    errors.push(`未対応の要素です: ${name}=${parts.get(name)}`);
+  }
+  if (wkst != null && !RRULE_DAYS.includes(wkst)) errors.push(`WKST=${wkst} の値が不正です`);
+
+  const rule: ParsedRRule = { INTERVAL: 1, INTERVAL_ANCHOR: 'scheduled', COUNT: 0, END_KIND: 'none', UNTIL_DATE: null, MANUAL_NEXT_DUE: 0, OCCURRENCE_OFFSET_DAYS: 0 };
+  if (start) {
+    rule.START_DATE = start.date;
+    if (start.time) rule.START_TIME = start.time;
+  }
+  const baseDate = start?.date || options.startDate || null;
+  const baseDay = baseDate && /^\d{4}-\d{2}-\d{2}$/.test(baseDate) ? new Date(`${baseDate}T00:00:00`) : null;
+
+  const interval = intervalRaw != null ? parseIntStrict(intervalRaw) : 1;
+  if (interval == null || interval < 1) {
+    errors.push(`INTERVAL=${intervalRaw} の値が不正です`);
+  } else {
+    rule.INTERVAL = interval;
+  }
+
+  if (countRaw != null && untilRaw != null) errors.push('COUNT と UNTIL は同時に指定できません');
+  if (countRaw != null) {
+    const count = parseIntStrict(countRaw);
+    if (count == null || count < 1) errors.push(`COUNT=${countRaw} の値が不正です`);
+    else { rule.COUNT = count; rule.END_KIND = 'count'; }
+  }
+  if (untilRaw != null) {
+    const until = parseRRuleDateTime(untilRaw);
+    if (!until) errors.push(`UNTIL=${untilRaw} の値が不正です`);
+    else { rule.UNTIL_DATE = until.date; rule.END_KIND = 'until'; }
+  }
+
+  const rejectPart = (name: string, value: string | undefined) => {
+    if (value != null) errors.push(`FREQ=${freq} では ${name}=${value} は未対応です`);
+  };
+
+  if (freq === 'DAILY') {
+    rule.FREQ = 'daily';
+    rejectPart('BYDAY', byDay);
+    rejectPart('BYMONTHDAY', byMonthDay);
+    rejectPart('BYMONTH', byMonth);
+    rejectPart('BYSETPOS', bySetPos);
+  } else if (freq === 'WEEKLY') {
+    rule.FREQ = 'weekly';
+    rejectPart('BYMONTHDAY', byMonthDay);
+    rejectPart('BYMONTH', byMonth);
+    rejectPart('BYSETPOS', bySetPos);
+    let mask = 0;
+    if (byDay != null) {
+      for (const d of byDay.split(',')) {
+        const idx = RRULE_DAYS.indexOf(d);
+        if (idx < 0) errors.push(`BYDAY=${d} は週次では未対応です`);
+        else mask |= (1 << idx);
+      }
+    } else if (baseDay) {
+      mask = 1 << baseDay.getDay();
+    }
+    rule.WEEKLY_DOWS = mask;
+    // WKST は週の区切りで、間隔のある週次でのみ結果に影響する。月曜始まり（既定）などでは日曜の回・日曜開始の周期がずれる
+    const weekStart = wkst ?? 'MO';
+    if (Number(rule.INTERVAL || 1) > 1 && weekStart !== APP_WEEK_START && ((mask & 1) || baseDay?.getDay() === 0)) {
+      errors.push(`WKST=${weekStart}${wkst == null ? '（既定）' : ''} の隔週などで日曜日を含む指定は未対応です（本アプリの週は日曜始まりのため WKST=SU のみ）`);
+    }
+  } else if (freq === 'MONTHLY') {
+    rule.FREQ = 'monthly';
+    rejectPart('BYMONTH', byMonth);
+    if (byDay != null && byMonthDay != null) {
+      errors.push('BYDAY と BYMONTHDAY の同時指定は未対応です');
+    } else if (byDay != null && byDay.includes(',')) {
+      rejectPart('BYSETPOS', bySetPos);
+      const pairs = parseNthDayList(byDay, errors);
+      if (pairs) {
+        if (pairs.some(p => p.nth === 5)) notes.push('第5週が無い月は第4週に発生します（RFC 5545 ではその月は発生しません）');
+        rule.MONTHLY_NTH = pairs[0].nth;
+        rule.MONTHLY_NTH_DOW = pairs[0].dow;
+        rule.MONTHLY_NTH_PAIRS = pairs.length > 1 ? pairs.map(p => `${p.nth}:${p.dow}`).join(',') : null;
+        rule.MONTHLY_DAY = null;
+      }
+    } else if (byDay != null) {
+      const m = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(byDay);
+      let nth = m && m[1] != null ? Number(m[1]) : null;
+      if (m && nth == null && bySetPos != null) nth = parseIntStrict(bySetPos);
+      else if (m && bySetPos != null) errors.push(`BYSETPOS=${bySetPos} は BYDAY=${byDay} と組み合わせられません`);
+      if (!m || nth == null || !(nth === -1 || (nth >= 1 && nth <= 5))) {
+        errors.push(`BYDAY=${byDay}${bySetPos != null ? `;BYSETPOS=${bySetPos}` : ''} は未対応です（第1〜5週または最終週の単一曜日のみ）`);
+      } else {
+        if (nth === 5) notes.push('第5週が無い月は第4週に発生します（RFC 5545 ではその月は発生しません）');
+        rule.MONTHLY_NTH = nth;
+        rule.MONTHLY_NTH_DOW = RRULE_DAYS.indexOf(m[2]);
+        rule.MONTHLY_DAY = null;
+      }
+    } else if (byMonthDay != null && bySetPos == null && byMonthDay.includes(',')) {
+      const days = parseMonthDayList(byMonthDay, errors, notes);
+      if (days) {
+        rule.MONTHLY_DAY = days[0];
+        rule.MONTHLY_DAYS = days.length > 1 ? days.join(',') : null;
+      }
+    } else if (byMonthDay != null) {
+      rule.MONTHLY_DAY = parseMonthDay(byMonthDay, bySetPos, errors, notes);
+    } else {
+      rejectPart('BYSETPOS', bySetPos);
+      rule.MONTHLY_DAY = baseDay ? baseDay.getDate() : 1;
+    }
+  } else if (freq === 'YEARLY') {
+    rule.FREQ = 'yearly';
+    rejectPart('BYDAY', byDay);
+    if (byMonth != null) {
+      const month = parseIntStrict(byMonth);
+      if (month == null || month < 1 || month > 12) errors.push(`BYMONTH=${byMonth} は未対応です（単一の月のみ）`);
+      else rule.YEARLY_MONTH = month;
+    } else {
+      rule.YEARLY_MONTH = baseDay ? baseDay.getMonth() + 1 : 1;
+    }
+    if (byMonthDay != null) {
+      rule.MONTHLY_DAY = parseMonthDay(byMonthDay, bySetPos, errors, notes);
+    } else {
+      rejectPart('BYSETPOS', bySetPos);
+      rule.MONTHLY_DAY = baseDay ? baseDay.getDate() : 1;
+    }
+  } else if (freq == null) {
+    errors.push('FREQ が指定されていません');
+  } else {
+    errors.push(`FREQ=${freq} は未対応です（DAILY / WEEKLY / MONTHLY / YEARLY のみ）`);
+  }
+
+  return { rule: errors.length ? null : rule, errors, notes };
+}
+
+// parseRRule() の結果（RECURRENCE_RULES の列）を createTask() の recurrence に変換する
+export function recurrencePayloadFromRRule(rule: ParsedRRule): any {
+  const end = rule.END_KIND === 'until' ? { until: rule.UNTIL_DATE, count: 0 } : { count: Number(rule.COUNT || 0) };
+  if (rule.FREQ === 'daily') return { freq: 'daily', interval: Number(rule.INTERVAL || 1), anchor: 'scheduled', horizonDays: 14, ...end };
+  if (rule.FREQ === 'weekly') return { freq: 'weekly', weeklyDows: Number(rule.WEEKLY_DOWS || 0), interval: Number(rule.INTERVAL || 1), ...end };
+  if (rule.FREQ === 'monthly' && rule.MONTHLY_BUSINESS_DAY != null) {
+    return { freq: 'monthlyBusinessDay', monthlyBusinessDay: Number(rule.MONTHLY_BUSINESS_DAY), interval: Number(rule.INTERVAL || 1), ...end };
+  }
+  if (rule.FREQ === 'monthly' && rule.MONTHLY_NTH != null) {
+    const monthlyNthPairs = splitList(rule.MONTHLY_NTH_PAIRS).map(v => {
+      const [nth, dow] = v.split(':').map(Number);
+      return { nth, dow };
+    });
+    return {
+      freq: 'monthlyNth', monthlyNth: Number(rule.MONTHLY_NTH), monthlyNthDow: Number(rule.MONTHLY_NTH_DOW),
+      ...(monthlyNthPairs.length ? { monthlyNthPairs } : {}), interval: Number(rule.INTERVAL || 1), ...end
+    };
+  }
+  if (rule.FREQ === 'monthly') {
+    const monthlyDays = splitList(rule.MONTHLY_DAYS).map(Number);
+    return { freq: 'monthly', monthlyDay: Number(rule.MONTHLY_DAY || 1), ...(monthlyDays.length ? { monthlyDays } : {}), interval: Number(rule.INTERVAL || 1), ...end };
+  }
+  return { freq: 'yearly', yearlyMonth: Number(rule.YEARLY_MONTH || 1), yearlyDay: Number(rule.MONTHLY_DAY || 1), interval: Number(rule.INTERVAL || 1), ...end };
+}
+
+// 第N営業日は RRULE で表現できないため、追加ルールに限り独自要素 X-BUSINESS-DAY=N（負数は月末から数える）で表す
+const EXTRA_BUSINESS_DAY_PART = 'X-BUSINESS-DAY';
+
+// 追加ルール（RECURRENCE_EXTRA_RULES の行）の RRULE。開始日・終了条件などは主ルールに従うため、パターン部分（FREQ〜BYxxx）のみを返す
+export function formatExtraRuleRRule(row: RecurrenceRuleRow): RRuleFormatResult {
+  if (row.MONTHLY_BUSINESS_DAY != null) {
+    const interval = Number(row.INTERVAL || 1);
+    const parts = ['FREQ=MONTHLY', interval > 1 ? `INTERVAL=${interval}` : null, `${EXTRA_BUSINESS_DAY_PART}=${Number(row.MONTHLY_BUSINESS_DAY)}`];
+    return { rrule: parts.filter(Boolean).join(';'), unsupported: [] };
+  }
+  return formatRRule({
+    ...row,
+    INTERVAL_ANCHOR: 'scheduled',
+    COUNT: 0,
+    END_KIND: 'none',
+    UNTIL_DATE: null,
+    MANUAL_NEXT_DUE: 0,
+    OCCURRENCE_OFFSET_DAYS: 0,
+    HOLIDAY_POLICY: 'keep'
+  });
+}
+
+// 追加ルールの RRULE（1行）を解析する。開始日・終了条件は主ルールに従うため DTSTART / COUNT / UNTIL は指定できない
+export function parseExtraRuleRRule(text: string, options: { startDate?: string | null } = {}): RRuleParseResult {
+  const line = String(text || '').trim();
+  if (/^DTSTART/i.test(line)) {
+    return { rule: null, errors: ['追加ルールには DTSTART を指定できません（開始日は主ルールに従います）'], notes: [] };
+  }
+  let businessDay: number | null = null;
+  const rest: string[] = [];
+  for (const part of line.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq < 0 || part.slice(0, eq).trim().toUpperCase() !== EXTRA_BUSINESS_DAY_PART) {
+      rest.push(part);
+      continue;
+    }
+    const value = part.slice(eq + 1).trim();
+    businessDay = parseIntStrict(value);
+    if (businessDay == null || businessDay === 0) {
+      return { rule: null, errors: [`${EXTRA_BUSINESS_DAY_PART}=${value} の値が不正です`], notes: [] };
+    }
+  }
+  if (businessDay != null) {
+    const names = rest.map(p => p.split('=')[0].trim().toUpperCase()).filter(Boolean);
+    if (!/(^|;)\s*FREQ=MONTHLY\s*(;|$)/i.test(rest.join(';')) || names.some(n => n !== 'FREQ' && n !== 'INTERVAL')) {
+      return { rule: null, errors: [`${EXTRA_BUSINESS_DAY_PART} は FREQ=MONTHLY（INTERVAL のみ併用可）と組み合わせてください`], notes: [] };
+    }
+  }
+  const result = parseRRule(rest.join(';'), options);
+  if (result.rule && result.rule.END_KIND !== 'none') {
+    return { rule: null, errors: ['追加ルールには COUNT / UNTIL を指定できません（終了条件は主ルールに従います）'], notes: result.notes };
+  }
+  if (result.rule && businessDay != null) {
+    result.rule = { ...result.rule, MONTHLY_DAY: null, MONTHLY_DAYS: null, MONTHLY_BUSINESS_DAY: businessDay };
+  }
+  return result;
+}
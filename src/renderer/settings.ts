@@ -15,11 +15,19 @@
     MONTHLY_DAY?: number | null;
     MONTHLY_NTH?: number | null;
     MONTHLY_NTH_DOW?: number | null;
+    MONTHLY_DAYS?: string | null;
+    MONTHLY_NTH_PAIRS?: string | null;
+    MONTHLY_BUSINESS_DAY?: number | null;
     YEARLY_MONTH?: number | null;
     COUNT?: number | null;
     HORIZON_DAYS?: number | null;
     WEEKLY_DOWS?: number | null;
     OCCURRENCE_OFFSET_DAYS?: number | null;
+    EXTRA_RULES?: unknown[];
+    EXTRA_DATES?: string[];
+    DATE_LIST?: Array<{ date: string; time: string | null }>;
+    CRON_EXPR?: string | null;
+    TIMES_OF_DAY?: string | null;
   };
 
   async function loadSettings() {
@@ -34,38 +42,53 @@
 
   async function onBrowseDb() {
     const res = await window.electronAPI.selectFileDbPath();
+    if (res?.message) {
+      byId<HTMLDivElement>('status').textContent = res.message;
+      return;
+    }
     if (!res.canceled && res.filePath) {
       byId<HTMLInputElement>('filedb').value = res.filePath;
     }
   }
 
   async function onBrowseTaskDb() {
-    const api: any = (window as any).electronAPI;
-    const res: any = await api.showFileDialog({
-      title: 'タスクDBのSQLiteファイルを選択',
-      properties: ['openFile', 'createDirectory'],
-      filters: [
-        { name: 'SQLite Database', extensions: ['sqlite', 'db', 'sqlite3'] },
-        { name: 'All Files', extensions: ['*'] }
-      ]
-    });
-    if (!res.canceled && res.filePaths && res.filePaths.length > 0) {
-      byId<HTMLInputElement>('taskdb').value = res.filePaths[0];
+    const res: any = await window.electronAPI.selectTaskDbPath();
+    const status = byId<HTMLDivElement>('status');
+    if (res?.message) {
+      status.textContent = res.message;
+      return;
+    }
+    if (!res.canceled && res.filePath) {
+      byId<HTMLInputElement>('taskdb').value = res.filePath;
     }
   }
 
   async function onSaveDb() {
     const path = byId<HTMLInputElement>('filedb').value.trim();
     const autoTag = byId<HTMLInputElement>('filedbAutoTag').value.trim() || 'タスク';
-    const { success } = await window.electronAPI.saveSettings({ fileDbPath: path, taskFileAutoTagName: autoTag });
     const status = byId<HTMLDivElement>('status');
+    if (path) {
+      const info = await window.electronAPI.inspectFileDbVersion(path);
+      if (!info?.success || !info.supported) {
+        status.textContent = info?.message || 'ファイルDBのバージョンを確認できませんでした';
+        return;
+      }
+    }
+    const { success } = await window.electronAPI.saveSettings({ fileDbPath: path, taskFileAutoTagName: autoTag });
     status.textContent = success ? '保存しました。アプリを再起動するとDBが初期化されます。' : '保存に失敗しました';
   }
 
   async function onSaveTaskDb() {
     const path = byId<HTMLInputElement>('taskdb').value.trim();
-    const { success } = await window.electronAPI.saveSettings({ taskDbPath: path });
     const status = byId<HTMLDivElement>('status');
+    if (path) {
+      const info = await window.electronAPI.inspectTaskDbVersion(path);
+      if (!info?.success || !info.supported) {
+        status.textContent = info?.message || 'タスクDBのバージョンを確認できませんでした';
+        return;
+      }
+    }
+    const { success } = await window.electronAPI.saveSettings({ taskDbPath: path });
     status.textContent = success ? '保存しました。アプリを再起動するとDBが初期化されます。' : '保存に失敗しました';
   }
 
@@ -75,6 +98,21 @@
     return out;
   }
 
+  // 営業日指定（MONTHLY_BUSINESS_DAY）: 正数は月初から、負数は月末から数える（-1 = 最終営業日）
+  function formatBusinessDayLabel(nth: number): string {
+    if (nth === -1) return '最終営業日';
+    if (nth < 0) return `月末から第${-nth}営業日`;
+    return `第${nth}営業日`;
+  }
+
+  // 月次の複数指定: MONTHLY_DAYS = '1,15' / MONTHLY_NTH_PAIRS = '2:3,4:3'（第2水・第4水）。-1 = 最終週
+  function formatMonthlyNthPairs(value: string, weekdays: string[]): string {
+    return value.split(',').map(token => {
+      const [nth, dow] = token.split(':').map(Number);
+      return `${nth === -1 ? '最終' : `第${nth}`}${weekdays[dow] ?? ''}`;
+    }).join('・');
+  }
+
   function formatFrequencyDetail(task: TaskRow): string {
     const weekdays = ['日', '月', '火', '水', '木', '金', '土'];
     const freq = (task.FREQ || '').toLowerCase();
@@ -87,6 +125,11 @@
       if (interval <= 1) return '毎日';
       return `毎${interval}日 (予定基準)`;
     }
+    if ((task.INTERVAL_ANCHOR || 'scheduled') === 'completed') {
+      const interval = Math.max(1, Number(task.INTERVAL || 1));
+      const unit = freq === 'weekly' ? '週' : freq === 'monthly' ? 'ヶ月' : freq === 'yearly' ? '年' : '';
+      if (unit) return `完了から${interval}${unit}ごと`;
+    }
     if (freq === 'weekly') {
       const mask = Number(task.WEEKLY_DOWS || 0);
       let days: string[] = weeklyArrayFromMask(mask).map(i => weekdays[i] || '');
@@ -100,20 +143,28 @@
       return days.length ? `毎週(${days.join('/')})` : '毎週';
     }
     if (freq === 'monthly') {
+      // INTERVAL>1 は「Nヶ月ごと」（開始日の月から数える）
+      const interval = Math.max(1, Number(task.INTERVAL || 1));
+      const every = interval > 1 ? `${interval}ヶ月ごと` : '毎月';
+      if (task.MONTHLY_BUSINESS_DAY != null) return `${every} ${formatBusinessDayLabel(Number(task.MONTHLY_BUSINESS_DAY))}`;
+      if (task.MONTHLY_NTH_PAIRS) return `${every} ${formatMonthlyNthPairs(task.MONTHLY_NTH_PAIRS, weekdays)}`;
       if (task.MONTHLY_NTH != null && task.MONTHLY_NTH_DOW != null) {
         const nth = Number(task.MONTHLY_NTH);
         const dow = Number(task.MONTHLY_NTH_DOW);
         const dowLabel = weekdays[dow] ?? '';
-        return `毎月 第${nth}${dowLabel}`;
+        return `${every} 第${nth}${dowLabel}`;
       }
-      const day = Number(task.MONTHLY_DAY || 1);
-      return `毎月${day}日`;
+      const day = task.MONTHLY_DAYS ? task.MONTHLY_DAYS.split(',').map(d => `${d}日`).join('・') : `${Number(task.MONTHLY_DAY || 1)}日`;
+      return interval > 1 ? `${every} ${day}` : `毎月${day}`;
     }
     if (freq === 'yearly') {
       const month = Number(task.YEARLY_MONTH || 1);
       const day = Number(task.MONTHLY_DAY || 1);
-      return `毎年 ${month}月${day}日`;
+      const interval = Math.max(1, Number(task.INTERVAL || 1));
+      return `${interval > 1 ? `${interval}年ごと` : '毎年'} ${month}月${day}日`;
     }
+    if (freq === 'dates') return `日付リスト（${(task.DATE_LIST || []).length}件）`;
+    if (freq === 'cron') return `cron 式 ${task.CRON_EXPR || ''}`;
     return freq ? `頻度: ${freq}` : '頻度: 不明';
   }
 
@@ -123,11 +174,16 @@
     const freq = (task.FREQ || '').toLowerCase();
     if (freq === 'daily') return { key: 'daily', heading: '## 毎日' };
     if (freq === 'weekly') return { key: 'weekly', heading: '## 毎週' };
+    if (freq === 'monthly' && task.MONTHLY_BUSINESS_DAY != null) {
+      return { key: 'monthlyBusinessDay', heading: '## 毎月（営業日指定）' };
+    }
     if (freq === 'monthly' && task.MONTHLY_NTH != null && task.MONTHLY_NTH_DOW != null) {
       return { key: 'monthlyNth', heading: '## 毎月（第N曜日）' };
     }
     if (freq === 'monthly') return { key: 'monthlyDay', heading: '## 毎月（日付指定）' };
     if (freq === 'yearly') return { key: 'yearly', heading: '## 毎年' };
+    if (freq === 'dates') return { key: 'dates', heading: '## 日付リスト' };
+    if (freq === 'cron') return { key: 'cron', heading: '## cron 式' };
     return { key: `other:${freq || 'unknown'}`, heading: `## その他 (${freq || '不明'})` };
   }
 
@@ -172,7 +228,7 @@
           if (!groups.has(cat.key)) groups.set(cat.key, { heading: cat.heading, tasks: [] });
           groups.get(cat.key)!.tasks.push(task);
         }
-        const orderKeys = ['daily', 'weekly', 'monthlyDay', 'monthlyNth', 'yearly'];
+        const orderKeys = ['daily', 'weekly', 'monthlyDay', 'monthlyNth', 'monthlyBusinessDay', 'yearly', 'dates', 'cron'];
         const dynamicKeys = Array.from(groups.keys()).filter(k => !orderKeys.includes(k));
         const catKeys = [...orderKeys, ...dynamicKeys];
         for (const key of catKeys) {
@@ -187,7 +243,11 @@
             lines.push(`### ${title}${idPart}`);
             lines.push(`- 開始日: ${task.START_DATE || '未設定'}`);
             if (task.START_TIME) lines.push(`- 開始時刻: ${task.START_TIME}`);
+            if (task.TIMES_OF_DAY) lines.push(`- 1日の時刻: ${task.TIMES_OF_DAY.split(',').join(', ')}`);
             lines.push(`- 頻度詳細: ${formatFrequencyDetail(task)}`);
+            if (task.EXTRA_RULES?.length) lines.push(`- 追加ルール: ${task.EXTRA_RULES.length}件`);
+            if (task.EXTRA_DATES?.length) lines.push(`- 追加日付: ${task.EXTRA_DATES.join(', ')}`);
+            if (task.DATE_LIST?.length) lines.push(`- 日付: ${task.DATE_LIST.map(e => (e.time ? `${e.date} ${e.time}` : e.date)).join(', ')}`);
             const count = Number(task.COUNT || 0);
             if (Number.isFinite(count) && count > 0) lines.push(`- 回数制限: ${count}回`);
             if (task.HORIZON_DAYS != null) lines.push(`- 作成間隔のホライズン: ${task.HORIZON_DAYS}日`);
@@ -241,6 +301,560 @@
     }
   }
 
+  function formatDateValue(d: Date): string {
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  }
+
+  function initIcsRange(): void {
+    const today = new Date();
+    const end = new Date(today);
+    end.setMonth(end.getMonth() + 3);
+    byId<HTMLInputElement>('icsFrom').value = formatDateValue(today);
+    byId<HTMLInputElement>('icsTo').value = formatDateValue(end);
+  }
+
+  async function exportICalendar(): Promise<void> {
+    const button = byId<HTMLButtonElement>('exportIcs');
+    const statusEl = byId<HTMLSpanElement>('icsStatus');
+    const from = byId<HTMLInputElement>('icsFrom').value;
+    const to = byId<HTMLInputElement>('icsTo').value;
+    if (!from || !to || from > to) {
+      statusEl.textContent = '期間を正しく指定してください';
+      return;
+    }
+    button.disabled = true;
+    statusEl.textContent = '書き出し中...';
+    try {
+      const res = await window.electronAPI.exportICalendar({
+        from,
+        to,
+        component: byId<HTMLSelectElement>('icsComponent').value === 'VTODO' ? 'VTODO' : 'VEVENT',
+        recurringAsRule: byId<HTMLInputElement>('icsRecurringAsRule').checked
+      });
+      if (res.canceled) {
+        statusEl.textContent = 'キャンセルしました';
+      } else if (!res.success) {
+        statusEl.textContent = `書き出しに失敗しました: ${res.message || '不明なエラー'}`;
+      } else {
+        const rulePart = res.ruleCount ? `、繰り返し ${res.ruleCount} 件` : '';
+        statusEl.textContent = `書き出しました（オカレンス ${res.occurrenceCount ?? 0} 件${rulePart}）: ${res.filePath}`;
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      statusEl.textContent = `書き出しに失敗しました: ${message}`;
+    } finally {
+      button.disabled = false;
+    }
+  }
+
+  type IcsImportItem = {
+    uid: string | null;
+    title: string;
+    date: string | null;
+    time: string | null;
+    mode: 'recurring' | 'single' | 'skip';
+    rrule: string | null;
+    exceptionCount: number;
+    issues: string[];
+    notes: string[];
+    payload: any | null;
+  };
+
+  let icsImportItems: IcsImportItem[] = [];
+
+  function describeImportMode(item: IcsImportItem): string {
+    if (item.mode === 'recurring') return item.exceptionCount ? `繰り返し（例外 ${item.exceptionCount} 件）` : '繰り返し';
+    if (item.mode === 'single') return '1回のみ';
+    return '取り込み不可';
+  }
+
+  function renderIcsImportPreview(): void {
+    const table = byId<HTMLTableElement>('icsImportPreview');
+    const tbody = table.querySelector('tbody') as HTMLTableSectionElement;
+    tbody.innerHTML = '';
+    icsImportItems.forEach((item, index) => {
+      const tr = document.createElement('tr');
+      const checkTd = document.createElement('td');
+      const cb = document.createElement('input');
+      cb.type = 'checkbox';
+      cb.dataset.index = String(index);
+      cb.checked = item.mode !== 'skip';
+      cb.disabled = item.mode === 'skip';
+      checkTd.appendChild(cb);
+      tr.appendChild(checkTd);
+      const cells = [
+        item.title,
+        item.date ? `${item.date}${item.time ? ` ${item.time}` : ''}` : '-',
+        describeImportMode(item),
+        item.rrule || ''
+      ];
+      for (const text of cells) {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
+      }
+      const noteTd = document.createElement('td');
+      for (const issue of item.issues) {
+        const div = document.createElement('div');
+        div.className = 'issue';
+        div.textContent = issue;
+        noteTd.appendChild(div);
+      }
+      for (const note of item.notes) {
+        const div = document.createElement('div');
+        div.className = 'note';
+        div.textContent = note;
+        noteTd.appendChild(div);
+      }
+      tr.appendChild(noteTd);
+      tbody.appendChild(tr);
+    });
+    table.style.display = icsImportItems.length ? '' : 'none';
+    byId<HTMLButtonElement>('commitIcsImport').disabled = !icsImportItems.some(item => item.mode !== 'skip');
+  }
+
+  async function previewIcsImport(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('icsImportStatus');
+    statusEl.textContent = '読み込み中...';
+    try {
+      const res = await window.electronAPI.previewICalendarImport();
+      if (res.canceled) {
+        statusEl.textContent = '';
+        return;
+      }
+      if (!res.success) {
+        statusEl.textContent = `読み込みに失敗しました: ${res.message || '不明なエラー'}`;
+        return;
+      }
+      icsImportItems = (res.items || []) as IcsImportItem[];
+      renderIcsImportPreview();
+      const flagged = icsImportItems.filter(item => item.issues.length).length;
+      statusEl.textContent = `${res.filePath}: ${icsImportItems.length} 件（要確認 ${flagged} 件）`;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      statusEl.textContent = `読み込みに失敗しました: ${message}`;
+    }
+  }
+
+  async function commitIcsImport(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('icsImportStatus');
+    const button = byId<HTMLButtonElement>('commitIcsImport');
+    const boxes = Array.from(document.querySelectorAll('#icsImportPreview tbody input[type="checkbox"]')) as HTMLInputElement[];
+    const selected = boxes.filter(cb => cb.checked).map(cb => icsImportItems[Number(cb.dataset.index)]).filter(Boolean);
+    if (!selected.length) {
+      statusEl.textContent = '取り込む項目が選択されていません';
+      return;
+    }
+    if (!confirm(`${selected.length} 件のタスクを作成します。よろしいですか？`)) return;
+    button.disabled = true;
+    statusEl.textContent = '取り込み中...';
+    try {
+      const res = await window.electronAPI.commitICalendarImport(selected);
+      const failed = res.failed || [];
+      const failedText = failed.map((f: { title: string; message: string }) => `\n・${f.title}: ${f.message}`).join('');
+      statusEl.textContent = `${res.created ?? 0} 件のタスクを作成しました${failed.length ? `（失敗 ${failed.length} 件）${failedText}` : ''}`;
+      icsImportItems = [];
+      renderIcsImportPreview();
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      statusEl.textContent = `取り込みに失敗しました: ${message}`;
+      button.disabled = false;
+    }
+  }
+
+  const BACKUP_REASON_LABELS: Record<string, string> = {
+    scheduled: '定期',
+    quit: '終了時',
+    manual: '手動',
+    prerestore: '復元前',
+    preimport: '取り込み前'
+  };
+
+  function formatBytes(size: number): string {
+    if (size >= 1024 * 1024) return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+    if (size >= 1024) return `${Math.round(size / 1024)} KB`;
+    return `${size} B`;
+  }
+
+  async function loadBackups(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('backupStatus');
+    const res = await window.electronAPI.listTaskDbBackups();
+    if (!res.success) {
+      statusEl.textContent = `一覧の取得に失敗しました: ${res.message || '不明なエラー'}`;
+      return;
+    }
+    const settings = res.settings!;
+    byId<HTMLInputElement>('backupEnabled').checked = settings.enabled;
+    byId<HTMLInputElement>('backupDir').value = settings.dir;
+    byId<HTMLInputElement>('backupKeepDaily').value = String(settings.keepDaily);
+    byId<HTMLInputElement>('backupKeepWeekly').value = String(settings.keepWeekly);
+    byId<HTMLInputElement>('backupKeepMonthly').value = String(settings.keepMonthly);
+    const tbody = byId<HTMLTableElement>('backupList').querySelector('tbody') as HTMLTableSectionElement;
+    tbody.innerHTML = '';
+    for (const entry of res.entries || []) {
+      const tr = document.createElement('tr');
+      const cells = [
+        new Date(entry.createdAt).toLocaleString(),
+        BACKUP_REASON_LABELS[entry.reason] || entry.reason,
+        formatBytes(entry.size),
+        entry.fileName
+      ];
+      for (const text of cells) {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
+      }
+      const actionTd = document.createElement('td');
+      const btn = document.createElement('button');
+      btn.textContent = 'このスナップショットに戻す';
+      btn.addEventListener('click', () => { void restoreBackup(entry.fileName, cells[0]); });
+      actionTd.appendChild(btn);
+      tr.appendChild(actionTd);
+      tbody.appendChild(tr);
+    }
+    statusEl.textContent = `${res.dir}: ${(res.entries || []).length} 件`;
+  }
+
+  async function saveBackupSettings(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('backupStatus');
+    const count = (id: string) => Math.max(0, Math.floor(Number(byId<HTMLInputElement>(id).value) || 0));
+    const taskDbBackup = {
+      enabled: byId<HTMLInputElement>('backupEnabled').checked,
+      dir: byId<HTMLInputElement>('backupDir').value.trim(),
+      keepDaily: count('backupKeepDaily'),
+      keepWeekly: count('backupKeepWeekly'),
+      keepMonthly: count('backupKeepMonthly')
+    };
+    const { success } = await window.electronAPI.saveSettings({ taskDbBackup });
+    statusEl.textContent = success ? 'バックアップ設定を保存しました' : '保存に失敗しました';
+    if (success) await loadBackups();
+  }
+
+  async function onBrowseBackupDir(): Promise<void> {
+    const res = await window.electronAPI.selectBackupDir();
+    if (!res.canceled && res.dirPath) {
+      byId<HTMLInputElement>('backupDir').value = res.dirPath;
+    }
+  }
+
+  async function backupNow(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('backupStatus');
+    statusEl.textContent = 'バックアップ中...';
+    const res = await window.electronAPI.backupTaskDbNow();
+    if (!res.success) {
+      statusEl.textContent = `バックアップに失敗しました: ${res.message || '不明なエラー'}`;
+      return;
+    }
+    await loadBackups();
+    statusEl.textContent = `保存しました: ${res.entry?.fileName}`;
+  }
+
+  async function restoreBackup(fileName: string, label: string): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('backupStatus');
+    if (!confirm(`タスクDBを ${label} の状態に戻します。現在の内容は「復元前」として保存されます。よろしいですか？`)) return;
+    statusEl.textContent = '復元中...';
+    const res = await window.electronAPI.restoreTaskDbBackup(fileName);
+    if (!res.success) {
+      statusEl.textContent = `復元に失敗しました: ${res.message || '不明なエラー'}`;
+      return;
+    }
+    await loadBackups();
+    statusEl.textContent = `${fileName} から復元しました${res.preRestore ? `（復元前の状態: ${res.preRestore.fileName}）` : ''}`;
+  }
+
+  type CsvImportField = { key: string; label: string; required: boolean };
+  type CsvImportItem = {
+    rowNumber: number;
+    title: string;
+    mode: 'recurring' | 'single' | 'skip';
+    rrule: string | null;
+    issues: string[];
+    notes: string[];
+  };
+  type CsvImportState = {
+    filePath: string;
+    encoding: 'utf8' | 'shift_jis';
+    headers: string[];
+    sampleRows: string[][];
+    rowCount: number;
+    fields: CsvImportField[];
+  };
+  let csvImport: CsvImportState | null = null;
+
+  function initCsvHistoryRange(): void {
+    const today = new Date();
+    const start = new Date(today);
+    start.setMonth(start.getMonth() - 1);
+    byId<HTMLInputElement>('csvHistoryFrom').value = formatDateValue(start);
+    byId<HTMLInputElement>('csvHistoryTo').value = formatDateValue(today);
+  }
+
+  function csvExportEncoding(): 'utf8bom' | 'shift_jis' {
+    return byId<HTMLSelectElement>('csvExportEncoding').value === 'shift_jis' ? 'shift_jis' : 'utf8bom';
+  }
+
+  function describeCsvExport(res: any): string {
+    if (!res.success) return `書き出しに失敗しました: ${res.message || '不明なエラー'}`;
+    const lost = res.unmappable ? `（Shift_JIS で表せない ${res.unmappable} 文字を ? に置き換えました）` : '';
+    return `${res.rowCount} 行を ${res.filePath} に保存しました${lost}`;
+  }
+
+  async function exportTasksCsv(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('csvTasksStatus');
+    const res = await window.electronAPI.exportTasksCsv({ encoding: csvExportEncoding() });
+    statusEl.textContent = res.canceled ? '' : describeCsvExport(res);
+  }
+
+  async function exportHistoryCsv(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('csvHistoryStatus');
+    const from = byId<HTMLInputElement>('csvHistoryFrom').value;
+    const to = byId<HTMLInputElement>('csvHistoryTo').value;
+    if (!from || !to || from > to) {
+      statusEl.textContent = '期間を正しく指定してください';
+      return;
+    }
+    const res = await window.electronAPI.exportOccurrenceHistoryCsv({ from, to, encoding: csvExportEncoding() });
+    statusEl.textContent = res.canceled ? '' : describeCsvExport(res);
+  }
+
+  function csvImportEncoding(): 'auto' | 'utf8' | 'shift_jis' {
+    const v = byId<HTMLSelectElement>('csvImportEncoding').value;
+    return v === 'utf8' || v === 'shift_jis' ? v : 'auto';
+  }
+
+  function readCsvMapping(): Record<string, number | null> {
+    const mapping: Record<string, number | null> = {};
+    const selects = Array.from(document.querySelectorAll('#csvMapping tbody select')) as HTMLSelectElement[];
+    for (const sel of selects) {
+      mapping[sel.dataset.field || ''] = sel.value === '' ? null : Number(sel.value);
+    }
+    return mapping;
+  }
+
+  function csvImportParams() {
+    return {
+      filePath: csvImport!.filePath,
+      // 開いたときに判定した文字コードで読み直す
+      encoding: csvImport!.encoding,
+      hasHeader: byId<HTMLInputElement>('csvHasHeader').checked,
+      mapping: readCsvMapping()
+    };
+  }
+
+  function renderCsvMapping(suggested: Record<string, number | null>): void {
+    const table = byId<HTMLTableElement>('csvMapping');
+    const tbody = table.querySelector('tbody') as HTMLTableSectionElement;
+    tbody.innerHTML = '';
+    if (!csvImport) {
+      table.style.display = 'none';
+      return;
+    }
+    const state = csvImport;
+    const firstRow = byId<HTMLInputElement>('csvHasHeader').checked ? state.sampleRows[0] || [] : state.headers;
+    for (const field of state.fields) {
+      const tr = document.createElement('tr');
+      const labelTd = document.createElement('td');
+      labelTd.textContent = field.required ? `${field.label} *` : field.label;
+      tr.appendChild(labelTd);
+      const selectTd = document.createElement('td');
+      const sel = document.createElement('select');
+      sel.dataset.field = field.key;
+      const none = document.createElement('option');
+      none.value = '';
+      none.textContent = '(使わない)';
+      sel.appendChild(none);
+      state.headers.forEach((header, idx) => {
+        const opt = document.createElement('option');
+        opt.value = String(idx);
+        opt.textContent = byId<HTMLInputElement>('csvHasHeader').checked ? `${idx + 1}: ${header}` : `${idx + 1}列目`;
+        sel.appendChild(opt);
+      });
+      const preset = suggested[field.key];
+      sel.value = preset == null ? '' : String(preset);
+      const sampleTd = document.createElement('td');
+      const updateSample = () => { sampleTd.textContent = sel.value === '' ? '' : firstRow[Number(sel.value)] ?? ''; };
+      sel.addEventListener('change', () => {
+        updateSample();
+        byId<HTMLButtonElement>('commitCsvImport').disabled = true;
+      });
+      updateSample();
+      selectTd.appendChild(sel);
+      tr.appendChild(selectTd);
+      tr.appendChild(sampleTd);
+      tbody.appendChild(tr);
+    }
+    table.style.display = '';
+  }
+
+  async function openCsvImport(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('csvImportStatus');
+    const res = await window.electronAPI.openCsvImport({ encoding: csvImportEncoding() });
+    if (res.canceled) return;
+    csvImport = null;
+    renderCsvImportPreview([]);
+    byId<HTMLButtonElement>('commitCsvImport').disabled = true;
+    if (!res.success) {
+      renderCsvMapping({});
+      byId<HTMLButtonElement>('planCsvImport').disabled = true;
+      statusEl.textContent = `読み込みに失敗しました: ${res.message || '不明なエラー'}`;
+      return;
+    }
+    const state: CsvImportState = {
+      filePath: res.filePath || '',
+      encoding: res.encoding === 'shift_jis' ? 'shift_jis' : 'utf8',
+      headers: res.headers || [],
+      sampleRows: res.sampleRows || [],
+      rowCount: res.rowCount || 0,
+      fields: res.fields || []
+    };
+    csvImport = state;
+    renderCsvMapping(res.suggestedMapping || {});
+    byId<HTMLButtonElement>('planCsvImport').disabled = false;
+    statusEl.textContent = `${state.filePath}: ${state.rowCount} 行（${state.encoding === 'shift_jis' ? 'Shift_JIS' : 'UTF-8'}）`;
+  }
+
+  function renderCsvImportPreview(items: CsvImportItem[]): void {
+    const table = byId<HTMLTableElement>('csvImportPreview');
+    const tbody = table.querySelector('tbody') as HTMLTableSectionElement;
+    tbody.innerHTML = '';
+    for (const item of items) {
+      const tr = document.createElement('tr');
+      const cells = [
+        String(item.rowNumber),
+        item.title,
+        item.mode === 'recurring' ? '繰り返し' : item.mode === 'single' ? '1回のみ' : '取り込み不可',
+        item.rrule || ''
+      ];
+      for (const text of cells) {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
+      }
+      const noteTd = document.createElement('td');
+      for (const issue of item.issues) {
+        const div = document.createElement('div');
+        div.className = 'issue';
+        div.textContent = issue;
+        noteTd.appendChild(div);
+      }
+      for (const note of item.notes) {
+        const div = document.createElement('div');
+        div.className = 'note';
+        div.textContent = note;
+        noteTd.appendChild(div);
+      }
+      tr.appendChild(noteTd);
+      tbody.appendChild(tr);
+    }
+    table.style.display = items.length ? '' : 'none';
+  }
+
+  async function planCsvImport(): Promise<void> {
+    if (!csvImport) return;
+    const statusEl = byId<HTMLSpanElement>('csvImportStatus');
+    const params = csvImportParams();
+    if (params.mapping.title == null) {
+      statusEl.textContent = 'タイトルの列を指定してください';
+      return;
+    }
+    const res = await window.electronAPI.planCsvImport(params);
+    if (!res.success) {
+      statusEl.textContent = `読み込みに失敗しました: ${res.message || '不明なエラー'}`;
+      return;
+    }
+    const items = (res.items || []) as CsvImportItem[];
+    renderCsvImportPreview(items);
+    const creatable = items.filter(item => item.mode !== 'skip').length;
+    const flagged = items.filter(item => item.issues.length).length;
+    statusEl.textContent = `作成 ${creatable} 件 / 全 ${items.length} 行（要確認 ${flagged} 件）`;
+    byId<HTMLButtonElement>('commitCsvImport').disabled = creatable === 0;
+  }
+
+  async function commitCsvImport(): Promise<void> {
+    if (!csvImport) return;
+    const statusEl = byId<HTMLSpanElement>('csvImportStatus');
+    const button = byId<HTMLButtonElement>('commitCsvImport');
+    if (!confirm('確認した内容でタスクを作成します。よろしいですか？')) return;
+    button.disabled = true;
+    statusEl.textContent = '取り込み中...';
+    const res = await window.electronAPI.commitCsvImport(csvImportParams());
+    if (typeof res.created === 'undefined') {
+      statusEl.textContent = `取り込みに失敗しました: ${res.message || '不明なエラー'}`;
+      button.disabled = false;
+      return;
+    }
+    const failed = res.failed || [];
+    const failedText = failed.map((f: { rowNumber: number; title: string; message: string }) => `\n・${f.rowNumber}行目 ${f.title}: ${f.message}`).join('');
+    statusEl.textContent = `${res.created} 件のタスクを作成しました（取り込み不可 ${res.skipped ?? 0} 件${failed.length ? ` / 失敗 ${failed.length} 件` : ''}）${failedText}`;
+    csvImport = null;
+    renderCsvMapping({});
+    renderCsvImportPreview([]);
+    byId<HTMLButtonElement>('planCsvImport').disabled = true;
+  }
+
+  let jsonImportFilePath: string | null = null;
+
+  function formatTableCounts(counts: Record<string, number> | undefined): string {
+    const entries = Object.entries(counts || {});
+    return entries.length ? entries.map(([name, n]) => `${name}: ${n}`).join(', ') : '(なし)';
+  }
+
+  async function exportTaskJson(): Promise<void> {
+    const statusEl = byId<HTMLSpanElement>('jsonExportStatus');
+    statusEl.textContent = '書き出し中...';
+    const res = await window.electronAPI.exportTaskJson({ includeEvents: byId<HTMLInputElement>('jsonIncludeEvents').checked });
+    if (res.canceled) {
+      statusEl.textContent = '';
+      return;
+    }
+    statusEl.textContent = res.success
+      ? `${res.filePath} に保存しました（${formatTableCounts(res.counts)}）`
+      : `書き出しに失敗しました: ${res.message || '不明なエラー'}`;
+  }
+
+  async function previewTaskJsonImport(): Promise<void> {
+    const statusEl = byId<HTMLDivElement>('jsonImportStatus');
+    const commitBtn = byId<HTMLButtonElement>('commitJsonImport');
+    jsonImportFilePath = null;
+    commitBtn.disabled = true;
+    const res = await window.electronAPI.previewTaskJsonImport();
+    if (res.canceled) return;
+    if (!res.success) {
+      statusEl.textContent = `読み込みに失敗しました: ${res.message || '不明なエラー'}`;
+      return;
+    }
+    jsonImportFilePath = res.filePath || null;
+    commitBtn.disabled = !jsonImportFilePath;
+    statusEl.textContent = `${res.filePath}\n書き出し日時: ${res.exportedAt || '-'}\n${formatTableCounts(res.counts)}`;
+  }
+
+  async function commitTaskJsonImport(): Promise<void> {
+    if (!jsonImportFilePath) return;
+    const statusEl = byId<HTMLDivElement>('jsonImportStatus');
+    const commitBtn = byId<HTMLButtonElement>('commitJsonImport');
+    const mode = byId<HTMLSelectElement>('jsonImportMode').value === 'replace' ? 'replace' : 'merge';
+    const message = mode === 'replace'
+      ? '現在のタスクDBの内容をすべて消して、ファイルの内容に置き換えます（事前にバックアップを保存します）。よろしいですか？'
+      : 'ファイルの内容を現在のタスクDBに追加します。よろしいですか？';
+    if (!confirm(message)) return;
+    commitBtn.disabled = true;
+    statusEl.textContent = '取り込み中...';
+    const res = await window.electronAPI.commitTaskJsonImport({ filePath: jsonImportFilePath, mode });
+    if (!res.success || !res.report) {
+      statusEl.textContent = `取り込みに失敗しました: ${res.message || '不明なエラー'}`;
+      commitBtn.disabled = false;
+      return;
+    }
+    const report = res.report;
+    const lines = [`取り込みました: ${formatTableCounts(report.inserted)}`];
+    if (Object.keys(report.reused).length) lines.push(`既存を利用: ${formatTableCounts(report.reused)}`);
+    for (const [name, cols] of Object.entries(report.droppedColumns as Record<string, string[]>)) lines.push(`${name}: 取り込み先にない列を無視しました（${cols.join(', ')}）`);
+    if (res.backupFile) lines.push(`取り込み前のバックアップ: ${res.backupFile}`);
+    lines.push(...report.warnings);
+    statusEl.textContent = lines.join('\n');
+    jsonImportFilePath = null;
+  }
+
   window.addEventListener('DOMContentLoaded', () => {
     byId<HTMLButtonElement>('browseDb').addEventListener('click', onBrowseDb);
     byId<HTMLButtonElement>('saveDb').addEventListener('click', onSaveDb);
@@ -255,6 +869,28 @@
       copyBtn.disabled = true;
       copyBtn.title = 'この環境ではコピー機能を利用できません';
     }
+    initIcsRange();
+    byId<HTMLButtonElement>('exportIcs').addEventListener('click', () => { void exportICalendar(); });
+    byId<HTMLButtonElement>('previewIcsImport').addEventListener('click', () => { void previewIcsImport(); });
+    byId<HTMLButtonElement>('commitIcsImport').addEventListener('click', () => { void commitIcsImport(); });
+    byId<HTMLButtonElement>('browseBackupDir').addEventListener('click', () => { void onBrowseBackupDir(); });
+    byId<HTMLButtonElement>('saveBackupSettings').addEventListener('click', () => { void saveBackupSettings(); });
+    byId<HTMLButtonElement>('backupNow').addEventListener('click', () => { void backupNow(); });
+    byId<HTMLButtonElement>('refreshBackups').addEventListener('click', () => { void loadBackups(); });
+    initCsvHistoryRange();
+    byId<HTMLButtonElement>('exportTasksCsv').addEventListener('click', () => { void exportTasksCsv(); });
+    byId<HTMLButtonElement>('exportHistoryCsv').addEventListener('click', () => { void exportHistoryCsv(); });
+    byId<HTMLButtonElement>('openCsvImport').addEventListener('click', () => { void openCsvImport(); });
+    byId<HTMLButtonElement>('planCsvImport').addEventListener('click', () => { void planCsvImport(); });
+    byId<HTMLButtonElement>('commitCsvImport').addEventListener('click', () => { void commitCsvImport(); });
+    byId<HTMLInputElement>('csvHasHeader').addEventListener('change', () => {
+      if (csvImport) renderCsvMapping(readCsvMapping());
+      byId<HTMLButtonElement>('commitCsvImport').disabled = true;
+    });
+    byId<HTMLButtonElement>('exportJson').addEventListener('click', () => { void exportTaskJson(); });
+    byId<HTMLButtonElement>('previewJsonImport').addEventListener('click', () => { void previewTaskJsonImport(); });
+    byId<HTMLButtonElement>('commitJsonImport').addEventListener('click', () => { void commitTaskJsonImport(); });
     loadSettings();
+    void loadBackups();
   });
 })();
@@ -1,4 +1,6 @@
 // 共通ユーティリティ（タスク編集画面向け）
+import { RecurrenceRuleRow } from './rrule.js';
+import { RecurrenceDateEntry } from './recurrenceExpander.js';
 
 export type TaskRow = {
   ID?: number;
@@ -16,12 +18,32 @@ export type TaskRow = {
   MONTHLY_DAY?: number | null;
   MONTHLY_NTH?: number | null;
   MONTHLY_NTH_DOW?: number | null;
+  MONTHLY_DAYS?: string | null;
+  MONTHLY_NTH_PAIRS?: string | null;
+  MONTHLY_BUSINESS_DAY?: number | null;
   YEARLY_MONTH?: number | null;
   COUNT?: number | null;
+  END_KIND?: 'none' | 'until' | 'count' | null;
+  UNTIL_DATE?: string | null;
   HORIZON_DAYS?: number | null;
   WEEKLY_DOWS?: number | null;
   MANUAL_NEXT_DUE?: number | null;
   OCCURRENCE_OFFSET_DAYS?: number | null;
+  HOLIDAY_POLICY?: string | null;
+  CALENDAR_ID?: number | null;
+  CALENDAR_NAME?: string | null;
+  // 追加ルール（RECURRENCE_EXTRA_RULES の行）と追加日付
+  EXTRA_RULES?: RecurrenceRuleRow[];
+  EXTRA_DATES?: string[];
+  // 日付リスト（FREQ='dates'。RECURRENCE_DATES の日付・時刻）
+  DATE_LIST?: RecurrenceDateEntry[];
+  // cron 式（FREQ='cron'）
+  CRON_EXPR?: string | null;
+  // 1日の時刻リスト（'08:00,13:00,21:00'）
+  TIMES_OF_DAY?: string | null;
+  // 現在のルールの適用開始日（NULL はタスクの開始日から）と版の番号
+  EFFECTIVE_FROM?: string | null;
+  RULE_VERSION?: number | null;
 };
 
 export type RecurrenceUIMode =
@@ -29,10 +51,16 @@ export type RecurrenceUIMode =
   | 'daily'
   | 'everyNScheduled'
   | 'everyNCompleted'
+  | 'everyNWeeksCompleted'
+  | 'everyNMonthsCompleted'
+  | 'everyNYearsCompleted'
   | 'weekly'
   | 'monthly'
   | 'monthlyNth'
+  | 'monthlyBusinessDay'
   | 'yearly'
+  | 'dates'
+  | 'cron'
   | 'manualNext';
 
 export function formatDateInput(dateStr?: string | null): string {
@@ -50,11 +78,19 @@ export function formatDateInput(dateStr?: string | null): string {
 export function inferRecurrenceModeFromDb(t: TaskRow): RecurrenceUIMode {
   if (!t.IS_RECURRING) return 'once';
   if (Number((t as any).MANUAL_NEXT_DUE || 0) === 1) return 'manualNext';
+  if ((t as any).INTERVAL_ANCHOR === 'completed') {
+    if (t.FREQ === 'weekly') return 'everyNWeeksCompleted';
+    if (t.FREQ === 'monthly') return 'everyNMonthsCompleted';
+    if (t.FREQ === 'yearly') return 'everyNYearsCompleted';
+  }
   if (t.FREQ === 'monthly') {
+    if (t.MONTHLY_BUSINESS_DAY != null) return 'monthlyBusinessDay';
     if ((t as any).MONTHLY_NTH !== null && typeof (t as any).MONTHLY_NTH !== 'undefined') return 'monthlyNth';
     return 'monthly';
   }
   if (t.FREQ === 'yearly') return 'yearly';
+  if (t.FREQ === 'dates') return 'dates';
+  if (t.FREQ === 'cron') return 'cron';
   if (t.FREQ === 'weekly') return 'weekly';
   if (t.FREQ === 'daily') {
     const interval = Number((t as any).INTERVAL || 1);
@@ -1,4 +1,36 @@
 import { TaskRow, RecurrenceUIMode, formatDateInput, inferRecurrenceModeFromDb, weeklyArrayFromMask, weeklyMaskFromArray } from './sharedTaskEditor.js';
+import {
+  RecurrenceRuleSpec,
+  RecurrenceExceptionMap,
+  RecurrencePattern,
+  HolidayShiftPolicy,
+  HOLIDAY_SHIFT_POLICIES,
+  MAX_MONTHLY_BUSINESS_DAY,
+  MAX_MONTHLY_INTERVAL,
+  MAX_WEEKLY_INTERVAL,
+  MAX_YEARLY_INTERVAL,
+  MonthlyNthPair,
+  RecurrenceDateEntry,
+  parseDateListText,
+  formatDateListText,
+  parseMonthlyDayList,
+  formatMonthlyDayList,
+  parseMonthlyNthPairList,
+  formatMonthlyNthPairList,
+  parseTimesOfDayText,
+  DEFAULT_DAILY_HORIZON_DAYS,
+  DEFAULT_MONTHS_AHEAD,
+  DEFAULT_YEARS_AHEAD,
+  addDaysYmd,
+  formatYmd,
+  todayYmd,
+  planUnionOccurrences,
+  nextSeriesOccurrences,
+  completionAnchoredNext,
+  resolveNextOccurrence
+} from './recurrenceExpander.js';
+import { describeCronSchedule, parseCronExpression } from './cronExpression.js';
+import { ParsedRRule, formatRRule, parseRRule, formatExtraRuleRRule, parseExtraRuleRRule, recurrencePayloadFromRRule } from './rrule.js';
 
 const el = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
 const DEFAULT_DIFF_RANGE = '8w';
@@ -8,6 +40,8 @@ let allTagNames: string[] = [];
 let selectedTags: string[] = [];
 let recurrenceCountTouched = false;
 let initialRecurrenceMode: RecurrenceUIMode = 'once';
+// 読み込み時（保存後）の繰り返し。変更時に「すべての回 / 指定日以降の回」を尋ねるかの判定に使う
+let savedRule: { recurring: boolean; versionable: boolean; signature: string; startDate: string | null; currentFrom: string | null; version: number } | null = null;
 
 type OccurrenceView = { date: string; time?: string | null; status?: string; };
 
@@ -24,62 +58,22 @@ type TaskFileEntry = {
 let fileDbConfigured = false;
 let attachedFiles: TaskFileEntry[] = [];
 
-function clampMonthlyDate(year: number, monthIndex0: number, day: number): string {
-  const last = new Date(year, monthIndex0 + 1, 0).getDate();
-  const d = Math.min(Math.max(day, 1), last);
-  const dt = new Date(year, monthIndex0, d);
-  const y = dt.getFullYear();
-  const m = String(dt.getMonth() + 1).padStart(2, '0');
-  const da = String(dt.getDate()).padStart(2, '0');
-  return `${y}-${m}-${da}`;
-}
-
-function nthWeekdayOfMonth(year: number, monthIndex0: number, nth: number, dow: number): string {
-  const first = new Date(year, monthIndex0, 1);
-  const firstDow = first.getDay();
-  if (nth === -1) {
-    const lastDay = new Date(year, monthIndex0 + 1, 0).getDate();
-    const lastDate = new Date(year, monthIndex0, lastDay);
-    const lastDow = lastDate.getDay();
-    const diff = (lastDow - dow + 7) % 7;
-    const day = lastDay - diff;
-    const dt = new Date(year, monthIndex0, day);
-    const y = dt.getFullYear();
-    const m = String(dt.getMonth() + 1).padStart(2, '0');
-    const da = String(dt.getDate()).padStart(2, '0');
-    return `${y}-${m}-${da}`;
-  }
-  const offset = (dow - firstDow + 7) % 7;
-  let day = 1 + offset + (nth - 1) * 7;
-  const last = new Date(year, monthIndex0 + 1, 0).getDate();
-  if (day > last) day -= 7;
-  const dt = new Date(year, monthIndex0, day);
-  const y = dt.getFullYear();
-  const m = String(dt.getMonth() + 1).padStart(2, '0');
-  const da = String(dt.getDate()).padStart(2, '0');
-  return `${y}-${m}-${da}`;
-}
-
-function getPreviewWindow(range: string): { from?: string; to?: string; weeksAhead?: number; monthsAhead?: number; yearsAhead?: number } {
+function getPreviewWindow(range: string): { from?: string; to?: string } {
   const today = new Date();
-  const todayStr = `${today.getFullYear()}-${String(today.getMonth()+1).padStart(2,'0')}-${String(today.getDate()).padStart(2,'0')}`;
-  const res: any = { from: todayStr };
+  const todayStr = formatYmd(today);
+  const res: { from?: string; to?: string } = { from: todayStr };
   if (range === '8w') {
     const d = new Date(today); d.setDate(d.getDate() + 7*8);
-    res.to = `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
-    res.weeksAhead = 8;
+    res.to = formatYmd(d);
   } else if (range === '6m') {
     const d = new Date(today); d.setMonth(d.getMonth() + 6);
-    res.to = `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
-    res.monthsAhead = 6;
+    res.to = formatYmd(d);
   } else if (range === '12m') {
     const d = new Date(today); d.setMonth(d.getMonth() + 12);
-    res.to = `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
-    res.monthsAhead = 12;
+    res.to = formatYmd(d);
   } else if (range === '2y') {
     const d = new Date(today); d.setFullYear(d.getFullYear() + 2);
-    res.to = `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
-    res.yearsAhead = 2;
+    res.to = formatYmd(d);
   }
   return res;
 }
@@ -119,18 +113,295 @@ function setOccurrenceOffsetDays(offset: number | null | undefined): void {
   dirEl.value = n < 0 ? 'before' : 'after';
 }
 
+function getHolidayPolicy(): HolidayShiftPolicy {
+  const sel = document.getElementById('holidayPolicy') as HTMLSelectElement | null;
+  const v = (sel?.value || 'keep') as HolidayShiftPolicy;
+  return HOLIDAY_SHIFT_POLICIES.includes(v) ? v : 'keep';
+}
+
+function setHolidayPolicy(value: string | null | undefined): void {
+  const sel = document.getElementById('holidayPolicy') as HTMLSelectElement | null;
+  if (!sel) return;
+  const v = String(value || 'keep') as HolidayShiftPolicy;
+  sel.value = HOLIDAY_SHIFT_POLICIES.includes(v) ? v : 'keep';
+}
+
+// 休業日カレンダーの休業日（プレビュー用）。カレンダーID → 日付の集合
+const calendarClosedDates = new Map<number, ReadonlySet<string>>();
+
+// カレンダーは土日・祝日の扱いが「そのまま」以外か、営業日指定（営業日の数え方に使う）のときだけ使う
+function usesHolidayCalendar(): boolean {
+  const mode = el<HTMLSelectElement>('isRecurring').value as RecurrenceUIMode;
+  return getHolidayPolicy() !== 'keep' || mode === 'monthlyBusinessDay';
+}
+
+function syncHolidayCalendarInput(): void {
+  const sel = document.getElementById('holidayCalendar') as HTMLSelectElement | null;
+  if (sel) sel.disabled = !usesHolidayCalendar();
+}
+
+function getHolidayCalendarId(): number | null {
+  const sel = document.getElementById('holidayCalendar') as HTMLSelectElement | null;
+  if (!sel || !usesHolidayCalendar()) return null;
+  const id = Number(sel.value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function setHolidayCalendarId(value: number | null | undefined): void {
+  const sel = document.getElementById('holidayCalendar') as HTMLSelectElement | null;
+  if (!sel) return;
+  const v = value != null ? String(value) : '';
+  sel.value = Array.from(sel.options).some(o => o.value === v) ? v : '';
+  syncHolidayCalendarInput();
+}
+
+async function initializeCalendarControls(): Promise<void> {
+  const sel = document.getElementById('holidayCalendar') as HTMLSelectElement | null;
+  el<HTMLSelectElement>('holidayPolicy').addEventListener('change', syncHolidayCalendarInput);
+  if (!sel) return;
+  try {
+    const res = await window.electronAPI.listCalendars();
+    for (const calendar of (res?.success ? res.calendars || [] : [])) {
+      const option = document.createElement('option');
+      option.value = String(calendar.id);
+      option.textContent = calendar.name;
+      sel.appendChild(option);
+    }
+  } catch (e) {
+    console.error('failed to load calendars', e);
+  }
+  syncHolidayCalendarInput();
+}
+
+async function loadCalendarClosedDates(calendarId: number | null | undefined): Promise<void> {
+  if (!calendarId || calendarClosedDates.has(calendarId)) return;
+  try {
+    const res = await window.electronAPI.listCalendarClosedDates(calendarId);
+    if (res?.success) calendarClosedDates.set(calendarId, new Set(res.dates || []));
+  } catch (e) {
+    console.error('failed to load calendar dates', e);
+  }
+}
+
+// 月次・年次の間隔（Nヶ月ごと / N年ごと）
+function getPeriodInterval(max: number): number {
+  const n = Math.floor(Number((el<HTMLInputElement>('periodInterval').value || '').trim() || '1'));
+  if (!Number.isFinite(n) || n < 1) return 1;
+  return Math.min(n, max);
+}
+
+// 完了基準の週・月・年単位のモード（前回完了日から N週・Nヶ月・N年後）
+const COMPLETED_PERIOD_MODES: Partial<Record<RecurrenceUIMode, { freq: 'weekly' | 'monthly' | 'yearly'; max: number; unit: string }>> = {
+  everyNWeeksCompleted: { freq: 'weekly', max: MAX_WEEKLY_INTERVAL, unit: '週ごと' },
+  everyNMonthsCompleted: { freq: 'monthly', max: MAX_MONTHLY_INTERVAL, unit: 'ヶ月ごと' },
+  everyNYearsCompleted: { freq: 'yearly', max: MAX_YEARLY_INTERVAL, unit: '年ごと' }
+};
+
+const MONTHLY_NTH_ROWS: Array<[number, string]> = [[1, '第1'], [2, '第2'], [3, '第3'], [4, '第4'], [5, '第5'], [-1, '最終']];
+const DOW_SHORT_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// 第N曜日の選択欄（第1〜第5・最終 × 日〜土）。複数選択で「第2・第4水曜」などを1件のタスクで表す
+function initializeMonthlyNthGrid(): void {
+  const grid = el<HTMLDivElement>('monthlyNthGrid');
+  grid.innerHTML = '';
+  grid.appendChild(document.createElement('span'));
+  for (const label of DOW_SHORT_LABELS) {
+    const head = document.createElement('span');
+    head.textContent = label;
+    head.style.textAlign = 'center';
+    grid.appendChild(head);
+  }
+  for (const [nth, label] of MONTHLY_NTH_ROWS) {
+    const rowLabel = document.createElement('span');
+    rowLabel.textContent = label;
+    grid.appendChild(rowLabel);
+    for (let dow = 0; dow <= 6; dow++) {
+      const box = document.createElement('input');
+      box.type = 'checkbox';
+      box.value = `${nth}:${dow}`;
+      box.title = `${label}${DOW_SHORT_LABELS[dow]}曜日`;
+      grid.appendChild(box);
+    }
+  }
+}
+
+function getMonthlyNthPairsFromUI(): MonthlyNthPair[] {
+  const boxes = Array.from(el<HTMLDivElement>('monthlyNthGrid').querySelectorAll('input[type="checkbox"]')) as HTMLInputElement[];
+  return parseMonthlyNthPairList(boxes.filter(b => b.checked).map(b => b.value).join(','));
+}
+
+function setMonthlyNthPairsToUI(pairs: MonthlyNthPair[]): void {
+  const keys = new Set(pairs.map(p => `${p.nth}:${p.dow}`));
+  const boxes = Array.from(el<HTMLDivElement>('monthlyNthGrid').querySelectorAll('input[type="checkbox"]')) as HTMLInputElement[];
+  boxes.forEach(b => { b.checked = keys.has(b.value); });
+}
+
+// DB行・RRULE取り込み結果の第N曜日（MONTHLY_NTH_PAIRS があれば優先）
+function monthlyNthPairsOfRow(row: { MONTHLY_NTH?: number | null; MONTHLY_NTH_DOW?: number | null; MONTHLY_NTH_PAIRS?: string | null }): MonthlyNthPair[] {
+  if (row.MONTHLY_NTH_PAIRS) return parseMonthlyNthPairList(row.MONTHLY_NTH_PAIRS);
+  if (row.MONTHLY_NTH == null || row.MONTHLY_NTH_DOW == null) return [];
+  return [{ nth: Number(row.MONTHLY_NTH), dow: Number(row.MONTHLY_NTH_DOW) }];
+}
+
+// 追加ルール欄（1行に1つの RRULE）を解析する。行ごとのエラーは「追加ルールN行目」として返す
+function parseExtraRulesFromUI(): { rules: ParsedRRule[]; errors: string[] } {
+  const lines = el<HTMLTextAreaElement>('extraRulesInput').value.split(/\r?\n/).map(l => l.trim());
+  const startDate = el<HTMLInputElement>('startDate').value || null;
+  const rules: ParsedRRule[] = [];
+  const errors: string[] = [];
+  lines.forEach((line, i) => {
+    if (!line) return;
+    const result = parseExtraRuleRRule(line, { startDate });
+    if (result.rule) rules.push(result.rule);
+    else result.errors.forEach(e => errors.push(`追加ルール${i + 1}行目: ${e}`));
+  });
+  return { rules, errors };
+}
+
+// 追加日付欄（カンマ・改行区切りの YYYY-MM-DD）を解析する
+function parseExtraDatesFromUI(): { dates: string[]; errors: string[] } {
+  const dates = new Set<string>();
+  const errors: string[] = [];
+  for (const token of el<HTMLTextAreaElement>('extraDatesInput').value.split(/[\s,、]+/)) {
+    if (!token) continue;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(token) && formatYmd(new Date(`${token}T00:00:00`)) === token) dates.add(token);
+    else errors.push(`追加日付の形式が不正です: ${token}`);
+  }
+  return { dates: Array.from(dates).sort(), errors };
+}
+
+// 追加ルール・追加日付を持てるのは、予定日基準で展開する繰り返しのみ（日付リストは日付をすべて列挙するため、cron 式は時刻が式で決まるため対象外）
+function supportsRecurrenceExtras(mode: RecurrenceUIMode): boolean {
+  return mode !== 'once' && mode !== 'manualNext' && mode !== 'everyNCompleted' && !COMPLETED_PERIOD_MODES[mode]
+    && mode !== 'dates' && mode !== 'cron';
+}
+
+// 日付を指定して変更できるのは、予定日基準で回数指定のない繰り返しのみ（手動次回・日付リスト・完了基準は対象外）
+function supportsRuleVersions(mode: RecurrenceUIMode, count: number): boolean {
+  return mode !== 'once' && mode !== 'manualNext' && mode !== 'everyNCompleted' && !COMPLETED_PERIOD_MODES[mode]
+    && mode !== 'dates' && !(count >= 1);
+}
+
+// 1日の時刻リストを指定できるのは、予定日を基準に日付が決まる繰り返しのみ（完了基準・日付リスト・cron 式は対象外）
+function supportsTimesOfDay(mode: RecurrenceUIMode): boolean {
+  return mode === 'daily' || mode === 'everyNScheduled' || mode === 'weekly' || mode === 'monthly'
+    || mode === 'monthlyNth' || mode === 'monthlyBusinessDay' || mode === 'yearly';
+}
+
+function parseTimesOfDayFromUI(): { times: string[]; errors: string[] } {
+  return parseTimesOfDayText(el<HTMLInputElement>('timesOfDay').value);
+}
+
+// 日付リスト欄（1行に「日付 [時刻]」）を解析する
+function parseDateListFromUI(): { entries: RecurrenceDateEntry[]; errors: string[] } {
+  return parseDateListText(el<HTMLTextAreaElement>('dateListInput').value);
+}
+
+function updateDateListSummary(): void {
+  const { entries, errors } = parseDateListFromUI();
+  const summary = el<HTMLSpanElement>('dateListSummary');
+  const range = entries.length ? `（${entries[0].date}〜${entries[entries.length - 1].date}）` : '';
+  summary.textContent = `${entries.length}件${range}${errors.length ? ` / 読めない行 ${errors.length}件` : ''}`;
+  summary.style.color = errors.length ? '#c00' : '#666';
+}
+
+function showDateListMessage(lines: string[], isError: boolean): void {
+  const msg = el<HTMLDivElement>('dateListMessage');
+  msg.textContent = lines.join('\n');
+  msg.style.color = isError ? '#c00' : '#666';
+}
+
+// CSV の日付・時刻を日付リスト欄の末尾に加える（同じ日付は後から加えた時刻で上書きされる）
+async function onImportDateListCsv(): Promise<void> {
+  const encoding = el<HTMLSelectElement>('dateListCsvEncoding').value as 'auto' | 'utf8' | 'shift_jis';
+  const res = await window.electronAPI.importDateListCsv({ encoding });
+  if (res?.canceled) return;
+  if (!res?.success) {
+    showDateListMessage([res?.message || 'CSVの読み込みに失敗しました'], true);
+    return;
+  }
+  const entries = res.entries || [];
+  const input = el<HTMLTextAreaElement>('dateListInput');
+  const current = input.value.replace(/\s+$/, '');
+  input.value = [current, formatDateListText(entries)].filter(Boolean).join('\n');
+  updateDateListSummary();
+  const issues = res.issues || [];
+  showDateListMessage([`${res.filePath} から ${entries.length} 件を取り込みました。`, ...issues.map((i: string) => `・${i}`)], issues.length > 0);
+}
+
+const CRON_PREVIEW_COUNT = 10;
+
+// cron 式の説明と、今（開始日が先ならその日）以降の次の発生（ずらし・土日祝の扱い・回数・終了日を適用）を表示する
+function updateCronPreview(): void {
+  const desc = el<HTMLDivElement>('cronDescription');
+  const next = el<HTMLDivElement>('cronNextTimes');
+  const { schedule, errors } = parseCronExpression(el<HTMLInputElement>('cronExpr').value);
+  if (!schedule) {
+    desc.textContent = errors.join('\n');
+    desc.style.color = '#c00';
+    next.textContent = '';
+    return;
+  }
+  desc.textContent = describeCronSchedule(schedule);
+  desc.style.color = '#666';
+  const rec = buildPatternRecurrenceFromUI();
+  const startDate = formatDateInput(el<HTMLInputElement>('startDate').value) || todayYmd();
+  const rule = rec ? ruleSpecFromUI(rec, startDate) : null;
+  if (!rule) {
+    next.textContent = '';
+    return;
+  }
+  const now = new Date();
+  const today = todayYmd();
+  const after = startDate > today
+    ? { date: startDate, time: null }
+    : { date: today, time: `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}` };
+  const list = nextSeriesOccurrences(rule, null, null, after, CRON_PREVIEW_COUNT);
+  next.textContent = list.length
+    ? [`次の${list.length}回:`, ...list.map(o => `${o.date}（${DOW_SHORT_LABELS[new Date(`${o.date}T00:00:00`).getDay()]}）${o.time ?? ''}`)].join('\n')
+    : '今後の発生はありません';
+}
+
 function buildRecurrenceFromUI(): any {
+  const pattern = buildPatternRecurrenceFromUI();
+  const mode = (el<HTMLSelectElement>('isRecurring').value as RecurrenceUIMode);
+  const rec = pattern && supportsTimesOfDay(mode) ? { ...pattern, timesOfDay: parseTimesOfDayFromUI().times } : pattern;
+  if (!rec || !supportsRecurrenceExtras(mode)) return rec;
+  const extraRules = parseExtraRulesFromUI().rules.map(r => {
+    const { count, until, anchor, horizonDays, ...pattern } = recurrencePayloadFromRRule(r);
+    return pattern;
+  });
+  return { ...rec, extraRules, extraDates: parseExtraDatesFromUI().dates };
+}
+
+function buildPatternRecurrenceFromUI(): any {
   const mode = (el<HTMLSelectElement>('isRecurring').value as RecurrenceUIMode);
   const rcStr = (el<HTMLInputElement>('recurrenceCount').value || '').trim();
   let count = rcStr ? Number(rcStr) : 0; if (!isFinite(count) || count < 0) count = 0;
+  const untilStr = (el<HTMLInputElement>('untilDate').value || '').trim();
+  const until = /^\d{4}-\d{2}-\d{2}$/.test(untilStr) ? untilStr : null;
+  if (until) count = 0; // 終了日指定時は回数を使わない
   const offsetDays = getOccurrenceOffsetDays();
+  const holidayPolicy = getHolidayPolicy();
+  const calendarId = getHolidayCalendarId();
   if (mode === 'manualNext') {
     return { freq: 'manualNext', manualNextDue: true, occurrenceOffsetDays: 0 };
   }
+  if (mode === 'dates') {
+    // 回数はリストの件数。終了日は持たない
+    const dates = parseDateListFromUI().entries;
+    return { freq: 'dates', dates, count: dates.length, until: null, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
+  }
+  if (mode === 'cron') {
+    const dhStr = (el<HTMLInputElement>('dailyHorizonDays').value || '').trim();
+    let horizonDays = dhStr ? Number(dhStr) : 14; if (!isFinite(horizonDays) || horizonDays <= 0) horizonDays = 14; if (horizonDays > 365) horizonDays = 365;
+    const cronExpr = (el<HTMLInputElement>('cronExpr').value || '').trim();
+    return { freq: 'cron', cronExpr, count, until, horizonDays, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
+  }
   if (mode === 'daily') {
     const dhStr = (el<HTMLInputElement>('dailyHorizonDays').value || '').trim();
     let horizonDays = dhStr ? Number(dhStr) : 14; if (!isFinite(horizonDays) || horizonDays <= 0) horizonDays = 14; if (horizonDays > 365) horizonDays = 365;
-    return { freq: 'daily', count, horizonDays, interval: 1, anchor: 'scheduled', occurrenceOffsetDays: offsetDays };
+    return { freq: 'daily', count, until, horizonDays, interval: 1, anchor: 'scheduled', occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
   }
   if (mode === 'everyNScheduled' || mode === 'everyNCompleted') {
     const ivStr = (el<HTMLInputElement>('intervalDays').value || '').trim();
@@ -140,34 +411,59 @@ function buildRecurrenceFromUI(): any {
       const dhStr = (el<HTMLInputElement>('dailyHorizonDays').value || '').trim();
       let h = dhStr ? Number(dhStr) : 14; if (!isFinite(h) || h <= 0) h = 14; if (h > 365) h = 365; horizonDays = h;
     }
-    return { freq: 'daily', count, interval, anchor: (mode === 'everyNCompleted' ? 'completed' : 'scheduled'), horizonDays, occurrenceOffsetDays: offsetDays };
+    return { freq: 'daily', count, until, interval, anchor: (mode === 'everyNCompleted' ? 'completed' : 'scheduled'), horizonDays, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
+  }
+  const completedPeriod = COMPLETED_PERIOD_MODES[mode];
+  if (completedPeriod) {
+    // 初回は開始日。曜日・日付は開始日から決め、2回目以降は前回の完了日から数える
+    const sd = (el<HTMLInputElement>('startDate').value || '').trim();
+    const base = /^\d{4}-\d{2}-\d{2}$/.test(sd) ? sd : formatYmd(new Date());
+    const [, month, day] = base.split('-').map(Number);
+    const pattern = completedPeriod.freq === 'weekly'
+      ? { weeklyDows: weeklyMaskFromArray([new Date(`${base}T00:00:00`).getDay()]) }
+      : completedPeriod.freq === 'monthly'
+        ? { monthlyDay: day, monthlyDays: [day] }
+        : { yearlyMonth: month, yearlyDay: day };
+    const interval = getPeriodInterval(completedPeriod.max);
+    return { freq: completedPeriod.freq, ...pattern, interval, anchor: 'completed', count, until, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
   }
   if (mode === 'weekly') {
     const boxes = Array.from(el<HTMLDivElement>('weeklyDows').querySelectorAll('input[type="checkbox"]')) as HTMLInputElement[];
     const dows: number[] = [];
     boxes.forEach(b => { if (b.checked) dows.push(Number(b.value)); });
     const weeklyDows = weeklyMaskFromArray(dows);
-    return { freq: 'weekly', weeklyDows, interval: 1, count, occurrenceOffsetDays: offsetDays };
+    const interval = getPeriodInterval(MAX_WEEKLY_INTERVAL);
+    return { freq: 'weekly', weeklyDows, interval, count, until, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
   }
   if (mode === 'monthly') {
-    let mdNum: number | null = null;
-    const mdStr = (el<HTMLInputElement>('monthlyDay').value || '').trim();
-    if (mdStr) { const n = Number(mdStr); if (!isNaN(n) && n >= 1 && n <= 31) mdNum = n; }
-    if (mdNum == null) {
+    // 複数の日はカンマ区切り（'1,15'）。未入力・不正な場合は開始日の日
+    const days = parseMonthlyDayList(el<HTMLInputElement>('monthlyDay').value);
+    if (!days.length) {
       const sd = (el<HTMLInputElement>('startDate').value || '').trim();
-      if (/^\d{4}-\d{2}-\d{2}$/.test(sd)) { const n = Number(sd.slice(8,10)); if (!isNaN(n) && n >= 1 && n <= 31) mdNum = n; }
+      days.push(/^\d{4}-\d{2}-\d{2}$/.test(sd) ? Number(sd.slice(8, 10)) : 1);
     }
-    return { freq: 'monthly', monthlyDay: mdNum ?? 1, count, occurrenceOffsetDays: offsetDays };
+    const interval = getPeriodInterval(MAX_MONTHLY_INTERVAL);
+    return { freq: 'monthly', monthlyDay: days[0], monthlyDays: days, interval, count, until, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
   }
   if (mode === 'monthlyNth') {
-    const nth = Number((el<HTMLSelectElement>('monthlyNth').value || '1'));
-    const dow = Number((el<HTMLSelectElement>('monthlyNthDow').value || '0'));
-    return { freq: 'monthlyNth', monthlyNth: nth, monthlyNthDow: dow, count, occurrenceOffsetDays: offsetDays };
+    const pairs = getMonthlyNthPairsFromUI();
+    if (!pairs.length) pairs.push({ nth: 1, dow: 0 });
+    const interval = getPeriodInterval(MAX_MONTHLY_INTERVAL);
+    return { freq: 'monthlyNth', monthlyNth: pairs[0].nth, monthlyNthDow: pairs[0].dow, monthlyNthPairs: pairs, interval, count, until, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
+  }
+  if (mode === 'monthlyBusinessDay') {
+    let nth = Number((el<HTMLInputElement>('monthlyBusinessDay').value || '1'));
+    if (!Number.isInteger(nth) || nth < 1) nth = 1;
+    if (nth > MAX_MONTHLY_BUSINESS_DAY) nth = MAX_MONTHLY_BUSINESS_DAY;
+    const fromEnd = el<HTMLSelectElement>('monthlyBusinessDayFrom').value === 'end';
+    const interval = getPeriodInterval(MAX_MONTHLY_INTERVAL);
+    return { freq: 'monthlyBusinessDay', monthlyBusinessDay: fromEnd ? -nth : nth, interval, count, until, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
   }
   if (mode === 'yearly') {
     const month = Number((el<HTMLSelectElement>('yearlyMonth').value || '1'));
     const day = Number((el<HTMLInputElement>('yearlyDay').value || '1'));
-    return { freq: 'yearly', yearlyMonth: month, yearlyDay: day, count, occurrenceOffsetDays: offsetDays };
+    const interval = getPeriodInterval(MAX_YEARLY_INTERVAL);
+    return { freq: 'yearly', yearlyMonth: month, yearlyDay: day, interval, count, until, occurrenceOffsetDays: offsetDays, holidayPolicy, calendarId };
   }
   return null;
 }
@@ -505,7 +801,16 @@ function captureFormSnapshot(): TaskRow {
     IS_RECURRING: mode === 'once' ? 0 : 1,
     REQUIRE_COMPLETE_COMMENT: requireCommentEl && requireCommentEl.checked ? 1 : 0,
     MANUAL_NEXT_DUE: 0,
-    OCCURRENCE_OFFSET_DAYS: offsetDays
+    OCCURRENCE_OFFSET_DAYS: offsetDays,
+    HOLIDAY_POLICY: 'keep',
+    MONTHLY_BUSINESS_DAY: null,
+    MONTHLY_DAYS: null,
+    MONTHLY_NTH_PAIRS: null,
+    DATE_LIST: [],
+    CRON_EXPR: null,
+    TIMES_OF_DAY: recurrence && Array.isArray((recurrence as any).timesOfDay) && (recurrence as any).timesOfDay.length
+      ? (recurrence as any).timesOfDay.join(',')
+      : null
   };
 
   if (!snapshot.START_DATE) snapshot.START_DATE = null;
@@ -544,6 +849,10 @@ function captureFormSnapshot(): TaskRow {
     snapshot.COUNT = count;
     const freq = String((recurrence as any).freq || '').toLowerCase();
     snapshot.OCCURRENCE_OFFSET_DAYS = Number((recurrence as any).occurrenceOffsetDays || 0);
+    snapshot.HOLIDAY_POLICY = (recurrence as any).holidayPolicy || 'keep';
+    snapshot.CALENDAR_ID = (recurrence as any).calendarId ?? null;
+    snapshot.UNTIL_DATE = (recurrence as any).until || null;
+    snapshot.END_KIND = snapshot.UNTIL_DATE ? 'until' : (count >= 1 ? 'count' : 'none');
     if (freq === 'daily') {
       snapshot.FREQ = 'daily';
       snapshot.INTERVAL = Math.max(1, Number((recurrence as any).interval || 1));
@@ -559,7 +868,7 @@ function captureFormSnapshot(): TaskRow {
       snapshot.FREQ = 'weekly';
       snapshot.WEEKLY_DOWS = Math.max(0, Number((recurrence as any).weeklyDows || 0));
       snapshot.INTERVAL = Math.max(1, Number((recurrence as any).interval || 1));
-      snapshot.INTERVAL_ANCHOR = 'scheduled';
+      snapshot.INTERVAL_ANCHOR = (recurrence as any).anchor === 'completed' ? 'completed' : 'scheduled';
       snapshot.HORIZON_DAYS = null;
       snapshot.MONTHLY_DAY = null;
       snapshot.MONTHLY_NTH = null;
@@ -568,11 +877,13 @@ function captureFormSnapshot(): TaskRow {
     } else if (freq === 'monthly') {
       snapshot.FREQ = 'monthly';
       snapshot.MONTHLY_DAY = Number((recurrence as any).monthlyDay || 1);
+      const days: number[] = (recurrence as any).monthlyDays || [];
+      snapshot.MONTHLY_DAYS = days.length > 1 ? formatMonthlyDayList(days) : null;
       snapshot.MONTHLY_NTH = null;
       snapshot.MONTHLY_NTH_DOW = null;
       snapshot.YEARLY_MONTH = null;
-      snapshot.INTERVAL = null;
-      snapshot.INTERVAL_ANCHOR = null;
+      snapshot.INTERVAL = Math.max(1, Number((recurrence as any).interval || 1));
+      snapshot.INTERVAL_ANCHOR = (recurrence as any).anchor === 'completed' ? 'completed' : null;
       snapshot.HORIZON_DAYS = null;
       snapshot.WEEKLY_DOWS = null;
     } else if (freq === 'monthlynth') {
@@ -580,9 +891,44 @@ function captureFormSnapshot(): TaskRow {
       snapshot.MONTHLY_DAY = null;
       snapshot.MONTHLY_NTH = Number((recurrence as any).monthlyNth);
       snapshot.MONTHLY_NTH_DOW = Number((recurrence as any).monthlyNthDow);
-      snapshot.INTERVAL = null;
+      const pairs: MonthlyNthPair[] = (recurrence as any).monthlyNthPairs || [];
+      snapshot.MONTHLY_NTH_PAIRS = pairs.length > 1 ? formatMonthlyNthPairList(pairs) : null;
+      snapshot.INTERVAL = Math.max(1, Number((recurrence as any).interval || 1));
+      snapshot.INTERVAL_ANCHOR = null;
+      snapshot.HORIZON_DAYS = null;
+      snapshot.YEARLY_MONTH = null;
+      snapshot.WEEKLY_DOWS = null;
+    } else if (freq === 'monthlybusinessday') {
+      snapshot.FREQ = 'monthly';
+      snapshot.MONTHLY_DAY = null;
+      snapshot.MONTHLY_NTH = null;
+      snapshot.MONTHLY_NTH_DOW = null;
+      snapshot.MONTHLY_BUSINESS_DAY = Number((recurrence as any).monthlyBusinessDay);
+      snapshot.INTERVAL = Math.max(1, Number((recurrence as any).interval || 1));
+      snapshot.INTERVAL_ANCHOR = null;
+      snapshot.HORIZON_DAYS = null;
+      snapshot.YEARLY_MONTH = null;
+      snapshot.WEEKLY_DOWS = null;
+    } else if (freq === 'dates') {
+      snapshot.FREQ = 'dates';
+      snapshot.DATE_LIST = (recurrence as any).dates || [];
+      snapshot.INTERVAL = 1;
       snapshot.INTERVAL_ANCHOR = null;
       snapshot.HORIZON_DAYS = null;
+      snapshot.MONTHLY_DAY = null;
+      snapshot.MONTHLY_NTH = null;
+      snapshot.MONTHLY_NTH_DOW = null;
+      snapshot.YEARLY_MONTH = null;
+      snapshot.WEEKLY_DOWS = null;
+    } else if (freq === 'cron') {
+      snapshot.FREQ = 'cron';
+      snapshot.CRON_EXPR = (recurrence as any).cronExpr || null;
+      snapshot.INTERVAL = 1;
+      snapshot.INTERVAL_ANCHOR = null;
+      snapshot.HORIZON_DAYS = (recurrence as any).horizonDays != null ? Number((recurrence as any).horizonDays) : null;
+      snapshot.MONTHLY_DAY = null;
+      snapshot.MONTHLY_NTH = null;
+      snapshot.MONTHLY_NTH_DOW = null;
       snapshot.YEARLY_MONTH = null;
       snapshot.WEEKLY_DOWS = null;
     } else if (freq === 'yearly') {
@@ -591,8 +937,8 @@ function captureFormSnapshot(): TaskRow {
       const day = Number((recurrence as any).yearlyDay || (recurrence as any).monthlyDay || 1);
       snapshot.YEARLY_MONTH = month;
       snapshot.MONTHLY_DAY = day;
-      snapshot.INTERVAL = null;
-      snapshot.INTERVAL_ANCHOR = null;
+      snapshot.INTERVAL = Math.max(1, Number((recurrence as any).interval || 1));
+      snapshot.INTERVAL_ANCHOR = (recurrence as any).anchor === 'completed' ? 'completed' : null;
       snapshot.HORIZON_DAYS = null;
       snapshot.MONTHLY_NTH = null;
       snapshot.MONTHLY_NTH_DOW = null;
@@ -622,179 +968,80 @@ function captureFormSnapshot(): TaskRow {
     snapshot.WEEKLY_DOWS = null;
   }
 
+  const withExtras = snapshot.IS_RECURRING && supportsRecurrenceExtras(mode);
+  snapshot.EXTRA_RULES = withExtras ? parseExtraRulesFromUI().rules : [];
+  snapshot.EXTRA_DATES = withExtras ? parseExtraDatesFromUI().dates : [];
+
   (snapshot as any).FILE_ENTRIES = attachedFiles.map(entry => ({ ...entry }));
 
   return snapshot as TaskRow;
 }
 
-function computeTargetDates(rec: any, startDateStr: string | null, options: { range: string; isNew?: boolean }): string[] {
-  const today = new Date();
-  const res: string[] = [];
-  const startDate = startDateStr ? new Date(startDateStr) : new Date(today);
-  const rangeInfo = getPreviewWindow(options.range);
-  const addIfInRange = (d: Date) => {
-    const ds = `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
-    if (rangeInfo.from && ds < rangeInfo.from!) return;
-    if (rangeInfo.to && ds > rangeInfo.to!) return;
-    res.push(ds);
+// UI のルール（buildRecurrenceFromUI の戻り値）を展開用ルールに変換する
+function ruleSpecFromUI(rec: any, startDate: string): RecurrenceRuleSpec | null {
+  const freq = String(rec.freq || '');
+  if (freq !== 'daily' && freq !== 'weekly' && freq !== 'monthly' && freq !== 'monthlyNth' && freq !== 'monthlyBusinessDay' && freq !== 'yearly' && freq !== 'dates' && freq !== 'cron') return null;
+  return {
+    freq,
+    startDate,
+    interval: Math.max(1, Number(rec.interval || 1)),
+    anchor: String(rec.anchor || 'scheduled') === 'completed' ? 'completed' : 'scheduled',
+    count: Math.max(0, Number(rec.count || 0) || 0),
+    untilDate: typeof rec.until === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(rec.until) ? rec.until : null,
+    offsetDays: Number(rec.occurrenceOffsetDays || 0) || 0,
+    horizonDays: rec.horizonDays != null ? Number(rec.horizonDays) : null,
+    weeklyDows: Number(rec.weeklyDows || 0),
+    monthlyDay: freq === 'yearly' ? Number(rec.yearlyDay || 1) : Number(rec.monthlyDay || 1),
+    monthlyNth: rec.monthlyNth != null ? Number(rec.monthlyNth) : null,
+    monthlyNthDow: rec.monthlyNthDow != null ? Number(rec.monthlyNthDow) : null,
+    monthlyDays: freq === 'monthly' && Array.isArray(rec.monthlyDays) ? rec.monthlyDays : null,
+    monthlyNthPairs: freq === 'monthlyNth' && Array.isArray(rec.monthlyNthPairs) ? rec.monthlyNthPairs : null,
+    monthlyBusinessDay: rec.monthlyBusinessDay != null ? Number(rec.monthlyBusinessDay) : null,
+    yearlyMonth: rec.yearlyMonth != null ? Number(rec.yearlyMonth) : null,
+    dateList: freq === 'dates' && Array.isArray(rec.dates) ? rec.dates : null,
+    cronExpr: freq === 'cron' ? String(rec.cronExpr || '') : null,
+    timesOfDay: Array.isArray(rec.timesOfDay) && rec.timesOfDay.length ? rec.timesOfDay : null,
+    holidayPolicy: HOLIDAY_SHIFT_POLICIES.includes(rec.holidayPolicy) ? rec.holidayPolicy : 'keep',
+    closedDates: rec.calendarId ? calendarClosedDates.get(Number(rec.calendarId)) ?? null : null
   };
+}
+
+// 保存後に存在するはずのオカレンス日付（プレビュー範囲内）。DB側の生成と同じ展開ロジック（recurrenceExpander）を使う。
+function computeTargetDates(rec: any, startDateStr: string | null, options: { range: string; isNew?: boolean; exceptions?: RecurrenceExceptionMap | null }): string[] {
+  const rangeInfo = getPreviewWindow(options.range);
+  const inRange = (ds: string) => !(rangeInfo.from && ds < rangeInfo.from) && !(rangeInfo.to && ds > rangeInfo.to);
+  const today = todayYmd();
+  const startDate = formatDateInput(startDateStr) || today;
   const offsetDays = Number(rec && typeof rec.occurrenceOffsetDays !== 'undefined' ? rec.occurrenceOffsetDays : 0) || 0;
-  const addWithOffset = (base: Date) => {
-    const shifted = new Date(base);
-    if (offsetDays !== 0) shifted.setDate(shifted.getDate() + offsetDays);
-    addIfInRange(shifted);
-  };
 
   const isManual = !!(rec && (rec.manualNextDue || rec.freq === 'manualNext'));
-
   if (!rec || rec.freq === 'once' || isManual) {
-    if (startDateStr) addWithOffset(startDate);
-    return res;
+    if (!startDateStr) return [];
+    return [addDaysYmd(startDate, offsetDays)].filter(inRange);
   }
 
-  if (rec.freq === 'daily') {
-    const interval = Math.max(1, Number(rec.interval || 1));
-    const anchor = String(rec.anchor || 'scheduled');
-    const count = Number(rec.count || 0);
-    if (count >= 1 && anchor !== 'completed') {
-      for (let i = 0; i < count; i++) {
-        const d = new Date(startDate);
-        d.setDate(startDate.getDate() + i * interval);
-        addWithOffset(d);
-      }
-      return res;
-    }
-    if (anchor === 'completed') {
-      // 新規作成（まだオカレンスが存在しない）場合は開始日で1件を想定
-      if (options.isNew) {
-        if (startDateStr) addWithOffset(startDate);
-        return res;
-      }
-      // 既存の場合は次回想定（概算）を1件だけ表示（完了基準）
-      const d = new Date(today); d.setDate(d.getDate() + interval);
-      addWithOffset(d);
-      return res;
-    }
-    // infinite windowed
-    const horizon = Math.min(365, Math.max(1, Number(rec.horizonDays || 14)));
-    for (let i = 0; i < horizon; i++) {
-      const d = new Date(today); d.setDate(today.getDate() + i);
-      const diffDays = Math.floor((new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() - new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate()).getTime())/(1000*60*60*24));
-      if (diffDays >= 0 && diffDays % interval === 0) addWithOffset(d);
-    }
-    return res;
-  }
-
-  if (rec.freq === 'weekly') {
-    const mask = Number(rec.weeklyDows || 0);
-    const count = Number(rec.count || 0);
-    const interval = Math.max(1, Number(rec.interval || 1));
-    const start0 = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
-    const startSunday = new Date(start0); startSunday.setDate(start0.getDate() - start0.getDay());
-    if (count >= 1) {
-      let produced = 0;
-      for (let w = 0; w < 520 && produced < count; w += interval) {
-        const weekStart = new Date(startSunday); weekStart.setDate(startSunday.getDate() + w*7);
-        for (let dow = 0; dow <= 6 && produced < count; dow++) {
-          if (!(mask & (1 << dow))) continue;
-          const d = new Date(weekStart); d.setDate(weekStart.getDate() + dow);
-          if (d < start0) continue;
-          addWithOffset(d); produced++;
-        }
-      }
-      return res;
-    }
-    // infinite windowed (weeksAhead)
-    const weeksAhead = getPreviewWindow(options.range).weeksAhead ?? 8;
-    const today0 = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const sunday = new Date(today0); sunday.setDate(today0.getDate() - today0.getDay());
-    for (let w = 0; w < weeksAhead; w++) {
-      const weekStart = new Date(sunday); weekStart.setDate(sunday.getDate() + w*7);
-      for (let dow = 0; dow <= 6; dow++) {
-        if (!(mask & (1 << dow))) continue;
-        const d = new Date(weekStart); d.setDate(weekStart.getDate() + dow);
-        // interval alignment by week index relative to startSunday
-        const relWeeks = Math.floor((weekStart.getTime() - startSunday.getTime())/(1000*60*60*24*7));
-        if (relWeeks % interval !== 0) continue;
-        if (d < start0) continue;
-        addWithOffset(d);
-      }
-    }
-    return res;
-  }
-
-  if (rec.freq === 'monthly') {
-    const count = Number(rec.count || 0);
-    const md = Math.max(1, Math.min(31, Number(rec.monthlyDay || 1)));
-    if (count >= 1) {
-      let i = 0; while (res.length < count) {
-        const m0 = (startDate.getMonth() + i) % 12;
-        const y = startDate.getFullYear() + Math.floor((startDate.getMonth() + i)/12);
-        const dStr = clampMonthlyDate(y, m0, md);
-        const d = new Date(dStr);
-        if (d >= startDate) addWithOffset(d);
-        i++;
-      }
-      return res;
-    }
-    const monthsAhead = getPreviewWindow(options.range).monthsAhead ?? 6;
-    const now = new Date(); const startYear = now.getFullYear(); const startMonth0 = now.getMonth();
-    for (let i = 0; i < monthsAhead; i++) {
-      const m0 = (startMonth0 + i) % 12; const y = startYear + Math.floor((startMonth0 + i)/12);
-      const dStr = clampMonthlyDate(y, m0, md); addWithOffset(new Date(dStr));
-    }
-    return res;
-  }
-
-  if (rec.freq === 'monthlyNth') {
-    const nth = Number(rec.monthlyNth); const dow = Number(rec.monthlyNthDow);
-    const count = Number(rec.count || 0);
-    if (count >= 1) {
-      let i = 0; while (res.length < count) {
-        const m0 = (startDate.getMonth() + i) % 12; const y = startDate.getFullYear() + Math.floor((startDate.getMonth() + i)/12);
-        const dStr = nthWeekdayOfMonth(y, m0, nth, dow); const d = new Date(dStr);
-        if (d >= startDate) addWithOffset(d); i++;
-      }
-      return res;
-    }
-    const monthsAhead = getPreviewWindow(options.range).monthsAhead ?? 6;
-    const now = new Date(); const startYear = now.getFullYear(); const startMonth0 = now.getMonth();
-    for (let i = 0; i < monthsAhead; i++) {
-      const m0 = (startMonth0 + i) % 12; const y = startYear + Math.floor((startMonth0 + i)/12);
-      const dStr = nthWeekdayOfMonth(y, m0, nth, dow); addWithOffset(new Date(dStr));
-    }
-    return res;
+  const rule = ruleSpecFromUI(rec, startDate);
+  if (!rule) return [];
+  if (rule.anchor === 'completed') {
+    // 新規作成（まだオカレンスが存在しない）場合は開始日で1件を想定
+    // 既存の場合は次回想定（概算: 今日を完了日とみなす）を1件だけ表示（完了基準）
+    const candidate = options.isNew ? addDaysYmd(startDate, offsetDays) : completionAnchoredNext(rule, today);
+    const next = resolveNextOccurrence(rule, options.exceptions, candidate, null);
+    return next ? [next.date].filter(inRange) : [];
   }
-
-  if (rec.freq === 'yearly') {
-    const month = Math.max(1, Math.min(12, Number(rec.yearlyMonth || 1)));
-    const day = Math.max(1, Math.min(31, Number(rec.yearlyDay || 1)));
-    const count = Number(rec.count || 0);
-    if (count >= 1) {
-      let y = startDate.getFullYear();
-      let candidate = clampMonthlyDate(y, month - 1, day);
-      if (new Date(candidate) < startDate) {
-        y += 1;
-        candidate = clampMonthlyDate(y, month - 1, day);
-      }
-      let produced = 0;
-      while (produced < count) {
-        addWithOffset(new Date(candidate));
-        produced += 1;
-        y += 1;
-        candidate = clampMonthlyDate(y, month - 1, day);
-      }
-      return res;
-    }
-    const yearsAhead = getPreviewWindow(options.range).yearsAhead ?? 2;
-    const now = new Date(); const startYear = now.getFullYear();
-    for (let i = 0; i < yearsAhead; i++) {
-      const y = startYear + i; const dStr = clampMonthlyDate(y, month-1, day); addWithOffset(new Date(dStr));
-    }
-    return res;
-  }
-
-  return res;
+  const policy = {
+    today,
+    dailyHorizonDays: DEFAULT_DAILY_HORIZON_DAYS,
+    monthsAhead: DEFAULT_MONTHS_AHEAD,
+    yearsAhead: DEFAULT_YEARS_AHEAD
+  };
+  const extras: RecurrencePattern[] = (Array.isArray(rec.extraRules) ? rec.extraRules : [])
+    .map((x: any) => ruleSpecFromUI(x, startDate))
+    .filter((x: RecurrenceRuleSpec | null): x is RecurrenceRuleSpec => !!x);
+  const extraDates: string[] = Array.isArray(rec.extraDates) ? rec.extraDates : [];
+  // cron 式・1日の時刻リストは1日に複数回ありうるため、日付の重複を除く
+  const dates = planUnionOccurrences(rule, extras, extraDates, options.exceptions, null, policy).map(o => o.date).filter(inRange);
+  return Array.from(new Set(dates));
 }
 
 function diffOccurrences(current: OccurrenceView[], target: string[], excludeDoneDeletes: boolean) {
@@ -827,6 +1074,14 @@ function setRowVisibleByInput(inputId: string, show: boolean): void {
   if (row && row.classList.contains('row')) row.style.display = show ? '' : 'none';
 }
 
+// 終了日が指定されている間は繰り返し回数を入力不可にする（END_KIND は until/count のどちらか一方）
+function syncEndConditionInputs(): void {
+  const untilEl = document.getElementById('untilDate') as HTMLInputElement | null;
+  const rc = document.getElementById('recurrenceCount') as HTMLInputElement | null;
+  if (!untilEl || !rc) return;
+  rc.disabled = !!(untilEl.value || '').trim();
+}
+
 function updateRecurrenceVisibility(mode: RecurrenceUIMode): void {
   const showOnce = mode === 'once';
   const showManual = mode === 'manualNext';
@@ -836,27 +1091,45 @@ function updateRecurrenceVisibility(mode: RecurrenceUIMode): void {
   const showWeekly = mode === 'weekly';
   const showMonthly = mode === 'monthly';
   const showMonthlyNth = mode === 'monthlyNth';
+  const showMonthlyBusinessDay = mode === 'monthlyBusinessDay';
   const showYearly = mode === 'yearly';
+  const showDates = mode === 'dates';
+  const showCron = mode === 'cron';
 
-  // Single occurrence vs recurring basics
+  // Single occurrence vs recurring basics（日付リストの開始日はリストの先頭日）
   setRowVisibleByInput('dueAt', showOnce || showManual);
-  setRowVisibleByInput('startDate', !(showOnce || showManual));
-  setRowVisibleByInput('startTime', !(showOnce || showManual));
+  setRowVisibleByInput('startDate', !(showOnce || showManual || showDates));
+  setRowVisibleByInput('startTime', !(showOnce || showManual || showCron));
 
   // Daily and interval related
-  setRowVisibleById('rowHorizon', showDaily || showEveryNScheduled);
+  setRowVisibleById('rowHorizon', showDaily || showEveryNScheduled || showCron);
   setRowVisibleById('rowInterval', showEveryNScheduled || showEveryNCompleted);
+  const completedPeriod = COMPLETED_PERIOD_MODES[mode];
+  setRowVisibleById('rowPeriodInterval', showWeekly || showMonthly || showMonthlyNth || showMonthlyBusinessDay || showYearly || !!completedPeriod);
+  const periodIntervalEl = el<HTMLInputElement>('periodInterval');
+  periodIntervalEl.max = String(completedPeriod ? completedPeriod.max : showWeekly ? MAX_WEEKLY_INTERVAL : showYearly ? MAX_YEARLY_INTERVAL : MAX_MONTHLY_INTERVAL);
+  el<HTMLSpanElement>('periodIntervalUnit').textContent = completedPeriod ? completedPeriod.unit : showWeekly ? '週ごと' : showYearly ? '年ごと' : 'ヶ月ごと';
 
   // Weekly/Monthly/Yearly groups
   setRowVisibleById('rowWeekly', showWeekly);
   setRowVisibleById('rowMonthlyDay', showMonthly);
   setRowVisibleById('rowMonthlyNth', showMonthlyNth);
+  setRowVisibleById('rowMonthlyBusinessDay', showMonthlyBusinessDay);
+  setRowVisibleById('rowExtraRules', supportsRecurrenceExtras(mode));
+  setRowVisibleById('rowExtraDates', supportsRecurrenceExtras(mode));
   setRowVisibleById('rowYearlyMonth', showYearly);
   setRowVisibleById('rowYearlyDay', showYearly);
+  setRowVisibleById('rowDateList', showDates);
+  setRowVisibleById('rowCron', showCron);
+  setRowVisibleById('rowTimesOfDay', supportsTimesOfDay(mode));
   setRowVisibleById('rowOccurrenceOffset', !(showOnce || showManual));
+  setRowVisibleById('rowHolidayPolicy', !(showOnce || showManual));
+  syncHolidayCalendarInput();
 
-  // Recurrence count: visible for any recurring pattern except 'once'
-  setRowVisibleByInput('recurrenceCount', !(showOnce || showManual));
+  // Recurrence count / until: visible for any recurring pattern except 'once'（日付リストは件数で決まる）
+  setRowVisibleByInput('recurrenceCount', !(showOnce || showManual || showDates));
+  setRowVisibleById('rowUntil', !(showOnce || showManual || showDates));
+  syncEndConditionInputs();
 
   // Required flags
   const dueAtEl = el<HTMLInputElement>('dueAt');
@@ -928,6 +1201,7 @@ async function loadInitial(): Promise<void> {
   }
   // 初期表示の可視性を同期
   updateRecurrenceVisibility(el<HTMLSelectElement>('isRecurring').value as RecurrenceUIMode);
+  rememberSavedRule(currentTask);
   await refreshLogs();
 }
 
@@ -946,15 +1220,30 @@ function populateForm(t: TaskRow): void {
   })();
   el<HTMLInputElement>('startTime').value = t.START_TIME || '00:00';
   // interval/horizon
-  el<HTMLInputElement>('dailyHorizonDays').value = (mode === 'daily' || mode === 'everyNScheduled') ? String((t as any).HORIZON_DAYS ?? 14) : '14';
+  el<HTMLInputElement>('dailyHorizonDays').value = (mode === 'daily' || mode === 'everyNScheduled' || mode === 'cron') ? String((t as any).HORIZON_DAYS ?? 14) : '14';
   el<HTMLInputElement>('intervalDays').value = String(Math.max(1, Number((t as any).INTERVAL || 1)));
-  el<HTMLInputElement>('monthlyDay').value = t.MONTHLY_DAY ? String(t.MONTHLY_DAY) : '';
-  el<HTMLSelectElement>('monthlyNth').value = (t as any).MONTHLY_NTH != null ? String((t as any).MONTHLY_NTH) : '1';
-  el<HTMLSelectElement>('monthlyNthDow').value = (t as any).MONTHLY_NTH_DOW != null ? String((t as any).MONTHLY_NTH_DOW) : '0';
+  el<HTMLInputElement>('periodInterval').value = (t.FREQ === 'monthly' || t.FREQ === 'yearly' || t.FREQ === 'weekly') ? String(Math.max(1, Number(t.INTERVAL || 1))) : '1';
+  el<HTMLInputElement>('monthlyDay').value = t.MONTHLY_DAYS ? t.MONTHLY_DAYS : (t.MONTHLY_DAY ? String(t.MONTHLY_DAY) : '');
+  const nthPairs = monthlyNthPairsOfRow(t);
+  setMonthlyNthPairsToUI(nthPairs.length ? nthPairs : [{ nth: 1, dow: 0 }]);
+  const businessDay = t.MONTHLY_BUSINESS_DAY != null ? Number(t.MONTHLY_BUSINESS_DAY) : 1;
+  el<HTMLSelectElement>('monthlyBusinessDayFrom').value = businessDay < 0 ? 'end' : 'start';
+  el<HTMLInputElement>('monthlyBusinessDay').value = String(Math.abs(businessDay) || 1);
   el<HTMLSelectElement>('yearlyMonth').value = (t as any).YEARLY_MONTH != null ? String((t as any).YEARLY_MONTH) : String(new Date().getMonth()+1);
   el<HTMLInputElement>('yearlyDay').value = t.MONTHLY_DAY ? String(t.MONTHLY_DAY) : String(new Date().getDate());
   el<HTMLInputElement>('recurrenceCount').value = String((t.IS_RECURRING ? (t.COUNT ?? 0) : 1));
+  el<HTMLInputElement>('untilDate').value = (t.IS_RECURRING && t.END_KIND === 'until') ? formatDateInput(t.UNTIL_DATE) : '';
   setOccurrenceOffsetDays((t as any).OCCURRENCE_OFFSET_DAYS ?? 0);
+  setHolidayPolicy(t.IS_RECURRING ? t.HOLIDAY_POLICY : 'keep');
+  setHolidayCalendarId(t.IS_RECURRING ? t.CALENDAR_ID : null);
+  el<HTMLTextAreaElement>('extraRulesInput').value = (t.EXTRA_RULES || []).map(r => formatExtraRuleRRule(r).rrule || '').filter(Boolean).join('\n');
+  el<HTMLTextAreaElement>('extraDatesInput').value = (t.EXTRA_DATES || []).join(', ');
+  el<HTMLTextAreaElement>('dateListInput').value = formatDateListText(t.DATE_LIST || []);
+  updateDateListSummary();
+  showDateListMessage([], false);
+  el<HTMLInputElement>('cronExpr').value = t.CRON_EXPR || '';
+  updateCronPreview();
+  el<HTMLInputElement>('timesOfDay').value = (t.TIMES_OF_DAY || '').split(',').filter(Boolean).join(', ');
   // 完了時コメント
   const cb = document.getElementById('requireCompleteComment') as HTMLInputElement | null;
   if (cb) cb.checked = !!(t as any).REQUIRE_COMPLETE_COMMENT;
@@ -966,22 +1255,98 @@ function populateForm(t: TaskRow): void {
   updateOccurrenceButtonState();
 }
 
+function showRRuleMessage(lines: string[], isError: boolean): void {
+  const msg = document.getElementById('rruleMessage');
+  if (!msg) return;
+  msg.textContent = lines.join('\n');
+  msg.style.color = isError ? '#c00' : '#666';
+}
+
+// 取り込んだRRULEを繰り返し欄に反映する（タイトル等の他の項目は変更しない）
+function applyParsedRRule(rule: ParsedRRule): void {
+  const mode = inferRecurrenceModeFromDb({ ...rule, TITLE: '', IS_RECURRING: 1 } as TaskRow);
+  el<HTMLSelectElement>('isRecurring').value = mode;
+  if (rule.START_DATE) el<HTMLInputElement>('startDate').value = rule.START_DATE;
+  if (rule.START_TIME) el<HTMLInputElement>('startTime').value = rule.START_TIME;
+  el<HTMLInputElement>('intervalDays').value = String(Math.max(1, Number(rule.INTERVAL || 1)));
+  el<HTMLInputElement>('periodInterval').value = String(Math.max(1, Number(rule.INTERVAL || 1)));
+  if (mode === 'monthly') el<HTMLInputElement>('monthlyDay').value = rule.MONTHLY_DAYS || String(rule.MONTHLY_DAY ?? 1);
+  if (mode === 'monthlyNth') setMonthlyNthPairsToUI(monthlyNthPairsOfRow(rule));
+  if (mode === 'yearly') {
+    el<HTMLSelectElement>('yearlyMonth').value = String(rule.YEARLY_MONTH ?? 1);
+    el<HTMLInputElement>('yearlyDay').value = String(rule.MONTHLY_DAY ?? 1);
+  }
+  if (mode === 'weekly') {
+    const boxes = Array.from(el<HTMLDivElement>('weeklyDows').querySelectorAll('input[type="checkbox"]')) as HTMLInputElement[];
+    const dows = weeklyArrayFromMask(Number(rule.WEEKLY_DOWS || 0));
+    boxes.forEach(b => { b.checked = dows.includes(Number(b.value)); });
+  }
+  el<HTMLInputElement>('recurrenceCount').value = String(rule.COUNT ?? 0);
+  recurrenceCountTouched = true;
+  el<HTMLInputElement>('untilDate').value = rule.END_KIND === 'until' ? (rule.UNTIL_DATE || '') : '';
+  setOccurrenceOffsetDays(0);
+  setHolidayPolicy('keep');
+  setHolidayCalendarId(null);
+  updateRecurrenceVisibility(mode);
+}
+
+function onApplyRRule(): void {
+  const text = el<HTMLTextAreaElement>('rruleInput').value;
+  const result = parseRRule(text, { startDate: el<HTMLInputElement>('startDate').value || null });
+  if (!result.rule) {
+    showRRuleMessage(['RRULEを反映できませんでした:', ...result.errors.map(e => `・${e}`)], true);
+    return;
+  }
+  applyParsedRRule(result.rule);
+  showRRuleMessage(['RRULEを反映しました。', ...result.notes.map(n => `・${n}`)], false);
+}
+
+function onExportRRule(): void {
+  const snapshot = captureFormSnapshot();
+  if (!snapshot.IS_RECURRING) {
+    showRRuleMessage(['１回のみのタスクは RRULE を持ちません'], true);
+    return;
+  }
+  const result = formatRRule(snapshot);
+  if (!result.rrule) {
+    showRRuleMessage(['RRULEを生成できませんでした:', ...result.unsupported.map(e => `・${e}`)], true);
+    return;
+  }
+  el<HTMLTextAreaElement>('rruleInput').value = result.rrule;
+  showRRuleMessage([], false);
+}
+
 async function fetchOccurrencesInRange(taskId: number, range: string): Promise<OccurrenceView[]> {
   const r = getPreviewWindow(range);
   const occ = await window.electronAPI.listOccurrences({ from: r.from, to: r.to });
   return (occ as any[]).filter(o => Number(o.TASK_ID) === taskId).map(o => ({ date: o.SCHEDULED_DATE as string, time: o.SCHEDULED_TIME as string, status: o.OCC_STATUS as string }));
 }
 
+async function fetchRecurrenceExceptions(taskId: number): Promise<RecurrenceExceptionMap> {
+  const map: RecurrenceExceptionMap = new Map();
+  try {
+    const res = await window.electronAPI.listRecurrenceExceptions(taskId);
+    if (res && res.success && Array.isArray(res.records)) {
+      res.records.forEach((r: any) => map.set(r.exceptionDate, { action: r.action, newDate: r.newDate, newTime: r.newTime }));
+    }
+  } catch {
+    /* noop */
+  }
+  return map;
+}
+
 function getDiffRange(): string {
   const select = document.getElementById('previewRange') as HTMLSelectElement | null;
   return select?.value || DEFAULT_DIFF_RANGE;
 }
 
 function updateOccurrenceButtonState(): void {
-  const btn = document.getElementById('occurrenceEditorBtn') as HTMLButtonElement | null;
-  if (!btn) return;
   const hasId = !!(el<HTMLInputElement>('taskId').value);
-  btn.disabled = !hasId;
+  const btn = document.getElementById('occurrenceEditorBtn') as HTMLButtonElement | null;
+  if (btn) btn.disabled = !hasId;
+  // 分割は保存済みの繰り返しタスクのみ
+  const splitBtn = document.getElementById('splitBtn') as HTMLButtonElement | null;
+  if (splitBtn) splitBtn.disabled = !hasId || !currentTask || !Number(currentTask.IS_RECURRING || 0);
 }
 
 function openOccurrenceEditor(): void {
@@ -990,6 +1355,118 @@ function openOccurrenceEditor(): void {
   window.location.href = `task-occurrence-editor.html?taskId=${idStr}`;
 }
 
+// 版の対象となる繰り返しの内容（追加ルール・追加日付は版を持たないため含めない）と開始時刻
+function ruleSignatureFromUI(): string {
+  const { extraRules, extraDates, ...rule } = buildRecurrenceFromUI() || {};
+  return JSON.stringify({ rule, startTime: el<HTMLInputElement>('startTime').value || null });
+}
+
+function rememberSavedRule(task: TaskRow | null): void {
+  if (!task || !task.ID) {
+    savedRule = null;
+    return;
+  }
+  const mode = el<HTMLSelectElement>('isRecurring').value as RecurrenceUIMode;
+  const rec = buildPatternRecurrenceFromUI();
+  const startDate = formatDateInput(task.START_DATE) || null;
+  savedRule = {
+    // 手動で次回を決める繰り返しは次の1回しか持たないため、変更範囲を尋ねない
+    recurring: !!rec && mode !== 'manualNext',
+    versionable: !!rec && supportsRuleVersions(mode, Number(rec.count || 0)),
+    signature: ruleSignatureFromUI(),
+    startDate,
+    currentFrom: formatDateInput(task.EFFECTIVE_FROM) || startDate,
+    version: Math.max(1, Number(task.RULE_VERSION || 1))
+  };
+}
+
+function initializeRuleScopeDialog(): void {
+  const dialog = el<HTMLDialogElement>('ruleScopeDialog');
+  el<HTMLButtonElement>('ruleScopeCancelBtn').addEventListener('click', () => dialog.close());
+  // 日付を触ったら「指定日以降」を選ぶ
+  el<HTMLInputElement>('ruleScopeDate').addEventListener('input', () => {
+    const from = dialog.querySelector('input[name="ruleScope"][value="from"]') as HTMLInputElement | null;
+    if (from) from.checked = true;
+  });
+}
+
+// 繰り返しの変更範囲を尋ねる。キャンセルは null、すべての回を変更する場合は effectiveFrom = null
+function askRuleChangeScope(rule: NonNullable<typeof savedRule>): Promise<{ effectiveFrom: string | null } | null> {
+  const dialog = el<HTMLDialogElement>('ruleScopeDialog');
+  const dateInput = el<HTMLInputElement>('ruleScopeDate');
+  const minDate = rule.currentFrom ? addDaysYmd(rule.currentFrom, 1) : null;
+  const today = todayYmd();
+  dateInput.min = minDate || '';
+  dateInput.value = minDate && minDate > today ? minDate : today;
+  const all = dialog.querySelector('input[name="ruleScope"][value="all"]') as HTMLInputElement | null;
+  if (all) all.checked = true;
+  el<HTMLDivElement>('ruleScopeDescription').textContent = rule.version > 1 && rule.currentFrom
+    ? `変更を適用する回を選択してください。（現在の繰り返しは ${rule.currentFrom} から適用）`
+    : '変更を適用する回を選択してください。';
+  return new Promise(resolve => {
+    dialog.addEventListener('close', () => {
+      if (dialog.returnValue !== 'ok') return resolve(null);
+      const scope = (dialog.querySelector('input[name="ruleScope"]:checked') as HTMLInputElement | null)?.value;
+      if (scope !== 'from') return resolve({ effectiveFrom: null });
+      const date = dateInput.value;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || (minDate && date < minDate)) {
+        alert(minDate ? `変更日は ${minDate} 以降の日付を指定してください` : '変更日を指定してください');
+        return resolve(null);
+      }
+      resolve({ effectiveFrom: date });
+    }, { once: true });
+    dialog.returnValue = '';
+    dialog.showModal();
+  });
+}
+
+function initializeSplitDialog(): void {
+  const dialog = el<HTMLDialogElement>('splitDialog');
+  el<HTMLButtonElement>('splitCancelBtn').addEventListener('click', () => dialog.close());
+}
+
+// 分割日を尋ねる。キャンセルは null
+function askSplitDate(minDate: string | null): Promise<string | null> {
+  const dialog = el<HTMLDialogElement>('splitDialog');
+  const dateInput = el<HTMLInputElement>('splitDate');
+  const today = todayYmd();
+  dateInput.min = minDate || '';
+  dateInput.value = minDate && minDate > today ? minDate : today;
+  return new Promise(resolve => {
+    dialog.addEventListener('close', () => {
+      if (dialog.returnValue !== 'ok') return resolve(null);
+      const date = dateInput.value;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || (minDate && date < minDate)) {
+        alert(minDate ? `分割日は ${minDate} 以降の日付を指定してください` : '分割日を指定してください');
+        return resolve(null);
+      }
+      resolve(date);
+    }, { once: true });
+    dialog.returnValue = '';
+    dialog.showModal();
+  });
+}
+
+async function onSplit(): Promise<void> {
+  const idStr = el<HTMLInputElement>('taskId').value;
+  if (!idStr || !currentTask) return;
+  // 分割は保存済みの設定で行うため、繰り返しを変更中なら先に保存してもらう
+  if (savedRule && ruleSignatureFromUI() !== savedRule.signature) {
+    alert('繰り返しの変更を保存してから分割してください');
+    return;
+  }
+  const currentFrom = formatDateInput(currentTask.EFFECTIVE_FROM) || formatDateInput(currentTask.START_DATE) || null;
+  const date = await askSplitDate(currentFrom ? addDaysYmd(currentFrom, 1) : null);
+  if (!date) return;
+  const res = await window.electronAPI.splitTask(Number(idStr), date);
+  if (!res?.success || !res.id) {
+    alert(`分割に失敗しました: ${res?.message || '不明なエラー'}`);
+    return;
+  }
+  const targetId = confirm(`タスクを分割しました（新しいタスク #${res.id}）。新しいタスクを開きますか？`) ? res.id : Number(idStr);
+  window.location.href = `task-editor2.html?id=${targetId}`;
+}
+
 async function onSave() {
   const mode = (el<HTMLSelectElement>('isRecurring').value as RecurrenceUIMode);
   const startDateInput = el<HTMLInputElement>('startDate').value || null;
@@ -1004,16 +1481,63 @@ async function onSave() {
     startTime: el<HTMLInputElement>('startTime').value || null,
     recurrence: buildRecurrenceFromUI()
   };
+  if (supportsRecurrenceExtras(mode)) {
+    const extraErrors = [...parseExtraRulesFromUI().errors, ...parseExtraDatesFromUI().errors];
+    if (extraErrors.length) {
+      alert(`追加ルール・追加日付を保存できません:\n${extraErrors.map(e => `・${e}`).join('\n')}`);
+      return;
+    }
+  }
+  if (mode === 'dates') {
+    const { entries, errors } = parseDateListFromUI();
+    if (errors.length || !entries.length) {
+      const lines = errors.length ? errors : ['日付を1件以上入力してください'];
+      alert(`日付リストを保存できません:\n${lines.map(e => `・${e}`).join('\n')}`);
+      return;
+    }
+  }
+  if (mode === 'cron') {
+    const { errors } = parseCronExpression(el<HTMLInputElement>('cronExpr').value);
+    if (errors.length) {
+      alert(`cron 式を保存できません:\n${errors.map(e => `・${e}`).join('\n')}`);
+      return;
+    }
+  }
+  if (supportsTimesOfDay(mode)) {
+    const { errors } = parseTimesOfDayFromUI();
+    if (errors.length) {
+      alert(`1日の時刻を保存できません:\n${errors.map(e => `・${e}`).join('\n')}`);
+      return;
+    }
+  }
   const requireCommentEl = document.getElementById('requireCompleteComment') as HTMLInputElement | null;
   if (requireCommentEl) (payload as any).requireCompleteComment = requireCommentEl.checked ? 1 : 0;
   if (!payload.recurrence) payload.isRecurring = false;
-  // 確認: 削除予定にdoneが含まれる場合は警告
+  // 既存の繰り返しの内容を変えた場合は、すべての回か指定日以降の回かを尋ねる（開始日を変えた場合はすべての回）
+  let effectiveFrom: string | null = null;
+  if (el<HTMLInputElement>('taskId').value && savedRule && savedRule.recurring && payload.recurrence
+    && startDateInput === savedRule.startDate && ruleSignatureFromUI() !== savedRule.signature) {
+    if (savedRule.versionable && supportsRuleVersions(mode, Number(payload.recurrence.count || 0))) {
+      const scope = await askRuleChangeScope(savedRule);
+      if (!scope) return;
+      effectiveFrom = scope.effectiveFrom;
+      if (effectiveFrom) payload.recurrence = { ...payload.recurrence, effectiveFrom };
+    } else {
+      // 回数指定などは日付を指定して変更できないため、すべての回が変わることを確かめる
+      const ok = confirm('回数指定・日付リスト・前回完了日基準・手動で次回を決める繰り返しは日付を指定して変更できないため、すべての回が新しい設定に変わります。\n'
+        + '回数指定・日付リストで指定日以降の回だけを変える場合は、キャンセルして先に「分割」で別のタスクに分けてください。続行しますか？');
+      if (!ok) return;
+    }
+  }
+  // 確認: 削除予定にdoneが含まれる場合は警告（指定日以降の変更では完了済みの回を削除しない）
   const range = getDiffRange();
   const current: OccurrenceView[] = (el<HTMLInputElement>('taskId').value) ? await fetchOccurrencesInRange(Number(el<HTMLInputElement>('taskId').value), range) : [];
   const basePreviewStart = mode === 'manualNext' ? (dueDateInput || startDateInput) : startDateInput;
-  const target = computeTargetDates(payload.recurrence, basePreviewStart, { range, isNew: !el<HTMLInputElement>('taskId').value });
+  const exceptions = (el<HTMLInputElement>('taskId').value) ? await fetchRecurrenceExceptions(Number(el<HTMLInputElement>('taskId').value)) : null;
+  await loadCalendarClosedDates(payload.recurrence ? payload.recurrence.calendarId : null);
+  const target = computeTargetDates(payload.recurrence, basePreviewStart, { range, isNew: !el<HTMLInputElement>('taskId').value, exceptions });
   const diff = diffOccurrences(current, target, false);
-  const doneDel = diff.del.filter(d => d.status === 'done').length;
+  const doneDel = effectiveFrom ? 0 : diff.del.filter(d => d.status === 'done').length;
   if (doneDel > 0) {
     const ok = confirm(`保存により削除予定 ${diff.del.length} 件のうち、完了済み ${doneDel} 件が削除されます。続行しますか？`);
     if (!ok) return;
@@ -1022,7 +1546,13 @@ async function onSave() {
   const fileShas = getAttachedFileShas();
   let taskId: number | null = idStr ? Number(idStr) : null;
   if (taskId) {
-    await window.electronAPI.updateTask(taskId, payload);
+    try {
+      await window.electronAPI.updateTask(taskId, payload);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      alert(`保存に失敗しました: ${message}`);
+      return;
+    }
   } else {
     const res = await window.electronAPI.createTask(payload);
     if (res.success && res.id) {
@@ -1042,6 +1572,7 @@ async function onSave() {
     } catch {
       /* noop */
     }
+    rememberSavedRule(currentTask);
   }
   updateOccurrenceButtonState();
   await refreshLogs();
@@ -1076,19 +1607,36 @@ window.addEventListener('DOMContentLoaded', async () => {
   el<HTMLInputElement>('recurrenceCount').addEventListener('input', () => {
     recurrenceCountTouched = true;
   });
+  el<HTMLInputElement>('untilDate').addEventListener('input', syncEndConditionInputs);
 
   await initializeFileControls();
   await initializeTagControls();
+  await initializeCalendarControls();
+  initializeMonthlyNthGrid();
+  initializeRuleScopeDialog();
+  initializeSplitDialog();
   el<HTMLButtonElement>('saveBtn').addEventListener('click', onSave);
   el<HTMLButtonElement>('duplicateBtn').addEventListener('click', onDuplicate);
   el<HTMLButtonElement>('occurrenceEditorBtn').addEventListener('click', openOccurrenceEditor);
+  el<HTMLButtonElement>('splitBtn').addEventListener('click', () => { void onSplit(); });
   el<HTMLButtonElement>('deleteBtn').addEventListener('click', onDelete);
+  el<HTMLButtonElement>('rruleApplyBtn').addEventListener('click', onApplyRRule);
+  el<HTMLButtonElement>('rruleExportBtn').addEventListener('click', onExportRRule);
+  el<HTMLButtonElement>('dateListCsvImportBtn').addEventListener('click', () => { void onImportDateListCsv(); });
+  el<HTMLTextAreaElement>('dateListInput').addEventListener('input', updateDateListSummary);
+  el<HTMLInputElement>('cronExpr').addEventListener('input', updateCronPreview);
+  for (const id of ['startDate', 'recurrenceCount', 'untilDate', 'occurrenceOffsetValue', 'occurrenceOffsetDirection', 'holidayPolicy']) {
+    document.getElementById(id)?.addEventListener('change', () => {
+      if (el<HTMLSelectElement>('isRecurring').value === 'cron') updateCronPreview();
+    });
+  }
 
   // Recurrence mode change -> visibility sync
   el<HTMLSelectElement>('isRecurring').addEventListener('change', () => {
     const mode = el<HTMLSelectElement>('isRecurring').value as RecurrenceUIMode;
     updateRecurrenceVisibility(mode);
     maybeApplyMonthlyRecurrenceCountDefault(mode);
+    if (mode === 'cron') updateCronPreview();
     if (mode === 'manualNext') {
       const rc = document.getElementById('recurrenceCount') as HTMLInputElement | null;
       if (rc) {
@@ -1145,6 +1693,22 @@ async function refreshLogs(): Promise<void> {
       const kind = String(r.KIND || r.kind || '');
       const source = String(r.SOURCE || r.source || '');
       const detailsStr = (r.DETAILS || r.details || '') as string;
+      if (kind === 'task.split' && detailsStr) {
+        try {
+          const details = JSON.parse(detailsStr);
+          const otherId = details?.newTaskId ?? details?.sourceTaskId;
+          if (otherId != null) {
+            const extra = document.createElement('div');
+            extra.className = 'meta';
+            extra.textContent = details.newTaskId != null
+              ? `${details.date} 以降をタスク #${otherId} に分割`
+              : `タスク #${otherId} から ${details.date} 以降を分割`;
+            item.appendChild(extra);
+          }
+        } catch {
+          // ignore JSON parse errors silently
+        }
+      }
       if (kind === 'occ.complete' && source === 'user' && detailsStr) {
         try {
           const details = JSON.parse(detailsStr);
@@ -7,6 +7,22 @@
     scheduledTime: string | null;
     deferredDate: string | null;
     completedAt: string | null;
+    source: 'rule' | 'extra' | 'date';
+    extraRuleId: number | null;
+    createdAt: string | null;
+    updatedAt: string | null;
+  };
+
+  // 発生元の表示名（主ルール / 追加ルール / 追加日付）
+  const SOURCE_LABELS: Record<OccurrenceRecord['source'], string> = { rule: '主ルール', extra: '追加ルール', date: '追加日付' };
+
+  type ExceptionRecord = {
+    id: number;
+    taskId: number;
+    exceptionDate: string;
+    action: 'skip' | 'reschedule';
+    newDate: string | null;
+    newTime: string | null;
     createdAt: string | null;
     updatedAt: string | null;
   };
@@ -18,12 +34,16 @@
   const statusMessage = document.getElementById('statusMessage') as HTMLSpanElement;
   const taskTitleEl = document.getElementById('taskTitle') as HTMLDivElement;
   const taskMetaEl = document.getElementById('taskMeta') as HTMLDivElement;
+  const exceptionTableBody = document.getElementById('exceptionTableBody') as HTMLTableSectionElement;
+  const exceptionEmptyMessage = document.getElementById('exceptionEmptyMessage') as HTMLDivElement;
 
   const weekdays = ['日', '月', '火', '水', '木', '金', '土'];
 
   let currentTaskId: number | null = null;
   let loading = false;
   let records: OccurrenceRecord[] = [];
+  let exceptions: ExceptionRecord[] = [];
+  let canEditExceptions = false;
 
   function parseTaskId(): number | null {
     const params = new URLSearchParams(window.location.search);
@@ -97,6 +117,7 @@
     if (due) meta.push(`期日: ${due}`);
     const recurring = Number(task.IS_RECURRING || 0) === 1;
     meta.push(recurring ? '繰り返しタスク' : '単発タスク');
+    canEditExceptions = recurring && Number(task.MANUAL_NEXT_DUE || 0) !== 1;
     taskMetaEl.textContent = meta.join(' / ');
   }
 
@@ -125,6 +146,10 @@
       scheduledTimeTd.textContent = record.scheduledTime ? record.scheduledTime : '';
       tr.appendChild(scheduledTimeTd);
 
+      const sourceTd = document.createElement('td');
+      sourceTd.textContent = SOURCE_LABELS[record.source] ?? SOURCE_LABELS.rule;
+      tr.appendChild(sourceTd);
+
       const deferredTd = document.createElement('td');
       deferredTd.textContent = formatDateOnly(record.deferredDate);
       tr.appendChild(deferredTd);
@@ -172,11 +197,125 @@
         }
       };
       actionTd.appendChild(toggleBtn);
+      if (canEditExceptions && record.status === 'pending') {
+        const skipBtn = document.createElement('button');
+        skipBtn.textContent = 'スキップ';
+        skipBtn.onclick = async () => {
+          if (loading) return;
+          if (!window.confirm(`オカレンス(ID: ${record.occurrenceId}) をスキップします。以降の繰り返しでも再生成されません。よろしいですか？`)) return;
+          skipBtn.disabled = true;
+          try {
+            const result = await window.electronAPI.skipOccurrence(record.occurrenceId);
+            if (!result || !result.success) {
+              throw new Error(result?.message || 'スキップに失敗しました');
+            }
+            await loadOccurrences();
+          } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            window.alert(`スキップに失敗しました: ${message}`);
+            skipBtn.disabled = false;
+          }
+        };
+        actionTd.appendChild(skipBtn);
+
+        const rescheduleBtn = document.createElement('button');
+        rescheduleBtn.textContent = '振替';
+        rescheduleBtn.onclick = async () => {
+          if (loading) return;
+          const input = await window.electronAPI.promptText({
+            title: '振替',
+            label: '振替日 (YYYY-MM-DD)',
+            placeholder: record.scheduledDate || '',
+            ok: '振替',
+            cancel: 'キャンセル'
+          });
+          if (input === null) return;
+          const newDate = String(input).trim();
+          if (!newDate) return;
+          rescheduleBtn.disabled = true;
+          try {
+            const result = await window.electronAPI.rescheduleOccurrence(record.occurrenceId, newDate, null);
+            if (!result || !result.success) {
+              throw new Error(result?.message || '振替に失敗しました');
+            }
+            await loadOccurrences();
+          } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            window.alert(`振替に失敗しました: ${message}`);
+            rescheduleBtn.disabled = false;
+          }
+        };
+        actionTd.appendChild(rescheduleBtn);
+      }
       tr.appendChild(actionTd);
       tableBody.appendChild(tr);
     });
   }
 
+  function renderExceptions(): void {
+    exceptionTableBody.innerHTML = '';
+    if (!exceptions.length) {
+      exceptionEmptyMessage.style.display = 'block';
+      return;
+    }
+    exceptionEmptyMessage.style.display = 'none';
+    exceptions.forEach(ex => {
+      const tr = document.createElement('tr');
+      const idTd = document.createElement('td');
+      idTd.textContent = String(ex.id);
+      tr.appendChild(idTd);
+
+      const dateTd = document.createElement('td');
+      dateTd.textContent = formatDateOnly(ex.exceptionDate);
+      tr.appendChild(dateTd);
+
+      const actionKindTd = document.createElement('td');
+      const badge = document.createElement('span');
+      badge.className = 'status-badge ' + (ex.action === 'skip' ? 'action-skip' : 'action-reschedule');
+      badge.textContent = ex.action === 'skip' ? 'スキップ' : '振替';
+      actionKindTd.appendChild(badge);
+      tr.appendChild(actionKindTd);
+
+      const newDateTd = document.createElement('td');
+      newDateTd.textContent = formatDateOnly(ex.newDate);
+      tr.appendChild(newDateTd);
+
+      const newTimeTd = document.createElement('td');
+      newTimeTd.textContent = ex.newTime ? ex.newTime : '';
+      tr.appendChild(newTimeTd);
+
+      const createdTd = document.createElement('td');
+      createdTd.textContent = formatDateTime(ex.createdAt);
+      tr.appendChild(createdTd);
+
+      const opTd = document.createElement('td');
+      const revertBtn = document.createElement('button');
+      revertBtn.textContent = '取り消す';
+      revertBtn.onclick = async () => {
+        if (loading) return;
+        const confirmText = ex.action === 'skip'
+          ? `${ex.exceptionDate} のスキップを取り消します。オカレンスは次回の表示時に再生成されます。よろしいですか？`
+          : `${ex.exceptionDate} の振替を取り消し、元の日付に戻します。よろしいですか？`;
+        if (!window.confirm(confirmText)) return;
+        revertBtn.disabled = true;
+        try {
+          const result = await window.electronAPI.deleteRecurrenceException(ex.id);
+          if (!result || !result.success) {
+            throw new Error(result?.message || '取り消しに失敗しました');
+          }
+          await loadOccurrences();
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          window.alert(`例外の取り消しに失敗しました: ${message}`);
+          revertBtn.disabled = false;
+        }
+      };
+      opTd.appendChild(revertBtn);
+      tr.appendChild(opTd);
+      exceptionTableBody.appendChild(tr);
+    });
+  }
+
   async function loadTask(): Promise<void> {
     if (currentTaskId == null) return;
     try {
@@ -200,9 +339,17 @@
       }
       records = Array.isArray(result.records) ? result.records : [];
       renderTable();
+      const exResult = await window.electronAPI.listRecurrenceExceptions(currentTaskId);
+      if (!exResult || !exResult.success) {
+        throw new Error(exResult?.message || '例外の取得に失敗しました');
+      }
+      exceptions = Array.isArray(exResult.records) ? exResult.records : [];
+      renderExceptions();
     } catch (err) {
       records = [];
+      exceptions = [];
       renderTable();
+      renderExceptions();
       const message = err instanceof Error ? err.message : String(err);
       showError(message);
     } finally {
@@ -220,6 +367,9 @@
     refreshButton.addEventListener('click', () => {
       if (!loading) void loadOccurrences();
     });
+    window.electronAPI.onOccurrencesChanged(() => {
+      if (!loading) void loadOccurrences();
+    });
     await loadTask();
     await loadOccurrences();
   });
@@ -1,3 +1,6 @@
+import { formatRRule } from './rrule.js';
+import { describeCronSchedule, parseCronExpression } from './cronExpression.js';
+
 (() => {
   type TaskRow = {
     ID?: number;
@@ -14,13 +17,26 @@
     MONTHLY_DAY?: number | null;
     MONTHLY_NTH?: number | null;
     MONTHLY_NTH_DOW?: number | null;
+    MONTHLY_DAYS?: string | null;
+    MONTHLY_NTH_PAIRS?: string | null;
+    MONTHLY_BUSINESS_DAY?: number | null;
     YEARLY_MONTH?: number | null;
     COUNT?: number | null;
+    DONE_COUNT?: number | null;
+    END_KIND?: string | null;
+    UNTIL_DATE?: string | null;
    HORIZON_DAYS?: number | null;
     WEEKLY_DOWS?: number | null;
     MANUAL_NEXT_DUE?: number | null;
     REQUIRE_COMPLETE_COMMENT?: number | null;
     OCCURRENCE_OFFSET_DAYS?: number | null;
+    HOLIDAY_POLICY?: string | null;
+    CALENDAR_NAME?: string | null;
+    EXTRA_RULES?: unknown[];
+    EXTRA_DATES?: string[];
+    DATE_LIST?: Array<{ date: string; time: string | null }>;
+    CRON_EXPR?: string | null;
+    TIMES_OF_DAY?: string | null;
   };
 
   type Filters = {
@@ -36,6 +52,8 @@
     onlyHasHorizon: boolean;
   };
 
+  const HOLIDAY_POLICY_LABELS: Record<string, string> = { prev: '前の営業日', next: '次の営業日', skip: '休み' };
+
   const state: {
     allTasks: TaskRow[];
     filtered: TaskRow[];
@@ -80,20 +98,39 @@
     if (!task.IS_RECURRING) return 'once';
     if (Number(task.MANUAL_NEXT_DUE || 0) === 1) return 'manualNext';
     const freq = (task.FREQ || '').toLowerCase();
+    const completed = (task.INTERVAL_ANCHOR || 'scheduled').toLowerCase() === 'completed';
     if (freq === 'daily') {
-      const anchor = (task.INTERVAL_ANCHOR || 'scheduled').toLowerCase();
-      if (anchor === 'completed') return 'dailyCompleted';
+      if (completed) return 'dailyCompleted';
       return 'dailyScheduled';
     }
+    if (completed && (freq === 'weekly' || freq === 'monthly' || freq === 'yearly')) return `${freq}Completed`;
     if (freq === 'weekly') return 'weekly';
     if (freq === 'monthly') {
+      if (task.MONTHLY_BUSINESS_DAY != null) return 'monthlyBusinessDay';
       if (task.MONTHLY_NTH != null && task.MONTHLY_NTH_DOW != null) return 'monthlyNth';
       return 'monthlyDay';
     }
     if (freq === 'yearly') return 'yearly';
+    if (freq === 'dates') return 'dates';
+    if (freq === 'cron') return 'cron';
     return 'other';
   }
 
+  // 営業日指定（MONTHLY_BUSINESS_DAY）: 正数は月初から、負数は月末から数える（-1 = 最終営業日）
+  function formatBusinessDayLabel(nth: number): string {
+    if (nth === -1) return '最終営業日';
+    if (nth < 0) return `月末から第${-nth}営業日`;
+    return `第${nth}営業日`;
+  }
+
+  // 月次の複数指定: MONTHLY_DAYS = '1,15' / MONTHLY_NTH_PAIRS = '2:3,4:3'（第2水・第4水）。-1 = 最終週
+  function formatMonthlyNthPairs(value: string, weekdays: string[]): string {
+    return value.split(',').map(token => {
+      const [nth, dow] = token.split(':').map(Number);
+      return `${nth === -1 ? '最終' : `第${nth}`}${weekdays[dow] ?? ''}`;
+    }).join('・');
+  }
+
   function formatFrequencyDetail(task: TaskRow): string {
     const weekdays = ['日', '月', '火', '水', '木', '金', '土'];
     const freq = (task.FREQ || '').toLowerCase();
@@ -110,6 +147,11 @@
       if (interval <= 1) return '毎日 (予定基準)';
       return `毎${interval}日 (予定基準)`;
     }
+    if ((task.INTERVAL_ANCHOR || 'scheduled') === 'completed') {
+      const interval = Math.max(1, Number(task.INTERVAL || 1));
+      const unit = freq === 'weekly' ? '週' : freq === 'monthly' ? 'ヶ月' : freq === 'yearly' ? '年' : '';
+      if (unit) return `完了から${interval}${unit}ごと`;
+    }
     if (freq === 'weekly') {
       const mask = Number(task.WEEKLY_DOWS || 0);
       const days: string[] = [];
@@ -121,23 +163,56 @@
       return days.length ? `毎週(${days.join('/')})` : '毎週';
     }
     if (freq === 'monthly') {
+      // INTERVAL>1 は「Nヶ月ごと」（開始日の月から数える）
+      const interval = Math.max(1, Number(task.INTERVAL || 1));
+      const every = interval > 1 ? `${interval}ヶ月ごと` : '毎月';
+      if (task.MONTHLY_BUSINESS_DAY != null) {
+        const calendar = task.CALENDAR_NAME ? `（${task.CALENDAR_NAME}の休業日を除く）` : '';
+        return `${every} ${formatBusinessDayLabel(Number(task.MONTHLY_BUSINESS_DAY))}${calendar}`;
+      }
+      if (task.MONTHLY_NTH_PAIRS) return `${every} ${formatMonthlyNthPairs(task.MONTHLY_NTH_PAIRS, weekdays)}`;
       if (task.MONTHLY_NTH != null && task.MONTHLY_NTH_DOW != null) {
         const nth = Number(task.MONTHLY_NTH);
         const dow = Number(task.MONTHLY_NTH_DOW);
         const label = weekdays[dow] ?? '';
-        return `毎月 第${nth}${label}`;
+        return `${every} 第${nth}${label}`;
       }
-      const day = Number(task.MONTHLY_DAY || 1);
-      return `毎月${day}日`;
+      const day = task.MONTHLY_DAYS ? task.MONTHLY_DAYS.split(',').map(d => `${d}日`).join('・') : `${Number(task.MONTHLY_DAY || 1)}日`;
+      return interval > 1 ? `${every} ${day}` : `毎月${day}`;
     }
     if (freq === 'yearly') {
       const month = Number(task.YEARLY_MONTH || 1);
       const day = Number(task.MONTHLY_DAY || 1);
-      return `毎年 ${month}月${day}日`;
+      const interval = Math.max(1, Number(task.INTERVAL || 1));
+      return `${interval > 1 ? `${interval}年ごと` : '毎年'} ${month}月${day}日`;
+    }
+    if (freq === 'dates') {
+      const list = task.DATE_LIST || [];
+      const range = list.length ? ` ${list[0].date}〜${list[list.length - 1].date}` : '';
+      return `日付リスト（${list.length}件${range}）`;
+    }
+    if (freq === 'cron') {
+      const { schedule } = parseCronExpression(task.CRON_EXPR);
+      return `cron 式（${schedule ? describeCronSchedule(schedule) : task.CRON_EXPR || ''}）`;
     }
     return freq ? `頻度: ${freq}` : '頻度: 不明';
   }
 
+  // 1日の時刻リスト（例: ' 1日3回 8:00・13:00・21:00'）
+  function formatTimesOfDaySuffix(task: TaskRow): string {
+    const times = (task.TIMES_OF_DAY || '').split(',').filter(Boolean);
+    if (!times.length) return '';
+    return ` 1日${times.length}回 ${times.map(t => t.replace(/^0(\d)/, '$1')).join('・')}`;
+  }
+
+  // 主ルール以外の発生元（追加ルール・追加日付）の件数
+  function formatExtrasSuffix(task: TaskRow): string {
+    const parts: string[] = [];
+    if (task.EXTRA_RULES?.length) parts.push(`追加ルール${task.EXTRA_RULES.length}件`);
+    if (task.EXTRA_DATES?.length) parts.push(`追加日付${task.EXTRA_DATES.length}件`);
+    return parts.length ? ` ＋${parts.join('・')}` : '';
+  }
+
   function renderTagOptions(): void {
     const dataList = el<HTMLDataListElement>('tagOptions');
     dataList.innerHTML = '';
@@ -273,7 +348,7 @@
       const metaRow = document.createElement('div');
       metaRow.className = 'task-meta';
       const freqSpan = document.createElement('span');
-      freqSpan.textContent = formatFrequencyDetail(task);
+      freqSpan.textContent = `${formatFrequencyDetail(task)}${formatTimesOfDaySuffix(task)}${formatExtrasSuffix(task)}`;
       metaRow.appendChild(freqSpan);
 
       const startSpan = document.createElement('span');
@@ -294,10 +369,31 @@
 
       if (Number(task.COUNT || 0) > 0) {
         const countSpan = document.createElement('span');
-        countSpan.textContent = `回数制限: ${task.COUNT}`;
+        countSpan.textContent = `回数制限: ${task.COUNT}（完了 ${Number(task.DONE_COUNT || 0)}）`;
         metaRow.appendChild(countSpan);
       }
 
+      if (task.END_KIND === 'until' && task.UNTIL_DATE) {
+        const untilSpan = document.createElement('span');
+        untilSpan.textContent = `終了日: ${normalizeDateStr(task.UNTIL_DATE)}`;
+        metaRow.appendChild(untilSpan);
+      }
+
+      if (task.IS_RECURRING) {
+        const rruleSpan = document.createElement('span');
+        const { rrule, unsupported } = formatRRule(task);
+        rruleSpan.textContent = rrule ? `RRULE: ${rrule}` : 'RRULE: 変換不可';
+        if (!rrule) rruleSpan.title = unsupported.join('\n');
+        metaRow.appendChild(rruleSpan);
+      }
+
+      if (task.IS_RECURRING && task.HOLIDAY_POLICY && task.HOLIDAY_POLICY !== 'keep') {
+        const holidaySpan = document.createElement('span');
+        const calendar = task.CALENDAR_NAME ? `（${task.CALENDAR_NAME}の休業日を含む）` : '';
+        holidaySpan.textContent = `土日・祝日: ${HOLIDAY_POLICY_LABELS[task.HOLIDAY_POLICY] ?? task.HOLIDAY_POLICY}${calendar}`;
+        metaRow.appendChild(holidaySpan);
+      }
+
       if (task.HORIZON_DAYS != null) {
         const hzSpan = document.createElement('span');
         hzSpan.textContent = `ホライズン: ${task.HORIZON_DAYS}日`;
@@ -1,4 +1,4 @@
-export {};
+import { japaneseHolidayName } from './japaneseHolidays.js';
 
 type Task = {
   ID?: number;
@@ -41,6 +41,14 @@ let currentCompleteOccurrence: any | null = null;
 let currentCompleteDueDate: string | null = null;
 let completeDialogSubmitting = false;
 
+let rescheduleDialog: HTMLDialogElement | null = null;
+let rescheduleDateInput: HTMLInputElement | null = null;
+let rescheduleTimeInput: HTMLInputElement | null = null;
+let rescheduleApplyButton: HTMLButtonElement | null = null;
+let rescheduleDialogDescription: HTMLDivElement | null = null;
+let currentRescheduleOccurrence: any | null = null;
+let rescheduleDialogSubmitting = false;
+
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 function formatDateInput(dateStr?: string | null): string {
@@ -67,7 +75,7 @@ function formatDateWithWeekday(dateStr?: string | null): string {
   }
   const weekdays = ['日', '月', '火', '水', '木', '金', '土'];
   const w = weekdays[d.getDay()];
-  return `${base} (${w})`;
+  return japaneseHolidayName(base) ? `${base} (${w}・祝)` : `${base} (${w})`;
 }
 
 function parseDateOnly(value: string): Date | null {
@@ -275,6 +283,170 @@ function openDeferDialog(occurrence: any): void {
   }
 }
 
+function setRescheduleDialogBusy(busy: boolean): void {
+  if (rescheduleDateInput) rescheduleDateInput.disabled = busy;
+  if (rescheduleTimeInput) rescheduleTimeInput.disabled = busy;
+  if (rescheduleApplyButton) rescheduleApplyButton.disabled = busy;
+}
+
+async function confirmAndSubmitReschedule(): Promise<void> {
+  if (!currentRescheduleOccurrence || !currentRescheduleOccurrence.OCCURRENCE_ID) return;
+  if (rescheduleDialogSubmitting) return;
+  if (!rescheduleDateInput) return;
+  const date = formatDateInput(rescheduleDateInput.value.trim());
+  if (!date) {
+    window.alert('振替日を入力してください。');
+    return;
+  }
+  const time = rescheduleTimeInput ? rescheduleTimeInput.value.trim() : '';
+  rescheduleDialogSubmitting = true;
+  setRescheduleDialogBusy(true);
+  try {
+    const result = await window.electronAPI.rescheduleOccurrence(currentRescheduleOccurrence.OCCURRENCE_ID, date, time || null);
+    if (!result || !result.success) {
+      throw new Error(result?.message || '振替に失敗しました');
+    }
+    if (rescheduleDialog && rescheduleDialog.open) rescheduleDialog.close();
+    currentRescheduleOccurrence = null;
+    await loadTasks();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    window.alert(`振替に失敗しました: ${message}`);
+  } finally {
+    rescheduleDialogSubmitting = false;
+    setRescheduleDialogBusy(false);
+  }
+}
+
+function ensureRescheduleDialog(): void {
+  if (rescheduleDialog) return;
+  const dialog = document.createElement('dialog');
+  dialog.className = 'defer-dialog';
+
+  const form = document.createElement('form');
+  form.method = 'dialog';
+  form.className = 'defer-dialog-form';
+
+  const title = document.createElement('div');
+  title.className = 'defer-dialog-title';
+  title.textContent = 'この回を振替';
+  form.appendChild(title);
+
+  const description = document.createElement('div');
+  description.className = 'defer-dialog-description';
+  description.textContent = '振替先の日付を選択してください。';
+  form.appendChild(description);
+  rescheduleDialogDescription = description;
+
+  const dateField = document.createElement('div');
+  dateField.className = 'defer-dialog-field';
+  const dateLabel = document.createElement('label');
+  dateLabel.htmlFor = 'rescheduleDateInput';
+  dateLabel.textContent = '振替日';
+  dateField.appendChild(dateLabel);
+  const dateInput = document.createElement('input');
+  dateInput.type = 'date';
+  dateInput.id = 'rescheduleDateInput';
+  dateInput.name = 'rescheduleDate';
+  dateField.appendChild(dateInput);
+  form.appendChild(dateField);
+
+  const timeField = document.createElement('div');
+  timeField.className = 'defer-dialog-field';
+  const timeLabel = document.createElement('label');
+  timeLabel.htmlFor = 'rescheduleTimeInput';
+  timeLabel.textContent = '時刻（任意）';
+  timeField.appendChild(timeLabel);
+  const timeInput = document.createElement('input');
+  timeInput.type = 'time';
+  timeInput.id = 'rescheduleTimeInput';
+  timeInput.name = 'rescheduleTime';
+  timeField.appendChild(timeInput);
+  form.appendChild(timeField);
+
+  const note = document.createElement('div');
+  note.className = 'defer-dialog-note';
+  note.textContent = '振替はこの回だけに適用され、以降の繰り返しは変わりません。';
+  form.appendChild(note);
+
+  const buttons = document.createElement('div');
+  buttons.className = 'defer-dialog-buttons';
+
+  const cancelBtn = document.createElement('button');
+  cancelBtn.type = 'button';
+  cancelBtn.textContent = 'キャンセル';
+  cancelBtn.addEventListener('click', () => {
+    dialog.close();
+  });
+  buttons.appendChild(cancelBtn);
+
+  const applyBtn = document.createElement('button');
+  applyBtn.type = 'submit';
+  applyBtn.textContent = '振替';
+  buttons.appendChild(applyBtn);
+  rescheduleApplyButton = applyBtn;
+
+  form.appendChild(buttons);
+
+  form.addEventListener('submit', event => {
+    event.preventDefault();
+    void confirmAndSubmitReschedule();
+  });
+
+  dialog.addEventListener('close', () => {
+    currentRescheduleOccurrence = null;
+    rescheduleDialogSubmitting = false;
+    setRescheduleDialogBusy(false);
+    if (rescheduleDateInput) rescheduleDateInput.value = '';
+    if (rescheduleTimeInput) rescheduleTimeInput.value = '';
+  });
+
+  dialog.appendChild(form);
+  document.body.appendChild(dialog);
+
+  rescheduleDialog = dialog;
+  rescheduleDateInput = dateInput;
+  rescheduleTimeInput = timeInput;
+}
+
+function openRescheduleDialog(occurrence: any): void {
+  if (!occurrence || !occurrence.OCCURRENCE_ID) return;
+  ensureRescheduleDialog();
+  currentRescheduleOccurrence = occurrence;
+  setRescheduleDialogBusy(false);
+  if (rescheduleDialogDescription) {
+    const currentLabel = formatDateWithWeekday(occurrence.SCHEDULED_DATE) || '-';
+    rescheduleDialogDescription.textContent = occurrence.RESCHEDULED_FROM
+      ? `振替先の日付を選択してください。（現在: ${currentLabel}／元: ${formatDateWithWeekday(occurrence.RESCHEDULED_FROM) || '-'}）`
+      : `振替先の日付を選択してください。（現在: ${currentLabel}）`;
+  }
+  if (rescheduleDateInput) rescheduleDateInput.value = formatDateInput(occurrence.SCHEDULED_DATE);
+  if (rescheduleTimeInput) rescheduleTimeInput.value = occurrence.SCHEDULED_TIME || '';
+  if (rescheduleDialog && !rescheduleDialog.open) {
+    rescheduleDialog.returnValue = '';
+    rescheduleDialog.showModal();
+    window.requestAnimationFrame(() => {
+      rescheduleDateInput?.focus();
+    });
+  }
+}
+
+async function skipOccurrence(occurrence: any): Promise<void> {
+  if (!occurrence || !occurrence.OCCURRENCE_ID) return;
+  const label = formatDateWithWeekday(occurrence.SCHEDULED_DATE) || '-';
+  if (!window.confirm(`${label} の回をスキップします。以降の繰り返しは変わりません。実行しますか？`)) return;
+  try {
+    const result = await window.electronAPI.skipOccurrence(occurrence.OCCURRENCE_ID);
+    if (!result || !result.success) {
+      throw new Error(result?.message || 'スキップに失敗しました');
+    }
+    await loadTasks();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    window.alert(`スキップに失敗しました: ${message}`);
+  }
+}
+
 function ensureCompleteDialog(): void {
   if (completeDialog) return;
   const dialog = document.createElement('dialog');
@@ -851,11 +1023,23 @@ async function loadTasks(): Promise<void> {
       metaRow.className = 'meta';
       const effectiveDateStr = getEffectiveDate(o);
       let metaText = `予定日: ${formatDateWithWeekday(effectiveDateStr) || '-'}`;
+      // 時刻（1日に複数回ある繰り返しの区別にも使う）。00:00 は時刻未指定の既定値のため表示しない
+      if (o.SCHEDULED_TIME && o.SCHEDULED_TIME !== '00:00') metaText += ` ${o.SCHEDULED_TIME}`;
       if (o.DEFERRED_DATE && o.DEFERRED_DATE !== o.SCHEDULED_DATE) {
         metaText += `（元: ${formatDateWithWeekday(o.SCHEDULED_DATE) || '-'}）`;
+      } else if (o.RESCHEDULED_FROM) {
+        metaText += `（振替元: ${formatDateWithWeekday(o.RESCHEDULED_FROM) || '-'}）`;
       }
       metaText += ` ・ タスク: ${o.TASK_ID} ・ 状態: ${o.OCC_STATUS}`;
       metaRow.textContent = metaText;
+      const holidayName = japaneseHolidayName(effectiveDateStr);
+      if (holidayName) {
+        const holidayBadge = document.createElement('span');
+        holidayBadge.className = 'holiday-badge';
+        holidayBadge.textContent = holidayName;
+        holidayBadge.title = '祝日';
+        metaRow.appendChild(holidayBadge);
+      }
       left.appendChild(metaRow);
       const actions = document.createElement('div');
       actions.className = 'actions';
@@ -906,6 +1090,24 @@ async function loadTasks(): Promise<void> {
           };
           actions.appendChild(deferBtn);
 
+          if (!manualNext && Number(o.IS_RECURRING || 0) === 1) {
+            const skipBtn = document.createElement('button');
+            skipBtn.textContent = 'この回をスキップ';
+            skipBtn.style.marginLeft = '8px';
+            skipBtn.onclick = () => {
+              void skipOccurrence(o);
+            };
+            actions.appendChild(skipBtn);
+
+            const rescheduleBtn = document.createElement('button');
+            rescheduleBtn.textContent = '振替';
+            rescheduleBtn.style.marginLeft = '8px';
+            rescheduleBtn.onclick = () => {
+              openRescheduleDialog(o);
+            };
+            actions.appendChild(rescheduleBtn);
+          }
+
           const pruneCount = Number((o as any).__pruneCount || 0);
           if ((o as any).__showPruneButton && pruneCount > 0) {
             const pruneBtn = document.createElement('button');
@@ -1000,6 +1202,7 @@ async function addOneTimeTask(): Promise<void> {
 
 window.addEventListener('DOMContentLoaded', async () => {
   ensureDeferDialog();
+  ensureRescheduleDialog();
   el<HTMLButtonElement>('onceAddBtn').addEventListener('click', () => { void addOneTimeTask(); });
   el<HTMLInputElement>('onceTitle').addEventListener('keydown', event => {
     if (event.key === 'Enter') {
@@ -1012,6 +1215,8 @@ window.addEventListener('DOMContentLoaded', async () => {
     await refreshTagFilters({ preserveSelection: true });
     await loadTasks();
   });
+  // 日付の変わり目やルールの変更後にメインプロセスで新しい回が作られたら一覧を読み直す
+  window.electronAPI.onOccurrencesChanged(() => { void loadTasks(); });
   await refreshTagFilters({ preserveSelection: true });
   await loadTasks();
 });
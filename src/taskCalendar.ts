@@ -0,0 +1,118 @@
+// ユーザー定義カレンダー（会社の休業日・学校の休暇など）の休業日
+// - 1件は開始日〜終了日（両端を含む）の期間。単日は開始日=終了日
+// - CSV / iCalendar（.ics）からの取り込み候補を作る（DBには書き込まない）
+import { addDaysYmd } from './renderer/recurrenceExpander';
+import { parseICalendar, parseICalDateValue, unescapeICalText } from './icalendar';
+import { normalizeCsvDate } from './taskCsv';
+
+/** 1件の期間の上限日数（長期休暇を1件で登録できる程度） */
+export const CALENDAR_ENTRY_MAX_DAYS = 366;
+
+export type CalendarEntryInput = { startDate: string; endDate: string; label: string | null };
+
+// 取り込み候補1件。issues があるものは取り込まない
+export type CalendarImportItem = {
+  // CSV の行番号 / .ics の何件目か
+  source: string;
+  startDate: string | null;
+  endDate: string | null;
+  label: string | null;
+  issues: string[];
+  notes: string[];
+};
+
+function isYmd(value: string): boolean {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!m) return false;
+  const dt = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return dt.getFullYear() === Number(m[1]) && dt.getMonth() === Number(m[2]) - 1 && dt.getDate() === Number(m[3]);
+}
+
+function spanDays(startDate: string, endDate: string): number {
+  const [y1, m1, d1] = startDate.split('-').map(Number);
+  const [y2, m2, d2] = endDate.split('-').map(Number);
+  return Math.round((Date.UTC(y2, m2 - 1, d2) - Date.UTC(y1, m1 - 1, d1)) / 86400000) + 1;
+}
+
+/** 期間の検証。問題がなければ空配列 */
+export function validateCalendarEntry(startDate: string | null, endDate: string | null): string[] {
+  if (!startDate || !isYmd(startDate)) return ['開始日が不正です'];
+  if (!endDate || !isYmd(endDate)) return ['終了日が不正です'];
+  if (endDate < startDate) return ['終了日が開始日より前です'];
+  if (spanDays(startDate, endDate) > CALENDAR_ENTRY_MAX_DAYS) return [`期間が長すぎます（最大${CALENDAR_ENTRY_MAX_DAYS}日）`];
+  return [];
+}
+
+/** 入力（終了日省略時は単日）を正規化する。不正な場合は例外 */
+export function normalizeCalendarEntry(input: { startDate?: any; endDate?: any; label?: any }): CalendarEntryInput {
+  const startDate = String(input.startDate ?? '').trim().split('T')[0];
+  const endRaw = String(input.endDate ?? '').trim().split('T')[0];
+  const endDate = endRaw || startDate;
+  const issues = validateCalendarEntry(startDate, endDate);
+  if (issues.length) throw new Error(issues[0]);
+  const label = String(input.label ?? '').trim();
+  return { startDate, endDate, label: label || null };
+}
+
+/** 期間の一覧を休業日の集合に展開する */
+export function expandCalendarEntries(entries: Array<{ startDate: string; endDate: string }>): Set<string> {
+  const dates = new Set<string>();
+  for (const e of entries) {
+    if (validateCalendarEntry(e.startDate, e.endDate).length) continue;
+    for (let d = e.startDate; d <= e.endDate; d = addDaysYmd(d, 1)) dates.add(d);
+  }
+  return dates;
+}
+
+/**
+ * CSV の行から取り込み候補を作る。
+ * 列は「開始日, 終了日, 名称」または「日付, 名称」（内閣府の祝日CSVなど）。1行目が日付でなければ見出しとして読み飛ばす。
+ */
+export function planCalendarCsvImport(rows: string[][]): CalendarImportItem[] {
+  const items: CalendarImportItem[] = [];
+  rows.forEach((row, index) => {
+    const cells = row.map(c => String(c ?? '').trim());
+    if (!cells.some(Boolean)) return;
+    const startDate = normalizeCsvDate(cells[0] || '');
+    if (index === 0 && !startDate) return;
+    const source = `${index + 1}行目`;
+    if (!startDate) {
+      items.push({ source, startDate: null, endDate: null, label: null, issues: [`日付として読めません: ${cells[0] || '(空)'}`], notes: [] });
+      return;
+    }
+    const second = normalizeCsvDate(cells[1] || '');
+    const endDate = second ?? startDate;
+    const label = (second ? cells.slice(2) : cells.slice(1)).find(Boolean) || null;
+    items.push({ source, startDate, endDate, label, issues: validateCalendarEntry(startDate, endDate), notes: [] });
+  });
+  return items;
+}
+
+/** .ics の VEVENT から取り込み候補を作る。終日予定の DTEND は翌日（含まない）として扱う */
+export function planCalendarIcsImport(text: string): CalendarImportItem[] {
+  const items: CalendarImportItem[] = [];
+  parseICalendar(text).forEach((comp, index) => {
+    if (comp.kind !== 'VEVENT') return;
+    const source = `${index + 1}件目`;
+    const summaryProp = comp.props.find(p => p.name === 'SUMMARY');
+    const label = summaryProp ? unescapeICalText(summaryProp.value).replace(/\s+/g, ' ').trim() || null : null;
+    const startProp = comp.props.find(p => p.name === 'DTSTART');
+    const start = startProp ? parseICalDateValue(startProp) : null;
+    if (!start) {
+      items.push({ source, startDate: null, endDate: null, label, issues: ['DTSTART がありません'], notes: [] });
+      return;
+    }
+    let endDate = start.date;
+    const endProp = comp.props.find(p => p.name === 'DTEND');
+    const end = endProp ? parseICalDateValue(endProp) : null;
+    if (end && end.date > start.date) {
+      // 終日（DATE）や 00:00 終了の予定は終了日を含まない
+      endDate = end.time == null || end.time === '00:00' ? addDaysYmd(end.date, -1) : end.date;
+    }
+    const notes: string[] = [];
+    if (comp.props.some(p => p.name === 'RRULE' || p.name === 'RDATE')) notes.push('繰り返し予定は最初の回のみ取り込みます');
+    if (start.time) notes.push('時刻は無視して日付のみ取り込みます');
+    items.push({ source, startDate: start.date, endDate, label, issues: validateCalendarEntry(start.date, endDate), notes });
+  });
+  return items;
+}
@@ -0,0 +1,405 @@
+// タスク一覧/完了履歴の CSV 書き出しと、CSV からのタスク一括作成（列の対応付けつき）
+// - 書き出しは Excel で開けるよう UTF-8（BOM付き）または Shift_JIS、改行は CRLF
+// - 取り込みは RRULE 列、または 頻度/間隔/終了日/回数 列から繰り返しを組み立て、parseRRule() で検証する
+// - 日付リスト（FREQ='dates'）の日付・時刻は、タスク編集画面から別の CSV で取り込める
+import { formatExtraRuleRRule, formatRRule, parseRRule, recurrencePayloadFromRRule } from './renderer/rrule';
+
+export type CsvExportEncoding = 'utf8bom' | 'shift_jis';
+export type CsvImportEncoding = 'auto' | 'utf8' | 'shift_jis';
+
+// ===== 文字コード =====
+let sjisTable: Map<string, number[]> | null = null;
+
+// Shift_JIS の符号化表は TextDecoder の復号結果から作る（依存パッケージなし）。
+// NEC選定IBM拡張（0xED/0xEE）は WHATWG の符号化と同じく IBM拡張（0xFA〜）側を使う。
+function shiftJisTable(): Map<string, number[]> {
+  if (sjisTable) return sjisTable;
+  const decoder = new TextDecoder('shift_jis');
+  const table = new Map<string, number[]>();
+  for (let b = 0; b <= 0x80; b++) table.set(String.fromCharCode(b), [b]);
+  for (let b = 0xa1; b <= 0xdf; b++) table.set(decoder.decode(Uint8Array.of(b)), [b]);
+  for (let lead = 0x81; lead <= 0xfc; lead++) {
+    if (lead >= 0xa0 && lead <= 0xdf) continue;
+    if (lead === 0xed || lead === 0xee) continue;
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail === 0x7f) continue;
+      const ch = decoder.decode(Uint8Array.of(lead, trail));
+      if (ch.length !== 1 || ch === '\uFFFD' || table.has(ch)) continue;
+      table.set(ch, [lead, trail]);
+    }
+  }
+  // 円記号・オーバーライン・マイナス記号（U+2212）は WHATWG の符号化と同じく近い文字に寄せる
+  table.set('\u00A5', [0x5c]);
+  table.set('\u203E', [0x7e]);
+  const minus = table.get('\uFF0D');
+  if (minus) table.set('\u2212', minus);
+  sjisTable = table;
+  return table;
+}
+
+/** 書き出し用に符号化する。Shift_JIS で表せない文字は '?' に置き換え、その数を返す */
+export function encodeCsvText(text: string, encoding: CsvExportEncoding): { data: Buffer; unmappable: number } {
+  if (encoding !== 'shift_jis') {
+    return { data: Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text, 'utf8')]), unmappable: 0 };
+  }
+  const table = shiftJisTable();
+  const bytes: number[] = [];
+  let unmappable = 0;
+  for (const ch of text) {
+    const code = table.get(ch);
+    if (code) {
+      bytes.push(...code);
+    } else {
+      bytes.push(0x3f);
+      unmappable++;
+    }
+  }
+  return { data: Buffer.from(bytes), unmappable };
+}
+
+/** auto は BOM / UTF-8 として妥当か で判定し、どちらでもなければ Shift_JIS とみなす */
+export function decodeCsvBuffer(data: Buffer, encoding: CsvImportEncoding): { text: string; encoding: 'utf8' | 'shift_jis' } {
+  const hasBom = data.length >= 3 && data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf;
+  if (encoding === 'shift_jis') return { text: new TextDecoder('shift_jis').decode(data), encoding: 'shift_jis' };
+  if (encoding === 'utf8' || hasBom) return { text: new TextDecoder('utf-8').decode(data), encoding: 'utf8' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(data), encoding: 'utf8' };
+  } catch {
+    return { text: new TextDecoder('shift_jis').decode(data), encoding: 'shift_jis' };
+  }
+}
+
+// ===== CSV（RFC 4180） =====
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+  const src = text.replace(/^\uFEFF/, '');
+  while (i < src.length) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') { field += '"'; i += 2; continue; }
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // 空行（Excel の末尾など）は除く
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function csvCell(value: any): string {
+  if (value === null || typeof value === 'undefined') return '';
+  const s = String(value);
+  return /[",\r\n]/.test(s) || /^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function formatCsv(rows: any[][]): string {
+  return rows.map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// ===== 書き出し =====
+const DOW_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+const OCC_STATUS_LABELS: Record<string, string> = { pending: '未完了', done: '完了', skipped: 'スキップ', cancelled: '取消' };
+
+function pad2(n: number): string { return String(n).padStart(2, '0'); }
+
+/** ISO 日時をローカル時刻の "YYYY-MM-DD HH:MM:SS" にする（表計算で日時として扱える形） */
+function localDateTime(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return String(iso);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())} ${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+}
+
+function weeklyLabel(mask: number): string {
+  return DOW_LABELS.filter((_, i) => mask & (1 << i)).join(',');
+}
+
+/** 第N / 第N曜日 の列。複数指定（MONTHLY_NTH_PAIRS = '2:3,4:3'）はカンマ区切りで対応する順に並べる */
+function nthPairsCell(t: any, pick: (pair: string[]) => string): string {
+  const pairs = t.MONTHLY_NTH_PAIRS
+    ? String(t.MONTHLY_NTH_PAIRS).split(',').map(v => v.split(':'))
+    : t.MONTHLY_NTH != null && t.MONTHLY_NTH_DOW != null ? [[String(t.MONTHLY_NTH), String(t.MONTHLY_NTH_DOW)]] : [];
+  return pairs.map(pick).join(',');
+}
+
+/** listTasks() の行を CSV の行にする（1行目は見出し） */
+export function buildTasksCsvRows(tasks: any[]): any[][] {
+  const header = [
+    'ID', 'タイトル', '説明', '開始日', '開始時刻', '期日', '繰り返し', '頻度', '間隔', '間隔基準', '曜日', '月日',
+    '第N', '第N曜日', '営業日指定', '年次月', '終了条件', '終了日', '回数', '手動次回', 'オフセット日数', '土日祝の扱い', '休業日カレンダー', 'RRULE', '追加ルール', '追加日付', '日付リスト', 'cron 式', '1日の時刻', 'タグ', '作成日時', '更新日時'
+  ];
+  const rows: any[][] = [header];
+  for (const t of tasks) {
+    const recurring = Number(t.IS_RECURRING) === 1 && !!t.FREQ;
+    const rrule = recurring ? formatRRule(t).rrule : null;
+    rows.push([
+      t.ID,
+      t.TITLE,
+      t.DESCRIPTION,
+      t.START_DATE,
+      t.START_TIME,
+      t.DUE_AT,
+      recurring ? 'はい' : 'いいえ',
+      recurring ? t.FREQ : '',
+      recurring ? t.INTERVAL : '',
+      recurring ? t.INTERVAL_ANCHOR : '',
+      recurring && t.FREQ === 'weekly' ? weeklyLabel(Number(t.WEEKLY_DOWS || 0)) : '',
+      recurring ? t.MONTHLY_DAYS ?? t.MONTHLY_DAY : '',
+      recurring ? nthPairsCell(t, pair => pair[0]) : '',
+      recurring ? nthPairsCell(t, pair => DOW_LABELS[Number(pair[1])] ?? '') : '',
+      recurring ? t.MONTHLY_BUSINESS_DAY : '',
+      recurring ? t.YEARLY_MONTH : '',
+      recurring ? t.END_KIND : '',
+      recurring ? t.UNTIL_DATE : '',
+      recurring ? t.COUNT : '',
+      recurring && Number(t.MANUAL_NEXT_DUE) === 1 ? 'はい' : '',
+      recurring ? t.OCCURRENCE_OFFSET_DAYS : '',
+      recurring ? t.HOLIDAY_POLICY : '',
+      recurring ? t.CALENDAR_NAME ?? '' : '',
+      rrule ?? '',
+      // 追加ルールは1行に1つの RRULE（パターンのみ）。営業日指定など RRULE で表せないものは頻度だけを示す
+      recurring ? (t.EXTRA_RULES || []).map((x: any) => formatExtraRuleRRule(x).rrule ?? `(${x.FREQ})`).join('\n') : '',
+      recurring ? (t.EXTRA_DATES || []).join(',') : '',
+      // 日付リストは1行に「日付 [時刻]」
+      recurring ? (t.DATE_LIST || []).map((e: any) => (e.time ? `${e.date} ${e.time}` : e.date)).join('\n') : '',
+      recurring && t.FREQ === 'cron' ? t.CRON_EXPR || '' : '',
+      recurring ? t.TIMES_OF_DAY || '' : '',
+      (t.TAGS || []).join(', '),
+      localDateTime(t.CREATED_AT),
+      localDateTime(t.UPDATED_AT)
+    ]);
+  }
+  return rows;
+}
+
+/** listOccurrenceHistory() の行を CSV の行にする（1行目は見出し） */
+export function buildOccurrenceHistoryCsvRows(rows: any[]): any[][] {
+  const header = ['オカレンスID', 'タスクID', 'タイトル', '予定日', '予定時刻', '延期日', '状態', '完了日時', '完了コメント', 'タグ'];
+  const out: any[][] = [header];
+  for (const r of rows) {
+    out.push([
+      r.OCCURRENCE_ID,
+      r.TASK_ID,
+      r.TITLE,
+      r.SCHEDULED_DATE,
+      r.SCHEDULED_TIME,
+      r.DEFERRED_DATE,
+      OCC_STATUS_LABELS[r.STATUS] || r.STATUS,
+      localDateTime(r.COMPLETED_AT),
+      r.COMPLETE_COMMENT,
+      (r.TAGS || []).join(', ')
+    ]);
+  }
+  return out;
+}
+
+// ===== 取り込み =====
+export type CsvImportFieldKey = 'title' | 'description' | 'startDate' | 'startTime' | 'tags' | 'rrule' | 'freq' | 'interval' | 'until' | 'count';
+
+/** 対応付けの候補。aliases は見出しからの自動対応付けに使う（本アプリの書き出し見出しを含む） */
+export const CSV_IMPORT_FIELDS: Array<{ key: CsvImportFieldKey; label: string; required?: boolean; aliases: string[] }> = [
+  { key: 'title', label: 'タイトル', required: true, aliases: ['タイトル', '件名', '名前', 'TITLE', 'SUMMARY'] },
+  { key: 'description', label: '説明', aliases: ['説明', 'メモ', '備考', 'DESCRIPTION'] },
+  { key: 'startDate', label: '開始日', aliases: ['開始日', '日付', '予定日', '期日', 'START_DATE', 'DATE'] },
+  { key: 'startTime', label: '開始時刻', aliases: ['開始時刻', '時刻', '予定時刻', 'START_TIME', 'TIME'] },
+  { key: 'tags', label: 'タグ（カンマ区切り）', aliases: ['タグ', 'TAGS', 'CATEGORIES'] },
+  { key: 'rrule', label: 'RRULE', aliases: ['RRULE'] },
+  { key: 'freq', label: '頻度（毎日/毎週/毎月/毎年）', aliases: ['頻度', '繰り返し頻度', 'FREQ'] },
+  { key: 'interval', label: '間隔（日次・週次・月次・年次）', aliases: ['間隔', 'INTERVAL'] },
+  { key: 'until', label: '終了日', aliases: ['終了日', 'UNTIL', 'UNTIL_DATE'] },
+  { key: 'count', label: '回数', aliases: ['回数', 'COUNT'] }
+];
+
+export type CsvImportMapping = Partial<Record<CsvImportFieldKey, number | null>>;
+
+export type CsvImportItem = {
+  /** CSV 上の行番号（1始まり、見出し行を含む） */
+  rowNumber: number;
+  title: string;
+  mode: 'recurring' | 'single' | 'skip';
+  rrule: string | null;
+  issues: string[];
+  notes: string[];
+  payload: any | null;
+};
+
+export function suggestCsvMapping(headers: string[]): CsvImportMapping {
+  const mapping: CsvImportMapping = {};
+  const normalized = headers.map(h => h.trim().toUpperCase());
+  for (const field of CSV_IMPORT_FIELDS) {
+    const idx = normalized.findIndex(h => field.aliases.some(a => a.toUpperCase() === h));
+    mapping[field.key] = idx >= 0 ? idx : null;
+  }
+  return mapping;
+}
+
+/** 2026-10-18 / 2026/10/18 / 2026.10.18 / 2026年10月18日 を YYYY-MM-DD にする */
+export function normalizeCsvDate(value: string): string | null {
+  const m = /^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?(?:[\sT].*)?$/.exec(value.trim());
+  if (!m) return null;
+  const y = Number(m[1]);
+  const mo = Number(m[2]);
+  const d = Number(m[3]);
+  const dt = new Date(y, mo - 1, d);
+  if (dt.getFullYear() !== y || dt.getMonth() !== mo - 1 || dt.getDate() !== d) return null;
+  return `${y}-${pad2(mo)}-${pad2(d)}`;
+}
+
+function normalizeCsvTime(value: string): string | null {
+  const m = /^(\d{1,2})[:：](\d{2})(?::\d{2})?$/.exec(value.trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return `${pad2(h)}:${pad2(min)}`;
+}
+
+const FREQ_WORDS: Array<{ freq: string; words: string[] }> = [
+  { freq: 'DAILY', words: ['毎日', '日次', '日', 'daily'] },
+  { freq: 'WEEKLY', words: ['毎週', '週次', '週', 'weekly'] },
+  { freq: 'MONTHLY', words: ['毎月', '月次', '月', 'monthly'] },
+  { freq: 'YEARLY', words: ['毎年', '年次', '年', 'yearly'] }
+];
+const NON_RECURRING_WORDS = ['', 'なし', '単発', '1回', 'いいえ', 'none', 'once'];
+
+/**
+ * CSV の行（見出し行を除く）と対応付けから、createTask() に渡す候補を作る（DBには書き込まない）。
+ * 繰り返しは RRULE 列を優先し、空なら 頻度/間隔/終了日/回数 から RRULE を組み立てて同じ検証を通す。
+ */
+export function planCsvImport(rows: string[][], mapping: CsvImportMapping, options: { firstRowNumber?: number } = {}): CsvImportItem[] {
+  const firstRowNumber = options.firstRowNumber ?? 1;
+  const cell = (row: string[], key: CsvImportFieldKey): string => {
+    const idx = mapping[key];
+    return idx == null || idx < 0 ? '' : String(row[idx] ?? '').trim();
+  };
+  return rows.map((row, i) => {
+    const issues: string[] = [];
+    const notes: string[] = [];
+    const title = cell(row, 'title');
+    const item: CsvImportItem = { rowNumber: firstRowNumber + i, title: title || '(無題)', mode: 'single', rrule: null, issues, notes, payload: null };
+    if (!title) {
+      item.mode = 'skip';
+      issues.push('タイトルが空のため取り込みません');
+      return item;
+    }
+    const rawDate = cell(row, 'startDate');
+    const startDate = rawDate ? normalizeCsvDate(rawDate) : null;
+    if (rawDate && !startDate) issues.push(`開始日の形式が不正です: ${rawDate}`);
+    const rawTime = cell(row, 'startTime');
+    const startTime = rawTime ? normalizeCsvTime(rawTime) : null;
+    if (rawTime && !startTime) issues.push(`開始時刻の形式が不正です: ${rawTime}`);
+    const tags = cell(row, 'tags').split(/[,、;；]/).map(t => t.trim()).filter(Boolean);
+    const base = {
+      title,
+      description: cell(row, 'description') || null,
+      tags: Array.from(new Set(tags)),
+      startDate,
+      startTime
+    };
+
+    let rrule = cell(row, 'rrule');
+    if (!rrule) {
+      const freqRaw = cell(row, 'freq');
+      const freqLower = freqRaw.toLowerCase();
+      if (!NON_RECURRING_WORDS.includes(freqLower)) {
+        const freq = FREQ_WORDS.find(f => f.words.includes(freqLower));
+        if (!freq) {
+          issues.push(`頻度を解釈できません: ${freqRaw}（1回のみのタスクとして取り込みます）`);
+        } else {
+          const parts = [`FREQ=${freq.freq}`];
+          const interval = cell(row, 'interval');
+          if (interval) parts.push(`INTERVAL=${interval}`);
+          const untilRaw = cell(row, 'until');
+          const until = untilRaw ? normalizeCsvDate(untilRaw) : null;
+          if (untilRaw && !until) issues.push(`終了日の形式が不正です: ${untilRaw}`);
+          if (until) parts.push(`UNTIL=${until.replace(/-/g, '')}`);
+          const count = cell(row, 'count');
+          if (count && count !== '0') parts.push(`COUNT=${count}`);
+          rrule = parts.join(';');
+        }
+      }
+    }
+
+    if (rrule) {
+      item.rrule = rrule;
+      if (!startDate) {
+        issues.push('繰り返しには開始日が必要です（1回のみのタスクとして取り込みます）');
+      } else {
+        const parsed = parseRRule(rrule, { startDate });
+        notes.push(...parsed.notes);
+        if (parsed.rule) {
+          item.mode = 'recurring';
+          item.payload = { ...base, isRecurring: true, recurrence: recurrencePayloadFromRRule(parsed.rule) };
+          return item;
+        }
+        issues.push(...parsed.errors, '1回のみのタスクとして取り込みます');
+      }
+    }
+    item.payload = { ...base, isRecurring: false, dueAt: startDate };
+    return item;
+  });
+}
+
+// ===== 日付リストの取り込み =====
+const DATE_LIST_DATE_ALIASES = ['日付', '予定日', '開始日', 'DATE', 'START_DATE', 'LIST_DATE'];
+const DATE_LIST_TIME_ALIASES = ['時刻', '予定時刻', '開始時刻', 'TIME', 'START_TIME', 'LIST_TIME'];
+
+/**
+ * 日付リスト用の CSV（1行に 日付[, 時刻]）を読む。先頭行が日付でなければ見出しとみなし、見出しから日付・時刻の列を探す
+ * （日付の列が見つからなければ1列目。見出しがなければ1列目・2列目）。同じ日付は後の行を使い、日付順に返す。
+ */
+export function planDateListCsvImport(rows: string[][]): { entries: Array<{ date: string; time: string | null }>; issues: string[] } {
+  const issues: string[] = [];
+  const hasHeader = rows.length > 0 && !normalizeCsvDate(String(rows[0][0] ?? ''));
+  let dateCol = 0;
+  let timeCol = 1;
+  if (hasHeader) {
+    const headers = rows[0].map(h => h.trim().toUpperCase());
+    const find = (aliases: string[]) => headers.findIndex(h => aliases.some(a => a.toUpperCase() === h));
+    dateCol = Math.max(0, find(DATE_LIST_DATE_ALIASES));
+    timeCol = find(DATE_LIST_TIME_ALIASES);
+  }
+  const byDate = new Map<string, { date: string; time: string | null }>();
+  rows.forEach((row, i) => {
+    if (hasHeader && i === 0) return;
+    const rawDate = String(row[dateCol] ?? '').trim();
+    const date = normalizeCsvDate(rawDate);
+    if (!date) {
+      issues.push(`${i + 1}行目: 日付の形式が不正です: ${rawDate || '(空)'}`);
+      return;
+    }
+    const rawTime = timeCol >= 0 ? String(row[timeCol] ?? '').trim() : '';
+    const time = rawTime ? normalizeCsvTime(rawTime) : null;
+    if (rawTime && !time) issues.push(`${i + 1}行目: 時刻の形式が不正です（時刻なしで取り込みます）: ${rawTime}`);
+    byDate.set(date, { date, time });
+  });
+  const entries = Array.from(byDate.values()).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  return { entries, issues };
+}
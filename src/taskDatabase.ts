@@ -1,10 +1,414 @@
 import * as sqlite3 from 'sqlite3';
 import * as path from 'path';
 import * as fs from 'fs';
+import {
+  RecurrenceFreq,
+  RecurrenceRuleSpec,
+  RecurrenceExceptionMap,
+  PlannedOccurrence,
+  GenerationPolicy,
+  HolidayShiftPolicy,
+  RecurrenceDateEntry,
+  DEFAULT_DAILY_HORIZON_DAYS,
+  DEFAULT_MONTHS_AHEAD,
+  DEFAULT_YEARS_AHEAD,
+  HOLIDAY_SHIFT_POLICIES,
+  MAX_MONTHLY_BUSINESS_DAY,
+  MAX_MONTHLY_INTERVAL,
+  MAX_YEARLY_INTERVAL,
+  MAX_WEEKLY_INTERVAL,
+  MAX_DATE_LIST_ENTRIES,
+  MonthlyNthPair,
+  parseMonthlyDayList,
+  formatMonthlyDayList,
+  parseMonthlyNthPairList,
+  formatMonthlyNthPairList,
+  RecurrencePattern,
+  SourcedOccurrence,
+  extraRuleSpec,
+  planOccurrences,
+  generationWindowEnd,
+  planUnionOccurrences,
+  resolveRecurrenceException,
+  addDaysYmd,
+  todayYmd,
+  stepSeriesDate,
+  completionAnchoredNext,
+  resolveNextOccurrence,
+  resolveSeriesOccurrence,
+  applyHolidayPolicy,
+  seriesDateOf,
+  iterateSeriesDates,
+  expandSeriesDates,
+  occurrenceKey,
+  seriesTimesOf,
+  matchesOccurrenceTime,
+  occurrenceMatchKey,
+  parseTimesOfDayText,
+  formatTimesOfDayList
+} from './renderer/recurrenceExpander';
+import { parseCronExpression } from './renderer/cronExpression';
+import { formatRRule } from './renderer/rrule';
+import { CalendarEntryInput, expandCalendarEntries, normalizeCalendarEntry } from './taskCalendar';
+import { ICalComponentKind, ICalEntry, ICAL_UID_DOMAIN, buildICalendar } from './icalendar';
+import {
+  TASK_JSON_FORMAT,
+  TASK_JSON_FORMAT_VERSION,
+  TASK_JSON_ORDER_BY,
+  TASK_JSON_TABLES,
+  TaskJsonDocument,
+  TaskJsonImportMode,
+  TaskJsonImportReport,
+  TaskJsonRow,
+  TaskJsonTable
+} from './taskJson';
+
+/**
+ * タスクDBのスキーマ版数（PRAGMA user_version）。
+ * db/task_schema.sql を変更したら、同じ変更を行うマイグレーションを TASK_DB_MIGRATIONS に追加してこの値を上げる。
+ */
+export const TASK_DB_SCHEMA_VERSION = 18;
+
+export type TaskDbMigrationContext = {
+  run: (sql: string, params?: any[]) => Promise<number>;
+  hasColumn: (table: string, column: string) => Promise<boolean>;
+  addColumnIfMissing: (table: string, column: string, definition: string) => Promise<void>;
+};
+
+export type TaskDbMigration = {
+  version: number;
+  description: string;
+  up: (ctx: TaskDbMigrationContext) => Promise<void>;
+};
+
+/**
+ * 番号付きマイグレーション（昇順）。一度適用した番号は user_version に記録され、再実行されない。
+ * v1〜v3 は旧スキーマファイルが user_version=3 を直接書いていたため欠番。
+ * v4〜v7 は従来の起動時チェックを移したもので、user_version=3 でも列の有無が DB ごとに異なるため冪等に書いている。
+ */
+const TASK_DB_MIGRATIONS: TaskDbMigration[] = [
+  {
+    version: 4,
+    description: 'RECURRENCE_RULES: 生成ウィンドウ/間隔基準/週次曜日/手動次回/オフセット/年次月の列を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'HORIZON_DAYS', 'INTEGER DEFAULT 14');
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'INTERVAL_ANCHOR', "TEXT NOT NULL DEFAULT 'scheduled'");
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'WEEKLY_DOWS', 'INTEGER DEFAULT 0');
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'MANUAL_NEXT_DUE', 'INTEGER NOT NULL DEFAULT 0');
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'OCCURRENCE_OFFSET_DAYS', 'INTEGER NOT NULL DEFAULT 0');
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'YEARLY_MONTH', 'INTEGER');
+    }
+  },
+  {
+    version: 5,
+    description: 'TASK_EVENTS: イベントログテーブルと索引を追加',
+    up: async (ctx) => {
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS TASK_EVENTS (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          CREATED_AT TEXT NOT NULL,
+          KIND TEXT NOT NULL,
+          SOURCE TEXT NOT NULL CHECK(SOURCE IN ('user','system')),
+          TASK_ID INTEGER,
+          OCCURRENCE_ID INTEGER,
+          DETAILS TEXT,
+          FOREIGN KEY (TASK_ID) REFERENCES TASKS(ID) ON DELETE SET NULL,
+          FOREIGN KEY (OCCURRENCE_ID) REFERENCES TASK_OCCURRENCES(ID) ON DELETE SET NULL
+        )`
+      );
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_TASK_EVENTS_TASK_CREATED ON TASK_EVENTS (TASK_ID, CREATED_AT)');
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_TASK_EVENTS_OCC ON TASK_EVENTS (OCCURRENCE_ID)');
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_TASK_EVENTS_KIND_CREATED ON TASK_EVENTS (KIND, CREATED_AT)');
+    }
+  },
+  {
+    version: 6,
+    description: 'TASKS.REQUIRE_COMPLETE_COMMENT / TASK_OCCURRENCES.DEFERRED_DATE を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('TASKS', 'REQUIRE_COMPLETE_COMMENT', 'INTEGER NOT NULL DEFAULT 0');
+      await ctx.addColumnIfMissing('TASK_OCCURRENCES', 'DEFERRED_DATE', 'TEXT');
+    }
+  },
+  {
+    version: 7,
+    description: 'TASK_FILE_LINKS: タスクとファイルの関連テーブルを追加',
+    up: async (ctx) => {
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS TASK_FILE_LINKS (
+          TASK_ID INTEGER NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
+          FILE_SHA256 TEXT NOT NULL,
+          CREATED_AT TEXT,
+          UPDATED_AT TEXT,
+          PRIMARY KEY (TASK_ID, FILE_SHA256)
+        )`
+      );
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_TASK_FILE_LINKS_SHA ON TASK_FILE_LINKS (FILE_SHA256)');
+    }
+  },
+  {
+    version: 8,
+    description: 'RECURRENCE_RULES.HOLIDAY_POLICY（土日・祝日に当たる回の扱い）を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'HOLIDAY_POLICY', "TEXT NOT NULL DEFAULT 'keep'");
+    }
+  },
+  {
+    version: 9,
+    description: 'CALENDARS / CALENDAR_ENTRIES（ユーザー定義の休業日カレンダー）と RECURRENCE_RULES.CALENDAR_ID を追加',
+    up: async (ctx) => {
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS CALENDARS (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          NAME TEXT NOT NULL UNIQUE,
+          DESCRIPTION TEXT,
+          CREATED_AT TEXT,
+          UPDATED_AT TEXT
+        )`
+      );
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS CALENDAR_ENTRIES (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          CALENDAR_ID INTEGER NOT NULL REFERENCES CALENDARS(ID) ON DELETE CASCADE,
+          START_DATE TEXT NOT NULL,
+          END_DATE TEXT NOT NULL,
+          LABEL TEXT,
+          CREATED_AT TEXT,
+          UPDATED_AT TEXT
+        )`
+      );
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_CALENDAR_ENTRIES_CAL_DATE ON CALENDAR_ENTRIES (CALENDAR_ID, START_DATE)');
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'CALENDAR_ID', 'INTEGER REFERENCES CALENDARS(ID) ON DELETE SET NULL');
+    }
+  },
+  {
+    version: 10,
+    description: 'RECURRENCE_RULES.MONTHLY_BUSINESS_DAY（毎月の第N営業日／月末から第N営業日）を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'MONTHLY_BUSINESS_DAY', 'INTEGER');
+    }
+  },
+  {
+    version: 11,
+    description: 'RECURRENCE_RULES.MONTHLY_DAYS / MONTHLY_NTH_PAIRS（毎月の複数日・複数の第N曜日）を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'MONTHLY_DAYS', 'TEXT');
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'MONTHLY_NTH_PAIRS', 'TEXT');
+    }
+  },
+  {
+    version: 12,
+    description: 'RECURRENCE_EXTRA_RULES / RECURRENCE_EXTRA_DATES（追加ルール・追加日付）と TASK_OCCURRENCES.SOURCE / EXTRA_RULE_ID を追加',
+    up: async (ctx) => {
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS RECURRENCE_EXTRA_RULES (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          TASK_ID INTEGER NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
+          POSITION INTEGER NOT NULL DEFAULT 0,
+          FREQ TEXT NOT NULL CHECK(FREQ IN ('daily','weekly','monthly','yearly')),
+          INTERVAL INTEGER NOT NULL DEFAULT 1 CHECK(INTERVAL > 0),
+          WEEKLY_DOWS INTEGER,
+          MONTHLY_DAY INTEGER,
+          MONTHLY_DAYS TEXT,
+          MONTHLY_NTH INTEGER,
+          MONTHLY_NTH_DOW INTEGER,
+          MONTHLY_NTH_PAIRS TEXT,
+          MONTHLY_BUSINESS_DAY INTEGER,
+          YEARLY_MONTH INTEGER,
+          CREATED_AT TEXT,
+          UPDATED_AT TEXT
+        )`
+      );
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_EXTRA_RULES_TASK ON RECURRENCE_EXTRA_RULES (TASK_ID, POSITION)');
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS RECURRENCE_EXTRA_DATES (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          TASK_ID INTEGER NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
+          EXTRA_DATE TEXT NOT NULL,
+          CREATED_AT TEXT,
+          UNIQUE(TASK_ID, EXTRA_DATE)
+        )`
+      );
+      await ctx.addColumnIfMissing('TASK_OCCURRENCES', 'SOURCE', 'TEXT');
+      await ctx.addColumnIfMissing('TASK_OCCURRENCES', 'EXTRA_RULE_ID', 'INTEGER REFERENCES RECURRENCE_EXTRA_RULES(ID) ON DELETE SET NULL');
+    }
+  },
+  {
+    version: 13,
+    description: "RECURRENCE_RULES.FREQ に 'dates'（日付リスト）を追加し、RECURRENCE_DATES を追加",
+    up: async (ctx) => {
+      // SQLite は CHECK 制約を変更できないため、RECURRENCE_RULES を作り直して行を移す
+      // （RECURRENCE_RULES を参照する外部キーは無いので、作り直しても他の表には影響しない）
+      await ctx.run(
+        `CREATE TABLE RECURRENCE_RULES_V13 (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          TASK_ID INTEGER UNIQUE NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
+          FREQ TEXT NOT NULL CHECK(FREQ IN ('daily','weekly','monthly','yearly','dates')),
+          INTERVAL INTEGER NOT NULL DEFAULT 1 CHECK(INTERVAL > 0),
+          END_KIND TEXT NOT NULL DEFAULT 'none' CHECK(END_KIND IN ('none','until','count')),
+          UNTIL_DATE TEXT,
+          COUNT INTEGER,
+          INTERVAL_ANCHOR TEXT NOT NULL DEFAULT 'scheduled',
+          MANUAL_NEXT_DUE INTEGER NOT NULL DEFAULT 0,
+          OCCURRENCE_OFFSET_DAYS INTEGER NOT NULL DEFAULT 0,
+          HOLIDAY_POLICY TEXT NOT NULL DEFAULT 'keep',
+          CALENDAR_ID INTEGER REFERENCES CALENDARS(ID) ON DELETE SET NULL,
+          HORIZON_DAYS INTEGER DEFAULT 14,
+          WEEKLY_DOWS INTEGER DEFAULT 0,
+          MONTHLY_DAY INTEGER,
+          MONTHLY_NTH INTEGER,
+          MONTHLY_NTH_DOW INTEGER,
+          MONTHLY_DAYS TEXT,
+          MONTHLY_NTH_PAIRS TEXT,
+          MONTHLY_BUSINESS_DAY INTEGER,
+          YEARLY_MONTH INTEGER,
+          CREATED_AT TEXT,
+          UPDATED_AT TEXT
+        )`
+      );
+      await ctx.run(
+        `INSERT INTO RECURRENCE_RULES_V13 (ID, TASK_ID, FREQ, INTERVAL, END_KIND, UNTIL_DATE, COUNT, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, HOLIDAY_POLICY, CALENDAR_ID, HORIZON_DAYS, WEEKLY_DOWS, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, MONTHLY_DAYS, MONTHLY_NTH_PAIRS, MONTHLY_BUSINESS_DAY, YEARLY_MONTH, CREATED_AT, UPDATED_AT)
+         SELECT ID, TASK_ID, FREQ, INTERVAL, END_KIND, UNTIL_DATE, COUNT, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, HOLIDAY_POLICY, CALENDAR_ID, HORIZON_DAYS, WEEKLY_DOWS, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, MONTHLY_DAYS, MONTHLY_NTH_PAIRS, MONTHLY_BUSINESS_DAY, YEARLY_MONTH, CREATED_AT, UPDATED_AT FROM RECURRENCE_RULES`
+      );
+      await ctx.run('DROP TABLE RECURRENCE_RULES');
+      await ctx.run('ALTER TABLE RECURRENCE_RULES_V13 RENAME TO RECURRENCE_RULES');
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_RULES_TASK ON RECURRENCE_RULES (TASK_ID)');
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS RECURRENCE_DATES (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          TASK_ID INTEGER NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
+          LIST_DATE TEXT NOT NULL,
+          LIST_TIME TEXT,
+          CREATED_AT TEXT,
+          UNIQUE(TASK_ID, LIST_DATE)
+        )`
+      );
+    }
+  },
+  {
+    version: 14,
+    description: "RECURRENCE_RULES.FREQ に 'cron'（cron 式）を追加し、CRON_EXPR 列を追加",
+    up: async (ctx) => {
+      // 版数 13 と同じく CHECK 制約を変えるために作り直す
+      await ctx.run(
+        `CREATE TABLE RECURRENCE_RULES_V14 (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          TASK_ID INTEGER UNIQUE NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
+          FREQ TEXT NOT NULL CHECK(FREQ IN ('daily','weekly','monthly','yearly','dates','cron')),
+          INTERVAL INTEGER NOT NULL DEFAULT 1 CHECK(INTERVAL > 0),
+          END_KIND TEXT NOT NULL DEFAULT 'none' CHECK(END_KIND IN ('none','until','count')),
+          UNTIL_DATE TEXT,
+          COUNT INTEGER,
+          INTERVAL_ANCHOR TEXT NOT NULL DEFAULT 'scheduled',
+          MANUAL_NEXT_DUE INTEGER NOT NULL DEFAULT 0,
+          OCCURRENCE_OFFSET_DAYS INTEGER NOT NULL DEFAULT 0,
+          HOLIDAY_POLICY TEXT NOT NULL DEFAULT 'keep',
+          CALENDAR_ID INTEGER REFERENCES CALENDARS(ID) ON DELETE SET NULL,
+          HORIZON_DAYS INTEGER DEFAULT 14,
+          WEEKLY_DOWS INTEGER DEFAULT 0,
+          MONTHLY_DAY INTEGER,
+          MONTHLY_NTH INTEGER,
+          MONTHLY_NTH_DOW INTEGER,
+          MONTHLY_DAYS TEXT,
+          MONTHLY_NTH_PAIRS TEXT,
+          MONTHLY_BUSINESS_DAY INTEGER,
+          YEARLY_MONTH INTEGER,
+          CRON_EXPR TEXT,
+          CREATED_AT TEXT,
+          UPDATED_AT TEXT
+        )`
+      );
+      await ctx.run(
+        `INSERT INTO RECURRENCE_RULES_V14 (ID, TASK_ID, FREQ, INTERVAL, END_KIND, UNTIL_DATE, COUNT, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, HOLIDAY_POLICY, CALENDAR_ID, HORIZON_DAYS, WEEKLY_DOWS, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, MONTHLY_DAYS, MONTHLY_NTH_PAIRS, MONTHLY_BUSINESS_DAY, YEARLY_MONTH, CREATED_AT, UPDATED_AT)
+         SELECT ID, TASK_ID, FREQ, INTERVAL, END_KIND, UNTIL_DATE, COUNT, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, HOLIDAY_POLICY, CALENDAR_ID, HORIZON_DAYS, WEEKLY_DOWS, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, MONTHLY_DAYS, MONTHLY_NTH_PAIRS, MONTHLY_BUSINESS_DAY, YEARLY_MONTH, CREATED_AT, UPDATED_AT FROM RECURRENCE_RULES`
+      );
+      await ctx.run('DROP TABLE RECURRENCE_RULES');
+      await ctx.run('ALTER TABLE RECURRENCE_RULES_V14 RENAME TO RECURRENCE_RULES');
+      await ctx.run('CREATE INDEX IF NOT EXISTS IDX_RULES_TASK ON RECURRENCE_RULES (TASK_ID)');
+    }
+  },
+  {
+    version: 15,
+    description: 'RECURRENCE_RULES.TIMES_OF_DAY（1日の時刻リスト。1日に複数回の発生）を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'TIMES_OF_DAY', 'TEXT');
+    }
+  },
+  {
+    version: 16,
+    description: 'RECURRENCE_RULES.EFFECTIVE_FROM / RULE_VERSION と RECURRENCE_RULE_VERSIONS（ルールの以前の版）を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'EFFECTIVE_FROM', 'TEXT');
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'RULE_VERSION', 'INTEGER NOT NULL DEFAULT 1');
+      await ctx.run(
+        `CREATE TABLE IF NOT EXISTS RECURRENCE_RULE_VERSIONS (
+          ID INTEGER PRIMARY KEY AUTOINCREMENT,
+          TASK_ID INTEGER NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
+          VERSION INTEGER NOT NULL,
+          EFFECTIVE_FROM TEXT,
+          EFFECTIVE_TO TEXT NOT NULL,
+          START_TIME TEXT,
+          FREQ TEXT NOT NULL,
+          INTERVAL INTEGER NOT NULL DEFAULT 1,
+          INTERVAL_ANCHOR TEXT NOT NULL DEFAULT 'scheduled',
+          END_KIND TEXT NOT NULL DEFAULT 'none',
+          UNTIL_DATE TEXT,
+          COUNT INTEGER,
+          OCCURRENCE_OFFSET_DAYS INTEGER NOT NULL DEFAULT 0,
+          HOLIDAY_POLICY TEXT NOT NULL DEFAULT 'keep',
+          CALENDAR_ID INTEGER REFERENCES CALENDARS(ID) ON DELETE SET NULL,
+          HORIZON_DAYS INTEGER,
+          WEEKLY_DOWS INTEGER,
+          MONTHLY_DAY INTEGER,
+          MONTHLY_DAYS TEXT,
+          MONTHLY_NTH INTEGER,
+          MONTHLY_NTH_DOW INTEGER,
+          MONTHLY_NTH_PAIRS TEXT,
+          MONTHLY_BUSINESS_DAY INTEGER,
+          YEARLY_MONTH INTEGER,
+          CRON_EXPR TEXT,
+          TIMES_OF_DAY TEXT,
+          CREATED_AT TEXT,
+          UNIQUE(TASK_ID, VERSION)
+        )`
+      );
+    }
+  },
+  {
+    version: 17,
+    description: 'RECURRENCE_RULES.GENERATED_THROUGH（オカレンスの生成済みの範囲）を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULES', 'GENERATED_THROUGH', 'TEXT');
+    }
+  },
+  {
+    version: 18,
+    description: 'RECURRENCE_RULE_VERSIONS.SUPERSEDED_AT（すべての回の変更で置き換えた版を履歴として残す）を追加',
+    up: async (ctx) => {
+      await ctx.addColumnIfMissing('RECURRENCE_RULE_VERSIONS', 'SUPERSEDED_AT', 'TEXT');
+    }
+  }
+];
+
+// タスクの作成時に登録する例外（正規化済み）
+type RecurrenceExceptionInput = { date: string; action: 'skip' | 'reschedule'; newDate: string | null; newTime: string | null };
+
+// RECURRENCE_RULES.GENERATED_THROUGH の値のうち、今日によらずすべての回を作ったことを表すもの（回数指定・日付リスト・完了基準・単発）
+const GENERATED_ALL = '9999-12-31';
+
+function taskDbTooNewMessage(userVersion: number): string {
+  return `このタスクDBは新しいバージョンのアプリで作成されています（スキーマ版数 ${userVersion} / 対応版数 ${TASK_DB_SCHEMA_VERSION}）。アプリを更新するか、別のDBファイルを選択してください。`;
+}
 
 export class TaskDatabase {
   private db: sqlite3.Database | null = null;
   private dbPath: string;
+  private appliedMigrations: Array<{ version: number; description: string }> = [];
+  // カレンダーID → 休業日の集合。カレンダーの変更時と JSON 取り込み時に破棄する
+  private calendarDatesCache = new Map<number, Set<string>>();
+  // ルールや回の変更で生成し直しが必要になったときに呼ぶ（オカレンス生成のスケジューラが登録する）
+  private generationListener: (() => void) | null = null;
+  // 書き込みの順番待ち（exclusive を参照）
+  private writeQueue: Promise<unknown> = Promise.resolve();
 
   constructor(dbPath: string) {
     this.dbPath = dbPath;
@@ -32,84 +436,92 @@ export class TaskDatabase {
 
   private async createTables(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
+    // 新しいバージョンのアプリで作られたDBには一切書き込まない
+    const current = await this.readUserVersion();
+    if (current > TASK_DB_SCHEMA_VERSION) {
+      throw new Error(taskDbTooNewMessage(current));
+    }
+    const existing = await this.get<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'TASKS'");
     const schemaPath = this.resolveSchemaPath();
     const sql = fs.readFileSync(schemaPath, 'utf-8');
     await new Promise<void>((resolve, reject) => {
       this.db!.exec(sql, (err) => (err ? reject(err) : resolve()));
     });
-    // Lightweight migrations for added columns
-    await this.migrateSchema();
+    if (!existing) {
+      // 新規DBはスキーマファイルが最新形なので、マイグレーションを経ずに最新版として記録
+      await this.run(`PRAGMA user_version = ${TASK_DB_SCHEMA_VERSION}`);
+      return;
+    }
+    await this.migrateSchema(current);
   }
 
-  private async migrateSchema(): Promise<void> {
+  private async readUserVersion(): Promise<number> {
+    const row = await this.get<{ user_version: number }>('PRAGMA user_version');
+    return Number(row?.user_version ?? 0) || 0;
+  }
+
+  /**
+   * user_version より新しい番号のマイグレーションを順に適用する。
+   * 各マイグレーションは1トランザクションで実行し、同じトランザクション内で user_version を更新する。
+   */
+  private async migrateSchema(fromVersion: number): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
-    // RECURRENCE_RULES: add HORIZON_DAYS if missing
-    const cols: Array<{ name: string }> = await this.all<any>("PRAGMA table_info('RECURRENCE_RULES')");
-    const hasHorizon = cols.some(c => String(c.name).toUpperCase() === 'HORIZON_DAYS');
-    if (!hasHorizon) {
-      await this.run("ALTER TABLE RECURRENCE_RULES ADD COLUMN HORIZON_DAYS INTEGER DEFAULT 14");
-    }
-    const hasIntervalAnchor = cols.some(c => String(c.name).toUpperCase() === 'INTERVAL_ANCHOR');
-    if (!hasIntervalAnchor) {
-      await this.run("ALTER TABLE RECURRENCE_RULES ADD COLUMN INTERVAL_ANCHOR TEXT NOT NULL DEFAULT 'scheduled'");
-    }
-    const hasWeeklyDows = cols.some(c => String(c.name).toUpperCase() === 'WEEKLY_DOWS');
-    if (!hasWeeklyDows) {
-      await this.run("ALTER TABLE RECURRENCE_RULES ADD COLUMN WEEKLY_DOWS INTEGER DEFAULT 0");
-    }
-    const hasManualNextDue = cols.some(c => String(c.name).toUpperCase() === 'MANUAL_NEXT_DUE');
-    if (!hasManualNextDue) {
-      await this.run("ALTER TABLE RECURRENCE_RULES ADD COLUMN MANUAL_NEXT_DUE INTEGER NOT NULL DEFAULT 0");
-    }
-    const hasOffset = cols.some(c => String(c.name).toUpperCase() === 'OCCURRENCE_OFFSET_DAYS');
-    if (!hasOffset) {
-      await this.run("ALTER TABLE RECURRENCE_RULES ADD COLUMN OCCURRENCE_OFFSET_DAYS INTEGER NOT NULL DEFAULT 0");
-    }
-    const hasYearlyMonth = cols.some(c => String(c.name).toUpperCase() === 'YEARLY_MONTH');
-    if (!hasYearlyMonth) {
-      await this.run("ALTER TABLE RECURRENCE_RULES ADD COLUMN YEARLY_MONTH INTEGER");
+    for (const migration of TASK_DB_MIGRATIONS) {
+      if (migration.version <= fromVersion) continue;
+      await this.withTransaction(async () => {
+        await migration.up(this.migrationContext());
+        await this.run(`PRAGMA user_version = ${migration.version}`);
+        try {
+          await this.logEvent('schema_migrated', 'system', null, null, {
+            version: migration.version,
+            description: migration.description,
+            from: fromVersion
+          });
+        } catch {}
+      });
+      this.appliedMigrations.push({ version: migration.version, description: migration.description });
     }
-    // TASK_EVENTS: ensure table and indexes exist
-    await this.run(
-      `CREATE TABLE IF NOT EXISTS TASK_EVENTS (
-        ID INTEGER PRIMARY KEY AUTOINCREMENT,
-        CREATED_AT TEXT NOT NULL,
-        KIND TEXT NOT NULL,
-        SOURCE TEXT NOT NULL CHECK(SOURCE IN ('user','system')),
-        TASK_ID INTEGER,
-        OCCURRENCE_ID INTEGER,
-        DETAILS TEXT,
-        FOREIGN KEY (TASK_ID) REFERENCES TASKS(ID) ON DELETE SET NULL,
-        FOREIGN KEY (OCCURRENCE_ID) REFERENCES TASK_OCCURRENCES(ID) ON DELETE SET NULL
-      )`
-    );
-    await this.run(`CREATE INDEX IF NOT EXISTS IDX_TASK_EVENTS_TASK_CREATED ON TASK_EVENTS (TASK_ID, CREATED_AT)`);
-    await this.run(`CREATE INDEX IF NOT EXISTS IDX_TASK_EVENTS_OCC ON TASK_EVENTS (OCCURRENCE_ID)`);
-    await this.run(`CREATE INDEX IF NOT EXISTS IDX_TASK_EVENTS_KIND_CREATED ON TASK_EVENTS (KIND, CREATED_AT)`);
+  }
 
-    // TASKS: REQUIRE_COMPLETE_COMMENT
-    const tcols: Array<{ name: string }> = await this.all<any>("PRAGMA table_info('TASKS')");
-    const hasReqComment = tcols.some(c => String(c.name).toUpperCase() === 'REQUIRE_COMPLETE_COMMENT');
-    if (!hasReqComment) {
-      await this.run("ALTER TABLE TASKS ADD COLUMN REQUIRE_COMPLETE_COMMENT INTEGER NOT NULL DEFAULT 0");
-    }
+  private migrationContext(): TaskDbMigrationContext {
+    return {
+      run: (sql, params) => this.run(sql, params),
+      hasColumn: async (table, column) => {
+        const cols: Array<{ name: string }> = await this.all<any>(`PRAGMA table_info('${table}')`);
+        return cols.some(c => String(c.name).toUpperCase() === column.toUpperCase());
+      },
+      addColumnIfMissing: async (table, column, definition) => {
+        const cols: Array<{ name: string }> = await this.all<any>(`PRAGMA table_info('${table}')`);
+        if (cols.some(c => String(c.name).toUpperCase() === column.toUpperCase())) return;
+        await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    };
+  }
 
-    const ocols: Array<{ name: string }> = await this.all<any>("PRAGMA table_info('TASK_OCCURRENCES')");
-    const hasDeferred = ocols.some(c => String(c.name).toUpperCase() === 'DEFERRED_DATE');
-    if (!hasDeferred) {
-      await this.run("ALTER TABLE TASK_OCCURRENCES ADD COLUMN DEFERRED_DATE TEXT");
-    }
+  /** 今回の init() で適用したマイグレーション（起動ログ用） */
+  getAppliedMigrations(): Array<{ version: number; description: string }> {
+    return [...this.appliedMigrations];
+  }
 
-    await this.run(
-      `CREATE TABLE IF NOT EXISTS TASK_FILE_LINKS (
-        TASK_ID INTEGER NOT NULL REFERENCES TASKS(ID) ON DELETE CASCADE,
-        FILE_SHA256 TEXT NOT NULL,
-        CREATED_AT TEXT,
-        UPDATED_AT TEXT,
-        PRIMARY KEY (TASK_ID, FILE_SHA256)
-      )`
-    );
-    await this.run('CREATE INDEX IF NOT EXISTS IDX_TASK_FILE_LINKS_SHA ON TASK_FILE_LINKS (FILE_SHA256)');
+  /**
+   * DBファイルを読み取り専用で開き、スキーマ版数がこのアプリで扱えるかを調べる。
+   * ファイルが存在しない場合は新規作成扱い（userVersion=0）。
+   */
+  static async inspectSchemaVersion(dbPath: string): Promise<{ userVersion: number; latestVersion: number; supported: boolean; message: string | null }> {
+    const latestVersion = TASK_DB_SCHEMA_VERSION;
+    if (!dbPath || !fs.existsSync(dbPath)) {
+      return { userVersion: 0, latestVersion, supported: true, message: null };
+    }
+    const userVersion = await new Promise<number>((resolve, reject) => {
+      const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY, (openErr) => {
+        if (openErr) return reject(openErr);
+        db.get('PRAGMA user_version', [], (err, row: any) => {
+          db.close(() => (err ? reject(err) : resolve(Number(row?.user_version ?? 0) || 0)));
+        });
+      });
+    });
+    const supported = userVersion <= latestVersion;
+    return { userVersion, latestVersion, supported, message: supported ? null : taskDbTooNewMessage(userVersion) };
   }
 
   private async logEvent(kind: string, source: 'user' | 'system', taskId?: number | null, occurrenceId?: number | null, details?: any): Promise<void> {
@@ -131,12 +543,26 @@ export class TaskDatabase {
     return this.db;
   }
 
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  /** 開いたままのDBを VACUUM INTO で一貫したスナップショットとして書き出す（destPath は未存在であること） */
+  async backupTo(destPath: string): Promise<void> {
+    return this.exclusive(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+      await this.run('VACUUM INTO ?', [destPath]);
+    });
+  }
+
   async close(): Promise<void> {
-    await new Promise<void>((resolve, reject) => {
-      if (!this.db) return resolve();
-      this.db.close((err) => (err ? reject(err) : resolve()));
+    return this.exclusive(async () => {
+      await new Promise<void>((resolve, reject) => {
+        if (!this.db) return resolve();
+        this.db.close((err) => (err ? reject(err) : resolve()));
+      });
+      this.db = null;
     });
-    this.db = null;
   }
 
   // ===== Tasks CRUD (minimum) =====
@@ -150,43 +576,6 @@ export class TaskDatabase {
   }
 
   // ===== Occurrences (recurring instances) =====
-  private clampMonthlyDate(year: number, monthIndex0: number, day: number): string {
-    const last = new Date(year, monthIndex0 + 1, 0).getDate();
-    const d = Math.min(Math.max(day, 1), last);
-    const dt = new Date(year, monthIndex0, d);
-    const y = dt.getFullYear();
-    const m = String(dt.getMonth() + 1).padStart(2, '0');
-    const da = String(dt.getDate()).padStart(2, '0');
-    return `${y}-${m}-${da}`;
-  }
-
-  private nthWeekdayOfMonth(year: number, monthIndex0: number, nth: number, dow: number): string {
-    // nth: 1..5 or -1=last; dow: 0..6 (Sun..Sat)
-    const first = new Date(year, monthIndex0, 1);
-    const firstDow = first.getDay();
-    if (nth === -1) {
-      const lastDay = new Date(year, monthIndex0 + 1, 0).getDate();
-      const lastDate = new Date(year, monthIndex0, lastDay);
-      const lastDow = lastDate.getDay();
-      const diff = (lastDow - dow + 7) % 7;
-      const day = lastDay - diff;
-      const dt = new Date(year, monthIndex0, day);
-      const y = dt.getFullYear();
-      const m = String(dt.getMonth() + 1).padStart(2, '0');
-      const da = String(dt.getDate()).padStart(2, '0');
-      return `${y}-${m}-${da}`;
-    }
-    const offset = (dow - firstDow + 7) % 7;
-    let day = 1 + offset + (nth - 1) * 7;
-    const last = new Date(year, monthIndex0 + 1, 0).getDate();
-    if (day > last) day -= 7; // clamp to previous week if 5th doesn't exist
-    const dt = new Date(year, monthIndex0, day);
-    const y = dt.getFullYear();
-    const m = String(dt.getMonth() + 1).padStart(2, '0');
-    const da = String(dt.getDate()).padStart(2, '0');
-    return `${y}-${m}-${da}`;
-  }
-
   private normalizeDateOnly(value?: string | null): string {
     const raw = (value ?? '').trim();
     if (!raw) throw new Error('延期日付が指定されていません');
@@ -214,22 +603,56 @@ export class TaskDatabase {
     return new Date(yy, (mm ?? 1) - 1, dd ?? 1);
   }
 
-  private applyOccurrenceOffset(baseDateStr: string, offsetDays: number): string {
-    if (!offsetDays) return baseDateStr;
-    const baseDate = this.parseDateOnlyStrict(baseDateStr);
-    const shifted = new Date(baseDate);
-    shifted.setDate(baseDate.getDate() + offsetDays);
-    return this.dateToYmd(shifted);
-  }
-
   private occurrenceAnchorDate(startDateStr: string | null | undefined, offsetDays: number): string | null {
     if (!startDateStr) return null;
     const start = this.parseDateOnlyStrict(startDateStr);
-    const actual = this.parseDateOnlyStrict(this.applyOccurrenceOffset(startDateStr, offsetDays));
+    const actual = this.parseDateOnlyStrict(addDaysYmd(startDateStr, offsetDays));
     const anchor = actual < start ? actual : start;
     return this.dateToYmd(anchor);
   }
 
+  private normalizeHolidayPolicy(value: any): HolidayShiftPolicy {
+    const v = String(value || 'keep') as HolidayShiftPolicy;
+    return HOLIDAY_SHIFT_POLICIES.includes(v) ? v : 'keep';
+  }
+
+  // 毎月の営業日指定: 1..23 は月初から第N営業日、-1..-23 は月末から第N営業日（-1 = 最終営業日）
+  private normalizeMonthlyBusinessDay(value: any): number {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) > MAX_MONTHLY_BUSINESS_DAY) {
+      throw new Error(`営業日の指定が不正です（1〜${MAX_MONTHLY_BUSINESS_DAY} または 月末から1〜${MAX_MONTHLY_BUSINESS_DAY}）: ${value}`);
+    }
+    return n;
+  }
+
+  // 毎月の日付（複数可）。monthlyDays（配列）があれば優先し、なければ monthlyDay の1件。範囲外は除き昇順・重複なし
+  private normalizeMonthlyDays(rec: any): number[] {
+    const list = Array.isArray(rec && rec.monthlyDays) ? rec.monthlyDays : [rec && rec.monthlyDay];
+    return parseMonthlyDayList(list.filter((d: any) => d != null).join(','));
+  }
+
+  // 毎月の第N曜日（複数可）。monthlyNthPairs（配列）があれば優先し、なければ monthlyNth / monthlyNthDow の1組
+  private normalizeMonthlyNthPairs(rec: any): MonthlyNthPair[] {
+    const list: any[] = Array.isArray(rec && rec.monthlyNthPairs)
+      ? rec.monthlyNthPairs
+      : [{ nth: rec && rec.monthlyNth, dow: rec && rec.monthlyNthDow }];
+    return parseMonthlyNthPairList(list.filter((x) => x && x.nth != null && x.dow != null).map((x) => `${x.nth}:${x.dow}`).join(','));
+  }
+
+  // 月次・年次の INTERVAL（Nヶ月ごと / N年ごと）。不正値は 1 とし、上限で丸める
+  private normalizePeriodInterval(rec: any, max: number): number {
+    const n = Math.floor(Number(rec && rec.interval));
+    if (!Number.isFinite(n) || n < 1) return 1;
+    return Math.min(n, max);
+  }
+
+  // 生成ウィンドウ（HORIZON_DAYS）。不正値は既定の14日とし、365日で丸める
+  private normalizeHorizonDays(rec: any): number {
+    const n = Number(rec && rec.horizonDays);
+    if (!Number.isFinite(n) || n <= 0) return DEFAULT_DAILY_HORIZON_DAYS;
+    return Math.min(Math.floor(n) || 1, 365);
+  }
+
   private normalizeOccurrenceOffset(value: any): number {
     const n = Number(value);
     if (!Number.isFinite(n)) return 0;
@@ -239,414 +662,901 @@ export class TaskDatabase {
     return rounded;
   }
 
-  private static readonly MONTHLY_OCCURRENCE_CAP = 240;
-  private static readonly YEARLY_OCCURRENCE_CAP = 200;
+  // RECURRENCE_EXCEPTIONS: 系列上の日付（オフセット適用後の SCHEDULED_DATE）をキーに skip / reschedule を保持する
+  private async loadRecurrenceExceptionMap(taskId: number): Promise<RecurrenceExceptionMap> {
+    const rows = await this.all<any>(
+      `SELECT EXCEPTION_DATE, ACTION, NEW_DATE, NEW_TIME FROM RECURRENCE_EXCEPTIONS WHERE TASK_ID = ? ORDER BY ID ASC`,
+      [taskId]
+    );
+    const map: RecurrenceExceptionMap = new Map();
+    for (const r of rows) {
+      const action = r.ACTION === 'reschedule' ? 'reschedule' : 'skip';
+      map.set(String(r.EXCEPTION_DATE), { action, newDate: r.NEW_DATE ?? null, newTime: r.NEW_TIME ?? null });
+    }
+    return map;
+  }
 
-  private async ensureRecurringMonthlyOccurrences(monthsAhead: number = 2): Promise<void> {
-    // COUNT=0: 現在月〜先N-1ヶ月を生成。COUNT>=1: START_DATE から回数分の月次日付を生成（不足のみ追加）。
-    const now = new Date();
-    const startYear = now.getFullYear();
-    const startMonth0 = now.getMonth();
-    const tasks = await this.all<any>(
-      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME, R.MONTHLY_DAY, R.COUNT,
-              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
-       FROM TASKS T
-       JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID AND R.FREQ = 'monthly'
-       WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0`
+  // END_KIND='until' のときの終了日（YYYY-MM-DD）。それ以外は null。
+  private untilDateOf(endKind: any, untilDate: any): string | null {
+    if (String(endKind || 'none') !== 'until' || !untilDate) return null;
+    const s = String(untilDate).split('T')[0];
+    return /^\d{4}-\d{2}-\d{2}$/.test(s) ? s : null;
+  }
+
+  // 系列上の予定日（オフセット適用後・例外適用前）が終了日を過ぎているか
+  private isAfterUntil(untilDate: string | null, scheduledDate: string): boolean {
+    return !!untilDate && scheduledDate > untilDate;
+  }
+
+  // payload.recurrence の終了条件を正規化する。until が指定された場合は COUNT を使わない。
+  private normalizeRecurrenceEnd(rec: any): { endKind: 'none' | 'until' | 'count'; untilDate: string | null; count: number } {
+    const untilRaw = rec && rec.until ? String(rec.until).trim() : '';
+    if (untilRaw) {
+      const untilDate = untilRaw.split('T')[0];
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(untilDate) || this.dateToYmd(this.parseDateOnlyStrict(untilDate)) !== untilDate) {
+        throw new Error(`終了日の形式が不正です: ${untilRaw}`);
+      }
+      return { endKind: 'until', untilDate, count: 0 };
+    }
+    const count = Math.max(0, Number((rec && rec.count) || 0) || 0);
+    return { endKind: count >= 1 ? 'count' : 'none', untilDate: null, count };
+  }
+
+  // 毎月の複数日・複数の第N曜日を書き込む。MONTHLY_DAY / MONTHLY_NTH には先頭の1件を入れてあり、2件以上のときだけリストを持つ
+  // （1件のみ・他の頻度では NULL）
+  private async writeMonthlySets(taskId: number, monthlyDays: number[], monthlyNthPairs: MonthlyNthPair[]): Promise<void> {
+    await this.run('UPDATE RECURRENCE_RULES SET MONTHLY_DAYS = ?, MONTHLY_NTH_PAIRS = ? WHERE TASK_ID = ?', [
+      monthlyDays.length > 1 ? formatMonthlyDayList(monthlyDays) : null,
+      monthlyNthPairs.length > 1 ? formatMonthlyNthPairList(monthlyNthPairs) : null,
+      taskId
+    ]);
+  }
+
+  // END_KIND / UNTIL_DATE を書き込む。end=null は終了条件なし（手動次回など）。
+  // 祝日の扱い（参照カレンダーを含む）はすべての頻度で共通のため、終了条件と同様にルール行の作成/更新後にまとめて書く
+  // 無限の繰り返しで扱いを変えた場合は、今日以降の未完了オカレンスを作り直す
+  private async writeHolidayShift(taskId: number, policy: HolidayShiftPolicy, calendarId: number | null, now: string): Promise<void> {
+    const before = await this.get<any>(
+      `SELECT COALESCE(HOLIDAY_POLICY,'keep') AS HOLIDAY_POLICY, CALENDAR_ID FROM RECURRENCE_RULES WHERE TASK_ID = ?`,
+      [taskId]
     );
-    for (const t of tasks) {
-      const monthlyDay = Number(t.MONTHLY_DAY);
-      if (!monthlyDay || isNaN(monthlyDay)) continue;
-      const count = Number(t.COUNT || 0);
-      const offsetDays = Number(t.OCCURRENCE_OFFSET_DAYS || 0);
-      if (count >= 1) {
-        if (!t.START_DATE) continue;
-        const anchorDateStr = this.occurrenceAnchorDate(t.START_DATE ?? null, offsetDays) ?? (t.START_DATE ?? null);
-        const startDate = new Date(t.START_DATE as string);
-        let i = 0;
-        while (i < count * 2 && i < TaskDatabase.MONTHLY_OCCURRENCE_CAP) { // safety cap
-          const m0 = (startDate.getMonth() + i) % 12;
-          const y = startDate.getFullYear() + Math.floor((startDate.getMonth() + i) / 12);
-          const baseDateStr = this.clampMonthlyDate(y, m0, monthlyDay);
-          i++;
-          if (new Date(baseDateStr) < startDate) continue;
-          const scheduledDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-          const exists = await this.get<any>(
-            `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`,
-            [t.TASK_ID, scheduledDate]
-          );
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-              [t.TASK_ID, scheduledDate, t.START_TIME || null, nowIso, nowIso]
-            );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'monthly.ensure.count', date: scheduledDate }); } catch {}
-          }
-          // Stop once we ensured up to COUNT future dates exist (we don't delete here)
-          const ensuredLowerBound = anchorDateStr ?? t.START_DATE;
-          const ensured = await this.get<any>(`SELECT COUNT(1) AS C FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE >= ?`, [t.TASK_ID, ensuredLowerBound]);
-          if (ensured && Number(ensured.C) >= count) break;
-        }
-      } else {
-        for (let i = 0; i < monthsAhead; i++) {
-          const m0 = (startMonth0 + i) % 12;
-          const y = startYear + Math.floor((startMonth0 + i) / 12);
-          const baseDateStr = this.clampMonthlyDate(y, m0, monthlyDay);
-          if (t.START_DATE && new Date(baseDateStr) < new Date(t.START_DATE)) continue;
-          const scheduledDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-          const exists = await this.get<any>(
-            `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`,
-            [t.TASK_ID, scheduledDate]
-          );
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-              [t.TASK_ID, scheduledDate, t.START_TIME || null, nowIso, nowIso]
-            );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'monthly.ensure.window', date: scheduledDate }); } catch {}
-          }
-        }
+    await this.run('UPDATE RECURRENCE_RULES SET HOLIDAY_POLICY = ?, CALENDAR_ID = ?, UPDATED_AT = ? WHERE TASK_ID = ?', [policy, calendarId, now, taskId]);
+    if (!before) return;
+    const beforeCalendarId = before.CALENDAR_ID != null ? Number(before.CALENDAR_ID) : null;
+    if (before.HOLIDAY_POLICY === policy && beforeCalendarId === calendarId) return;
+    await this.dropPendingForRealign(taskId, { reason: 'holidayPolicy.realign', from: before.HOLIDAY_POLICY, to: policy, calendarFrom: beforeCalendarId, calendarTo: calendarId });
+  }
+
+  // 無限（COUNT=0）かつ手動次回でない繰り返しについて、今日以降の未完了オカレンス（延期中を除く）を消して次回の生成で作り直す。
+  // includeFinite を指定すると回数指定の繰り返しも対象にする（呼び出し側で回数の突き合わせを行う場合）
+  private async dropPendingForRealign(taskId: number, details: Record<string, any>, includeFinite: boolean = false): Promise<void> {
+    const rule = await this.get<any>(
+      `SELECT COUNT, COALESCE(MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE FROM RECURRENCE_RULES WHERE TASK_ID = ?`,
+      [taskId]
+    );
+    if (!rule || (!includeFinite && Number(rule.COUNT || 0) >= 1) || Number(rule.MANUAL_NEXT_DUE) === 1) return;
+    const pendings = await this.all<any>(
+      `SELECT ID, SCHEDULED_DATE FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND STATUS = 'pending' AND SCHEDULED_DATE >= ? AND DEFERRED_DATE IS NULL`,
+      [taskId, todayYmd()]
+    );
+    for (const occ of pendings) {
+      await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+      try { await this.logEvent('occ.delete', 'system', taskId, occ.ID, { ...details, date: occ.SCHEDULED_DATE }); } catch {}
+    }
+    await this.markGenerationStale(taskId);
+  }
+
+  // 参照カレンダーの休業日が変わったとき、そのカレンダーを使うルールのオカレンスを合わせ直す
+  private async realignCalendarRules(calendarId: number, reason: string): Promise<void> {
+    this.calendarDatesCache.delete(calendarId);
+    const rules = await this.all<any>(
+      `SELECT TASK_ID, COUNT FROM RECURRENCE_RULES
+        WHERE CALENDAR_ID = ? AND (COALESCE(HOLIDAY_POLICY,'keep') != 'keep' OR MONTHLY_BUSINESS_DAY IS NOT NULL)`,
+      [calendarId]
+    );
+    for (const r of rules) {
+      const taskId = Number(r.TASK_ID);
+      if (Number(r.COUNT || 0) >= 1) await this.reconcileOccurrencesForTask(taskId);
+      else await this.dropPendingForRealign(taskId, { reason, calendarId });
+    }
+  }
+
+  // 参照カレンダーの休業日（キャッシュ付き）。未指定や存在しない場合は null
+  private async closedDatesOf(calendarId: any): Promise<ReadonlySet<string> | null> {
+    if (calendarId == null) return null;
+    const id = Number(calendarId);
+    const cached = this.calendarDatesCache.get(id);
+    if (cached) return cached;
+    const rows = await this.all<any>('SELECT START_DATE, END_DATE FROM CALENDAR_ENTRIES WHERE CALENDAR_ID = ?', [id]);
+    const dates = expandCalendarEntries(rows.map(r => ({ startDate: String(r.START_DATE), endDate: String(r.END_DATE) })));
+    this.calendarDatesCache.set(id, dates);
+    return dates;
+  }
+
+  private async normalizeCalendarId(value: any): Promise<number | null> {
+    if (value == null || value === '') return null;
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) throw new Error('カレンダーIDが不正です');
+    const row = await this.get<any>('SELECT ID FROM CALENDARS WHERE ID = ?', [id]);
+    if (!row) throw new Error('指定したカレンダーが見つかりません');
+    return id;
+  }
+
+  private async writeRecurrenceEnd(taskId: number, end: { endKind: 'none' | 'until' | 'count'; untilDate: string | null } | null, now: string): Promise<void> {
+    await this.run('UPDATE RECURRENCE_RULES SET END_KIND = ?, UNTIL_DATE = ?, UPDATED_AT = ? WHERE TASK_ID = ?',
+      [end ? end.endKind : 'none', end ? end.untilDate : null, now, taskId]);
+  }
+
+  // 終了日より後の未完了オカレンスを削除する（振替済みの回は振替前の日付で判定。追加日付の回は終了日によらず残す）
+  private async pruneOccurrencesAfterUntil(taskId: number, untilDate: string): Promise<void> {
+    const exceptions = await this.loadRecurrenceExceptionMap(taskId);
+    const pendings = await this.all<any>(
+      `SELECT ID, SCHEDULED_DATE, SOURCE, EXTRA_RULE_ID FROM TASK_OCCURRENCES
+        WHERE TASK_ID = ? AND STATUS = 'pending' AND COALESCE(SOURCE,'') != 'date' ORDER BY SCHEDULED_DATE ASC`,
+      [taskId]
+    );
+    for (const occ of pendings) {
+      const rule = await this.occurrenceRuleSpec(taskId, occ.SOURCE, occ.EXTRA_RULE_ID);
+      const seriesDate = seriesDateOf(exceptions, String(occ.SCHEDULED_DATE), rule);
+      if (!this.isAfterUntil(untilDate, seriesDate)) continue;
+      await this.run(`DELETE FROM TASK_OCCURRENCES WHERE ID = ?`, [occ.ID]);
+      try { await this.logEvent('occ.delete', 'system', taskId, occ.ID, { reason: 'until.prune', date: occ.SCHEDULED_DATE, untilDate }); } catch {}
+    }
+  }
+
+  // 展開用ルール（ruleSpecFromRow）に必要な RECURRENCE_RULES の列
+  private static readonly RULE_SPEC_COLUMNS = `R.TASK_ID AS RULE_TASK_ID, R.FREQ, R.INTERVAL, R.INTERVAL_ANCHOR, R.COUNT, R.END_KIND, R.UNTIL_DATE, R.HORIZON_DAYS,
+              R.WEEKLY_DOWS, R.MONTHLY_DAY, R.MONTHLY_DAYS, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.MONTHLY_NTH_PAIRS, R.MONTHLY_BUSINESS_DAY, R.YEARLY_MONTH, R.CRON_EXPR, R.TIMES_OF_DAY,
+              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS, COALESCE(R.HOLIDAY_POLICY,'keep') AS HOLIDAY_POLICY, R.CALENDAR_ID, R.EFFECTIVE_FROM`;
+
+  // FREQ 列と月次の指定列から展開用の頻度を求める（RECURRENCE_RULES / RECURRENCE_EXTRA_RULES 共通）
+  private specFreqOfRow(row: any): RecurrenceFreq | null {
+    const freq = String(row.FREQ || '');
+    if (freq === 'monthly') {
+      if (row.MONTHLY_BUSINESS_DAY != null) return 'monthlyBusinessDay';
+      return (row.MONTHLY_NTH != null && row.MONTHLY_NTH_DOW != null) ? 'monthlyNth' : 'monthly';
+    }
+    return freq === 'daily' || freq === 'weekly' || freq === 'yearly' || freq === 'dates' || freq === 'cron' ? freq : null;
+  }
+
+  // RECURRENCE_RULES の行（TASKS.START_DATE を含む）から展開用のルールを組み立てる（参照カレンダーの休業日を読み込む）
+  // 日付リストは RECURRENCE_DATES を読み込み、回数はリストの件数とする
+  // 日付を指定して変更したルール（EFFECTIVE_FROM あり）は、その適用開始日から展開する
+  private async ruleSpecFromRow(row: any): Promise<RecurrenceRuleSpec | null> {
+    const specFreq = this.specFreqOfRow(row);
+    if (!specFreq) return null;
+    const dateList = specFreq === 'dates' && row.RULE_TASK_ID != null ? await this.loadDateList(Number(row.RULE_TASK_ID)) : null;
+    const seriesStartDate = row.START_DATE ? String(row.START_DATE).split('T')[0] : todayYmd();
+    return {
+      freq: specFreq,
+      startDate: row.EFFECTIVE_FROM ? String(row.EFFECTIVE_FROM) : seriesStartDate,
+      seriesStartDate,
+      interval: Math.max(1, Number(row.INTERVAL || 1)),
+      anchor: String(row.INTERVAL_ANCHOR || 'scheduled') === 'completed' ? 'completed' : 'scheduled',
+      count: dateList ? dateList.length : Math.max(0, Number(row.COUNT || 0) || 0),
+      untilDate: this.untilDateOf(row.END_KIND, row.UNTIL_DATE),
+      offsetDays: Number(row.OCCURRENCE_OFFSET_DAYS || 0),
+      horizonDays: row.HORIZON_DAYS != null ? Number(row.HORIZON_DAYS) : null,
+      weeklyDows: Number(row.WEEKLY_DOWS || 0),
+      monthlyDay: row.MONTHLY_DAY != null ? Number(row.MONTHLY_DAY) : null,
+      monthlyNth: row.MONTHLY_NTH != null ? Number(row.MONTHLY_NTH) : null,
+      monthlyNthDow: row.MONTHLY_NTH_DOW != null ? Number(row.MONTHLY_NTH_DOW) : null,
+      monthlyDays: row.MONTHLY_DAYS ? parseMonthlyDayList(row.MONTHLY_DAYS) : null,
+      monthlyNthPairs: row.MONTHLY_NTH_PAIRS ? parseMonthlyNthPairList(row.MONTHLY_NTH_PAIRS) : null,
+      monthlyBusinessDay: row.MONTHLY_BUSINESS_DAY != null ? Number(row.MONTHLY_BUSINESS_DAY) : null,
+      yearlyMonth: row.YEARLY_MONTH != null ? Number(row.YEARLY_MONTH) : null,
+      dateList,
+      cronExpr: row.CRON_EXPR != null ? String(row.CRON_EXPR) : null,
+      timesOfDay: row.TIMES_OF_DAY ? parseTimesOfDayText(row.TIMES_OF_DAY).times : null,
+      holidayPolicy: this.normalizeHolidayPolicy(row.HOLIDAY_POLICY),
+      closedDates: await this.closedDatesOf(row.CALENDAR_ID)
+    };
+  }
+
+  // ===== 日付リスト（FREQ='dates'） =====
+  private async loadDateList(taskId: number): Promise<RecurrenceDateEntry[]> {
+    const rows = await this.all<any>('SELECT LIST_DATE, LIST_TIME FROM RECURRENCE_DATES WHERE TASK_ID = ? ORDER BY LIST_DATE ASC', [taskId]);
+    return rows.map(r => ({ date: String(r.LIST_DATE), time: r.LIST_TIME ? String(r.LIST_TIME) : null }));
+  }
+
+  // payload.recurrence.dates（{ date, time } または 'YYYY-MM-DD' の配列）を正規化する。同じ日付は後の指定を使い、日付順に並べる
+  private normalizeDateList(rec: any): RecurrenceDateEntry[] {
+    const raw: any[] = Array.isArray(rec && rec.dates) ? rec.dates : [];
+    const byDate = new Map<string, RecurrenceDateEntry>();
+    for (const item of raw) {
+      const dateRaw = String((item && typeof item === 'object' ? item.date : item) ?? '').trim();
+      const date = dateRaw.split('T')[0];
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || this.dateToYmd(this.parseDateOnlyStrict(date)) !== date) {
+        throw new Error(`日付リストの日付の形式が不正です: ${dateRaw}`);
       }
+      const timeRaw = item && typeof item === 'object' && item.time != null ? String(item.time).trim() : '';
+      if (timeRaw && !/^([01]\d|2[0-3]):[0-5]\d$/.test(timeRaw)) {
+        throw new Error(`日付リストの時刻の形式が不正です: ${date} ${timeRaw}`);
+      }
+      byDate.set(date, { date, time: timeRaw || null });
     }
-    // Handle monthly by nth weekday
-    const nthTasks = await this.all<any>(
-      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.COUNT,
-              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
-       FROM TASKS T
-       JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID AND R.FREQ = 'monthly'
-       WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0 AND R.MONTHLY_NTH IS NOT NULL AND R.MONTHLY_NTH_DOW IS NOT NULL`
+    if (!byDate.size) throw new Error('日付リストに日付を1件以上指定してください');
+    if (byDate.size > MAX_DATE_LIST_ENTRIES) throw new Error(`日付リストは${MAX_DATE_LIST_ENTRIES}件までです`);
+    return Array.from(byDate.values()).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  }
+
+  // 日付リストを書き込む（日付リスト以外の頻度では空にする）。
+  // 外した日付の回は回数の突き合わせ（reconcileOccurrencesForTask）で削除されるため、ここでは時刻を変えた日の未完了オカレンスの時刻だけを合わせる
+  private async writeDateList(taskId: number, entries: RecurrenceDateEntry[], startTime: string | null, now: string): Promise<void> {
+    const before = new Map((await this.loadDateList(taskId)).map(e => [e.date, e.time] as const));
+    await this.run('DELETE FROM RECURRENCE_DATES WHERE TASK_ID = ?', [taskId]);
+    for (const e of entries) {
+      await this.run('INSERT INTO RECURRENCE_DATES (TASK_ID, LIST_DATE, LIST_TIME, CREATED_AT) VALUES (?, ?, ?, ?)', [taskId, e.date, e.time, now]);
+    }
+    const retimed = new Set(entries.filter(e => before.has(e.date) && before.get(e.date) !== e.time).map(e => e.date));
+    if (!retimed.size) return;
+    const rule = await this.loadRuleSpec(taskId);
+    if (!rule || rule.freq !== 'dates') return;
+    const exceptions = await this.loadRecurrenceExceptionMap(taskId);
+    const pendings = await this.all<any>(
+      `SELECT ID, SCHEDULED_DATE, SCHEDULED_TIME FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND STATUS = 'pending' AND SOURCE IS NULL`,
+      [taskId]
     );
-    for (const t of nthTasks) {
-      const nth = Number(t.MONTHLY_NTH);
-      const dow = Number(t.MONTHLY_NTH_DOW);
-      if (isNaN(nth) || isNaN(dow)) continue;
-      const count = Number(t.COUNT || 0);
-      const offsetDays = Number(t.OCCURRENCE_OFFSET_DAYS || 0);
-      const anchorDateStr = this.occurrenceAnchorDate(t.START_DATE ?? null, offsetDays) ?? (t.START_DATE ?? null);
-      if (count >= 1) {
-        if (!t.START_DATE) continue;
-        const startDate = new Date(t.START_DATE as string);
-        let i = 0;
-        while (i < count * 2 && i < TaskDatabase.MONTHLY_OCCURRENCE_CAP) {
-          const m0 = (startDate.getMonth() + i) % 12;
-          const y = startDate.getFullYear() + Math.floor((startDate.getMonth() + i) / 12);
-          const baseDateStr = this.nthWeekdayOfMonth(y, m0, nth, dow);
-          i++;
-          if (new Date(baseDateStr) < startDate) continue;
-          const scheduledDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-          const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [t.TASK_ID, scheduledDate]);
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-               [t.TASK_ID, scheduledDate, t.START_TIME || null, nowIso, nowIso]
-              );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'monthlyNth.ensure.count', date: scheduledDate }); } catch {}
-          }
-          const ensuredLowerBound = anchorDateStr ?? t.START_DATE;
-          const ensured = await this.get<any>(`SELECT COUNT(1) AS C FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE >= ?`, [t.TASK_ID, ensuredLowerBound]);
-          if (ensured && Number(ensured.C) >= count) break;
-        }
-      } else {
-        for (let i = 0; i < monthsAhead; i++) {
-          const m0 = (startMonth0 + i) % 12;
-          const y = startYear + Math.floor((startMonth0 + i) / 12);
-          const baseDateStr = this.nthWeekdayOfMonth(y, m0, nth, dow);
-          if (t.START_DATE && new Date(baseDateStr) < new Date(t.START_DATE)) continue;
-          const scheduledDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-          const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [t.TASK_ID, scheduledDate]);
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-              [t.TASK_ID, scheduledDate, t.START_TIME || null, nowIso, nowIso]
-            );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'monthlyNth.ensure.count', date: scheduledDate }); } catch {}
-          }
-        }
+    for (const occ of pendings) {
+      const seriesDate = seriesDateOf(exceptions, String(occ.SCHEDULED_DATE), rule);
+      if (!retimed.has(addDaysYmd(seriesDate, -Number(rule.offsetDays || 0)))) continue;
+      const resolved = resolveSeriesOccurrence(rule, exceptions, seriesDate, startTime);
+      if (!resolved || (resolved.time ?? null) === (occ.SCHEDULED_TIME ?? null)) continue;
+      await this.run('UPDATE TASK_OCCURRENCES SET SCHEDULED_TIME = ?, UPDATED_AT = ? WHERE ID = ?', [resolved.time, now, occ.ID]);
+      try {
+        await this.logEvent('occ.reschedule', 'system', taskId, occ.ID, {
+          reason: 'dateList.retime', previousDate: occ.SCHEDULED_DATE, previousTime: occ.SCHEDULED_TIME ?? null, newDate: occ.SCHEDULED_DATE, newTime: resolved.time
+        });
+      } catch {}
+    }
+  }
+
+  // ===== cron 式（FREQ='cron'） =====
+  // payload.recurrence.cronExpr を検証し、前後の空白を除いた式を返す
+  private normalizeCronExpr(rec: any): string {
+    const { schedule, errors } = parseCronExpression(rec && rec.cronExpr);
+    if (!schedule) throw new Error(`cron 式が不正です: ${errors.join(' / ')}`);
+    return schedule.expr;
+  }
+
+  // 無限の cron 式: 今日以降の未完了オカレンスのうち、式から外れた日時のものを削除する（式を変えたときに古い時刻の回を残さない）。
+  // 不足分は次回の生成で作る
+  private async realignCronOccurrences(taskId: number): Promise<void> {
+    const task = await this.get<any>('SELECT START_TIME FROM TASKS WHERE ID = ?', [taskId]);
+    const rule = await this.loadRuleSpec(taskId);
+    if (!task || !rule || rule.freq !== 'cron') return;
+    const policy = this.generationPolicy();
+    const keep = new Set((await this.planTaskOccurrences(taskId, rule, task.START_TIME || null, policy)).map(p => occurrenceKey(p.date, p.time)));
+    const pendings = await this.all<any>(
+      `SELECT ID, SCHEDULED_DATE, SCHEDULED_TIME FROM TASK_OCCURRENCES
+        WHERE TASK_ID = ? AND STATUS = 'pending' AND SOURCE IS NULL AND SCHEDULED_DATE >= ?`,
+      [taskId, policy.today]
+    );
+    for (const occ of pendings) {
+      if (keep.has(occurrenceKey(String(occ.SCHEDULED_DATE), occ.SCHEDULED_TIME ?? null))) continue;
+      await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+      try { await this.logEvent('occ.delete', 'system', taskId, occ.ID, { reason: 'cron.realign', date: occ.SCHEDULED_DATE, time: occ.SCHEDULED_TIME ?? null }); } catch {}
+    }
+  }
+
+  // 間隔の基準（INTERVAL_ANCHOR）。完了基準（前回完了日から INTERVAL 日・週・ヶ月・年後）は日次・週次・月次（日付）・年次のみ
+  private normalizeIntervalAnchor(rec: any, manualNextDue: boolean): 'scheduled' | 'completed' {
+    if (manualNextDue || String(rec.anchor || 'scheduled') !== 'completed') return 'scheduled';
+    if (!['daily', 'weekly', 'monthly', 'yearly'].includes(String(rec.freq))) {
+      throw new Error('前回完了日基準は日・週・月・年単位の繰り返しでのみ指定できます');
+    }
+    return 'completed';
+  }
+
+  // ===== 1日の時刻リスト（TIMES_OF_DAY） =====
+  // payload.recurrence.timesOfDay（配列または 'HH:MM' のカンマ区切り）を検証し、昇順・重複なしの時刻を返す。
+  // 指定できるのは予定日を基準に並ぶ頻度のみ（完了基準・日付リスト・cron 式では空のみ許す）
+  private normalizeTimesOfDay(rec: any, manualNextDue: boolean): string[] {
+    const raw = rec ? rec.timesOfDay : null;
+    const text = Array.isArray(raw) ? raw.join(',') : String(raw ?? '');
+    if (!text.trim()) return [];
+    const { times, errors } = parseTimesOfDayText(text);
+    if (errors.length) throw new Error(`1日の時刻が不正です: ${errors.join(' / ')}`);
+    const anchor = String(rec.anchor || 'scheduled');
+    const supported = !manualNextDue
+      && ['daily', 'weekly', 'monthly', 'monthlyNth', 'monthlyBusinessDay', 'yearly'].includes(String(rec.freq))
+      && anchor !== 'completed';
+    if (!supported) throw new Error('1日の時刻リストは日次（予定日基準）・週次・月次・年次の繰り返しでのみ指定できます');
+    return times;
+  }
+
+  // 1日の時刻リストを書き込む（空は NULL。開始時刻の1回だけになる）。
+  // 時刻を変えた場合は、今日以降の未完了オカレンスを作り直す（回数指定は updateTask の回数の突き合わせで作る）
+  private async writeTimesOfDay(taskId: number, times: string[], now: string): Promise<void> {
+    const value = times.length ? formatTimesOfDayList(times) : null;
+    const before = await this.get<any>('SELECT TIMES_OF_DAY FROM RECURRENCE_RULES WHERE TASK_ID = ?', [taskId]);
+    await this.run('UPDATE RECURRENCE_RULES SET TIMES_OF_DAY = ?, UPDATED_AT = ? WHERE TASK_ID = ?', [value, now, taskId]);
+    if (!before || (before.TIMES_OF_DAY ?? null) === value) return;
+    await this.dropPendingForRealign(taskId, { reason: 'timesOfDay.realign', from: before.TIMES_OF_DAY ?? null, to: value }, true);
+  }
+
+  private async loadRuleSpec(taskId: number): Promise<RecurrenceRuleSpec | null> {
+    const row = await this.get<any>(
+      `SELECT T.START_DATE, ${TaskDatabase.RULE_SPEC_COLUMNS}
+         FROM TASKS T
+         JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+        WHERE T.ID = ?`,
+      [taskId]
+    );
+    return row ? this.ruleSpecFromRow(row) : null;
+  }
+
+  // ===== 追加ルール・追加日付 =====
+  // RECURRENCE_EXTRA_RULES のパターン列（ID・POSITION・日時を除く）
+  private static readonly EXTRA_RULE_COLUMNS = ['FREQ', 'INTERVAL', 'WEEKLY_DOWS', 'MONTHLY_DAY', 'MONTHLY_DAYS', 'MONTHLY_NTH', 'MONTHLY_NTH_DOW',
+    'MONTHLY_NTH_PAIRS', 'MONTHLY_BUSINESS_DAY', 'YEARLY_MONTH'] as const;
+
+  private patternFromExtraRow(row: any): RecurrencePattern | null {
+    const freq = this.specFreqOfRow(row);
+    if (!freq) return null;
+    return {
+      id: Number(row.ID),
+      freq,
+      interval: Math.max(1, Number(row.INTERVAL || 1)),
+      weeklyDows: Number(row.WEEKLY_DOWS || 0),
+      monthlyDay: row.MONTHLY_DAY != null ? Number(row.MONTHLY_DAY) : null,
+      monthlyDays: row.MONTHLY_DAYS ? parseMonthlyDayList(row.MONTHLY_DAYS) : null,
+      monthlyNth: row.MONTHLY_NTH != null ? Number(row.MONTHLY_NTH) : null,
+      monthlyNthDow: row.MONTHLY_NTH_DOW != null ? Number(row.MONTHLY_NTH_DOW) : null,
+      monthlyNthPairs: row.MONTHLY_NTH_PAIRS ? parseMonthlyNthPairList(row.MONTHLY_NTH_PAIRS) : null,
+      monthlyBusinessDay: row.MONTHLY_BUSINESS_DAY != null ? Number(row.MONTHLY_BUSINESS_DAY) : null,
+      yearlyMonth: row.YEARLY_MONTH != null ? Number(row.YEARLY_MONTH) : null
+    };
+  }
+
+  // パターンを RECURRENCE_EXTRA_RULES の列の値にする（月次の複数指定は RECURRENCE_RULES と同じく2件以上のときだけリストを持つ）
+  private extraRuleColumnValues(p: RecurrencePattern): Record<typeof TaskDatabase.EXTRA_RULE_COLUMNS[number], any> {
+    const days = p.monthlyDays && p.monthlyDays.length ? p.monthlyDays : (p.monthlyDay != null ? [p.monthlyDay] : []);
+    const pairs = p.monthlyNthPairs && p.monthlyNthPairs.length
+      ? p.monthlyNthPairs
+      : (p.monthlyNth != null && p.monthlyNthDow != null ? [{ nth: p.monthlyNth, dow: p.monthlyNthDow }] : []);
+    const monthlyLike = p.freq === 'monthly' || p.freq === 'yearly';
+    return {
+      FREQ: p.freq === 'monthlyNth' || p.freq === 'monthlyBusinessDay' ? 'monthly' : p.freq,
+      INTERVAL: Math.max(1, Number(p.interval || 1)),
+      WEEKLY_DOWS: p.freq === 'weekly' ? Number(p.weeklyDows || 0) : null,
+      MONTHLY_DAY: monthlyLike && days.length ? days[0] : null,
+      MONTHLY_DAYS: p.freq === 'monthly' && days.length > 1 ? formatMonthlyDayList(days) : null,
+      MONTHLY_NTH: p.freq === 'monthlyNth' && pairs.length ? pairs[0].nth : null,
+      MONTHLY_NTH_DOW: p.freq === 'monthlyNth' && pairs.length ? pairs[0].dow : null,
+      MONTHLY_NTH_PAIRS: p.freq === 'monthlyNth' && pairs.length > 1 ? formatMonthlyNthPairList(pairs) : null,
+      MONTHLY_BUSINESS_DAY: p.freq === 'monthlyBusinessDay' ? p.monthlyBusinessDay ?? null : null,
+      YEARLY_MONTH: p.freq === 'yearly' ? p.yearlyMonth ?? null : null
+    };
+  }
+
+  private async loadRecurrenceExtras(taskId: number): Promise<{ rules: RecurrencePattern[]; dates: string[] }> {
+    const ruleRows = await this.all<any>('SELECT * FROM RECURRENCE_EXTRA_RULES WHERE TASK_ID = ? ORDER BY POSITION ASC, ID ASC', [taskId]);
+    const dateRows = await this.all<any>('SELECT EXTRA_DATE FROM RECURRENCE_EXTRA_DATES WHERE TASK_ID = ? ORDER BY EXTRA_DATE ASC', [taskId]);
+    return {
+      rules: ruleRows.map(r => this.patternFromExtraRow(r)).filter((x): x is RecurrencePattern => !!x),
+      dates: dateRows.map(r => String(r.EXTRA_DATE))
+    };
+  }
+
+  // 主ルールに追加ルール・追加日付を合わせた展開結果（実際の日付で重複を除く）
+  private async planTaskOccurrences(taskId: number, rule: RecurrenceRuleSpec, startTime: string | null, policy: GenerationPolicy): Promise<SourcedOccurrence[]> {
+    const exceptions = await this.loadRecurrenceExceptionMap(taskId);
+    const extras = await this.loadRecurrenceExtras(taskId);
+    const planned = planUnionOccurrences(rule, extras.rules, extras.dates, exceptions, startTime, policy);
+    // 以前の版のうち今日以降にかかるもの（変更日が先の日付の場合）は、変更日の前日までその版のルールで展開する
+    const versions = await this.loadRuleVersions(taskId, policy.today);
+    if (!versions.length) return planned;
+    const fromVersions: SourcedOccurrence[] = [];
+    let pendingWeekly = false;
+    for (const version of versions) {
+      for (const p of planOccurrences(version.rule, exceptions, version.startTime ?? startTime, policy)) {
+        if (p.date < policy.today) continue;
+        fromVersions.push({ ...p, source: 'rule', extraRuleId: null });
+        if (version.rule.freq === 'weekly') pendingWeekly = true;
       }
     }
+    // 週次どうしの変更では次の1回のみ保持するため、以前の版の回が残っている間は現在の版の主ルールの回を作らない
+    const current = rule.freq === 'weekly' && pendingWeekly ? planned.filter(p => p.source !== 'rule') : planned;
+    const byKey = new Map(current.map(p => [occurrenceKey(p.date, p.time), p]));
+    for (const p of fromVersions) {
+      const key = occurrenceKey(p.date, p.time);
+      if (!byKey.has(key)) byKey.set(key, p);
+    }
+    return Array.from(byKey.values()).sort((a, b) => occurrenceKey(a.date, a.time).localeCompare(occurrenceKey(b.date, b.time)));
   }
 
-  private async ensureRecurringYearlyOccurrences(yearsAhead: number = 2): Promise<void> {
-    // COUNT=0: 今年〜先N-1年の対象月日を生成。COUNT>=1: START_DATE以降でCOUNT件生成。
-    const now = new Date();
-    const startYear = now.getFullYear();
-    const tasks = await this.all<any>(
-      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME,
-              R.YEARLY_MONTH, R.MONTHLY_DAY, R.COUNT,
-              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
-       FROM TASKS T
-       JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID AND R.FREQ = 'yearly'
-       WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0`
+  // ===== ルールの版（日付を指定した変更） =====
+  // 版を持てるのは予定日基準で回数指定のない繰り返し（手動次回・日付リスト・完了基準・回数指定を除く）
+  private isVersionableRule(row: any): boolean {
+    return !!row && Number(row.IS_RECURRING || 0) === 1 && Number(row.MANUAL_NEXT_DUE || 0) === 0
+      && !!row.FREQ && row.FREQ !== 'dates' && String(row.INTERVAL_ANCHOR || 'scheduled') !== 'completed'
+      && !(Number(row.COUNT || 0) >= 1);
+  }
+
+  // RECURRENCE_RULE_VERSIONS の行（TASKS.START_DATE を含む）から展開用のルールを組み立てる。終了日は次の版の適用開始日の前日まで
+  private async ruleSpecFromVersionRow(row: any): Promise<RecurrenceRuleSpec | null> {
+    const spec = await this.ruleSpecFromRow({ ...row, RULE_TASK_ID: null });
+    if (!spec) return null;
+    const lastDate = addDaysYmd(String(row.EFFECTIVE_TO), Number(spec.offsetDays || 0) - 1);
+    if (!spec.untilDate || spec.untilDate > lastDate) spec.untilDate = lastDate;
+    return spec;
+  }
+
+  // 適用期間の終わり（EFFECTIVE_TO）が since より後の版（古い順。置き換え済みの履歴は除く）
+  private async loadRuleVersions(taskId: number, since: string): Promise<Array<{ version: number; rule: RecurrenceRuleSpec; startTime: string | null }>> {
+    const rows = await this.all<any>(
+      `SELECT V.*, T.START_DATE FROM RECURRENCE_RULE_VERSIONS V JOIN TASKS T ON T.ID = V.TASK_ID
+        WHERE V.TASK_ID = ? AND V.EFFECTIVE_TO > ? AND V.SUPERSEDED_AT IS NULL ORDER BY V.VERSION ASC`,
+      [taskId, since]
     );
-    for (const t of tasks) {
-      const month = Number(t.YEARLY_MONTH || 0);
-      const day = Number(t.MONTHLY_DAY || 0);
-      if (!(month >= 1 && month <= 12) || !(day >= 1 && day <= 31)) continue;
-      const count = Number(t.COUNT || 0);
-      const offsetDays = Number(t.OCCURRENCE_OFFSET_DAYS || 0);
-      const anchorDateStr = this.occurrenceAnchorDate(t.START_DATE ?? null, offsetDays) ?? (t.START_DATE ?? null);
-      if (count >= 1) {
-        if (!t.START_DATE) continue;
-        const startDate = new Date(t.START_DATE as string);
-        // first target on or after START_DATE
-        let y = startDate.getFullYear();
-        let baseScheduled = this.clampMonthlyDate(y, month - 1, day);
-        if (new Date(baseScheduled) < startDate) {
-          y += 1;
-          baseScheduled = this.clampMonthlyDate(y, month - 1, day);
-        }
-        let produced = 0;
-        while (produced < count && produced < TaskDatabase.YEARLY_OCCURRENCE_CAP) {
-          const base = produced === 0 ? baseScheduled : this.clampMonthlyDate(y + produced, month - 1, day);
-          const scheduled = this.applyOccurrenceOffset(base, offsetDays);
-          const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [t.TASK_ID, scheduled]);
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-              [t.TASK_ID, scheduled, t.START_TIME || null, nowIso, nowIso]
-            );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'yearly.ensure.count', date: scheduled }); } catch {}
-          }
-          produced++;
-        }
-      } else {
-        for (let i = 0; i < yearsAhead; i++) {
-          const y = startYear + i;
-          const base = this.clampMonthlyDate(y, month - 1, day);
-          if (t.START_DATE && new Date(base) < new Date(t.START_DATE)) continue;
-          const scheduled = this.applyOccurrenceOffset(base, offsetDays);
-          const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [t.TASK_ID, scheduled]);
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-              [t.TASK_ID, scheduled, t.START_TIME || null, nowIso, nowIso]
-            );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'yearly.ensure.window', date: scheduled }); } catch {}
-          }
-        }
+    const res: Array<{ version: number; rule: RecurrenceRuleSpec; startTime: string | null }> = [];
+    for (const row of rows) {
+      const rule = await this.ruleSpecFromVersionRow(row);
+      if (rule) res.push({ version: Number(row.VERSION), rule, startTime: row.START_TIME || null });
+    }
+    return res;
+  }
+
+  // 系列上の日付を含む版のルール。現在の版の適用開始日以降（または該当する版がない）なら現在のルール
+  private async ruleSpecAt(taskId: number, current: RecurrenceRuleSpec, seriesDate: string): Promise<RecurrenceRuleSpec> {
+    const baseDate = addDaysYmd(seriesDate, -Number(current.offsetDays || 0));
+    if (baseDate >= current.startDate) return current;
+    const [version] = await this.loadRuleVersions(taskId, baseDate);
+    return version ? version.rule : current;
+  }
+
+  // payload.recurrence.effectiveFrom（'YYYY-MM-DD'）を検証する。指定がなければ null（すべての回を変更）
+  private normalizeRuleEffectiveFrom(rec: any, before: any, payload: any, versionable: boolean): string | null {
+    const raw = rec && rec.effectiveFrom != null ? String(rec.effectiveFrom).trim() : '';
+    if (!raw) return null;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(raw) || this.dateToYmd(this.parseDateOnlyStrict(raw)) !== raw) {
+      throw new Error(`変更日の形式が不正です: ${raw}`);
+    }
+    if (!versionable || !this.isVersionableRule(before)) {
+      throw new Error('日付を指定した変更は、予定日基準で回数指定のない繰り返しでのみ使えます（手動次回・日付リスト・完了基準を除く）');
+    }
+    const startDate = before.START_DATE ? String(before.START_DATE).split('T')[0] : null;
+    if ((payload.startDate ? String(payload.startDate).split('T')[0] : null) !== startDate) {
+      throw new Error('日付を指定して変更する場合は開始日を変更できません');
+    }
+    const currentFrom = before.EFFECTIVE_FROM ? String(before.EFFECTIVE_FROM) : startDate;
+    if (currentFrom && raw <= currentFrom) {
+      throw new Error(`変更日は現在の繰り返しの適用開始日（${currentFrom}）より後の日付を指定してください`);
+    }
+    return raw;
+  }
+
+  // 現在のルール（と開始時刻）を、変更日の前日までの版として RECURRENCE_RULE_VERSIONS に写す
+  private async archiveRuleVersion(taskId: number, effectiveTo: string, now: string): Promise<void> {
+    const cols = ['FREQ', 'INTERVAL', 'INTERVAL_ANCHOR', 'END_KIND', 'UNTIL_DATE', 'COUNT', 'OCCURRENCE_OFFSET_DAYS', 'HOLIDAY_POLICY', 'CALENDAR_ID', 'HORIZON_DAYS',
+      'WEEKLY_DOWS', 'MONTHLY_DAY', 'MONTHLY_DAYS', 'MONTHLY_NTH', 'MONTHLY_NTH_DOW', 'MONTHLY_NTH_PAIRS', 'MONTHLY_BUSINESS_DAY', 'YEARLY_MONTH', 'CRON_EXPR', 'TIMES_OF_DAY'];
+    await this.run(
+      `INSERT INTO RECURRENCE_RULE_VERSIONS (TASK_ID, VERSION, EFFECTIVE_FROM, EFFECTIVE_TO, START_TIME, ${cols.join(', ')}, CREATED_AT)
+       SELECT R.TASK_ID, R.RULE_VERSION, R.EFFECTIVE_FROM, ?, T.START_TIME, ${cols.map(c => `R.${c}`).join(', ')}, ?
+         FROM RECURRENCE_RULES R JOIN TASKS T ON T.ID = R.TASK_ID
+        WHERE R.TASK_ID = ?`,
+      [effectiveTo, now, taskId]
+    );
+  }
+
+  // 書き換えたルールを変更日からの新しい版にし、変更日以降の主ルールの未完了の回を作り直す（延期中の回は残す）
+  private async startRuleVersion(taskId: number, before: any, effectiveFrom: string, offsetDays: number, now: string): Promise<void> {
+    const fromVersion = Number(before.RULE_VERSION || 1);
+    const toVersion = fromVersion + 1;
+    await this.run('UPDATE RECURRENCE_RULES SET EFFECTIVE_FROM = ?, RULE_VERSION = ?, UPDATED_AT = ? WHERE TASK_ID = ?', [effectiveFrom, toVersion, now, taskId]);
+    const anchorDate = this.occurrenceAnchorDate(effectiveFrom, offsetDays) ?? effectiveFrom;
+    const stale = await this.all<any>(
+      `SELECT ID, SCHEDULED_DATE FROM TASK_OCCURRENCES
+        WHERE TASK_ID = ? AND SOURCE IS NULL AND STATUS = 'pending' AND DEFERRED_DATE IS NULL AND SCHEDULED_DATE >= ?`,
+      [taskId, anchorDate]
+    );
+    for (const occ of stale) {
+      await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+      try { await this.logEvent('occ.delete', 'system', taskId, occ.ID, { reason: 'ruleVersion.realign', date: occ.SCHEDULED_DATE }); } catch {}
+    }
+    try {
+      await this.logEvent('rule.version', 'user', taskId, null, {
+        fromVersion,
+        toVersion,
+        effectiveFrom,
+        previousEffectiveFrom: before.EFFECTIVE_FROM ?? null
+      });
+    } catch {}
+  }
+
+  // 現在の版に適用開始日があるか、展開に使う以前の版が残っているか
+  private async hasActiveRuleVersions(taskId: number, before: any): Promise<boolean> {
+    if (before?.EFFECTIVE_FROM) return true;
+    return !!(await this.get<any>('SELECT 1 AS X FROM RECURRENCE_RULE_VERSIONS WHERE TASK_ID = ? AND SUPERSEDED_AT IS NULL LIMIT 1', [taskId]));
+  }
+
+  // 版を持てない設定（繰り返しなし・手動次回・日付リスト・完了基準・回数指定）へ「すべての回を変更」で変えるときの、変更前のルールの終わり。
+  // 今日まで（変更日が先の日付で、まだ適用されていない版なら適用開始日まで）
+  private closingRuleVersionDate(before: any): string {
+    const today = todayYmd();
+    const currentFrom = before?.EFFECTIVE_FROM ? String(before.EFFECTIVE_FROM) : null;
+    return currentFrom && currentFrom > today ? currentFrom : today;
+  }
+
+  // 上の場合に、閉じた変更前のルール（archiveRuleVersion で写したもの）と以前の版を置き換え済みの履歴として残し
+  // （SUPERSEDED_AT。展開には使わない）、タスクの開始日からのルールに戻す
+  private async supersedeRuleVersions(taskId: number, before: any, effectiveTo: string, now: string): Promise<void> {
+    const fromVersion = Number(before?.RULE_VERSION || 1);
+    const versions = await this.all<any>('SELECT VERSION FROM RECURRENCE_RULE_VERSIONS WHERE TASK_ID = ? AND SUPERSEDED_AT IS NULL', [taskId]);
+    await this.run('UPDATE RECURRENCE_RULE_VERSIONS SET SUPERSEDED_AT = ? WHERE TASK_ID = ? AND SUPERSEDED_AT IS NULL', [now, taskId]);
+    await this.run('UPDATE RECURRENCE_RULES SET EFFECTIVE_FROM = NULL, RULE_VERSION = ?, UPDATED_AT = ? WHERE TASK_ID = ?', [fromVersion + 1, now, taskId]);
+    try {
+      await this.logEvent('rule.version', 'user', taskId, null, {
+        fromVersion,
+        toVersion: fromVersion + 1,
+        effectiveTo,
+        superseded: versions.map(v => Number(v.VERSION)),
+        previousEffectiveFrom: before?.EFFECTIVE_FROM ?? null
+      });
+    } catch {}
+  }
+
+  // オカレンスの発生元に応じた展開用ルール（主ルール / 追加ルール）。追加日付や、発生元の追加ルールが削除済みの場合は null
+  private async occurrenceRuleSpec(taskId: number, source: any, extraRuleId: any): Promise<RecurrenceRuleSpec | null> {
+    if (source === 'date') return null;
+    const main = await this.loadRuleSpec(taskId);
+    if (!main || source !== 'extra') return main;
+    if (extraRuleId == null) return null;
+    const row = await this.get<any>('SELECT * FROM RECURRENCE_EXTRA_RULES WHERE ID = ? AND TASK_ID = ?', [extraRuleId, taskId]);
+    const pattern = row ? this.patternFromExtraRow(row) : null;
+    return pattern ? extraRuleSpec(main, pattern) : null;
+  }
+
+  // payload.recurrence.extraRules / extraDates を正規化する。繰り返しでないタスクでは持たない。
+  // 追加ルールはパターン（頻度・間隔・曜日/日付指定）のみで、開始日・終了条件・オフセット・祝日の扱いは主ルールに従う
+  private normalizeRecurrenceExtras(payload: any, manualNextDue: boolean): { rules: RecurrencePattern[]; dates: string[] } {
+    const rec = payload.recurrence;
+    if (!payload.isRecurring || !rec) return { rules: [], dates: [] };
+    const rawRules: any[] = Array.isArray(rec.extraRules) ? rec.extraRules : [];
+    const rawDates: any[] = Array.isArray(rec.extraDates) ? rec.extraDates : [];
+    if (!rawRules.length && !rawDates.length) return { rules: [], dates: [] };
+    const completedAnchor = String(rec.anchor || 'scheduled') === 'completed';
+    if (manualNextDue || completedAnchor) {
+      throw new Error('手動で次回を指定する繰り返し・完了日基準の繰り返しには追加ルール・追加日付を設定できません');
+    }
+    if (rec.freq === 'dates') throw new Error('日付リストの繰り返しには追加ルール・追加日付を設定できません');
+    if (rec.freq === 'cron') throw new Error('cron 式の繰り返しには追加ルール・追加日付を設定できません');
+    const rules = rawRules.map((x, i): RecurrencePattern => {
+      const label = `追加ルール${i + 1}`;
+      const freq = String((x && x.freq) || '');
+      if (freq === 'daily') {
+        return { freq, interval: Math.max(1, Math.floor(Number(x.interval || 1)) || 1) };
+      }
+      if (freq === 'weekly') {
+        const weeklyDows = Number(x.weeklyDows || 0) & 0x7f;
+        if (!weeklyDows) throw new Error(`${label}: 曜日を指定してください`);
+        return { freq, interval: Math.max(1, Math.floor(Number(x.interval || 1)) || 1), weeklyDows };
+      }
+      if (freq === 'monthly') {
+        const days = this.normalizeMonthlyDays(x);
+        if (!days.length) throw new Error(`${label}: 日付を指定してください`);
+        return { freq, interval: this.normalizePeriodInterval(x, MAX_MONTHLY_INTERVAL), monthlyDay: days[0], monthlyDays: days };
+      }
+      if (freq === 'monthlyNth') {
+        const pairs = this.normalizeMonthlyNthPairs(x);
+        if (!pairs.length) throw new Error(`${label}: 第N曜日を指定してください`);
+        return { freq, interval: this.normalizePeriodInterval(x, MAX_MONTHLY_INTERVAL), monthlyNth: pairs[0].nth, monthlyNthDow: pairs[0].dow, monthlyNthPairs: pairs };
+      }
+      if (freq === 'monthlyBusinessDay') {
+        return { freq, interval: this.normalizePeriodInterval(x, MAX_MONTHLY_INTERVAL), monthlyBusinessDay: this.normalizeMonthlyBusinessDay(x.monthlyBusinessDay) };
+      }
+      if (freq === 'yearly') {
+        const month = Math.max(1, Math.min(12, Number(x.yearlyMonth || x.month || 0)));
+        const day = Math.max(1, Math.min(31, Number(x.yearlyDay || x.monthlyDay || 0)));
+        return { freq, interval: this.normalizePeriodInterval(x, MAX_YEARLY_INTERVAL), yearlyMonth: month, monthlyDay: day };
       }
+      throw new Error(`${label}: 頻度の指定が不正です: ${freq}`);
+    });
+    const isYmd = (v: string) => /^\d{4}-\d{2}-\d{2}$/.test(v) && this.dateToYmd(this.parseDateOnlyStrict(v)) === v;
+    const dates = new Set<string>();
+    for (const raw of rawDates) {
+      const d = String(raw ?? '').trim().split('T')[0];
+      if (!d) continue;
+      if (!isYmd(d)) throw new Error(`追加日付の形式が不正です: ${raw}`);
+      dates.add(d);
     }
+    return { rules, dates: Array.from(dates).sort() };
   }
 
-  private async ensureRecurringDailyOccurrences(defaultDaysAhead: number = 14): Promise<void> {
-    // For COUNT=0 (infinite): create today..today+N-1 days.
-    // For COUNT>=1 (finite): ensure exactly COUNT dates from START_DATE exist (add missing only).
-    const today = new Date();
-    const startDateStr = (d: Date) => {
-      const y = d.getFullYear();
-      const m = String(d.getMonth() + 1).padStart(2, '0');
-      const da = String(d.getDate()).padStart(2, '0');
-      return `${y}-${m}-${da}`;
+  // 追加ルール・追加日付を書き込む。変わらないルール（同じパターン）は ID を保ち、
+  // 外したルール・日付から生成された未完了オカレンスは削除する（完了済みの回は発生元の記録だけを外して残す）
+  private async writeRecurrenceExtras(taskId: number, extras: { rules: RecurrencePattern[]; dates: string[] }, now: string): Promise<void> {
+    const signature = (values: Record<string, any>) => JSON.stringify(TaskDatabase.EXTRA_RULE_COLUMNS.map(c => values[c] ?? null));
+    const existingRules = await this.all<any>('SELECT * FROM RECURRENCE_EXTRA_RULES WHERE TASK_ID = ? ORDER BY POSITION ASC, ID ASC', [taskId]);
+    const unused = new Map<number, string>(existingRules.map(r => [Number(r.ID), signature(r)]));
+    for (let i = 0; i < extras.rules.length; i++) {
+      const values = this.extraRuleColumnValues(extras.rules[i]);
+      const sig = signature(values);
+      const kept = Array.from(unused).find(([, s]) => s === sig);
+      if (kept) {
+        unused.delete(kept[0]);
+        await this.run('UPDATE RECURRENCE_EXTRA_RULES SET POSITION = ? WHERE ID = ?', [i, kept[0]]);
+        continue;
+      }
+      const cols = Object.keys(values);
+      await this.run(
+        `INSERT INTO RECURRENCE_EXTRA_RULES (TASK_ID, POSITION, ${cols.join(', ')}, CREATED_AT, UPDATED_AT)
+         VALUES (?, ?, ${cols.map(() => '?').join(', ')}, ?, ?)`,
+        [taskId, i, ...cols.map(c => (values as any)[c]), now, now]
+      );
+    }
+    for (const ruleId of unused.keys()) {
+      const pendings = await this.all<any>(
+        `SELECT ID, SCHEDULED_DATE FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND EXTRA_RULE_ID = ? AND STATUS = 'pending'`,
+        [taskId, ruleId]
+      );
+      for (const occ of pendings) {
+        await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+        try { await this.logEvent('occ.delete', 'system', taskId, occ.ID, { reason: 'extraRule.remove', extraRuleId: ruleId, date: occ.SCHEDULED_DATE }); } catch {}
+      }
+      await this.run('UPDATE TASK_OCCURRENCES SET EXTRA_RULE_ID = NULL WHERE EXTRA_RULE_ID = ?', [ruleId]);
+      await this.run('DELETE FROM RECURRENCE_EXTRA_RULES WHERE ID = ?', [ruleId]);
+    }
+
+    const keepDates = new Set(extras.dates);
+    const existingDates = (await this.all<any>('SELECT EXTRA_DATE FROM RECURRENCE_EXTRA_DATES WHERE TASK_ID = ?', [taskId])).map(r => String(r.EXTRA_DATE));
+    const removedDates = new Set(existingDates.filter(d => !keepDates.has(d)));
+    if (removedDates.size) {
+      const exceptions = await this.loadRecurrenceExceptionMap(taskId);
+      const pendings = await this.all<any>(
+        `SELECT ID, SCHEDULED_DATE FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SOURCE = 'date' AND STATUS = 'pending'`,
+        [taskId]
+      );
+      for (const occ of pendings) {
+        if (!removedDates.has(seriesDateOf(exceptions, String(occ.SCHEDULED_DATE)))) continue;
+        await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+        try { await this.logEvent('occ.delete', 'system', taskId, occ.ID, { reason: 'extraDate.remove', date: occ.SCHEDULED_DATE }); } catch {}
+      }
+      for (const d of removedDates) {
+        await this.run('DELETE FROM RECURRENCE_EXTRA_DATES WHERE TASK_ID = ? AND EXTRA_DATE = ?', [taskId, d]);
+      }
+    }
+    const known = new Set(existingDates);
+    for (const d of extras.dates) {
+      if (!known.has(d)) await this.run('INSERT INTO RECURRENCE_EXTRA_DATES (TASK_ID, EXTRA_DATE, CREATED_AT) VALUES (?, ?, ?)', [taskId, d, now]);
+    }
+  }
+
+  // タスク行に追加ルール（EXTRA_RULES: RECURRENCE_EXTRA_RULES の行の配列）と追加日付（EXTRA_DATES: 'YYYY-MM-DD' の配列）、
+  // 日付リスト（DATE_LIST: { date, time } の配列）を付ける
+  private async attachRecurrenceExtras(rows: any[]): Promise<void> {
+    if (!rows.length) return;
+    // 1件（getTask）はそのタスクだけ、一覧は全件を読んでタスクごとに振り分ける
+    const where = rows.length === 1 ? 'WHERE TASK_ID = ?' : '';
+    const binds = rows.length === 1 ? [Number(rows[0].ID)] : [];
+    const ruleRows = await this.all<any>(
+      `SELECT ID, TASK_ID, POSITION, ${TaskDatabase.EXTRA_RULE_COLUMNS.join(', ')}
+         FROM RECURRENCE_EXTRA_RULES ${where} ORDER BY POSITION ASC, ID ASC`,
+      binds
+    );
+    const dateRows = await this.all<any>(`SELECT TASK_ID, EXTRA_DATE FROM RECURRENCE_EXTRA_DATES ${where} ORDER BY EXTRA_DATE ASC`, binds);
+    const rulesByTask = new Map<number, any[]>();
+    for (const x of ruleRows) {
+      const list = rulesByTask.get(Number(x.TASK_ID)) || [];
+      list.push(x);
+      rulesByTask.set(Number(x.TASK_ID), list);
+    }
+    const datesByTask = new Map<number, string[]>();
+    for (const x of dateRows) {
+      const list = datesByTask.get(Number(x.TASK_ID)) || [];
+      list.push(String(x.EXTRA_DATE));
+      datesByTask.set(Number(x.TASK_ID), list);
+    }
+    const listRows = await this.all<any>(`SELECT TASK_ID, LIST_DATE, LIST_TIME FROM RECURRENCE_DATES ${where} ORDER BY LIST_DATE ASC`, binds);
+    const listByTask = new Map<number, RecurrenceDateEntry[]>();
+    for (const x of listRows) {
+      const list = listByTask.get(Number(x.TASK_ID)) || [];
+      list.push({ date: String(x.LIST_DATE), time: x.LIST_TIME ? String(x.LIST_TIME) : null });
+      listByTask.set(Number(x.TASK_ID), list);
+    }
+    for (const r of rows) {
+      r.EXTRA_RULES = rulesByTask.get(Number(r.ID)) || [];
+      r.EXTRA_DATES = datesByTask.get(Number(r.ID)) || [];
+      r.DATE_LIST = listByTask.get(Number(r.ID)) || [];
+    }
+  }
+
+  private generationPolicy(overrides: Partial<GenerationPolicy> = {}): GenerationPolicy {
+    return {
+      today: todayYmd(),
+      dailyHorizonDays: DEFAULT_DAILY_HORIZON_DAYS,
+      monthsAhead: DEFAULT_MONTHS_AHEAD,
+      yearsAhead: DEFAULT_YEARS_AHEAD,
+      ...overrides
     };
-    const tasks = await this.all<any>(
-      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME, R.COUNT,
-              COALESCE(R.HORIZON_DAYS, ?) AS HORIZON_DAYS,
-              COALESCE(R.INTERVAL, 1) AS INTERVAL,
-              COALESCE(R.INTERVAL_ANCHOR, 'scheduled') AS INTERVAL_ANCHOR,
-              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
+  }
+
+  // 生成対象の繰り返しタスクを取得する（手動次回を除く）
+  private async listRuleRowsForGeneration(freq: 'daily' | 'weekly' | 'monthly' | 'yearly' | 'dates' | 'cron'): Promise<any[]> {
+    return this.all<any>(
+      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME, R.GENERATED_THROUGH, ${TaskDatabase.RULE_SPEC_COLUMNS}
        FROM TASKS T
-       JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID AND R.FREQ = 'daily'
-       WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0`, [defaultDaysAhead]
+       JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID AND R.FREQ = ?
+       WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0`,
+      [freq]
     );
+  }
+
+  // 展開結果のうち、まだ存在しない日付のオカレンスを追加する（削除はしない）。発生元（主ルール以外）も記録する。
+  // matchTime を指定すると日付と時刻の組で存在を確かめる（cron 式・1日の時刻リストのように1日に複数回ある場合）
+  private async ensurePlannedOccurrences(
+    taskId: number,
+    planned: Array<PlannedOccurrence & Partial<SourcedOccurrence>>,
+    reason: string,
+    matchTime: boolean = false
+  ): Promise<void> {
+    for (const target of planned) {
+      const exists = matchTime
+        ? await this.get<any>(
+          `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ? AND COALESCE(SCHEDULED_TIME,'') = ?`,
+          [taskId, target.date, target.time ?? '']
+        )
+        : await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [taskId, target.date]);
+      if (exists) continue;
+      const nowIso = this.nowIso();
+      const source = target.source && target.source !== 'rule' ? target.source : null;
+      const newId = await this.run(
+        `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, SOURCE, EXTRA_RULE_ID, CREATED_AT, UPDATED_AT)
+         VALUES (?, ?, ?, 'pending', ?, ?, ?, ?)`,
+        [taskId, target.date, target.time, source, source === 'extra' ? target.extraRuleId ?? null : null, nowIso, nowIso]
+      );
+      const details: any = { reason, date: target.date };
+      if (matchTime) details.time = target.time;
+      if (source) details.source = source;
+      if (source === 'extra') details.extraRuleId = target.extraRuleId ?? null;
+      try { await this.logEvent('occ.autocreate', 'system', taskId, newId, details); } catch {}
+    }
+  }
+
+  private async ensureRecurringMonthlyOccurrences(marks: Map<number, string>, monthsAhead: number = DEFAULT_MONTHS_AHEAD): Promise<void> {
+    // COUNT=0: 今月〜先N-1ヶ月を生成。COUNT>=1: START_DATE から回数分の月次日付を生成（不足のみ追加）。
+    const policy = this.generationPolicy({ monthsAhead });
+    const tasks = await this.listRuleRowsForGeneration('monthly');
     for (const t of tasks) {
-      const interval = Math.max(1, Number(t.INTERVAL || 1));
-      const anchor = String(t.INTERVAL_ANCHOR || 'scheduled');
-      if (anchor === 'completed') continue; // 完了基準は先出ししない
-      const count = Number(t.COUNT || 0);
-      const offsetDays = Number(t.OCCURRENCE_OFFSET_DAYS || 0);
-      const anchorDateStr = this.occurrenceAnchorDate(t.START_DATE ?? null, offsetDays) ?? (t.START_DATE ?? null);
-      if (count >= 1) {
-        if (!t.START_DATE) continue;
-        const start = new Date(t.START_DATE as string);
-        for (let i = 0; i < count; i++) {
-          const d = new Date(start);
-          d.setDate(start.getDate() + i * interval);
-          const baseDateStr = startDateStr(d);
-          const scheduledDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-          const exists = await this.get<any>(
-            `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`,
-            [t.TASK_ID, scheduledDate]
-          );
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-              [t.TASK_ID, scheduledDate, t.START_TIME || null, nowIso, nowIso]
-            );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'monthlyNth.ensure.window', date: scheduledDate }); } catch {}
-          }
-        }
-      } else {
-        let horizon = Number(t.HORIZON_DAYS || defaultDaysAhead);
-        if (!isFinite(horizon) || horizon <= 0) horizon = defaultDaysAhead;
-        if (horizon > 365) horizon = 365; // safety upper bound
-        // generate only dates aligned with interval from START_DATE
-        const start = t.START_DATE ? new Date(t.START_DATE as string) : new Date(today);
-        for (let i = 0; i < horizon; i++) {
-          const d = new Date(today);
-          d.setDate(today.getDate() + i);
-          const daysDiff = Math.floor((new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() - new Date(start.getFullYear(), start.getMonth(), start.getDate()).getTime()) / (1000*60*60*24));
-          if (daysDiff < 0) continue;
-          if (daysDiff % interval !== 0) continue;
-          const baseDateStr = startDateStr(d);
-          const scheduledDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-          const exists = await this.get<any>(
-            `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`,
-            [t.TASK_ID, scheduledDate]
-          );
-          if (!exists) {
-            const nowIso = this.nowIso();
-            const newId = await this.run(
-              `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-               VALUES (?, ?, ?, 'pending', ?, ?)`,
-              [t.TASK_ID, scheduledDate, t.START_TIME || null, nowIso, nowIso]
-            );
-            try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'daily.ensure.count', date: scheduledDate }); } catch {}
-          }
-        }
-      }
+      const rule = await this.ruleSpecFromRow(t);
+      if (!rule) continue;
+      if (rule.anchor === 'completed') continue; // 完了基準は先出ししない
+      const finite = Number(rule.count || 0) >= 1;
+      if (finite && !t.START_DATE) continue;
+      if (!(await this.claimGeneration(marks, t, rule, policy))) continue;
+      const planned = await this.planTaskOccurrences(t.TASK_ID, rule, t.START_TIME || null, policy);
+      await this.ensurePlannedOccurrences(t.TASK_ID, planned, `${rule.freq}.ensure.${finite ? 'count' : 'window'}`, matchesOccurrenceTime(rule));
     }
   }
 
-  private async ensureRecurringWeeklyOccurrences(_: number = 8): Promise<void> {
-    // COUNT>=1: START_DATE以降で対象曜日の発生日をCOUNT件生成。
-    // COUNT=0: 「次に発生する１件」のみを保持し、それ以降のオカレンスは削除する。
-    const today = new Date();
-    const today0 = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const dateStr = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-    const tasks = await this.all<any>(
-      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME,
-              COALESCE(R.WEEKLY_DOWS,0) AS WEEKLY_DOWS,
-              COALESCE(R.INTERVAL,1) AS INTERVAL,
-              COALESCE(R.COUNT,0) AS COUNT,
-              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
-       FROM TASKS T
-       JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID AND R.FREQ = 'weekly'
-       WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0`
-    );
+  private async ensureRecurringYearlyOccurrences(marks: Map<number, string>, yearsAhead: number = DEFAULT_YEARS_AHEAD): Promise<void> {
+    // COUNT=0: 今年〜先N-1年の対象月日を生成。COUNT>=1: START_DATE以降でCOUNT件生成。
+    const policy = this.generationPolicy({ yearsAhead });
+    const tasks = await this.listRuleRowsForGeneration('yearly');
     for (const t of tasks) {
-      const dowsMask = Number(t.WEEKLY_DOWS || 0);
-      if (!dowsMask) continue;
-      const interval = Math.max(1, Number(t.INTERVAL || 1));
-      const count = Number(t.COUNT || 0);
-      const offsetDays = Number(t.OCCURRENCE_OFFSET_DAYS || 0);
-      if (count >= 1) {
-        if (!t.START_DATE) continue;
-        const start = new Date(t.START_DATE as string);
-        const start0 = new Date(start.getFullYear(), start.getMonth(), start.getDate());
-        const startSunday = new Date(start0);
-        startSunday.setDate(start0.getDate() - start0.getDay());
-        let produced = 0;
-        for (let w = 0; w < 520 && produced < count; w += interval) {
-          const weekStart = new Date(startSunday);
-          weekStart.setDate(startSunday.getDate() + w * 7);
-          for (let dow = 0; dow <= 6 && produced < count; dow++) {
-            if (!(dowsMask & (1 << dow))) continue;
-            const d = new Date(weekStart);
-            d.setDate(weekStart.getDate() + dow);
-            if (d < start0) continue;
-            const baseDateStr = dateStr(d);
-            const scheduledDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-            const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [t.TASK_ID, scheduledDate]);
-            if (!exists) {
-              const nowIso = this.nowIso();
-              const newId = await this.run(
-                `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-                 VALUES (?, ?, ?, 'pending', ?, ?)`,
-                [t.TASK_ID, scheduledDate, t.START_TIME || null, nowIso, nowIso]
-              );
-              try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'weekly.ensure.window', date: scheduledDate }); } catch {}
-            }
-            produced++;
-          }
-        }
-      } else {
-        const start = t.START_DATE ? new Date(t.START_DATE as string) : today0;
-        const start0 = new Date(start.getFullYear(), start.getMonth(), start.getDate());
-        const startSunday = new Date(start0);
-        startSunday.setDate(start0.getDate() - start0.getDay());
-        const findNextDate = (): string | null => {
-          for (let w = 0; w < 520; w++) {
-            const weekStart = new Date(startSunday);
-            weekStart.setDate(startSunday.getDate() + w * 7);
-            const weeksDiff = Math.floor((weekStart.getTime() - startSunday.getTime()) / (1000 * 60 * 60 * 24 * 7));
-            if (weeksDiff < 0) continue;
-            if (weeksDiff % interval !== 0) continue;
-            for (let dow = 0; dow <= 6; dow++) {
-              if (!(dowsMask & (1 << dow))) continue;
-              const candidate = new Date(weekStart);
-              candidate.setDate(weekStart.getDate() + dow);
-              if (candidate < start0) continue;
-              const baseDateStr = dateStr(candidate);
-              const actualDate = this.applyOccurrenceOffset(baseDateStr, offsetDays);
-              const actual = this.parseDateOnlyStrict(actualDate);
-              if (actual < today0) continue;
-              return actualDate;
-            }
-          }
-          return null;
-        };
+      const rule = await this.ruleSpecFromRow(t);
+      if (!rule) continue;
+      if (rule.anchor === 'completed') continue; // 完了基準は先出ししない
+      const finite = Number(rule.count || 0) >= 1;
+      if (finite && !t.START_DATE) continue;
+      if (!(await this.claimGeneration(marks, t, rule, policy))) continue;
+      const planned = await this.planTaskOccurrences(t.TASK_ID, rule, t.START_TIME || null, policy);
+      await this.ensurePlannedOccurrences(t.TASK_ID, planned, `yearly.ensure.${finite ? 'count' : 'window'}`, matchesOccurrenceTime(rule));
+    }
+  }
+
+  private async ensureRecurringDateListOccurrences(marks: Map<number, string>): Promise<void> {
+    // 日付リスト: リストの全日付を生成（COUNT はリストの件数。不足のみ追加）
+    const policy = this.generationPolicy();
+    const tasks = await this.listRuleRowsForGeneration('dates');
+    for (const t of tasks) {
+      const rule = await this.ruleSpecFromRow(t);
+      if (!rule || !rule.dateList || !rule.dateList.length) continue;
+      if (!(await this.claimGeneration(marks, t, rule, policy))) continue;
+      const planned = await this.planTaskOccurrences(t.TASK_ID, rule, t.START_TIME || null, policy);
+      await this.ensurePlannedOccurrences(t.TASK_ID, planned, 'dates.ensure.list');
+    }
+  }
+
+  private async ensureRecurringCronOccurrences(marks: Map<number, string>): Promise<void> {
+    // cron 式: COUNT=0 は今日から HORIZON_DAYS 日間、COUNT>=1 は START_DATE から回数分（日付と時刻の組で不足のみ追加）
+    const policy = this.generationPolicy();
+    const tasks = await this.listRuleRowsForGeneration('cron');
+    for (const t of tasks) {
+      const rule = await this.ruleSpecFromRow(t);
+      if (!rule) continue;
+      const finite = Number(rule.count || 0) >= 1;
+      if (!(await this.claimGeneration(marks, t, rule, policy))) continue;
+      const planned = await this.planTaskOccurrences(t.TASK_ID, rule, t.START_TIME || null, policy);
+      await this.ensurePlannedOccurrences(t.TASK_ID, planned, `cron.ensure.${finite ? 'count' : 'window'}`, true);
+    }
+  }
 
-        const nextDate = findNextDate();
-        if (!nextDate) continue;
+  private async ensureRecurringDailyOccurrences(marks: Map<number, string>, defaultDaysAhead: number = DEFAULT_DAILY_HORIZON_DAYS): Promise<void> {
+    // For COUNT=0 (infinite): create today..today+N-1 days.
+    // For COUNT>=1 (finite): ensure exactly COUNT dates from START_DATE exist (add missing only).
+    const policy = this.generationPolicy({ dailyHorizonDays: defaultDaysAhead });
+    const tasks = await this.listRuleRowsForGeneration('daily');
+    for (const t of tasks) {
+      const rule = await this.ruleSpecFromRow(t);
+      if (!rule) continue;
+      if (rule.anchor === 'completed') continue; // 完了基準は先出ししない
+      const finite = Number(rule.count || 0) >= 1;
+      if (finite && !t.START_DATE) continue;
+      if (!(await this.claimGeneration(marks, t, rule, policy))) continue;
+      const planned = await this.planTaskOccurrences(t.TASK_ID, rule, t.START_TIME || null, policy);
+      await this.ensurePlannedOccurrences(t.TASK_ID, planned, `daily.ensure.${finite ? 'count' : 'window'}`, matchesOccurrenceTime(rule));
+    }
+  }
 
-        const futureOccs = await this.all<any>(
-          `SELECT ID, SCHEDULED_DATE FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE >= ? ORDER BY SCHEDULED_DATE ASC`,
-          [t.TASK_ID, dateStr(today0)]
+  private async ensureRecurringWeeklyOccurrences(marks: Map<number, string>): Promise<void> {
+    // COUNT>=1: START_DATE以降で対象曜日の発生日をCOUNT件生成。
+    // COUNT=0: 主ルールは「次に発生する１件」（完了済みの回は飛ばす）のみを保持し、それ以降の主ルールの未完了オカレンスは削除する（追加ルール・追加日付の回は残す）。
+    // 1日の時刻リストがある場合は、時刻ごとに次の1件を保持する
+    const tasks = await this.listRuleRowsForGeneration('weekly');
+    for (const t of tasks) {
+      const rule = await this.ruleSpecFromRow(t);
+      if (!rule || !rule.weeklyDows) continue;
+      if (rule.anchor === 'completed') continue; // 完了基準は先出ししない
+      const finite = Number(rule.count || 0) >= 1;
+      if (finite && !t.START_DATE) continue;
+      const policy = this.generationPolicy();
+      if (!(await this.claimGeneration(marks, t, rule, policy))) continue;
+      if (!finite) {
+        const doneRows = await this.all<any>(
+          `SELECT SCHEDULED_DATE, SCHEDULED_TIME FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE >= ? AND SOURCE IS NULL AND STATUS = 'done'`,
+          [t.TASK_ID, policy.today]
         );
-        let hasTarget = false;
-        for (const occ of futureOccs) {
-          if (occ.SCHEDULED_DATE === nextDate) {
-            if (!hasTarget) { hasTarget = true; continue; }
-          }
-          if (occ.SCHEDULED_DATE > nextDate || occ.SCHEDULED_DATE === nextDate) {
-            await this.run(`DELETE FROM TASK_OCCURRENCES WHERE ID = ?`, [occ.ID]);
-            try { await this.logEvent('occ.delete', 'system', t.TASK_ID, occ.ID, { reason: 'weekly.prune.window', date: occ.SCHEDULED_DATE }); } catch {}
-          }
-        }
+        policy.completedKeys = new Set(doneRows.map(r => occurrenceMatchKey(rule, r.SCHEDULED_DATE, r.SCHEDULED_TIME ?? null)));
+      }
+      const planned = await this.planTaskOccurrences(t.TASK_ID, rule, t.START_TIME || null, policy);
+      const matchTime = matchesOccurrenceTime(rule);
+      if (finite) {
+        await this.ensurePlannedOccurrences(t.TASK_ID, planned, 'weekly.ensure.count', matchTime);
+        continue;
+      }
+      await this.ensurePlannedOccurrences(t.TASK_ID, planned.filter(p => p.source !== 'rule'), 'weekly.ensure.extra', matchTime);
 
-        if (!hasTarget) {
-          const nowIso = this.nowIso();
-          const newId = await this.run(
-            `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-             VALUES (?, ?, ?, 'pending', ?, ?)`,
-            [t.TASK_ID, nextDate, t.START_TIME || null, nowIso, nowIso]
-          );
-          try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'weekly.ensure.nextOnly', date: nextDate }); } catch {}
+      const nexts = planned.filter(p => p.source === 'rule');
+      if (!nexts.length) continue;
+      const nextDate = nexts.reduce((min, p) => (p.date < min ? p.date : min), nexts[0].date);
+      const targetKeys = new Set(nexts.map(p => occurrenceMatchKey(rule, p.date, p.time)));
+
+      const futureOccs = await this.all<any>(
+        `SELECT ID, SCHEDULED_DATE, SCHEDULED_TIME FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE >= ? AND SOURCE IS NULL AND STATUS = 'pending' ORDER BY SCHEDULED_DATE ASC, ID ASC`,
+        [t.TASK_ID, policy.today]
+      );
+      const kept = new Set<string>();
+      for (const occ of futureOccs) {
+        const key = occurrenceMatchKey(rule, occ.SCHEDULED_DATE, occ.SCHEDULED_TIME ?? null);
+        if (targetKeys.has(key) && !kept.has(key)) { kept.add(key); continue; }
+        if (occ.SCHEDULED_DATE >= nextDate) {
+          await this.run(`DELETE FROM TASK_OCCURRENCES WHERE ID = ?`, [occ.ID]);
+          try { await this.logEvent('occ.delete', 'system', t.TASK_ID, occ.ID, { reason: 'weekly.prune.window', date: occ.SCHEDULED_DATE }); } catch {}
         }
       }
+
+      const missing = nexts.filter(p => !kept.has(occurrenceMatchKey(rule, p.date, p.time)));
+      if (missing.length) {
+        await this.ensurePlannedOccurrences(t.TASK_ID, missing, 'weekly.ensure.nextOnly', matchTime);
+      }
     }
   }
 
-  private async ensureDailyCompletedAnchorOccurrences(): Promise<void> {
-    // 保証: 完了基準のタスクは pending を最大1件に保つ。必要なら1件だけ生成。
-    const tasks = await this.all<any>(
-      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME,
-              COALESCE(R.INTERVAL, 1) AS INTERVAL,
-              COALESCE(R.COUNT, 0) AS COUNT,
-              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
-       FROM TASKS T
-       JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID AND R.FREQ = 'daily' AND COALESCE(R.INTERVAL_ANCHOR,'scheduled') = 'completed'
-       WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0`
-    );
-    const dateOnly = (d: Date) => `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
+  private async ensureCompletedAnchorOccurrences(marks: Map<number, string>): Promise<void> {
+    // 保証: 完了基準のタスク（日次・週次・月次・年次）は pending を最大1件に保つ。必要なら1件だけ生成。
+    const tasks: any[] = [];
+    for (const freq of ['daily', 'weekly', 'monthly', 'yearly'] as const) {
+      tasks.push(...(await this.listRuleRowsForGeneration(freq)).filter(t => String(t.INTERVAL_ANCHOR || 'scheduled') === 'completed'));
+    }
+    const policy = this.generationPolicy();
     for (const t of tasks) {
-      const interval = Math.max(1, Number(t.INTERVAL || 1));
-      const start = t.START_DATE ? new Date(t.START_DATE as string) : new Date();
-      const offsetDays = Number(t.OCCURRENCE_OFFSET_DAYS || 0);
+      const rule = await this.ruleSpecFromRow(t);
+      if (!rule) continue;
+      // 次の回は完了時に作られるため、生成し直すのはルールや回の変更後のみ
+      if (!(await this.claimGeneration(marks, t, rule, policy))) continue;
+      const exceptions = await this.loadRecurrenceExceptionMap(t.TASK_ID);
       // 現在の pending を確認
       const pendings = await this.all<any>(`SELECT ID, SCHEDULED_DATE FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND STATUS = 'pending' ORDER BY SCHEDULED_DATE ASC`, [t.TASK_ID]);
       if (pendings.length > 1) {
@@ -658,8 +1568,8 @@ export class TaskDatabase {
       // 停止条件（COUNT）
       const doneCountRow = await this.get<any>(`SELECT COUNT(1) AS C FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND STATUS = 'done'`, [t.TASK_ID]);
       const doneCount = Number((doneCountRow && doneCountRow.C) || 0);
-      const finite = Number(t.COUNT || 0) >= 1;
-      if (finite && doneCount >= Number(t.COUNT)) {
+      const finite = Number(rule.count || 0) >= 1;
+      if (finite && doneCount >= Number(rule.count)) {
         // もう生成しない。余剰pendingがあれば削除
         if (pendings.length === 1) await this.run(`DELETE FROM TASK_OCCURRENCES WHERE ID = ?`, [pendings[0].ID]);
         continue;
@@ -668,45 +1578,27 @@ export class TaskDatabase {
       // 初回（過去含め発生履歴が0件）の場合は START_DATE で1件生成（INTERVALを足さない）
       const totalCountRow = await this.get<any>(`SELECT COUNT(1) AS C FROM TASK_OCCURRENCES WHERE TASK_ID = ?`, [t.TASK_ID]);
       const totalCount = Number((totalCountRow && totalCountRow.C) || 0);
-      let nextDate: string;
+      let candidate: string;
       if (totalCount === 0) {
-        const baseStart = dateOnly(start);
-        nextDate = this.applyOccurrenceOffset(baseStart, offsetDays);
+        candidate = addDaysYmd(rule.startDate, Number(rule.offsetDays || 0));
       } else {
         // 基準日: 直近の完了日 or START_DATE
         const lastDone = await this.get<any>(`SELECT COMPLETED_AT FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND STATUS = 'done' ORDER BY DATE(COALESCE(COMPLETED_AT, UPDATED_AT)) DESC LIMIT 1`, [t.TASK_ID]);
-        let base = start;
-        if (lastDone && lastDone.COMPLETED_AT) {
-          const d = new Date(lastDone.COMPLETED_AT as string);
-          base = new Date(d.getFullYear(), d.getMonth(), d.getDate());
-        }
-        const next = new Date(base);
-        next.setDate(base.getDate() + interval);
-        nextDate = this.applyOccurrenceOffset(dateOnly(next), offsetDays);
-      }
-      const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [t.TASK_ID, nextDate]);
-      if (!exists) {
-        const nowIso = this.nowIso();
-        const newId = await this.run(
-          `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-           VALUES (?, ?, ?, 'pending', ?, ?)`,
-          [t.TASK_ID, nextDate, t.START_TIME || null, nowIso, nowIso]
-        );
-        try { await this.logEvent('occ.autocreate', 'system', t.TASK_ID, newId, { reason: 'daily.completed.ensure', date: nextDate }); } catch {}
+        const base = (lastDone && lastDone.COMPLETED_AT) ? this.dateToYmd(new Date(lastDone.COMPLETED_AT as string)) : rule.startDate;
+        candidate = completionAnchoredNext(rule, base);
       }
+      // スキップされた日は INTERVAL ずつ先送りし、終了日を過ぎる場合は生成しない
+      const next = resolveNextOccurrence(rule, exceptions, candidate, t.START_TIME || null);
+      if (!next) continue;
+      await this.ensurePlannedOccurrences(t.TASK_ID, [next], `${t.FREQ}.completed.ensure`);
     }
   }
 
   private async reconcileOccurrencesForTask(taskId: number): Promise<void> {
-    // Align TASK_OCCURRENCES to the finite COUNT for the task's recurrence rule (daily/weekly/monthly).
+    // Align TASK_OCCURRENCES to the finite COUNT for the task's recurrence rule (daily/weekly/monthly/yearly).
     const task = await this.get<any>(
-      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME, T.IS_RECURRING,
-              R.FREQ, R.MONTHLY_DAY, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.COUNT,
-              COALESCE(R.WEEKLY_DOWS,0) AS WEEKLY_DOWS,
-              COALESCE(R.INTERVAL,1) AS INTERVAL,
-              COALESCE(R.INTERVAL_ANCHOR,'scheduled') AS INTERVAL_ANCHOR,
-              COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE,
-              COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
+      `SELECT T.ID AS TASK_ID, T.START_DATE, T.START_TIME, T.IS_RECURRING, ${TaskDatabase.RULE_SPEC_COLUMNS},
+              COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE
        FROM TASKS T
        LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
        WHERE T.ID = ?`, [taskId]
@@ -715,118 +1607,55 @@ export class TaskDatabase {
     if (Number((task as any).MANUAL_NEXT_DUE || 0) === 1) return;
     const count = Number(task.COUNT || 0);
     if (!task.START_DATE || !(count >= 1)) return; // only finite counts
-    const startDate = new Date(task.START_DATE as string);
-    const startDateStr = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-    const offsetDays = Number((task as any).OCCURRENCE_OFFSET_DAYS || 0);
-    const anchorDateStr = this.occurrenceAnchorDate(task.START_DATE as string, offsetDays) ?? startDateStr(startDate);
-
-    const targetDates: string[] = [];
-    if (task.FREQ === 'daily') {
-      const interval = Math.max(1, Number((task as any).INTERVAL || 1));
-      const anchor = String((task as any).INTERVAL_ANCHOR || 'scheduled');
-      if (anchor === 'completed') {
-        return; // 完了基準はここで正規化しない（pending=1件維持のポリシー）
-      }
-      for (let i = 0; i < count; i++) {
-        const d = new Date(startDate);
-        d.setDate(startDate.getDate() + i * interval);
-        const baseDateStr = startDateStr(d);
-        targetDates.push(this.applyOccurrenceOffset(baseDateStr, offsetDays));
-      }
-    } else if (task.FREQ === 'weekly') {
-      const mask = Number((task as any).WEEKLY_DOWS || 0);
-      if (!mask) return;
-      const interval = Math.max(1, Number((task as any).INTERVAL || 1));
-      const start0 = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
-      const startSunday = new Date(start0);
-      startSunday.setDate(start0.getDate() - start0.getDay());
-      for (let w = 0; targetDates.length < count && w < 520; w += interval) {
-        const weekStart = new Date(startSunday);
-        weekStart.setDate(startSunday.getDate() + w * 7);
-        for (let dow = 0; dow <= 6 && targetDates.length < count; dow++) {
-          if (!(mask & (1 << dow))) continue;
-          const d = new Date(weekStart);
-          d.setDate(weekStart.getDate() + dow);
-          if (d < start0) continue;
-          targetDates.push(this.applyOccurrenceOffset(startDateStr(d), offsetDays));
-        }
-      }
-    } else if (task.FREQ === 'monthly' && task.MONTHLY_DAY) {
-      const monthlyDay = Number(task.MONTHLY_DAY);
-      let i = 0;
-      while (targetDates.length < count) {
-        const m0 = (startDate.getMonth() + i) % 12;
-        const y = startDate.getFullYear() + Math.floor((startDate.getMonth() + i) / 12);
-        const base = this.clampMonthlyDate(y, m0, monthlyDay);
-        if (new Date(base) >= startDate) targetDates.push(this.applyOccurrenceOffset(base, offsetDays));
-        i++;
-      }
-    } else if (task.FREQ === 'monthly' && task.MONTHLY_NTH != null && task.MONTHLY_NTH_DOW != null) {
-      const nth = Number(task.MONTHLY_NTH);
-      const dow = Number(task.MONTHLY_NTH_DOW);
-      let i = 0;
-      while (targetDates.length < count) {
-        const m0 = (startDate.getMonth() + i) % 12;
-        const y = startDate.getFullYear() + Math.floor((startDate.getMonth() + i) / 12);
-        const base = this.nthWeekdayOfMonth(y, m0, nth, dow);
-        if (new Date(base) >= startDate) targetDates.push(this.applyOccurrenceOffset(base, offsetDays));
-        i++;
-      }
-    } else if (task.FREQ === 'yearly' && (task as any).YEARLY_MONTH && task.MONTHLY_DAY) {
-      const month = Number((task as any).YEARLY_MONTH);
-      const day = Number(task.MONTHLY_DAY);
-      let y = startDate.getFullYear();
-      // first occurrence on/after start
-      let base = this.clampMonthlyDate(y, month - 1, day);
-      if (new Date(base) < startDate) {
-        y += 1;
-        base = this.clampMonthlyDate(y, month - 1, day);
-      }
-      while (targetDates.length < count) {
-        targetDates.push(this.applyOccurrenceOffset(base, offsetDays));
-        y += 1;
-        base = this.clampMonthlyDate(y, month - 1, day);
-      }
-    } else {
-      return; // unsupported freq for reconciliation
+    const rule = await this.ruleSpecFromRow(task);
+    if (!rule) return; // unsupported freq for reconciliation
+    if (rule.anchor === 'completed') return; // 完了基準はここで正規化しない（pending=1件維持のポリシー）
+    const anchorDateStr = this.occurrenceAnchorDate(task.START_DATE as string, Number(rule.offsetDays || 0)) ?? rule.startDate;
+
+    // 例外を適用（skip は除外、reschedule は振替先へ）。スキップした回も COUNT に含める（COUNT は追加ルールごとに数える）
+    // cron 式・1日の時刻リストは1日に複数回ありうるため、日付と時刻の組で突き合わせる
+    const matchTime = matchesOccurrenceTime(rule);
+    const keyOf = (date: string, time: string | null) => (matchTime ? occurrenceKey(date, time) : date);
+    const targets = new Map<string, SourcedOccurrence>();
+    for (const target of await this.planTaskOccurrences(taskId, rule, task.START_TIME || null, this.generationPolicy())) {
+      targets.set(keyOf(target.date, target.time), target);
     }
 
     const existing = await this.all<any>(
-      `SELECT ID, SCHEDULED_DATE, STATUS FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE >= ?`,
+      `SELECT ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE >= ?
+        ORDER BY CASE WHEN STATUS = 'done' THEN 0 ELSE 1 END, ID ASC`,
       [taskId, anchorDateStr]
     );
-    const existingByDate = new Map<string, { id: number; status: string }>();
-    for (const e of existing) existingByDate.set(e.SCHEDULED_DATE, { id: e.ID, status: e.STATUS });
 
-    // Delete occurrences not in target set (all statuses含む)
+    // Delete occurrences not in target set (all statuses含む)。同じ日（時刻）の重複は完了済み・古いものを残す
+    const seen = new Set<string>();
     for (const e of existing) {
-      if (!targetDates.includes(e.SCHEDULED_DATE)) {
+      const key = keyOf(e.SCHEDULED_DATE, e.SCHEDULED_TIME ?? null);
+      if (!targets.has(key)) {
         await this.run(`DELETE FROM TASK_OCCURRENCES WHERE ID = ?`, [e.ID]);
         try { await this.logEvent('occ.delete', 'system', taskId, e.ID, { reason: 'reconcile.remove', date: e.SCHEDULED_DATE, status: e.STATUS }); } catch {}
+      } else if (seen.has(key)) {
+        await this.run(`DELETE FROM TASK_OCCURRENCES WHERE ID = ?`, [e.ID]);
+        try { await this.logEvent('occ.delete', 'system', taskId, e.ID, { reason: 'reconcile.duplicate', date: e.SCHEDULED_DATE, status: e.STATUS }); } catch {}
+      } else {
+        seen.add(key);
       }
     }
 
     // Add missing occurrences
-    const nowIso = this.nowIso();
-    for (const d of targetDates) {
-      if (!existingByDate.has(d)) {
-        const newId = await this.run(
-          `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-           VALUES (?, ?, ?, 'pending', ?, ?)`,
-          [taskId, d, task.START_TIME || null, nowIso, nowIso]
-        );
-        try { await this.logEvent('occ.autocreate', 'system', taskId, newId, { reason: 'reconcile.add', date: d }); } catch {}
-      }
-    }
+    await this.ensurePlannedOccurrences(taskId, Array.from(targets.values()), 'reconcile.add', matchTime);
   }
 
-  private async ensureSingleOccurrences(): Promise<void> {
+  private async ensureSingleOccurrences(marks: Map<number, string>): Promise<void> {
     // Ensure a single occurrence exists for non-recurring tasks with a scheduled date.
+    // 生成済み（GENERATED_THROUGH あり）のタスクは、タスクや回が変更されるまで対象にしない
     const tasks = await this.all<any>(
       `SELECT T.ID AS TASK_ID, DATE(COALESCE(T.DUE_AT, T.START_DATE)) AS S_DATE, T.START_TIME
        FROM TASKS T
+       LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
        WHERE T.IS_RECURRING = 0
-         AND DATE(COALESCE(T.DUE_AT, T.START_DATE)) IS NOT NULL`
+         AND DATE(COALESCE(T.DUE_AT, T.START_DATE)) IS NOT NULL
+         AND R.GENERATED_THROUGH IS NULL`
     );
     const nowIso = this.nowIso();
     for (const t of tasks) {
@@ -837,6 +1666,7 @@ export class TaskDatabase {
           [t.TASK_ID, 'monthly', null, 1, nowIso, nowIso]
         );
       }
+      marks.set(t.TASK_ID, GENERATED_ALL);
       const scheduledDate = t.S_DATE as string;
       const exists = await this.get<any>(
         `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`,
@@ -907,15 +1737,67 @@ export class TaskDatabase {
     }
   }
 
-  async listOccurrences(params: { from?: string; to?: string; query?: string; status?: string } = {}): Promise<any[]> {
-    // Ensure occurrences exist for both recurring and single tasks
-    await this.ensureSingleOccurrences();
-    await this.ensureRecurringMonthlyOccurrences(2);
-    await this.ensureRecurringYearlyOccurrences(2);
-    await this.ensureRecurringWeeklyOccurrences(8);
-    await this.ensureRecurringDailyOccurrences(14);
-    await this.ensureDailyCompletedAnchorOccurrences();
+  // ===== オカレンスの生成 =====
+  /**
+   * 生成済みの範囲（GENERATED_THROUGH）が今回の目標に届いていないルールだけを展開し、不足しているオカレンスを作る。
+   * メインプロセスのスケジューラ（起動時・日付の変わり目・ルールの変更後）から呼ぶ。作成・削除したオカレンスの件数を返す。
+   * force を指定するとすべてのルールを展開し直す
+   */
+  async generateOccurrences(options: { force?: boolean } = {}): Promise<{ created: number; removed: number }> {
+    return this.exclusive(() => this.withTransaction(async () => {
+      if (options.force) await this.run('UPDATE RECURRENCE_RULES SET GENERATED_THROUGH = NULL');
+      const before = await this.get<any>('SELECT COALESCE(MAX(ID),0) AS MAX_ID, COUNT(1) AS C FROM TASK_OCCURRENCES');
+      // 生成済みの範囲は、オカレンスを作り終えてから同じトランザクションで書き込む（途中で失敗すればどちらも残らない）
+      const marks = new Map<number, string>();
+      await this.ensureSingleOccurrences(marks);
+      await this.ensureRecurringMonthlyOccurrences(marks);
+      await this.ensureRecurringYearlyOccurrences(marks);
+      await this.ensureRecurringDateListOccurrences(marks);
+      await this.ensureRecurringCronOccurrences(marks);
+      await this.ensureRecurringWeeklyOccurrences(marks);
+      await this.ensureRecurringDailyOccurrences(marks);
+      await this.ensureCompletedAnchorOccurrences(marks);
+      for (const [taskId, through] of marks) {
+        await this.run('UPDATE RECURRENCE_RULES SET GENERATED_THROUGH = ? WHERE TASK_ID = ?', [through, taskId]);
+      }
+      const created = await this.get<any>('SELECT COUNT(1) AS C FROM TASK_OCCURRENCES WHERE ID > ?', [Number(before?.MAX_ID || 0)]);
+      const after = await this.get<any>('SELECT COUNT(1) AS C FROM TASK_OCCURRENCES');
+      const createdCount = Number(created?.C || 0);
+      return { created: createdCount, removed: Number(before?.C || 0) + createdCount - Number(after?.C || 0) };
+    }));
+  }
+
+  // 生成のスケジューラを登録する（null で解除）。markGenerationStale のたびに呼ばれる
+  setGenerationListener(listener: (() => void) | null): void {
+    this.generationListener = listener;
+  }
+
+  // 生成済みの範囲を破棄して、次回の生成で展開し直すようにする（taskId が null ならすべてのルール）
+  private async markGenerationStale(taskId: number | null): Promise<void> {
+    if (taskId == null) await this.run('UPDATE RECURRENCE_RULES SET GENERATED_THROUGH = NULL');
+    else await this.run('UPDATE RECURRENCE_RULES SET GENERATED_THROUGH = NULL WHERE TASK_ID = ?', [taskId]);
+    if (this.generationListener) this.generationListener();
+  }
 
+  // 今回の生成の目標（主ルール・追加ルール・今日以降にかかる以前の版のうち最も近いウィンドウの終わり）を求め、
+  // 生成済みの範囲がそこに届いていなければ目標を marks に控えて true を返す（書き込みは生成の後）。届いていれば展開しない
+  private async claimGeneration(marks: Map<number, string>, row: any, rule: RecurrenceRuleSpec, policy: GenerationPolicy): Promise<boolean> {
+    const specs = [rule];
+    for (const pattern of (await this.loadRecurrenceExtras(row.TASK_ID)).rules) specs.push(extraRuleSpec(rule, pattern));
+    if (row.EFFECTIVE_FROM) {
+      for (const version of await this.loadRuleVersions(row.TASK_ID, policy.today)) specs.push(version.rule);
+    }
+    const target = specs.reduce((min, spec) => {
+      const end = generationWindowEnd(spec, policy) ?? GENERATED_ALL;
+      return end < min ? end : min;
+    }, GENERATED_ALL);
+    if (row.GENERATED_THROUGH && String(row.GENERATED_THROUGH) >= target) return false;
+    marks.set(row.TASK_ID, target);
+    return true;
+  }
+
+  // 期間・検索語・状態で絞り込んだオカレンス（読み取りのみ。作成は generateOccurrences が行う）
+  async listOccurrences(params: { from?: string; to?: string; query?: string; status?: string } = {}): Promise<any[]> {
     const where: string[] = [];
     const binds: any[] = [];
     if (params.from) { where.push('O.SCHEDULED_DATE >= ?'); binds.push(params.from); }
@@ -923,14 +1805,18 @@ export class TaskDatabase {
     if (params.status) { where.push('O.STATUS = ?'); binds.push(params.status); }
     if (params.query) { where.push('(T.TITLE LIKE ? OR T.DESCRIPTION LIKE ?)'); binds.push(`%${params.query}%`, `%${params.query}%`); }
     const sql = `SELECT O.ID AS OCCURRENCE_ID, O.SCHEDULED_DATE, O.SCHEDULED_TIME, O.DEFERRED_DATE, O.STATUS AS OCC_STATUS, O.COMPLETED_AT,
+                        COALESCE(O.SOURCE,'rule') AS OCC_SOURCE, O.EXTRA_RULE_ID,
                         T.ID AS TASK_ID, T.TITLE, T.DESCRIPTION, T.DUE_AT,
                         T.START_DATE, T.START_TIME, T.IS_RECURRING, T.REQUIRE_COMPLETE_COMMENT,
-                        R.FREQ, R.MONTHLY_DAY, R.COUNT, R.MANUAL_NEXT_DUE, COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
+                        R.FREQ, R.MONTHLY_DAY, R.COUNT, R.MANUAL_NEXT_DUE, COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS,
+                        (SELECT E.EXCEPTION_DATE FROM RECURRENCE_EXCEPTIONS E
+                          WHERE E.TASK_ID = O.TASK_ID AND E.ACTION = 'reschedule' AND E.NEW_DATE = O.SCHEDULED_DATE
+                          ORDER BY E.ID DESC LIMIT 1) AS RESCHEDULED_FROM
                  FROM TASK_OCCURRENCES O
                  JOIN TASKS T ON T.ID = O.TASK_ID
                  LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
                  ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
-                 ORDER BY O.SCHEDULED_DATE ASC, O.ID ASC`;
+                 ORDER BY O.SCHEDULED_DATE ASC, COALESCE(O.SCHEDULED_TIME,'') ASC, O.ID ASC`;
     const rows = await this.all<any>(sql, binds);
     if (!rows.length) return rows;
     const cache = new Map<number, string[]>();
@@ -945,232 +1831,257 @@ export class TaskDatabase {
     return rows;
   }
 
-  async completeOccurrence(occurrenceId: number, options: { comment?: string; completedAt?: string; manualNextDue?: string } = {}): Promise<void> {
-    const now = this.nowIso();
-    const completedAtIso = this.normalizeCompletedAtInput(options?.completedAt) ?? now;
-    const occ = await this.get<any>(
-      `SELECT O.ID, O.TASK_ID, O.SCHEDULED_DATE, T.START_DATE, T.START_TIME,
-              R.FREQ, R.MONTHLY_DAY, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.COUNT, R.YEARLY_MONTH,
-              COALESCE(R.INTERVAL,1) AS INTERVAL,
-              COALESCE(R.INTERVAL_ANCHOR,'scheduled') AS INTERVAL_ANCHOR,
-              COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE
-       FROM TASK_OCCURRENCES O
-       JOIN TASKS T ON T.ID = O.TASK_ID
-       LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
-       WHERE O.ID = ?`, [occurrenceId]
-    );
-    if (!occ) return;
-    const prevStatus = 'pending';
-    await this.run(`UPDATE TASK_OCCURRENCES SET STATUS = 'done', COMPLETED_AT = ?, UPDATED_AT = ? WHERE ID = ?`, [completedAtIso, now, occurrenceId]);
-    // Log: occ.complete (user)
-    try {
-      const details: any = { from: prevStatus, to: 'done', completedAt: completedAtIso };
-      if (options && typeof options.comment !== 'undefined') details.comment = options.comment;
-      await this.logEvent('occ.complete', 'user', Number(occ.TASK_ID), occurrenceId, details);
-    } catch {}
-    // Generate next occurrence for recurring tasks
-    const manualNextDue = Number((occ as any).MANUAL_NEXT_DUE || 0) === 1;
-    if (manualNextDue) {
-      const nextDueRaw = options && typeof options.manualNextDue === 'string' ? options.manualNextDue : undefined;
-      if (!nextDueRaw) {
-        throw new Error('次の期日が指定されていません');
-      }
-      const nextDate = this.normalizeDateOnly(nextDueRaw);
-      if (typeof occ.SCHEDULED_DATE === 'string' && nextDate < occ.SCHEDULED_DATE) {
-        throw new Error('次の期日は現在の期日以降を指定してください');
+  /**
+   * 完了履歴（CSV 書き出し用）。予定日が範囲内の既存オカレンスを返し、発生の自動生成は行わない。
+   * COMPLETE_COMMENT は最後の完了イベント（occ.complete）のコメント。
+   */
+  async listOccurrenceHistory(params: { from?: string; to?: string } = {}): Promise<any[]> {
+    const where: string[] = [];
+    const binds: any[] = [];
+    if (params.from) { where.push('O.SCHEDULED_DATE >= ?'); binds.push(params.from); }
+    if (params.to) { where.push('O.SCHEDULED_DATE <= ?'); binds.push(params.to); }
+    const sql = `SELECT O.ID AS OCCURRENCE_ID, O.TASK_ID, T.TITLE, O.SCHEDULED_DATE, O.SCHEDULED_TIME, O.DEFERRED_DATE,
+                        O.STATUS, O.COMPLETED_AT,
+                        (SELECT E.DETAILS FROM TASK_EVENTS E
+                          WHERE E.OCCURRENCE_ID = O.ID AND E.KIND = 'occ.complete'
+                          ORDER BY E.CREATED_AT DESC, E.ID DESC LIMIT 1) AS COMPLETE_DETAILS
+                 FROM TASK_OCCURRENCES O
+                 JOIN TASKS T ON T.ID = O.TASK_ID
+                 ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
+                 ORDER BY O.SCHEDULED_DATE ASC, COALESCE(O.SCHEDULED_TIME,'') ASC, O.ID ASC`;
+    const rows = await this.all<any>(sql, binds);
+    const cache = new Map<number, string[]>();
+    for (const row of rows) {
+      let comment: string | null = null;
+      if (row.STATUS === 'done' && row.COMPLETE_DETAILS) {
+        try {
+          const details = JSON.parse(row.COMPLETE_DETAILS);
+          if (typeof details?.comment === 'string') comment = details.comment;
+        } catch {}
       }
-      const scheduledTime = occ.START_TIME || null;
-      await this.run('UPDATE TASKS SET DUE_AT = ?, START_DATE = ?, UPDATED_AT = ? WHERE ID = ?', [nextDate, nextDate, now, occ.TASK_ID]);
-      await this.ensureManualNextOccurrence(occ.TASK_ID, nextDate, scheduledTime);
-      try {
-        await this.logEvent('task.manual.nextDue', 'user', Number(occ.TASK_ID), occurrenceId, { previousDate: occ.SCHEDULED_DATE, nextDate });
-      } catch {}
-      return;
+      row.COMPLETE_COMMENT = comment;
+      delete row.COMPLETE_DETAILS;
+      const taskId = Number(row.TASK_ID);
+      if (!cache.has(taskId)) cache.set(taskId, await this.getTagsForTask(taskId));
+      row.TAGS = cache.get(taskId) || [];
     }
+    return rows;
+  }
 
-    if (occ.FREQ === 'monthly' && occ.MONTHLY_DAY && (!occ.COUNT || Number(occ.COUNT) === 0)) {
-      const d = new Date(occ.SCHEDULED_DATE as string);
-      const nextMonth0 = (d.getMonth() + 1) % 12;
-      const nextYear = d.getFullYear() + (d.getMonth() === 11 ? 1 : 0);
-      const nextDate = this.clampMonthlyDate(nextYear, nextMonth0, Number(occ.MONTHLY_DAY));
-      const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [occ.TASK_ID, nextDate]);
-      if (!exists) {
-        const newId = await this.run(
-          `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-           VALUES (?, ?, ?, 'pending', ?, ?)`,
-          [occ.TASK_ID, nextDate, occ.START_TIME || null, now, now]
-        );
-        try { await this.logEvent('occ.autocreate', 'system', Number(occ.TASK_ID), newId, { reason: 'complete.next.monthlyDay', date: nextDate }); } catch {}
-      }
-    } else if (occ.FREQ === 'monthly' && occ.MONTHLY_NTH != null && occ.MONTHLY_NTH_DOW != null && (!occ.COUNT || Number(occ.COUNT) === 0)) {
-      const d = new Date(occ.SCHEDULED_DATE as string);
-      const nextMonth0 = (d.getMonth() + 1) % 12;
-      const nextYear = d.getFullYear() + (d.getMonth() === 11 ? 1 : 0);
-      const nextDate = this.nthWeekdayOfMonth(nextYear, nextMonth0, Number(occ.MONTHLY_NTH), Number(occ.MONTHLY_NTH_DOW));
-      const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [occ.TASK_ID, nextDate]);
-      if (!exists) {
-        const newId = await this.run(
-          `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-           VALUES (?, ?, ?, 'pending', ?, ?)`,
-          [occ.TASK_ID, nextDate, occ.START_TIME || null, now, now]
-        );
-        try { await this.logEvent('occ.autocreate', 'system', Number(occ.TASK_ID), newId, { reason: 'complete.next.monthlyNth', date: nextDate }); } catch {}
-      }
-    } else if (occ.FREQ === 'weekly' && (!occ.COUNT || Number(occ.COUNT) === 0)) {
-      const interval = Math.max(1, Number((occ as any).INTERVAL || 1));
-      const d = new Date(occ.SCHEDULED_DATE as string);
-      d.setDate(d.getDate() + 7 * interval);
-      const nextDate = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-      const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [occ.TASK_ID, nextDate]);
-      if (!exists) {
-        const newId = await this.run(
-          `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-           VALUES (?, ?, ?, 'pending', ?, ?)`,
-          [occ.TASK_ID, nextDate, occ.START_TIME || null, now, now]
-        );
-        try { await this.logEvent('occ.autocreate', 'system', Number(occ.TASK_ID), newId, { reason: 'complete.next.weekly', date: nextDate }); } catch {}
-      }
-    } else if (occ.FREQ === 'yearly' && (!occ.COUNT || Number(occ.COUNT) === 0)) {
-      const month = Math.max(1, Math.min(12, Number((occ as any).YEARLY_MONTH || 0)));
-      const day = Math.max(1, Math.min(31, Number((occ as any).MONTHLY_DAY || 0)));
-      if (month >= 1 && day >= 1) {
-        const d = new Date(occ.SCHEDULED_DATE as string);
-        const nextDate = this.clampMonthlyDate(d.getFullYear() + 1, month - 1, day);
-        const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [occ.TASK_ID, nextDate]);
-        if (!exists) {
-          const newId = await this.run(
-            `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-             VALUES (?, ?, ?, 'pending', ?, ?)`,
-            [occ.TASK_ID, nextDate, occ.START_TIME || null, now, now]
-          );
-          try { await this.logEvent('occ.autocreate', 'system', Number(occ.TASK_ID), newId, { reason: 'complete.next.yearly', date: nextDate }); } catch {}
+  async completeOccurrence(occurrenceId: number, options: { comment?: string; completedAt?: string; manualNextDue?: string } = {}): Promise<void> {
+    return this.exclusive(async () => {
+      const now = this.nowIso();
+      const completedAtIso = this.normalizeCompletedAtInput(options?.completedAt) ?? now;
+      const occ = await this.get<any>(
+        `SELECT O.ID, O.TASK_ID, O.SCHEDULED_DATE, O.SCHEDULED_TIME, O.SOURCE, O.EXTRA_RULE_ID, T.START_DATE, T.START_TIME, ${TaskDatabase.RULE_SPEC_COLUMNS},
+                COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE
+         FROM TASK_OCCURRENCES O
+         JOIN TASKS T ON T.ID = O.TASK_ID
+         LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+         WHERE O.ID = ?`, [occurrenceId]
+      );
+      if (!occ) return;
+      const prevStatus = 'pending';
+      await this.run(`UPDATE TASK_OCCURRENCES SET STATUS = 'done', COMPLETED_AT = ?, UPDATED_AT = ? WHERE ID = ?`, [completedAtIso, now, occurrenceId]);
+      // Log: occ.complete (user)
+      try {
+        const details: any = { from: prevStatus, to: 'done', completedAt: completedAtIso };
+        if (options && typeof options.comment !== 'undefined') details.comment = options.comment;
+        await this.logEvent('occ.complete', 'user', Number(occ.TASK_ID), occurrenceId, details);
+      } catch {}
+      // 週次の次の1回や完了基準の次回は完了した回によって変わるため、このタスクは次回の生成で展開し直す
+      await this.markGenerationStale(Number(occ.TASK_ID));
+      // Generate next occurrence for recurring tasks
+      const manualNextDue = Number((occ as any).MANUAL_NEXT_DUE || 0) === 1;
+      if (manualNextDue) {
+        const nextDueRaw = options && typeof options.manualNextDue === 'string' ? options.manualNextDue : undefined;
+        if (!nextDueRaw) {
+          throw new Error('次の期日が指定されていません');
         }
+        const nextDate = this.normalizeDateOnly(nextDueRaw);
+        if (typeof occ.SCHEDULED_DATE === 'string' && nextDate < occ.SCHEDULED_DATE) {
+          throw new Error('次の期日は現在の期日以降を指定してください');
+        }
+        const scheduledTime = occ.START_TIME || null;
+        await this.run('UPDATE TASKS SET DUE_AT = ?, START_DATE = ?, UPDATED_AT = ? WHERE ID = ?', [nextDate, nextDate, now, occ.TASK_ID]);
+        await this.ensureManualNextOccurrence(occ.TASK_ID, nextDate, scheduledTime);
+        try {
+          await this.logEvent('task.manual.nextDue', 'user', Number(occ.TASK_ID), occurrenceId, { previousDate: occ.SCHEDULED_DATE, nextDate });
+        } catch {}
+        return;
       }
-    } else if (occ.FREQ === 'daily' && (!occ.COUNT || Number(occ.COUNT) === 0)) {
-      const interval = Math.max(1, Number((occ as any).INTERVAL || 1));
-      let nextDate: string;
-      const anchor = String((occ as any).INTERVAL_ANCHOR || 'scheduled');
-      if (anchor === 'completed') {
-        const cd = new Date(completedAtIso);
-        const base = new Date(cd.getFullYear(), cd.getMonth(), cd.getDate());
-        base.setDate(base.getDate() + interval);
-        nextDate = `${base.getFullYear()}-${String(base.getMonth() + 1).padStart(2, '0')}-${String(base.getDate()).padStart(2, '0')}`;
+
+      // 次回の算出は系列上の日付（振替前の日付）を基準にし、例外（skip/reschedule）と終了日を適用する
+      // 追加ルールの回はそのルールで次回を求め、追加日付の回は次回を作らない
+      const unlimited = !occ.COUNT || Number(occ.COUNT) === 0;
+      if (!unlimited || occ.SOURCE === 'date') return;
+      const currentRule = occ.SOURCE === 'extra'
+        ? await this.occurrenceRuleSpec(Number(occ.TASK_ID), occ.SOURCE, occ.EXTRA_RULE_ID)
+        : await this.ruleSpecFromRow(occ);
+      if (!currentRule) return;
+      const exceptions = await this.loadRecurrenceExceptionMap(Number(occ.TASK_ID));
+      let seriesDate = seriesDateOf(exceptions, String(occ.SCHEDULED_DATE), currentRule);
+      // 変更日より前の回は、その回の版のルールで次回を求める（次回が変更日以降になる場合は作らず、現在の版の生成処理に任せる）
+      const rule = occ.SOURCE === 'extra' ? currentRule : await this.ruleSpecAt(Number(occ.TASK_ID), currentRule, seriesDate);
+      if (rule !== currentRule) seriesDate = seriesDateOf(exceptions, String(occ.SCHEDULED_DATE), rule);
+      // cron 式は1日に複数回あるため、完了で次回を作らず生成ウィンドウ（ensureRecurringCronOccurrences）に任せる
+      if (rule.freq === 'cron') return;
+      // 1日の時刻リストは時刻ごとに次回を求める（完了した回と同じ時刻の次の回）。時刻リストから外れた時刻の回は次回を作らない
+      const multiple = matchesOccurrenceTime(rule);
+      const slotTime: string | null = multiple ? (occ.SCHEDULED_TIME ?? null) : (occ.START_TIME || null);
+      if (multiple && !seriesTimesOf(rule, null).includes(slotTime)) return;
+      let candidate: string | null;
+      if (rule.anchor === 'completed') {
+        candidate = completionAnchoredNext(rule, this.dateToYmd(new Date(completedAtIso)));
       } else {
-        const d = new Date(occ.SCHEDULED_DATE as string);
-        d.setDate(d.getDate() + interval);
-        nextDate = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+        candidate = stepSeriesDate(rule, seriesDate);
       }
-      const exists = await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [occ.TASK_ID, nextDate]);
+      if (!candidate) return;
+      let next = resolveNextOccurrence(rule, exceptions, candidate, slotTime);
+      // 週次は生成処理（次の1回のみ保持）と揃え、期日を過ぎた回を完了した場合も今日以降の回を次回とする
+      if (rule.freq === 'weekly' && rule.anchor !== 'completed') {
+        const today = todayYmd();
+        while (next && next.date < today) {
+          const step = stepSeriesDate(rule, next.seriesDate);
+          next = step ? resolveNextOccurrence(rule, exceptions, step, slotTime) : null;
+        }
+      }
+      if (!next) return;
+      const reasons: Record<Exclude<RecurrenceFreq, 'cron'>, string> = {
+        daily: 'complete.next.daily',
+        weekly: 'complete.next.weekly',
+        monthly: 'complete.next.monthlyDay',
+        monthlyNth: 'complete.next.monthlyNth',
+        monthlyBusinessDay: 'complete.next.monthlyBusinessDay',
+        yearly: 'complete.next.yearly',
+        dates: 'complete.next.dates'
+      };
+      const exists = multiple
+        ? await this.get<any>(
+          `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ? AND COALESCE(SCHEDULED_TIME,'') = ?`,
+          [occ.TASK_ID, next.date, next.time ?? '']
+        )
+        : await this.get<any>(`SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`, [occ.TASK_ID, next.date]);
       if (!exists) {
+        const source = occ.SOURCE === 'extra' ? 'extra' : null;
         const newId = await this.run(
-          `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-           VALUES (?, ?, ?, 'pending', ?, ?)`,
-          [occ.TASK_ID, nextDate, occ.START_TIME || null, now, now]
+          `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, SOURCE, EXTRA_RULE_ID, CREATED_AT, UPDATED_AT)
+           VALUES (?, ?, ?, 'pending', ?, ?, ?, ?)`,
+          [occ.TASK_ID, next.date, next.time, source, source ? occ.EXTRA_RULE_ID : null, now, now]
         );
-        try { await this.logEvent('occ.autocreate', 'system', Number(occ.TASK_ID), newId, { reason: 'complete.next.daily', date: nextDate, anchor: (occ as any).INTERVAL_ANCHOR }); } catch {}
+        const details: any = { reason: reasons[rule.freq], date: next.date };
+        if (rule.freq === 'daily' || rule.anchor === 'completed') details.anchor = rule.anchor;
+        if (multiple) details.time = next.time;
+        if (next.seriesDate !== next.date) details.rescheduledFrom = next.seriesDate;
+        if (source) { details.source = source; details.extraRuleId = occ.EXTRA_RULE_ID; }
+        try { await this.logEvent('occ.autocreate', 'system', Number(occ.TASK_ID), newId, details); } catch {}
       }
-    }
+    });
   }
 
   async deferOccurrence(occurrenceId: number, newDate: string | null): Promise<void> {
-    const occ = await this.get<any>(
-      `SELECT ID, TASK_ID, SCHEDULED_DATE, DEFERRED_DATE FROM TASK_OCCURRENCES WHERE ID = ?`,
-      [occurrenceId]
-    );
-    if (!occ) throw new Error('指定された発生が見つかりません');
-    const normalized = (newDate == null || String(newDate).trim() === '')
-      ? null
-      : this.normalizeDateOnly(newDate);
-    const now = this.nowIso();
-    await this.run(
-      `UPDATE TASK_OCCURRENCES SET DEFERRED_DATE = ?, UPDATED_AT = ? WHERE ID = ?`,
-      [normalized, now, occurrenceId]
-    );
-    try {
-      await this.logEvent('occ.defer', 'user', Number(occ.TASK_ID), occurrenceId, {
-        scheduled: occ.SCHEDULED_DATE,
-        previousDeferred: occ.DEFERRED_DATE ?? null,
-        deferred: normalized
-      });
-    } catch {}
+    return this.exclusive(async () => {
+      const occ = await this.get<any>(
+        `SELECT ID, TASK_ID, SCHEDULED_DATE, DEFERRED_DATE FROM TASK_OCCURRENCES WHERE ID = ?`,
+        [occurrenceId]
+      );
+      if (!occ) throw new Error('指定された発生が見つかりません');
+      const normalized = (newDate == null || String(newDate).trim() === '')
+        ? null
+        : this.normalizeDateOnly(newDate);
+      const now = this.nowIso();
+      await this.run(
+        `UPDATE TASK_OCCURRENCES SET DEFERRED_DATE = ?, UPDATED_AT = ? WHERE ID = ?`,
+        [normalized, now, occurrenceId]
+      );
+      try {
+        await this.logEvent('occ.defer', 'user', Number(occ.TASK_ID), occurrenceId, {
+          scheduled: occ.SCHEDULED_DATE,
+          previousDeferred: occ.DEFERRED_DATE ?? null,
+          deferred: normalized
+        });
+      } catch {}
+    });
   }
 
   async prunePastOccurrences(taskId: number): Promise<{ removed: number; keptOccurrenceId: number | null; totalMatched: number; skippedManualNext: boolean }> {
-    const normalizedTaskId = Number(taskId);
-    if (!Number.isFinite(normalizedTaskId) || normalizedTaskId <= 0) {
-      throw new Error('タスクIDが不正です');
-    }
-    const taskRow = await this.get<any>(
-      `SELECT T.ID, COALESCE(R.MANUAL_NEXT_DUE, 0) AS MANUAL_NEXT_DUE
-         FROM TASKS T
-         LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
-        WHERE T.ID = ?`,
-      [normalizedTaskId]
-    );
-    if (!taskRow) {
-      return { removed: 0, keptOccurrenceId: null, totalMatched: 0, skippedManualNext: false };
-    }
-    const manualNextDue = Number(taskRow.MANUAL_NEXT_DUE || 0) === 1;
-    if (manualNextDue) {
-      return { removed: 0, keptOccurrenceId: null, totalMatched: 0, skippedManualNext: true };
-    }
-    const today = new Date();
-    const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const todayYmd = this.dateToYmd(todayStart);
-    const occRows = await this.all<{ ID: number; SCHEDULED_DATE: string | null; DEFERRED_DATE: string | null }>(
-      `SELECT ID, SCHEDULED_DATE, DEFERRED_DATE
-         FROM TASK_OCCURRENCES
-        WHERE TASK_ID = ?
-          AND STATUS = 'pending'`,
-      [normalizedTaskId]
-    );
-    type Candidate = { id: number; ymd: string };
-    const candidates: Candidate[] = [];
-    for (const row of occRows) {
-      const deferred = typeof row.DEFERRED_DATE === 'string' ? row.DEFERRED_DATE.trim() : '';
-      const scheduled = typeof row.SCHEDULED_DATE === 'string' ? row.SCHEDULED_DATE.trim() : '';
-      const effective = deferred || scheduled;
-      if (!effective) continue;
-      const id = Number(row.ID);
-      if (!Number.isFinite(id)) continue;
-      const parsed = this.parseDateOnlyStrict(effective);
-      if (!(parsed instanceof Date) || Number.isNaN(parsed.getTime())) continue;
-      const normalized = this.dateToYmd(new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
-      if (normalized >= todayYmd) continue;
-      candidates.push({ id, ymd: normalized });
-    }
-    if (candidates.length <= 1) {
-      const kept = candidates.length === 1 ? candidates[0].id : null;
-      return { removed: 0, keptOccurrenceId: kept, totalMatched: candidates.length, skippedManualNext: false };
-    }
-    candidates.sort((a, b) => {
-      const cmp = a.ymd.localeCompare(b.ymd);
-      if (cmp !== 0) return cmp;
-      return a.id - b.id;
-    });
-    const keep = candidates[candidates.length - 1];
-    const toRemove = candidates.slice(0, candidates.length - 1);
-    const removedIds = await this.withTransaction(async () => {
-      const removed: number[] = [];
-      for (const entry of toRemove) {
-        await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [entry.id]);
-        removed.push(entry.id);
+    return this.exclusive(async () => {
+      const normalizedTaskId = Number(taskId);
+      if (!Number.isFinite(normalizedTaskId) || normalizedTaskId <= 0) {
+        throw new Error('タスクIDが不正です');
       }
-      return removed;
-    });
-    try {
-      await this.logEvent('occ.prune', 'user', normalizedTaskId, keep.id, {
-        keptOccurrenceId: keep.id,
-        removedOccurrenceIds: removedIds,
-        matched: candidates.length
+      const taskRow = await this.get<any>(
+        `SELECT T.ID, COALESCE(R.MANUAL_NEXT_DUE, 0) AS MANUAL_NEXT_DUE
+           FROM TASKS T
+           LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+          WHERE T.ID = ?`,
+        [normalizedTaskId]
+      );
+      if (!taskRow) {
+        return { removed: 0, keptOccurrenceId: null, totalMatched: 0, skippedManualNext: false };
+      }
+      const manualNextDue = Number(taskRow.MANUAL_NEXT_DUE || 0) === 1;
+      if (manualNextDue) {
+        return { removed: 0, keptOccurrenceId: null, totalMatched: 0, skippedManualNext: true };
+      }
+      const today = new Date();
+      const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+      const todayYmd = this.dateToYmd(todayStart);
+      const occRows = await this.all<{ ID: number; SCHEDULED_DATE: string | null; DEFERRED_DATE: string | null }>(
+        `SELECT ID, SCHEDULED_DATE, DEFERRED_DATE
+           FROM TASK_OCCURRENCES
+          WHERE TASK_ID = ?
+            AND STATUS = 'pending'`,
+        [normalizedTaskId]
+      );
+      type Candidate = { id: number; ymd: string };
+      const candidates: Candidate[] = [];
+      for (const row of occRows) {
+        const deferred = typeof row.DEFERRED_DATE === 'string' ? row.DEFERRED_DATE.trim() : '';
+        const scheduled = typeof row.SCHEDULED_DATE === 'string' ? row.SCHEDULED_DATE.trim() : '';
+        const effective = deferred || scheduled;
+        if (!effective) continue;
+        const id = Number(row.ID);
+        if (!Number.isFinite(id)) continue;
+        const parsed = this.parseDateOnlyStrict(effective);
+        if (!(parsed instanceof Date) || Number.isNaN(parsed.getTime())) continue;
+        const normalized = this.dateToYmd(new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+        if (normalized >= todayYmd) continue;
+        candidates.push({ id, ymd: normalized });
+      }
+      if (candidates.length <= 1) {
+        const kept = candidates.length === 1 ? candidates[0].id : null;
+        return { removed: 0, keptOccurrenceId: kept, totalMatched: candidates.length, skippedManualNext: false };
+      }
+      candidates.sort((a, b) => {
+        const cmp = a.ymd.localeCompare(b.ymd);
+        if (cmp !== 0) return cmp;
+        return a.id - b.id;
       });
-    } catch {}
-    return {
-      removed: removedIds.length,
-      keptOccurrenceId: keep.id ?? null,
-      totalMatched: candidates.length,
-      skippedManualNext: false
-    };
+      const keep = candidates[candidates.length - 1];
+      const toRemove = candidates.slice(0, candidates.length - 1);
+      const removedIds = await this.withTransaction(async () => {
+        const removed: number[] = [];
+        for (const entry of toRemove) {
+          await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [entry.id]);
+          removed.push(entry.id);
+        }
+        return removed;
+      });
+      try {
+        await this.logEvent('occ.prune', 'user', normalizedTaskId, keep.id, {
+          keptOccurrenceId: keep.id,
+          removedOccurrenceIds: removedIds,
+          matched: candidates.length
+        });
+      } catch {}
+      return {
+        removed: removedIds.length,
+        keptOccurrenceId: keep.id ?? null,
+        totalMatched: candidates.length,
+        skippedManualNext: false
+      };
+    });
   }
 
   async listOccurrencesByTask(taskId: number): Promise<Array<{
@@ -1181,6 +2092,8 @@ export class TaskDatabase {
     scheduledTime: string | null;
     deferredDate: string | null;
     completedAt: string | null;
+    source: 'rule' | 'extra' | 'date';
+    extraRuleId: number | null;
     createdAt: string | null;
     updatedAt: string | null;
   }>> {
@@ -1196,10 +2109,12 @@ export class TaskDatabase {
       SCHEDULED_TIME: string | null;
       DEFERRED_DATE: string | null;
       COMPLETED_AT: string | null;
+      SOURCE: string | null;
+      EXTRA_RULE_ID: number | null;
       CREATED_AT: string | null;
       UPDATED_AT: string | null;
     }>(
-      `SELECT ID, TASK_ID, STATUS, SCHEDULED_DATE, SCHEDULED_TIME, DEFERRED_DATE, COMPLETED_AT, CREATED_AT, UPDATED_AT
+      `SELECT ID, TASK_ID, STATUS, SCHEDULED_DATE, SCHEDULED_TIME, DEFERRED_DATE, COMPLETED_AT, SOURCE, EXTRA_RULE_ID, CREATED_AT, UPDATED_AT
          FROM TASK_OCCURRENCES
         WHERE TASK_ID = ?
         ORDER BY COALESCE(DEFERRED_DATE, SCHEDULED_DATE, '') ASC, ID ASC`,
@@ -1213,47 +2128,590 @@ export class TaskDatabase {
       scheduledTime: row.SCHEDULED_TIME ?? null,
       deferredDate: row.DEFERRED_DATE ?? null,
       completedAt: row.COMPLETED_AT ?? null,
+      source: row.SOURCE === 'extra' || row.SOURCE === 'date' ? row.SOURCE : 'rule',
+      extraRuleId: row.EXTRA_RULE_ID != null ? Number(row.EXTRA_RULE_ID) : null,
+      createdAt: row.CREATED_AT ?? null,
+      updatedAt: row.UPDATED_AT ?? null
+    }));
+  }
+
+  async setOccurrenceStatus(occurrenceId: number, status: 'pending' | 'done'): Promise<void> {
+    return this.exclusive(async () => {
+      const normalizedId = Number(occurrenceId);
+      if (!Number.isFinite(normalizedId) || normalizedId <= 0) {
+        throw new Error('オカレンスIDが不正です');
+      }
+      if (status !== 'pending' && status !== 'done') {
+        throw new Error('ステータスは pending または done のみ指定できます');
+      }
+      const occ = await this.get<{
+        ID: number;
+        TASK_ID: number;
+        STATUS: string;
+        COMPLETED_AT: string | null;
+      }>(
+        `SELECT ID, TASK_ID, STATUS, COMPLETED_AT
+           FROM TASK_OCCURRENCES
+          WHERE ID = ?`,
+        [normalizedId]
+      );
+      if (!occ) throw new Error('指定されたオカレンスが見つかりません');
+      if (occ.STATUS === status) return;
+      const now = this.nowIso();
+      const completedAt = status === 'done' ? (occ.COMPLETED_AT ?? now) : null;
+      await this.run(
+        `UPDATE TASK_OCCURRENCES
+            SET STATUS = ?, COMPLETED_AT = ?, UPDATED_AT = ?
+          WHERE ID = ?`,
+        [status, completedAt, now, normalizedId]
+      );
+      try {
+        await this.logEvent('occ.admin.statusOverride', 'user', Number(occ.TASK_ID), normalizedId, {
+          previousStatus: occ.STATUS,
+          newStatus: status,
+          completedAt
+        });
+      } catch {}
+      await this.markGenerationStale(Number(occ.TASK_ID));
+    });
+  }
+
+  async listRecurrenceExceptions(taskId: number): Promise<Array<{
+    id: number;
+    taskId: number;
+    exceptionDate: string;
+    action: 'skip' | 'reschedule';
+    newDate: string | null;
+    newTime: string | null;
+    createdAt: string | null;
+    updatedAt: string | null;
+  }>> {
+    const normalizedTaskId = Number(taskId);
+    if (!Number.isFinite(normalizedTaskId) || normalizedTaskId <= 0) {
+      throw new Error('タスクIDが不正です');
+    }
+    const rows = await this.all<any>(
+      `SELECT ID, TASK_ID, EXCEPTION_DATE, ACTION, NEW_DATE, NEW_TIME, CREATED_AT, UPDATED_AT
+         FROM RECURRENCE_EXCEPTIONS
+        WHERE TASK_ID = ?
+        ORDER BY EXCEPTION_DATE ASC, ID ASC`,
+      [normalizedTaskId]
+    );
+    return rows.map(row => ({
+      id: Number(row.ID),
+      taskId: Number(row.TASK_ID),
+      exceptionDate: String(row.EXCEPTION_DATE),
+      action: row.ACTION === 'reschedule' ? 'reschedule' : 'skip',
+      newDate: row.NEW_DATE ?? null,
+      newTime: row.NEW_TIME ?? null,
       createdAt: row.CREATED_AT ?? null,
       updatedAt: row.UPDATED_AT ?? null
     }));
   }
 
-  async setOccurrenceStatus(occurrenceId: number, status: 'pending' | 'done'): Promise<void> {
-    const normalizedId = Number(occurrenceId);
-    if (!Number.isFinite(normalizedId) || normalizedId <= 0) {
-      throw new Error('オカレンスIDが不正です');
-    }
-    if (status !== 'pending' && status !== 'done') {
-      throw new Error('ステータスは pending または done のみ指定できます');
-    }
-    const occ = await this.get<{
-      ID: number;
-      TASK_ID: number;
-      STATUS: string;
-      COMPLETED_AT: string | null;
-    }>(
-      `SELECT ID, TASK_ID, STATUS, COMPLETED_AT
-         FROM TASK_OCCURRENCES
-        WHERE ID = ?`,
-      [normalizedId]
-    );
-    if (!occ) throw new Error('指定されたオカレンスが見つかりません');
-    if (occ.STATUS === status) return;
-    const now = this.nowIso();
-    const completedAt = status === 'done' ? (occ.COMPLETED_AT ?? now) : null;
-    await this.run(
-      `UPDATE TASK_OCCURRENCES
-          SET STATUS = ?, COMPLETED_AT = ?, UPDATED_AT = ?
-        WHERE ID = ?`,
-      [status, completedAt, now, normalizedId]
-    );
-    try {
-      await this.logEvent('occ.admin.statusOverride', 'user', Number(occ.TASK_ID), normalizedId, {
-        previousStatus: occ.STATUS,
-        newStatus: status,
-        completedAt
+  // 取り込みで指定された例外の日付・振替日を確かめて正規化する（書き込む前に呼び、不正な値はタスクを作る前にエラーにする）
+  private normalizeRecurrenceExceptions(entries: any): RecurrenceExceptionInput[] {
+    if (!Array.isArray(entries)) return [];
+    const isYmd = (v: string) => /^\d{4}-\d{2}-\d{2}$/.test(v) && this.dateToYmd(this.parseDateOnlyStrict(v)) === v;
+    return entries.map(entry => {
+      const date = String(entry?.date || '').trim();
+      if (!isYmd(date)) throw new Error(`例外の日付の形式が不正です: ${date}`);
+      const action = entry.action === 'reschedule' ? 'reschedule' : 'skip';
+      const newDate = action === 'reschedule' ? String(entry.newDate || '').trim() : '';
+      if (action === 'reschedule' && !isYmd(newDate)) throw new Error(`振替日の形式が不正です: ${newDate}`);
+      const newTime = action === 'reschedule' && entry.newTime && /^\d{2}:\d{2}$/.test(entry.newTime) ? entry.newTime : null;
+      return { date, action, newDate: action === 'reschedule' ? newDate : null, newTime };
+    });
+  }
+
+  // 系列上の日付をキーに例外をまとめて登録する（同じ日付の既存の例外は置き換える）
+  private async insertRecurrenceExceptions(taskId: number, entries: RecurrenceExceptionInput[], now: string): Promise<void> {
+    for (const entry of entries) {
+      await this.run('DELETE FROM RECURRENCE_EXCEPTIONS WHERE TASK_ID = ? AND EXCEPTION_DATE = ?', [taskId, entry.date]);
+      await this.run(
+        `INSERT INTO RECURRENCE_EXCEPTIONS (TASK_ID, EXCEPTION_DATE, ACTION, NEW_DATE, NEW_TIME, CREATED_AT, UPDATED_AT)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [taskId, entry.date, entry.action, entry.newDate, entry.newTime, now, now]
+      );
+    }
+  }
+
+  // 繰り返しタスクの未完了オカレンスを取得し、系列上の元の日付を求める（skip/reschedule 共通の前処理）
+  private async getExceptionTarget(occurrenceId: number): Promise<{ occ: any; seriesDate: string; rule: RecurrenceRuleSpec | null }> {
+    const normalizedId = Number(occurrenceId);
+    if (!Number.isFinite(normalizedId) || normalizedId <= 0) {
+      throw new Error('オカレンスIDが不正です');
+    }
+    const occ = await this.get<any>(
+      `SELECT O.ID, O.TASK_ID, O.SCHEDULED_DATE, O.SCHEDULED_TIME, O.STATUS, O.SOURCE, O.EXTRA_RULE_ID, T.IS_RECURRING,
+              COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE
+         FROM TASK_OCCURRENCES O
+         JOIN TASKS T ON T.ID = O.TASK_ID
+         LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+        WHERE O.ID = ?`,
+      [normalizedId]
+    );
+    if (!occ) throw new Error('指定されたオカレンスが見つかりません');
+    if (!Number(occ.IS_RECURRING) || Number(occ.MANUAL_NEXT_DUE) === 1) {
+      throw new Error('繰り返しタスクのオカレンスのみ変更できます');
+    }
+    if (occ.STATUS !== 'pending') {
+      throw new Error('未完了のオカレンスのみ変更できます');
+    }
+    const exceptions = await this.loadRecurrenceExceptionMap(Number(occ.TASK_ID));
+    const rule = await this.occurrenceRuleSpec(Number(occ.TASK_ID), occ.SOURCE, occ.EXTRA_RULE_ID);
+    return { occ, seriesDate: seriesDateOf(exceptions, String(occ.SCHEDULED_DATE), rule), rule };
+  }
+
+  async skipOccurrence(occurrenceId: number): Promise<void> {
+    return this.exclusive(async () => {
+      const { occ, seriesDate, rule } = await this.getExceptionTarget(occurrenceId);
+      const now = this.nowIso();
+      // 例外は日単位のため、1日に複数回あるルール（cron 式・1日の時刻リスト）では同じ日の未完了の回もまとめて除く
+      const sameDay = rule && matchesOccurrenceTime(rule)
+        ? await this.all<any>(
+          `SELECT ID, SCHEDULED_TIME FROM TASK_OCCURRENCES
+            WHERE TASK_ID = ? AND SCHEDULED_DATE = ? AND STATUS = 'pending' AND ID != ?
+              AND COALESCE(SOURCE,'') = ? AND COALESCE(EXTRA_RULE_ID,0) = ?`,
+          [occ.TASK_ID, occ.SCHEDULED_DATE, occ.ID, occ.SOURCE ?? '', occ.EXTRA_RULE_ID ?? 0]
+        )
+        : [];
+      await this.withTransaction(async () => {
+        await this.run('DELETE FROM RECURRENCE_EXCEPTIONS WHERE TASK_ID = ? AND EXCEPTION_DATE = ?', [occ.TASK_ID, seriesDate]);
+        await this.run(
+          `INSERT INTO RECURRENCE_EXCEPTIONS (TASK_ID, EXCEPTION_DATE, ACTION, NEW_DATE, NEW_TIME, CREATED_AT, UPDATED_AT)
+           VALUES (?, ?, 'skip', NULL, NULL, ?, ?)`,
+          [occ.TASK_ID, seriesDate, now, now]
+        );
+        await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+        for (const other of sameDay) {
+          await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [other.ID]);
+        }
+      });
+      try {
+        await this.logEvent('occ.skip', 'user', Number(occ.TASK_ID), Number(occ.ID), {
+          seriesDate,
+          scheduled: occ.SCHEDULED_DATE
+        });
+      } catch {}
+      for (const other of sameDay) {
+        try { await this.logEvent('occ.delete', 'system', Number(occ.TASK_ID), Number(other.ID), { reason: 'skip.sameDay', seriesDate, date: occ.SCHEDULED_DATE, time: other.SCHEDULED_TIME ?? null }); } catch {}
+      }
+      await this.markGenerationStale(Number(occ.TASK_ID));
+    });
+  }
+
+  async rescheduleOccurrence(occurrenceId: number, newDate: string, newTime?: string | null): Promise<void> {
+    return this.exclusive(async () => {
+      const { occ, seriesDate, rule } = await this.getExceptionTarget(occurrenceId);
+      // 例外は日単位のため、1日に複数回あるルールでは1回だけを振り替えられない
+      if (rule && matchesOccurrenceTime(rule)) {
+        throw new Error('1日に複数回ある繰り返しの回は振替できません（延期を使ってください）');
+      }
+      const date = String(newDate ?? '').trim();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(this.parseDateOnlyStrict(date).getTime())) {
+        throw new Error('振替日の形式が不正です');
+      }
+      const timeRaw = String(newTime ?? '').trim();
+      if (timeRaw && !/^\d{2}:\d{2}$/.test(timeRaw)) {
+        throw new Error('振替時刻の形式が不正です');
+      }
+      const time = timeRaw || null;
+      if (date !== occ.SCHEDULED_DATE) {
+        const dup = await this.get<any>('SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ? AND ID != ?', [occ.TASK_ID, date, occ.ID]);
+        if (dup) throw new Error('振替先の日付には既にオカレンスがあります');
+      }
+      const now = this.nowIso();
+      const scheduledTime = time ?? occ.SCHEDULED_TIME ?? null;
+      await this.withTransaction(async () => {
+        await this.run('DELETE FROM RECURRENCE_EXCEPTIONS WHERE TASK_ID = ? AND EXCEPTION_DATE = ?', [occ.TASK_ID, seriesDate]);
+        // 元の日付（祝日の扱いを適用した日付）へ戻す場合は例外を残さない
+        const naturalDate = rule ? applyHolidayPolicy(seriesDate, rule.holidayPolicy, rule.closedDates) : seriesDate;
+        if (date !== naturalDate || time) {
+          await this.run(
+            `INSERT INTO RECURRENCE_EXCEPTIONS (TASK_ID, EXCEPTION_DATE, ACTION, NEW_DATE, NEW_TIME, CREATED_AT, UPDATED_AT)
+             VALUES (?, ?, 'reschedule', ?, ?, ?, ?)`,
+            [occ.TASK_ID, seriesDate, date, time, now, now]
+          );
+        }
+        await this.run(
+          `UPDATE TASK_OCCURRENCES SET SCHEDULED_DATE = ?, SCHEDULED_TIME = ?, DEFERRED_DATE = NULL, UPDATED_AT = ? WHERE ID = ?`,
+          [date, scheduledTime, now, occ.ID]
+        );
+      });
+      try {
+        await this.logEvent('occ.reschedule', 'user', Number(occ.TASK_ID), Number(occ.ID), {
+          reason: 'exception.reschedule',
+          seriesDate,
+          previousDate: occ.SCHEDULED_DATE,
+          previousTime: occ.SCHEDULED_TIME ?? null,
+          newDate: date,
+          newTime: scheduledTime
+        });
+      } catch {}
+      await this.markGenerationStale(Number(occ.TASK_ID));
+    });
+  }
+
+  async deleteRecurrenceException(exceptionId: number): Promise<void> {
+    return this.exclusive(async () => {
+      const normalizedId = Number(exceptionId);
+      if (!Number.isFinite(normalizedId) || normalizedId <= 0) {
+        throw new Error('例外IDが不正です');
+      }
+      const ex = await this.get<any>(
+        `SELECT E.ID, E.TASK_ID, E.EXCEPTION_DATE, E.ACTION, E.NEW_DATE, E.NEW_TIME, T.START_TIME
+           FROM RECURRENCE_EXCEPTIONS E
+           JOIN TASKS T ON T.ID = E.TASK_ID
+          WHERE E.ID = ?`,
+        [normalizedId]
+      );
+      if (!ex) throw new Error('指定された例外が見つかりません');
+      const rule = await this.loadRuleSpec(Number(ex.TASK_ID));
+      const extraDate = await this.get<any>('SELECT ID FROM RECURRENCE_EXTRA_DATES WHERE TASK_ID = ? AND EXTRA_DATE = ?', [ex.TASK_ID, ex.EXCEPTION_DATE]);
+      // 戻し先は祝日の扱いを適用した日付（追加日付はその日のまま。skip の場合は振替先も残さない）
+      const restoreDate = rule && !extraDate ? applyHolidayPolicy(String(ex.EXCEPTION_DATE), rule.holidayPolicy, rule.closedDates) : String(ex.EXCEPTION_DATE);
+      const now = this.nowIso();
+      let restoredOccurrenceId: number | null = null;
+      await this.withTransaction(async () => {
+        await this.run('DELETE FROM RECURRENCE_EXCEPTIONS WHERE ID = ?', [normalizedId]);
+        // 振替の取り消し: 未完了の振替先オカレンスを元の日付へ戻す（skip は次回の生成で復元される）
+        if (ex.ACTION === 'reschedule' && ex.NEW_DATE) {
+          const moved = await this.get<any>(
+            `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ? AND STATUS = 'pending'`,
+            [ex.TASK_ID, ex.NEW_DATE]
+          );
+          const original = restoreDate ? await this.get<any>(
+            `SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?`,
+            [ex.TASK_ID, restoreDate]
+          ) : null;
+          if (moved && !restoreDate) {
+            await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [moved.ID]);
+          } else if (moved && !original) {
+            await this.run(
+              `UPDATE TASK_OCCURRENCES SET SCHEDULED_DATE = ?, SCHEDULED_TIME = ?, UPDATED_AT = ? WHERE ID = ?`,
+              [restoreDate, ex.START_TIME || null, now, moved.ID]
+            );
+            restoredOccurrenceId = Number(moved.ID);
+          }
+        }
+      });
+      try {
+        await this.logEvent('occ.exception.delete', 'user', Number(ex.TASK_ID), restoredOccurrenceId, {
+          action: ex.ACTION,
+          exceptionDate: ex.EXCEPTION_DATE,
+          newDate: ex.NEW_DATE ?? null,
+          newTime: ex.NEW_TIME ?? null
+        });
+      } catch {}
+      await this.markGenerationStale(Number(ex.TASK_ID));
+    });
+  }
+
+  // 指定期間（予定日）のタスクを iCalendar テキストとして書き出す。
+  // recurringAsRule=true の場合、RRULE で表現できる繰り返しタスクは展開せず1件（RRULE/EXDATE/振替の個別変更付き）として出力する。
+  async exportICalendar(params: { from: string; to: string; component?: ICalComponentKind; recurringAsRule?: boolean }): Promise<{ text: string; occurrenceCount: number; ruleCount: number }> {
+    const from = String(params?.from || '').trim();
+    const to = String(params?.to || '').trim();
+    const isYmd = (v: string) => /^\d{4}-\d{2}-\d{2}$/.test(v) && this.dateToYmd(this.parseDateOnlyStrict(v)) === v;
+    if (!isYmd(from) || !isYmd(to) || from > to) {
+      throw new Error('書き出し期間の指定が不正です');
+    }
+    const component: ICalComponentKind = params.component === 'VTODO' ? 'VTODO' : 'VEVENT';
+    const occurrences = await this.listOccurrences({ from, to });
+    const entries: ICalEntry[] = [];
+    const ruleTaskIds = new Set<number>();
+
+    if (params.recurringAsRule) {
+      const rows = await this.all<any>(
+        `SELECT T.ID AS TASK_ID, T.TITLE, T.DESCRIPTION, T.START_DATE, T.START_TIME, ${TaskDatabase.RULE_SPEC_COLUMNS},
+                COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE
+           FROM TASKS T
+           JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+          WHERE T.IS_RECURRING = 1
+          ORDER BY T.ID ASC`
+      );
+      for (const row of rows) {
+        const rule = await this.ruleSpecFromRow(row);
+        let { rrule } = formatRRule(row);
+        // 完了基準・手動次回・発生日のずらし・日付リスト・cron 式・追加ルール/追加日付・日付を指定して変更したルールなど RRULE で表せないものは展開して出力する
+        if (!rule || !rrule || row.EFFECTIVE_FROM) continue;
+        const extras = await this.loadRecurrenceExtras(Number(row.TASK_ID));
+        if (extras.rules.length || extras.dates.length) continue;
+        if (!expandSeriesDates(rule, { from, to }).length) continue;
+        const first = iterateSeriesDates(rule).next();
+        if (first.done) continue;
+        const taskId = Number(row.TASK_ID);
+        const uid = `task-${taskId}@${ICAL_UID_DOMAIN}`;
+        const seriesTime = row.START_TIME || null;
+        // DTSTART が日時の場合、UNTIL も日時で指定する（RFC 5545）
+        if (seriesTime && seriesTime !== '00:00') rrule = rrule.replace(/UNTIL=(\d{8})(?=;|$)/, 'UNTIL=$1T235959');
+        const tags = await this.getTagsForTask(taskId);
+        const exceptions = await this.listRecurrenceExceptions(taskId);
+        const base = { uid, summary: String(row.TITLE || ''), description: row.DESCRIPTION ?? null, categories: tags, seriesTime };
+        entries.push({
+          ...base,
+          date: first.value,
+          time: seriesTime,
+          rrule,
+          exdates: exceptions.filter(ex => ex.action === 'skip').map(ex => ex.exceptionDate)
+        });
+        for (const ex of exceptions) {
+          if (ex.action !== 'reschedule' || !ex.newDate) continue;
+          entries.push({ ...base, date: ex.newDate, time: ex.newTime ?? seriesTime, recurrenceId: ex.exceptionDate });
+        }
+        ruleTaskIds.add(taskId);
+      }
+    }
+
+    // 先出し生成の範囲外（例: 週次は次の1回のみ）の今日以降の回は、ルールを展開して未作成の予定として補う（完了基準は予測できないため除く）
+    const today = todayYmd();
+    // cron 式・1日の時刻リストは1日に複数回あるため日付と時刻の組でも照合する
+    const existing = new Set(occurrences.flatMap(occ => [`${occ.TASK_ID}:${occ.SCHEDULED_DATE}`, `${occ.TASK_ID}:${occurrenceKey(occ.SCHEDULED_DATE, occ.SCHEDULED_TIME ?? null)}`]));
+    const planned: any[] = [];
+    const ruleRows = await this.all<any>(
+      `SELECT T.ID AS TASK_ID, T.TITLE, T.DESCRIPTION, T.START_DATE, T.START_TIME, ${TaskDatabase.RULE_SPEC_COLUMNS}
+         FROM TASKS T
+         JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+        WHERE T.IS_RECURRING = 1 AND COALESCE(R.MANUAL_NEXT_DUE,0) = 0`
+    );
+    for (const row of ruleRows) {
+      const taskId = Number(row.TASK_ID);
+      const rule = await this.ruleSpecFromRow(row);
+      if (ruleTaskIds.has(taskId) || !rule || rule.anchor === 'completed') continue;
+      const exceptions = await this.loadRecurrenceExceptionMap(taskId);
+      const extras = await this.loadRecurrenceExtras(taskId);
+      const tags = await this.getTagsForTask(taskId);
+      const windowFrom = from > today ? from : today;
+      // 回数指定の cron 式・1日の時刻リストは全回を生成済みのため補わない（最後の日の途中で回数に達する場合があり、日単位の展開では数えられない）
+      const multiple = matchesOccurrenceTime(rule);
+      if (multiple && Number(rule.count || 0) >= 1) continue;
+      const addPlanned = (seriesDate: string, resolved: { date: string; time: string | null } | null) => {
+        if (!resolved) return;
+        const key = `${taskId}:${multiple ? occurrenceKey(resolved.date, resolved.time) : resolved.date}`;
+        if (existing.has(key)) return;
+        existing.add(key);
+        const uidSuffix = multiple && resolved.time ? `${seriesDate}T${resolved.time.replace(':', '')}` : seriesDate;
+        planned.push({ uid: `task-${taskId}-${uidSuffix}@${ICAL_UID_DOMAIN}`, TITLE: row.TITLE, DESCRIPTION: row.DESCRIPTION, TAGS: tags, SCHEDULED_DATE: resolved.date, SCHEDULED_TIME: resolved.time, OCC_STATUS: 'pending' });
+      };
+      // 以前の版（変更日が先の日付の場合）は、その版の開始時刻で展開する
+      const specs = [rule, ...extras.rules.map(x => extraRuleSpec(rule, x))].map(spec => ({ spec, startTime: row.START_TIME || null }));
+      for (const version of await this.loadRuleVersions(taskId, windowFrom)) specs.push({ spec: version.rule, startTime: version.startTime ?? (row.START_TIME || null) });
+      for (const { spec, startTime } of specs) {
+        for (const seriesDate of expandSeriesDates(spec, { from: windowFrom, to })) {
+          for (const time of seriesTimesOf(spec, startTime)) {
+            addPlanned(seriesDate, resolveSeriesOccurrence(spec, exceptions, seriesDate, time));
+          }
+        }
+      }
+      for (const seriesDate of extras.dates) {
+        if (seriesDate < windowFrom || seriesDate > to) continue;
+        for (const time of seriesTimesOf(rule, row.START_TIME || null)) {
+          addPlanned(seriesDate, resolveRecurrenceException(exceptions, seriesDate, time));
+        }
+      }
+    }
+
+    let occurrenceCount = 0;
+    for (const occ of [...occurrences, ...planned]) {
+      if (ruleTaskIds.has(Number(occ.TASK_ID))) continue;
+      const date = String(occ.DEFERRED_DATE || occ.SCHEDULED_DATE).split('T')[0];
+      entries.push({
+        uid: occ.uid ?? `occ-${occ.OCCURRENCE_ID}@${ICAL_UID_DOMAIN}`,
+        summary: String(occ.TITLE || ''),
+        description: occ.DESCRIPTION ?? null,
+        categories: occ.TAGS || [],
+        date,
+        time: occ.SCHEDULED_TIME || null,
+        status: occ.OCC_STATUS === 'done' ? 'done' : 'pending',
+        completedAt: occ.COMPLETED_AT ?? null
+      });
+      occurrenceCount++;
+    }
+    return { text: buildICalendar(entries, { component }), occurrenceCount, ruleCount: ruleTaskIds.size };
+  }
+
+  // ===== JSON export/import =====
+  /** 全テーブルを列そのままの行配列として書き出す（TASK_EVENTS は任意） */
+  async exportJson(options: { includeEvents?: boolean } = {}): Promise<TaskJsonDocument> {
+    if (!this.db) throw new Error('Database not initialized');
+    const includeEvents = !!options.includeEvents;
+    const tables: Partial<Record<TaskJsonTable, TaskJsonRow[]>> = {};
+    // 読み取りのみだがトランザクションを開くため、書き込みと同じ順番待ちに並べる
+    await this.exclusive(() => this.withTransaction(async () => {
+      for (const name of TASK_JSON_TABLES) {
+        if (name === 'TASK_EVENTS' && !includeEvents) continue;
+        tables[name] = await this.all<TaskJsonRow>(`SELECT * FROM ${name} ORDER BY ${TASK_JSON_ORDER_BY[name]}`);
+      }
+    }));
+    return {
+      format: TASK_JSON_FORMAT,
+      formatVersion: TASK_JSON_FORMAT_VERSION,
+      schemaVersion: await this.readUserVersion(),
+      exportedAt: this.nowIso(),
+      includesEvents: includeEvents,
+      tables
+    };
+  }
+
+  /**
+   * exportJson の文書を取り込む。
+   * - replace: 対象テーブルを空にして ID をそのまま挿入（TASK_EVENTS は文書に含まれる場合のみ置き換え）
+   * - merge: 既存データを残して新しい ID で挿入し、参照列（TASK_ID/OCCURRENCE_ID/TAG_ID/CALENDAR_ID/EXTRA_RULE_ID）を付け替える。
+   *   タグとカレンダーは同名の既存のものへ寄せる（カレンダーの期間は同じ期間がなければ追加する）
+   * 全体を1トランザクションで行い、途中で失敗した場合は何も変更しない。
+   */
+  async importJson(doc: TaskJsonDocument, options: { mode: TaskJsonImportMode }): Promise<TaskJsonImportReport> {
+    return this.exclusive(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+      const mode: TaskJsonImportMode = options.mode === 'replace' ? 'replace' : 'merge';
+      const report: TaskJsonImportReport = { mode, inserted: {}, reused: {}, droppedColumns: {}, warnings: [] };
+
+      const columnsOf = new Map<TaskJsonTable, Set<string>>();
+      for (const name of TASK_JSON_TABLES) {
+        const cols: Array<{ name: string }> = await this.all<any>(`PRAGMA table_info('${name}')`);
+        const set = new Set(cols.map(c => String(c.name).toUpperCase()));
+        columnsOf.set(name, set);
+        const dropped = new Set<string>();
+        for (const row of doc.tables[name] || []) {
+          for (const key of Object.keys(row)) if (!set.has(key.toUpperCase())) dropped.add(key);
+        }
+        if (dropped.size) report.droppedColumns[name] = [...dropped];
+      }
+      const count = (bucket: Partial<Record<TaskJsonTable, number>>, name: TaskJsonTable) => {
+        bucket[name] = (bucket[name] || 0) + 1;
+      };
+      const insertRow = async (name: TaskJsonTable, row: TaskJsonRow, overrides: TaskJsonRow = {}): Promise<number> => {
+        const cols = columnsOf.get(name)!;
+        const merged: TaskJsonRow = { ...row, ...overrides };
+        // merge では ID を採番し直す
+        const entries = Object.entries(merged).filter(([k]) => cols.has(k.toUpperCase()) && !(mode === 'merge' && k.toUpperCase() === 'ID'));
+        if (!entries.length) throw new Error(`${name} に取り込める列がありません`);
+        const sql = `INSERT INTO ${name} (${entries.map(([k]) => k.toUpperCase()).join(', ')}) VALUES (${entries.map(() => '?').join(', ')})`;
+        const id = await this.run(sql, entries.map(([, v]) => (v === undefined ? null : v)));
+        count(report.inserted, name);
+        return id;
+      };
+
+      await this.withTransaction(async () => {
+        if (mode === 'replace') {
+          for (const name of [...TASK_JSON_TABLES].reverse()) {
+            if (!doc.tables[name]) continue;
+            await this.run(`DELETE FROM ${name}`);
+          }
+          for (const name of TASK_JSON_TABLES) {
+            for (const row of doc.tables[name] || []) await insertRow(name, row);
+          }
+          return;
+        }
+
+        const taskMap = new Map<number, number>();
+        const occMap = new Map<number, number>();
+        const tagMap = new Map<number, number>();
+        const calendarMap = new Map<number, number>();
+        const extraRuleMap = new Map<number, number>();
+        const remapTask = (name: TaskJsonTable, row: TaskJsonRow): number | null => {
+          const mapped = taskMap.get(Number(row.TASK_ID));
+          if (typeof mapped === 'undefined') {
+            report.warnings.push(`${name} ID=${row.ID ?? '-'}: 参照先タスク ${row.TASK_ID} が見つからないため取り込みませんでした`);
+            return null;
+          }
+          return mapped;
+        };
+
+        for (const row of doc.tables.CALENDARS || []) {
+          const existing = await this.get<{ ID: number }>('SELECT ID FROM CALENDARS WHERE NAME = ?', [row.NAME]);
+          if (existing) {
+            calendarMap.set(Number(row.ID), existing.ID);
+            count(report.reused, 'CALENDARS');
+          } else {
+            calendarMap.set(Number(row.ID), await insertRow('CALENDARS', row));
+          }
+        }
+        for (const row of doc.tables.CALENDAR_ENTRIES || []) {
+          const calendarId = calendarMap.get(Number(row.CALENDAR_ID));
+          if (typeof calendarId === 'undefined') {
+            report.warnings.push(`CALENDAR_ENTRIES ID=${row.ID ?? '-'}: 参照先カレンダー ${row.CALENDAR_ID} が見つからないため取り込みませんでした`);
+            continue;
+          }
+          const same = await this.get<{ ID: number }>(
+            'SELECT ID FROM CALENDAR_ENTRIES WHERE CALENDAR_ID = ? AND START_DATE = ? AND END_DATE = ?',
+            [calendarId, row.START_DATE, row.END_DATE]
+          );
+          if (same) count(report.reused, 'CALENDAR_ENTRIES');
+          else await insertRow('CALENDAR_ENTRIES', row, { CALENDAR_ID: calendarId });
+        }
+        for (const row of doc.tables.TASKS || []) {
+          taskMap.set(Number(row.ID), await insertRow('TASKS', row));
+        }
+        for (const name of ['RECURRENCE_RULES', 'RECURRENCE_RULE_VERSIONS'] as const) {
+          for (const row of doc.tables[name] || []) {
+            const taskId = remapTask(name, row);
+            if (taskId === null) continue;
+            let calendarId: number | null = null;
+            if (row.CALENDAR_ID != null) {
+              calendarId = calendarMap.get(Number(row.CALENDAR_ID)) ?? null;
+              if (calendarId === null) report.warnings.push(`${name} ID=${row.ID ?? '-'}: 参照先カレンダー ${row.CALENDAR_ID} が見つからないため、カレンダーの指定を外しました`);
+            }
+            await insertRow(name, row, { TASK_ID: taskId, CALENDAR_ID: calendarId });
+          }
+        }
+        for (const row of doc.tables.RECURRENCE_EXTRA_RULES || []) {
+          const taskId = remapTask('RECURRENCE_EXTRA_RULES', row);
+          if (taskId !== null) extraRuleMap.set(Number(row.ID), await insertRow('RECURRENCE_EXTRA_RULES', row, { TASK_ID: taskId }));
+        }
+        for (const name of ['RECURRENCE_EXTRA_DATES', 'RECURRENCE_DATES', 'RECURRENCE_EXCEPTIONS', 'TASK_FILE_LINKS'] as const) {
+          for (const row of doc.tables[name] || []) {
+            const taskId = remapTask(name, row);
+            if (taskId !== null) await insertRow(name, row, { TASK_ID: taskId });
+          }
+        }
+        for (const row of doc.tables.TASK_OCCURRENCES || []) {
+          const taskId = remapTask('TASK_OCCURRENCES', row);
+          if (taskId === null) continue;
+          const extraRuleId = row.EXTRA_RULE_ID == null ? null : extraRuleMap.get(Number(row.EXTRA_RULE_ID)) ?? null;
+          occMap.set(Number(row.ID), await insertRow('TASK_OCCURRENCES', row, { TASK_ID: taskId, EXTRA_RULE_ID: extraRuleId }));
+        }
+        for (const row of doc.tables.TAG_INFOS || []) {
+          const existing = await this.get<{ ID: number }>('SELECT ID FROM TAG_INFOS WHERE NAME = ?', [row.NAME]);
+          if (existing) {
+            tagMap.set(Number(row.ID), existing.ID);
+            count(report.reused, 'TAG_INFOS');
+          } else {
+            tagMap.set(Number(row.ID), await insertRow('TAG_INFOS', row));
+          }
+        }
+        for (const row of doc.tables.TASK_TAGS || []) {
+          const taskId = remapTask('TASK_TAGS', row);
+          const tagId = tagMap.get(Number(row.TAG_ID));
+          if (taskId === null) continue;
+          if (typeof tagId === 'undefined') {
+            report.warnings.push(`TASK_TAGS ID=${row.ID ?? '-'}: 参照先タグ ${row.TAG_ID} が見つからないため取り込みませんでした`);
+            continue;
+          }
+          await insertRow('TASK_TAGS', row, { TASK_ID: taskId, TAG_ID: tagId });
+        }
+        for (const row of doc.tables.TASK_EVENTS || []) {
+          // イベントは参照先がなくても残す（TASK_EVENTS の外部キーは ON DELETE SET NULL と同じ扱い）
+          const taskId = row.TASK_ID == null ? null : taskMap.get(Number(row.TASK_ID)) ?? null;
+          const occId = row.OCCURRENCE_ID == null ? null : occMap.get(Number(row.OCCURRENCE_ID)) ?? null;
+          await insertRow('TASK_EVENTS', row, { TASK_ID: taskId, OCCURRENCE_ID: occId });
+        }
       });
-    } catch {}
+
+      this.calendarDatesCache.clear();
+      // 取り込んだルールの生成済みの範囲は元のDBでのものなので、すべて展開し直す
+      await this.markGenerationStale(null);
+      try {
+        await this.logEvent('json_imported', 'user', null, null, {
+          mode,
+          exportedAt: doc.exportedAt,
+          inserted: report.inserted,
+          warnings: report.warnings.length
+        });
+      } catch {}
+      return report;
+    });
   }
 
   private get<T>(sql: string, params: any[] = []): Promise<T | undefined> {
@@ -1279,6 +2737,17 @@ export class TaskDatabase {
     });
   }
 
+  /**
+   * 書き込み（オカレンスの生成・バックアップを含む）は1本の接続を共有するため、1つずつ順番に実行する。
+   * 別の書き込みがトランザクションの途中に割り込んだり、書きかけのタスクを読んだりしないようにする。
+   * 入れ子にはできないため、exclusive の中から公開の書き込みメソッドを呼ばないこと
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(fn, fn);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
   private async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
     await this.run('BEGIN TRANSACTION');
     try {
@@ -1307,69 +2776,80 @@ export class TaskDatabase {
   }
 
   async setTaskFileLinks(taskId: number, shaList: string[]): Promise<void> {
-    if (!Number.isFinite(taskId) || taskId <= 0) throw new Error('Invalid task ID');
-    const normalized = Array.from(new Set((shaList || []).map(s => String(s || '').trim().toUpperCase()).filter(Boolean)));
-    const now = this.nowIso();
-    await this.withTransaction(async () => {
-      const existing = await this.all<{ FILE_SHA256: string }>(
-        'SELECT FILE_SHA256 FROM TASK_FILE_LINKS WHERE TASK_ID = ?',
-        [taskId]
-      );
-      const existingSet = new Set(existing.map(r => (r.FILE_SHA256 || '').toUpperCase()));
-      const desiredSet = new Set(normalized);
-
-      const toDelete: string[] = [];
-      existingSet.forEach(sha => { if (!desiredSet.has(sha)) toDelete.push(sha); });
-      if (toDelete.length) {
-        const placeholders = toDelete.map(() => '?').join(',');
-        await this.run(
-          `DELETE FROM TASK_FILE_LINKS WHERE TASK_ID = ? AND UPPER(FILE_SHA256) IN (${placeholders})`,
-          [taskId, ...toDelete]
+    return this.exclusive(async () => {
+      if (!Number.isFinite(taskId) || taskId <= 0) throw new Error('Invalid task ID');
+      const normalized = Array.from(new Set((shaList || []).map(s => String(s || '').trim().toUpperCase()).filter(Boolean)));
+      const now = this.nowIso();
+      await this.withTransaction(async () => {
+        const existing = await this.all<{ FILE_SHA256: string }>(
+          'SELECT FILE_SHA256 FROM TASK_FILE_LINKS WHERE TASK_ID = ?',
+          [taskId]
         );
-      }
+        const existingSet = new Set(existing.map(r => (r.FILE_SHA256 || '').toUpperCase()));
+        const desiredSet = new Set(normalized);
+
+        const toDelete: string[] = [];
+        existingSet.forEach(sha => { if (!desiredSet.has(sha)) toDelete.push(sha); });
+        if (toDelete.length) {
+          const placeholders = toDelete.map(() => '?').join(',');
+          await this.run(
+            `DELETE FROM TASK_FILE_LINKS WHERE TASK_ID = ? AND UPPER(FILE_SHA256) IN (${placeholders})`,
+            [taskId, ...toDelete]
+          );
+        }
 
-      for (const sha of normalized) {
-        await this.run(
-          `INSERT INTO TASK_FILE_LINKS (TASK_ID, FILE_SHA256, CREATED_AT, UPDATED_AT)
-           VALUES (?, UPPER(?), ?, ?)
-           ON CONFLICT(TASK_ID, FILE_SHA256) DO UPDATE SET UPDATED_AT = excluded.UPDATED_AT`,
-          [taskId, sha, now, now]
-        );
-      }
+        for (const sha of normalized) {
+          await this.run(
+            `INSERT INTO TASK_FILE_LINKS (TASK_ID, FILE_SHA256, CREATED_AT, UPDATED_AT)
+             VALUES (?, UPPER(?), ?, ?)
+             ON CONFLICT(TASK_ID, FILE_SHA256) DO UPDATE SET UPDATED_AT = excluded.UPDATED_AT`,
+            [taskId, sha, now, now]
+          );
+        }
+      });
     });
   }
 
   async listTasks(params: { query?: string } = {}): Promise<any[]> {
     const where: string[] = [];
     const binds: any[] = [];
-    if (params.query) { where.push('(TITLE LIKE ? OR DESCRIPTION LIKE ?)'); binds.push(`%${params.query}%`, `%${params.query}%`); }
+    if (params.query) { where.push('(T.TITLE LIKE ? OR T.DESCRIPTION LIKE ?)'); binds.push(`%${params.query}%`, `%${params.query}%`); }
     const sql = `SELECT T.ID, T.TITLE, T.DESCRIPTION, T.DUE_AT, T.START_DATE, T.START_TIME, T.IS_RECURRING,
                         T.REQUIRE_COMPLETE_COMMENT,
                         T.CREATED_AT, T.UPDATED_AT,
-                        R.FREQ, R.MONTHLY_DAY, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.COUNT, R.HORIZON_DAYS,
+                        R.FREQ, R.MONTHLY_DAY, R.MONTHLY_DAYS, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.MONTHLY_NTH_PAIRS, R.MONTHLY_BUSINESS_DAY, R.COUNT, R.END_KIND, R.UNTIL_DATE, R.HORIZON_DAYS,
                         R.INTERVAL, COALESCE(R.INTERVAL_ANCHOR,'scheduled') AS INTERVAL_ANCHOR,
                         COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS,
-                        R.YEARLY_MONTH,
+                        COALESCE(R.HOLIDAY_POLICY,'keep') AS HOLIDAY_POLICY,
+                        R.CALENDAR_ID, C.NAME AS CALENDAR_NAME,
+                        R.YEARLY_MONTH, R.CRON_EXPR, R.TIMES_OF_DAY,
                         COALESCE(R.WEEKLY_DOWS,0) AS WEEKLY_DOWS,
-                        COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE
+                        COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE,
+                        (SELECT COUNT(1) FROM TASK_OCCURRENCES O WHERE O.TASK_ID = T.ID AND O.STATUS = 'done') AS DONE_COUNT
                  FROM TASKS T
                  LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+                 LEFT JOIN CALENDARS C ON C.ID = R.CALENDAR_ID
                  ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
                  ORDER BY COALESCE(T.UPDATED_AT, T.CREATED_AT) DESC, T.ID DESC`;
     const rows = await this.all<any>(sql, binds);
     for (const r of rows) {
       r.TAGS = await this.getTagsForTask(r.ID);
     }
+    await this.attachRecurrenceExtras(rows);
     return rows;
   }
 
   async getTask(id: number): Promise<any | undefined> {
-    const sql = `SELECT T.*, R.FREQ, R.MONTHLY_DAY, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.COUNT, R.HORIZON_DAYS, R.INTERVAL, R.INTERVAL_ANCHOR, R.YEARLY_MONTH, COALESCE(R.WEEKLY_DOWS,0) AS WEEKLY_DOWS, COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE, COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS
+    const sql = `SELECT T.*, R.FREQ, R.MONTHLY_DAY, R.MONTHLY_DAYS, R.MONTHLY_NTH, R.MONTHLY_NTH_DOW, R.MONTHLY_NTH_PAIRS, R.MONTHLY_BUSINESS_DAY, R.COUNT, R.END_KIND, R.UNTIL_DATE, R.HORIZON_DAYS, R.INTERVAL, R.INTERVAL_ANCHOR, R.YEARLY_MONTH, R.CRON_EXPR, R.TIMES_OF_DAY, COALESCE(R.WEEKLY_DOWS,0) AS WEEKLY_DOWS, COALESCE(R.MANUAL_NEXT_DUE,0) AS MANUAL_NEXT_DUE, COALESCE(R.OCCURRENCE_OFFSET_DAYS,0) AS OCCURRENCE_OFFSET_DAYS, COALESCE(R.HOLIDAY_POLICY,'keep') AS HOLIDAY_POLICY, R.CALENDAR_ID, C.NAME AS CALENDAR_NAME, R.EFFECTIVE_FROM, COALESCE(R.RULE_VERSION,1) AS RULE_VERSION
                  FROM TASKS T
                  LEFT JOIN RECURRENCE_RULES R ON R.TASK_ID = T.ID
+                 LEFT JOIN CALENDARS C ON C.ID = R.CALENDAR_ID
                  WHERE T.ID = ?`;
     const row = await this.get<any>(sql, [id]);
-    if (row) row.TAGS = await this.getTagsForTask(row.ID);
+    if (row) {
+      row.TAGS = await this.getTagsForTask(row.ID);
+      await this.attachRecurrenceExtras([row]);
+    }
     return row;
   }
 
@@ -1427,17 +2907,153 @@ export class TaskDatabase {
   }
 
   async renameTag(tagId: number, newName: string): Promise<void> {
-    const id = Number(tagId);
-    if (!Number.isInteger(id) || id <= 0) throw new Error('タグIDが不正です');
-    const name = String(newName ?? '').trim();
-    if (!name) throw new Error('タグ名を入力してください');
-    const tag = await this.get<any>('SELECT ID, NAME FROM TAG_INFOS WHERE ID = ?', [id]);
-    if (!tag) throw new Error('タグが見つかりません');
-    if (String(tag.NAME ?? '').trim() === name) return;
-    const dup = await this.get<any>('SELECT ID FROM TAG_INFOS WHERE NAME = ? AND ID != ?', [name, id]);
-    if (dup) throw new Error('同名のタグが既に存在します');
-    const now = this.nowIso();
-    await this.run('UPDATE TAG_INFOS SET NAME = ?, UPDATED_AT = ? WHERE ID = ?', [name, now, id]);
+    return this.exclusive(async () => {
+      const id = Number(tagId);
+      if (!Number.isInteger(id) || id <= 0) throw new Error('タグIDが不正です');
+      const name = String(newName ?? '').trim();
+      if (!name) throw new Error('タグ名を入力してください');
+      const tag = await this.get<any>('SELECT ID, NAME FROM TAG_INFOS WHERE ID = ?', [id]);
+      if (!tag) throw new Error('タグが見つかりません');
+      if (String(tag.NAME ?? '').trim() === name) return;
+      const dup = await this.get<any>('SELECT ID FROM TAG_INFOS WHERE NAME = ? AND ID != ?', [name, id]);
+      if (dup) throw new Error('同名のタグが既に存在します');
+      const now = this.nowIso();
+      await this.run('UPDATE TAG_INFOS SET NAME = ?, UPDATED_AT = ? WHERE ID = ?', [name, now, id]);
+    });
+  }
+
+  // ===== Custom calendars =====
+  async listCalendars(): Promise<Array<{ id: number; name: string; description: string | null; entryCount: number; ruleCount: number; createdAt: string | null; updatedAt: string | null }>> {
+    const rows = await this.all<any>(
+      `SELECT C.ID, C.NAME, C.DESCRIPTION, C.CREATED_AT, C.UPDATED_AT,
+              (SELECT COUNT(*) FROM CALENDAR_ENTRIES E WHERE E.CALENDAR_ID = C.ID) AS ENTRY_COUNT,
+              (SELECT COUNT(*) FROM RECURRENCE_RULES R WHERE R.CALENDAR_ID = C.ID) AS RULE_COUNT
+         FROM CALENDARS C
+        ORDER BY C.NAME ASC`
+    );
+    return rows.map(row => ({
+      id: Number(row.ID),
+      name: String(row.NAME ?? ''),
+      description: row.DESCRIPTION ?? null,
+      entryCount: Number(row.ENTRY_COUNT || 0),
+      ruleCount: Number(row.RULE_COUNT || 0),
+      createdAt: row.CREATED_AT ?? null,
+      updatedAt: row.UPDATED_AT ?? null
+    }));
+  }
+
+  async listCalendarEntries(calendarId: number): Promise<Array<{ id: number; calendarId: number; startDate: string; endDate: string; label: string | null; createdAt: string | null; updatedAt: string | null }>> {
+    const rows = await this.all<any>(
+      `SELECT ID, CALENDAR_ID, START_DATE, END_DATE, LABEL, CREATED_AT, UPDATED_AT
+         FROM CALENDAR_ENTRIES WHERE CALENDAR_ID = ? ORDER BY START_DATE ASC, END_DATE ASC, ID ASC`,
+      [calendarId]
+    );
+    return rows.map(row => ({
+      id: Number(row.ID),
+      calendarId: Number(row.CALENDAR_ID),
+      startDate: String(row.START_DATE),
+      endDate: String(row.END_DATE),
+      label: row.LABEL ?? null,
+      createdAt: row.CREATED_AT ?? null,
+      updatedAt: row.UPDATED_AT ?? null
+    }));
+  }
+
+  /** 休業日（期間を展開した日付）の昇順一覧。編集画面のプレビュー用 */
+  async listCalendarClosedDates(calendarId: number): Promise<string[]> {
+    const dates = await this.closedDatesOf(await this.normalizeCalendarId(calendarId));
+    return dates ? [...dates].sort() : [];
+  }
+
+  private normalizeCalendarName(value: any): string {
+    const name = String(value ?? '').trim();
+    if (!name) throw new Error('カレンダー名を入力してください');
+    return name;
+  }
+
+  async createCalendar(params: { name: string; description?: string | null }): Promise<number> {
+    return this.exclusive(async () => {
+      const name = this.normalizeCalendarName(params.name);
+      const dup = await this.get<any>('SELECT ID FROM CALENDARS WHERE NAME = ?', [name]);
+      if (dup) throw new Error('同名のカレンダーが既に存在します');
+      const now = this.nowIso();
+      const description = String(params.description ?? '').trim() || null;
+      return this.run('INSERT INTO CALENDARS (NAME, DESCRIPTION, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?)', [name, description, now, now]);
+    });
+  }
+
+  async updateCalendar(calendarId: number, params: { name: string; description?: string | null }): Promise<void> {
+    return this.exclusive(async () => {
+      const id = await this.normalizeCalendarId(calendarId);
+      const name = this.normalizeCalendarName(params.name);
+      const dup = await this.get<any>('SELECT ID FROM CALENDARS WHERE NAME = ? AND ID != ?', [name, id]);
+      if (dup) throw new Error('同名のカレンダーが既に存在します');
+      const description = String(params.description ?? '').trim() || null;
+      await this.run('UPDATE CALENDARS SET NAME = ?, DESCRIPTION = ?, UPDATED_AT = ? WHERE ID = ?', [name, description, this.nowIso(), id]);
+    });
+  }
+
+  /** カレンダーを削除する。参照していたルールは土日・祝日のみで判定するよう戻し、オカレンスを合わせ直す */
+  async deleteCalendar(calendarId: number): Promise<void> {
+    return this.exclusive(async () => {
+      const id = (await this.normalizeCalendarId(calendarId))!;
+      // 途中で失敗した場合にトランザクション内で読み込んだ休業日が残らないよう、キャッシュは最後に必ず破棄する
+      await this.withTransaction(async () => {
+        const rules = await this.all<any>('SELECT TASK_ID FROM RECURRENCE_RULES WHERE CALENDAR_ID = ?', [id]);
+        await this.run('DELETE FROM CALENDAR_ENTRIES WHERE CALENDAR_ID = ?', [id]);
+        await this.run('UPDATE RECURRENCE_RULES SET CALENDAR_ID = NULL, UPDATED_AT = ? WHERE CALENDAR_ID = ?', [this.nowIso(), id]);
+        await this.run('DELETE FROM CALENDARS WHERE ID = ?', [id]);
+        for (const r of rules) {
+          const taskId = Number(r.TASK_ID);
+          const rule = await this.get<any>('SELECT COUNT FROM RECURRENCE_RULES WHERE TASK_ID = ?', [taskId]);
+          if (rule && Number(rule.COUNT || 0) >= 1) await this.reconcileOccurrencesForTask(taskId);
+          else await this.dropPendingForRealign(taskId, { reason: 'calendar.delete', calendarId: id });
+        }
+      }).finally(() => this.calendarDatesCache.delete(id));
+    });
+  }
+
+  /** 休業期間を追加する。同じ期間が既にある場合は追加しない */
+  async addCalendarEntries(calendarId: number, entries: Array<Partial<CalendarEntryInput>>): Promise<{ added: number; duplicates: number }> {
+    return this.exclusive(async () => {
+      const id = (await this.normalizeCalendarId(calendarId))!;
+      const normalized = (entries || []).map(e => normalizeCalendarEntry(e));
+      let added = 0;
+      let duplicates = 0;
+      await this.withTransaction(async () => {
+        const now = this.nowIso();
+        for (const e of normalized) {
+          const same = await this.get<any>(
+            'SELECT ID FROM CALENDAR_ENTRIES WHERE CALENDAR_ID = ? AND START_DATE = ? AND END_DATE = ?',
+            [id, e.startDate, e.endDate]
+          );
+          if (same) { duplicates++; continue; }
+          await this.run(
+            'INSERT INTO CALENDAR_ENTRIES (CALENDAR_ID, START_DATE, END_DATE, LABEL, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?)',
+            [id, e.startDate, e.endDate, e.label, now, now]
+          );
+          added++;
+        }
+        if (added) {
+          await this.run('UPDATE CALENDARS SET UPDATED_AT = ? WHERE ID = ?', [now, id]);
+          await this.realignCalendarRules(id, 'calendar.realign');
+        }
+      }).finally(() => this.calendarDatesCache.delete(id));
+      return { added, duplicates };
+    });
+  }
+
+  async deleteCalendarEntry(entryId: number): Promise<void> {
+    return this.exclusive(async () => {
+      const entry = await this.get<any>('SELECT ID, CALENDAR_ID FROM CALENDAR_ENTRIES WHERE ID = ?', [Number(entryId)]);
+      if (!entry) throw new Error('休業日が見つかりません');
+      const calendarId = Number(entry.CALENDAR_ID);
+      await this.withTransaction(async () => {
+        await this.run('DELETE FROM CALENDAR_ENTRIES WHERE ID = ?', [entry.ID]);
+        await this.run('UPDATE CALENDARS SET UPDATED_AT = ? WHERE ID = ?', [this.nowIso(), calendarId]);
+        await this.realignCalendarRules(calendarId, 'calendar.realign');
+      }).finally(() => this.calendarDatesCache.delete(calendarId));
+    });
   }
 
   async listTaskEvents(params: { taskId: number; limit?: number }): Promise<any[]> {
@@ -1456,315 +3072,571 @@ export class TaskDatabase {
   }
 
   async createTask(payload: any): Promise<number> {
-    const now = this.nowIso();
-    const p = {
-      title: payload.title || '',
-      description: payload.description || null,
-      due_at: payload.dueAt || null,
-      start_date: payload.startDate || null,
-      start_time: payload.startTime || null,
-      is_recurring: payload.isRecurring ? 1 : 0,
-      require_complete_comment: payload.requireCompleteComment ? 1 : 0
-    };
-    const rec = payload.recurrence;
-    const manualNextDue = !!(rec && (rec.manualNextDue || rec.freq === 'manualNext'));
-    const occurrenceOffsetDays = rec ? this.normalizeOccurrenceOffset((rec as any).occurrenceOffsetDays) : 0;
-    if (manualNextDue) p.is_recurring = 1;
-    // Default start_date/time if unspecified
-    if (!p.start_date) {
-      const d = new Date();
-      const y = d.getFullYear();
-      const m = String(d.getMonth() + 1).padStart(2, '0');
-      const da = String(d.getDate()).padStart(2, '0');
-      p.start_date = `${y}-${m}-${da}`;
-    }
-    if (!p.start_time) {
-      p.start_time = '00:00';
-    }
-    if (manualNextDue && p.due_at) {
-      p.start_date = p.due_at.split('T')[0];
-    }
-    const sql = `INSERT INTO TASKS (TITLE, DESCRIPTION, DUE_AT, START_DATE, START_TIME, IS_RECURRING, REQUIRE_COMPLETE_COMMENT, CREATED_AT, UPDATED_AT)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-    const id = await this.run(sql, [p.title, p.description, p.due_at, p.start_date, p.start_time, p.is_recurring, p.require_complete_comment, now, now]);
-    // Insert recurrence rule: for recurring, from payload; for single, COUNT=1
-    if (p.is_recurring && manualNextDue) {
-      const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-      await this.run(rsql, [id, 'monthly', null, null, null, 0, 1, 0, now, now]);
-    } else if (p.is_recurring && rec && rec.freq === 'monthly' && rec.monthlyDay && rec.monthlyDay >= 1 && rec.monthlyDay <= 31) {
-      const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-      const count = Math.max(0, Number((rec as any).count || 0) || 0); // 0=無限
-      await this.run(rsql, [id, 'monthly', rec.monthlyDay, null, null, count, 0, occurrenceOffsetDays, now, now]);
-    } else if (p.is_recurring && rec && rec.freq === 'monthlyNth' && typeof rec.monthlyNth === 'number' && typeof rec.monthlyNthDow === 'number') {
-      const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      await this.run(rsql, [id, 'monthly', null, rec.monthlyNth, rec.monthlyNthDow, count, 0, occurrenceOffsetDays, now, now]);
-    } else if (p.is_recurring && rec && rec.freq === 'yearly') {
-      const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, YEARLY_MONTH, MONTHLY_DAY, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      const month = Math.max(1, Math.min(12, Number((rec as any).yearlyMonth || (rec as any).month || 0)));
-      const day = Math.max(1, Math.min(31, Number((rec as any).yearlyDay || (rec as any).monthlyDay || 0)));
-      await this.run(rsql, [id, 'yearly', month, day, count, 0, occurrenceOffsetDays, now, now]);
-    } else if (p.is_recurring && rec && rec.freq === 'weekly') {
-      const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, WEEKLY_DOWS, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      const dows = Math.max(0, Number((rec as any).weeklyDows || 0));
-      const interval = Math.max(1, Number((rec as any).interval || 1));
-      await this.run(rsql, [id, 'weekly', dows, interval, count, 0, occurrenceOffsetDays, now, now]);
-    } else if (p.is_recurring && rec && rec.freq === 'daily') {
-      const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, COUNT, HORIZON_DAYS, INTERVAL, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      let horizon = Number((rec as any).horizonDays || 14);
-      if (!isFinite(horizon) || horizon <= 0) horizon = 14;
-      if (horizon > 365) horizon = 365;
-      const interval = Math.max(1, Number((rec as any).interval || 1));
-      const anchor = String((rec as any).anchor || 'scheduled');
-      await this.run(rsql, [id, 'daily', null, count, horizon, interval, anchor, 0, occurrenceOffsetDays, now, now]);
-    } else {
-      // Non-recurring: create a rule row with COUNT=1
-      const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
-      await this.run(rsql, [id, 'monthly', null, null, null, 1, 0, 0, now, now]);
-    }
-
-    // For single tasks, ensure one occurrence exists immediately
-    if (!p.is_recurring) {
-      const scheduledDate = p.due_at ? (p.due_at.split('T')[0]) : p.start_date;
-      if (scheduledDate) {
-        const exists = await this.get<any>('SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?', [id, scheduledDate]);
-        if (!exists) {
-          const newId = await this.run(
-            `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-             VALUES (?, ?, ?, 'pending', ?, ?)`,
-            [id, scheduledDate, p.start_time || null, now, now]
-          );
-          try { await this.logEvent('occ.autocreate', 'system', id, newId, { reason: 'single.ensure', date: scheduledDate }); } catch {}
-        }
+    return this.exclusive(async () => {
+      const now = this.nowIso();
+      const p = {
+        title: payload.title || '',
+        description: payload.description || null,
+        due_at: payload.dueAt || null,
+        start_date: payload.startDate || null,
+        start_time: payload.startTime || null,
+        is_recurring: payload.isRecurring ? 1 : 0,
+        require_complete_comment: payload.requireCompleteComment ? 1 : 0
+      };
+      const rec = payload.recurrence;
+      const manualNextDue = !!(rec && (rec.manualNextDue || rec.freq === 'manualNext'));
+      const occurrenceOffsetDays = rec ? this.normalizeOccurrenceOffset((rec as any).occurrenceOffsetDays) : 0;
+      const holidayPolicy = rec && !manualNextDue && payload.isRecurring ? this.normalizeHolidayPolicy((rec as any).holidayPolicy) : 'keep';
+      const monthlyBusinessDay = rec && !manualNextDue && payload.isRecurring && rec.freq === 'monthlyBusinessDay'
+        ? this.normalizeMonthlyBusinessDay((rec as any).monthlyBusinessDay) : null;
+      const monthlyDays = rec && rec.freq === 'monthly' ? this.normalizeMonthlyDays(rec) : [];
+      const monthlyNthPairs = rec && rec.freq === 'monthlyNth' ? this.normalizeMonthlyNthPairs(rec) : [];
+      // 営業日指定はカレンダーの休業日も営業日の数え方に含めるため、祝日の扱いが keep でもカレンダーを保持する
+      const calendarId = holidayPolicy !== 'keep' || monthlyBusinessDay != null ? await this.normalizeCalendarId((rec as any).calendarId) : null;
+      const dateList = rec && !manualNextDue && payload.isRecurring && rec.freq === 'dates' ? this.normalizeDateList(rec) : [];
+      const cronExpr = rec && !manualNextDue && payload.isRecurring && rec.freq === 'cron' ? this.normalizeCronExpr(rec) : null;
+      const timesOfDay = rec && payload.isRecurring ? this.normalizeTimesOfDay(rec, manualNextDue) : [];
+      const intervalAnchor = rec && payload.isRecurring ? this.normalizeIntervalAnchor(rec, manualNextDue) : 'scheduled';
+      // 日付リストは終了日を持たず、回数はリストの件数
+      const end = dateList.length ? { endKind: 'count' as const, untilDate: null, count: dateList.length } : this.normalizeRecurrenceEnd(rec);
+      const extras = this.normalizeRecurrenceExtras(payload, manualNextDue);
+      // 取り込み（iCalendar の EXDATE / RECURRENCE-ID など）で指定された例外
+      const exceptions = payload.isRecurring && !manualNextDue ? this.normalizeRecurrenceExceptions(payload.recurrenceExceptions) : [];
+      if (manualNextDue) p.is_recurring = 1;
+      // Default start_date/time if unspecified
+      if (!p.start_date) {
+        const d = new Date();
+        const y = d.getFullYear();
+        const m = String(d.getMonth() + 1).padStart(2, '0');
+        const da = String(d.getDate()).padStart(2, '0');
+        p.start_date = `${y}-${m}-${da}`;
       }
-    } else if (manualNextDue) {
-      const scheduledDateRaw = p.due_at ? String(p.due_at) : (p.start_date ?? null);
-      const scheduledDate = scheduledDateRaw ? scheduledDateRaw.split('T')[0] : null;
-      await this.ensureManualNextOccurrence(id, scheduledDate, p.start_time || null);
-    } else {
-      // Finite count: reconcile occurrences to match count
-      const count = Number((rec && rec.count) || 0);
-      if (count >= 1) {
-        if (rec && rec.freq === 'daily' && String((rec as any).anchor || 'scheduled') === 'completed') {
-          // 完了基準: pendingは1件のみ（ここでは不要な余剰を削除し、必要時は後段でensure）
-          // 直後のensureで1件が用意される
+      if (!p.start_time) {
+        p.start_time = '00:00';
+      }
+      if (manualNextDue && p.due_at) {
+        p.start_date = p.due_at.split('T')[0];
+      }
+      if (dateList.length) p.start_date = dateList[0].date;
+      // 途中で失敗してもタスクやルールの書きかけを残さないよう、1つのトランザクションで書き込む
+      const createdId = await this.withTransaction(async () => {
+        const sql = `INSERT INTO TASKS (TITLE, DESCRIPTION, DUE_AT, START_DATE, START_TIME, IS_RECURRING, REQUIRE_COMPLETE_COMMENT, CREATED_AT, UPDATED_AT)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        const id = await this.run(sql, [p.title, p.description, p.due_at, p.start_date, p.start_time, p.is_recurring, p.require_complete_comment, now, now]);
+        // Insert recurrence rule: for recurring, from payload; for single, COUNT=1
+        if (p.is_recurring && manualNextDue) {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          await this.run(rsql, [id, 'monthly', null, null, null, 0, 1, 0, now, now]);
+        } else if (p.is_recurring && rec && rec.freq === 'monthly' && monthlyDays.length) {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          const count = end.count; // 0=無限（終了日指定時も0）
+          const interval = this.normalizePeriodInterval(rec, MAX_MONTHLY_INTERVAL);
+          await this.run(rsql, [id, 'monthly', monthlyDays[0], null, null, interval, count, 0, occurrenceOffsetDays, now, now]);
+        } else if (p.is_recurring && monthlyNthPairs.length) {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          const count = end.count;
+          const interval = this.normalizePeriodInterval(rec, MAX_MONTHLY_INTERVAL);
+          await this.run(rsql, [id, 'monthly', null, monthlyNthPairs[0].nth, monthlyNthPairs[0].dow, interval, count, 0, occurrenceOffsetDays, now, now]);
+        } else if (p.is_recurring && monthlyBusinessDay != null) {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_BUSINESS_DAY, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          const count = end.count;
+          const interval = this.normalizePeriodInterval(rec, MAX_MONTHLY_INTERVAL);
+          await this.run(rsql, [id, 'monthly', monthlyBusinessDay, interval, count, 0, occurrenceOffsetDays, now, now]);
+        } else if (p.is_recurring && rec && rec.freq === 'yearly') {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, YEARLY_MONTH, MONTHLY_DAY, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          const count = end.count;
+          const month = Math.max(1, Math.min(12, Number((rec as any).yearlyMonth || (rec as any).month || 0)));
+          const day = Math.max(1, Math.min(31, Number((rec as any).yearlyDay || (rec as any).monthlyDay || 0)));
+          const interval = this.normalizePeriodInterval(rec, MAX_YEARLY_INTERVAL);
+          await this.run(rsql, [id, 'yearly', month, day, interval, count, 0, occurrenceOffsetDays, now, now]);
+        } else if (p.is_recurring && rec && rec.freq === 'weekly') {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, WEEKLY_DOWS, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          const count = end.count;
+          const dows = Math.max(0, Number((rec as any).weeklyDows || 0));
+          const interval = this.normalizePeriodInterval(rec, MAX_WEEKLY_INTERVAL);
+          await this.run(rsql, [id, 'weekly', dows, interval, count, 0, occurrenceOffsetDays, now, now]);
+        } else if (p.is_recurring && dateList.length) {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+          await this.run(rsql, [id, 'dates', 1, end.count, 0, occurrenceOffsetDays, now, now]);
+        } else if (p.is_recurring && cronExpr) {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, CRON_EXPR, INTERVAL, COUNT, HORIZON_DAYS, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          await this.run(rsql, [id, 'cron', cronExpr, 1, end.count, this.normalizeHorizonDays(rec), 0, occurrenceOffsetDays, now, now]);
+        } else if (p.is_recurring && rec && rec.freq === 'daily') {
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, COUNT, HORIZON_DAYS, INTERVAL, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          const count = end.count;
+          let horizon = Number((rec as any).horizonDays || 14);
+          if (!isFinite(horizon) || horizon <= 0) horizon = 14;
+          if (horizon > 365) horizon = 365;
+          const interval = Math.max(1, Number((rec as any).interval || 1));
+          const anchor = String((rec as any).anchor || 'scheduled');
+          await this.run(rsql, [id, 'daily', null, count, horizon, interval, anchor, 0, occurrenceOffsetDays, now, now]);
         } else {
-          await this.reconcileOccurrencesForTask(id);
+          // Non-recurring: create a rule row with COUNT=1
+          const rsql = `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+          await this.run(rsql, [id, 'monthly', null, null, null, 1, 0, 0, now, now]);
         }
-      }
-    }
-    // Tags
-    if (Array.isArray(payload.tags)) {
-      await this.setTagsForTask(id, payload.tags.map((s: any) => String(s || '').trim()).filter(Boolean));
-    }
-    // Log: task.create (user)
-    try {
-      const after = await this.getTask(id);
-      await this.logEvent('task.create', 'user', id, null, { after, payload });
-    } catch {}
-    return id;
+        await this.writeMonthlySets(id, monthlyDays, monthlyNthPairs);
+        await this.writeTimesOfDay(id, timesOfDay, now);
+        await this.run('UPDATE RECURRENCE_RULES SET INTERVAL_ANCHOR = ? WHERE TASK_ID = ?', [intervalAnchor, id]);
+        await this.writeRecurrenceEnd(id, p.is_recurring ? (manualNextDue ? null : end) : { endKind: 'count', untilDate: null }, now);
+        await this.writeHolidayShift(id, holidayPolicy, calendarId, now);
+        await this.writeRecurrenceExtras(id, extras, now);
+        await this.writeDateList(id, dateList, p.start_time, now);
+        // 例外はオカレンス生成より前に登録する
+        if (exceptions.length) await this.insertRecurrenceExceptions(id, exceptions, now);
+
+        // For single tasks, ensure one occurrence exists immediately
+        if (!p.is_recurring) {
+          const scheduledDate = p.due_at ? (p.due_at.split('T')[0]) : p.start_date;
+          if (scheduledDate) {
+            const exists = await this.get<any>('SELECT ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? AND SCHEDULED_DATE = ?', [id, scheduledDate]);
+            if (!exists) {
+              const newId = await this.run(
+                `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
+                 VALUES (?, ?, ?, 'pending', ?, ?)`,
+                [id, scheduledDate, p.start_time || null, now, now]
+              );
+              try { await this.logEvent('occ.autocreate', 'system', id, newId, { reason: 'single.ensure', date: scheduledDate }); } catch {}
+            }
+          }
+        } else if (manualNextDue) {
+          const scheduledDateRaw = p.due_at ? String(p.due_at) : (p.start_date ?? null);
+          const scheduledDate = scheduledDateRaw ? scheduledDateRaw.split('T')[0] : null;
+          await this.ensureManualNextOccurrence(id, scheduledDate, p.start_time || null);
+        } else {
+          // Finite count: reconcile occurrences to match count
+          if (end.count >= 1) {
+            if (intervalAnchor === 'completed') {
+              // 完了基準: pendingは1件のみ（ここでは不要な余剰を削除し、必要時は後段でensure）
+              // 直後のensureで1件が用意される
+            } else {
+              await this.reconcileOccurrencesForTask(id);
+            }
+          }
+        }
+        // Tags
+        if (Array.isArray(payload.tags)) {
+          await this.setTagsForTask(id, payload.tags.map((s: any) => String(s || '').trim()).filter(Boolean));
+        }
+        // Log: task.create (user)
+        try {
+          const after = await this.getTask(id);
+          await this.logEvent('task.create', 'user', id, null, { after, payload });
+        } catch {}
+        return id;
+      });
+      await this.markGenerationStale(createdId);
+      return createdId;
+    });
   }
 
   async updateTask(id: number, payload: any): Promise<void> {
-    const now = this.nowIso();
-    // Snapshot before
-    let before: any = null;
-    try { before = await this.getTask(id); } catch {}
-    const sql = `UPDATE TASKS SET TITLE = ?, DESCRIPTION = ?, DUE_AT = ?, START_DATE = ?, START_TIME = ?, IS_RECURRING = ?, REQUIRE_COMPLETE_COMMENT = ?, UPDATED_AT = ? WHERE ID = ?`;
-    const rec = payload.recurrence;
-    const manualNextDue = !!(rec && (rec.manualNextDue || rec.freq === 'manualNext'));
-    const occurrenceOffsetDays = rec ? this.normalizeOccurrenceOffset((rec as any).occurrenceOffsetDays) : 0;
-    const p = {
-      title: payload.title || '',
-      description: payload.description || null,
-      due_at: payload.dueAt || null,
-      start_date: payload.startDate || null,
-      start_time: payload.startTime || null,
-      is_recurring: payload.isRecurring ? 1 : 0,
-      require_complete_comment: payload.requireCompleteComment ? 1 : 0
-    };
-    if (manualNextDue) p.is_recurring = 1;
-    if (manualNextDue && p.due_at) {
-      p.start_date = p.due_at.split('T')[0];
-    }
-    await this.run(sql, [p.title, p.description, p.due_at, p.start_date, p.start_time, p.is_recurring, p.require_complete_comment, now, id]);
-    // Upsert/delete recurrence rule based on payload
-    const existing = await this.get<any>('SELECT ID FROM RECURRENCE_RULES WHERE TASK_ID = ?', [id]);
-    if (p.is_recurring && manualNextDue) {
-      if (existing && existing.ID) {
-        await this.run(
-          `UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL,
-             WEEKLY_DOWS = NULL, YEARLY_MONTH = NULL, HORIZON_DAYS = NULL, INTERVAL = 1,
-             INTERVAL_ANCHOR = 'scheduled', COUNT = 0, MANUAL_NEXT_DUE = 1, OCCURRENCE_OFFSET_DAYS = 0, UPDATED_AT = ? WHERE TASK_ID = ?`,
-          ['monthly', now, id]
-        );
-      } else {
-        await this.run(
-          `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
-           VALUES (?, ?, ?, ?, ?, ?, ?)`,
-          [id, 'monthly', 0, 1, 0, now, now]
-        );
-      }
-    } else if (p.is_recurring && rec && rec.freq === 'monthly' && rec.monthlyDay && rec.monthlyDay >= 1 && rec.monthlyDay <= 31) {
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      if (existing && existing.ID) {
-        await this.run('UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = ?, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?',
-          ['monthly', rec.monthlyDay, count, occurrenceOffsetDays, now, id]);
-      } else {
-        await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [id, 'monthly', rec.monthlyDay, null, null, count, 0, occurrenceOffsetDays, now, now]);
-      }
-    } else if (p.is_recurring && rec && rec.freq === 'monthlyNth' && typeof rec.monthlyNth === 'number' && typeof rec.monthlyNthDow === 'number') {
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      if (existing && existing.ID) {
-        await this.run('UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = ?, MONTHLY_NTH_DOW = ?, COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?',
-          ['monthly', rec.monthlyNth, rec.monthlyNthDow, count, occurrenceOffsetDays, now, id]);
-      } else {
-        await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [id, 'monthly', null, rec.monthlyNth, rec.monthlyNthDow, count, 0, occurrenceOffsetDays, now, now]);
-      }
-    } else if (p.is_recurring && rec && rec.freq === 'daily') {
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      if (existing && existing.ID) {
-        let horizon = Number((rec as any).horizonDays || 14);
-        if (!isFinite(horizon) || horizon <= 0) horizon = 14;
-        if (horizon > 365) horizon = 365;
-        const interval = Math.max(1, Number((rec as any).interval || 1));
-        const anchor = String((rec as any).anchor || 'scheduled');
-        await this.run('UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, COUNT = ?, HORIZON_DAYS = ?, INTERVAL = ?, INTERVAL_ANCHOR = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?',
-          ['daily', count, horizon, interval, anchor, occurrenceOffsetDays, now, id]);
-      } else {
-        let horizon = Number((rec as any).horizonDays || 14);
-        if (!isFinite(horizon) || horizon <= 0) horizon = 14;
-        if (horizon > 365) horizon = 365;
-        const interval = Math.max(1, Number((rec as any).interval || 1));
-        const anchor = String((rec as any).anchor || 'scheduled');
-        await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, HORIZON_DAYS, INTERVAL, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [id, 'daily', null, null, null, count, horizon, interval, anchor, 0, occurrenceOffsetDays, now, now]);
-      }
-    } else if (p.is_recurring && rec && rec.freq === 'weekly') {
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      const dows = Math.max(0, Number((rec as any).weeklyDows || 0));
-      const interval = Math.max(1, Number((rec as any).interval || 1));
-      if (existing && existing.ID) {
-        await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, WEEKLY_DOWS = ?, INTERVAL = ?, COUNT = ?, INTERVAL_ANCHOR = 'scheduled', MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
-          ['weekly', dows, interval, count, occurrenceOffsetDays, now, id]);
-      } else {
-        await this.run("INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, WEEKLY_DOWS, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
-          [id, 'weekly', dows, interval, count, 0, occurrenceOffsetDays, now, now]);
-      }
-    } else if (p.is_recurring && rec && rec.freq === 'yearly') {
-      const count = Math.max(0, Number((rec as any).count || 0) || 0);
-      const month = Math.max(1, Math.min(12, Number((rec as any).yearlyMonth || (rec as any).month || 0)));
-      const day = Math.max(1, Math.min(31, Number((rec as any).yearlyDay || (rec as any).monthlyDay || 0)));
-      if (existing && existing.ID) {
-        await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, YEARLY_MONTH = ?, MONTHLY_DAY = ?, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, WEEKLY_DOWS = NULL, HORIZON_DAYS = NULL, INTERVAL = 1, INTERVAL_ANCHOR = 'scheduled', COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
-          ['yearly', month, day, count, occurrenceOffsetDays, now, id]);
-      } else {
-        await this.run("INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, YEARLY_MONTH, MONTHLY_DAY, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
-          [id, 'yearly', month, day, count, 0, occurrenceOffsetDays, now, now]);
-      }
-    } else {
-      // Non-recurring: ensure rule with COUNT=1 exists
-      if (existing && existing.ID) {
-        await this.run('UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = 0, UPDATED_AT = ? WHERE TASK_ID = ?',
-          ['monthly', 1, now, id]);
-      } else {
-        await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [id, 'monthly', null, null, null, 1, 0, 0, now, now]);
+    return this.exclusive(async () => {
+      const now = this.nowIso();
+      // Snapshot before
+      let before: any = null;
+      try { before = await this.getTask(id); } catch {}
+      const sql = `UPDATE TASKS SET TITLE = ?, DESCRIPTION = ?, DUE_AT = ?, START_DATE = ?, START_TIME = ?, IS_RECURRING = ?, REQUIRE_COMPLETE_COMMENT = ?, UPDATED_AT = ? WHERE ID = ?`;
+      const rec = payload.recurrence;
+      const manualNextDue = !!(rec && (rec.manualNextDue || rec.freq === 'manualNext'));
+      const occurrenceOffsetDays = rec ? this.normalizeOccurrenceOffset((rec as any).occurrenceOffsetDays) : 0;
+      const holidayPolicy = rec && !manualNextDue && payload.isRecurring ? this.normalizeHolidayPolicy((rec as any).holidayPolicy) : 'keep';
+      const monthlyBusinessDay = rec && !manualNextDue && payload.isRecurring && rec.freq === 'monthlyBusinessDay'
+        ? this.normalizeMonthlyBusinessDay((rec as any).monthlyBusinessDay) : null;
+      const monthlyDays = rec && rec.freq === 'monthly' ? this.normalizeMonthlyDays(rec) : [];
+      const monthlyNthPairs = rec && rec.freq === 'monthlyNth' ? this.normalizeMonthlyNthPairs(rec) : [];
+      // 営業日指定はカレンダーの休業日も営業日の数え方に含めるため、祝日の扱いが keep でもカレンダーを保持する
+      const calendarId = holidayPolicy !== 'keep' || monthlyBusinessDay != null ? await this.normalizeCalendarId((rec as any).calendarId) : null;
+      const dateList = rec && !manualNextDue && payload.isRecurring && rec.freq === 'dates' ? this.normalizeDateList(rec) : [];
+      const cronExpr = rec && !manualNextDue && payload.isRecurring && rec.freq === 'cron' ? this.normalizeCronExpr(rec) : null;
+      const timesOfDay = rec && payload.isRecurring ? this.normalizeTimesOfDay(rec, manualNextDue) : [];
+      const intervalAnchor = rec && payload.isRecurring ? this.normalizeIntervalAnchor(rec, manualNextDue) : 'scheduled';
+      // 日付リストは終了日を持たず、回数はリストの件数
+      const end = dateList.length ? { endKind: 'count' as const, untilDate: null, count: dateList.length } : this.normalizeRecurrenceEnd(rec);
+      const extras = this.normalizeRecurrenceExtras(payload, manualNextDue);
+      // 日付を指定した変更（その日以降の回だけ新しいルールにする）。変更前のルールは版として残す
+      const versionable = !!(payload.isRecurring && rec && !manualNextDue && rec.freq !== 'dates' && intervalAnchor !== 'completed' && end.count === 0);
+      const effectiveFrom = this.normalizeRuleEffectiveFrom(rec, before, payload, versionable);
+      // 版を持てない設定へ変える場合は、変更前のルールと以前の版を履歴として閉じる
+      const supersededTo = !effectiveFrom && !versionable && (await this.hasActiveRuleVersions(id, before)) ? this.closingRuleVersionDate(before) : null;
+      const p = {
+        title: payload.title || '',
+        description: payload.description || null,
+        due_at: payload.dueAt || null,
+        start_date: payload.startDate || null,
+        start_time: payload.startTime || null,
+        is_recurring: payload.isRecurring ? 1 : 0,
+        require_complete_comment: payload.requireCompleteComment ? 1 : 0
+      };
+      if (manualNextDue) p.is_recurring = 1;
+      if (manualNextDue && p.due_at) {
+        p.start_date = p.due_at.split('T')[0];
       }
-      const scheduledDateRaw = p.due_at ? String(p.due_at) : (p.start_date ?? null);
-      const scheduledDate = scheduledDateRaw ? scheduledDateRaw.split('T')[0] : null;
-      const scheduledTime = p.start_time || null;
-      const occurrences = await this.all<any>(
-        `SELECT ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS FROM TASK_OCCURRENCES WHERE TASK_ID = ? ORDER BY ID ASC`,
-        [id]
-      );
-
-      if (!scheduledDate) {
-        for (const occ of occurrences) {
-          await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
-          try { await this.logEvent('occ.delete', 'system', id, occ.ID, { reason: 'single.realign.noDate', previousDate: occ.SCHEDULED_DATE, status: occ.STATUS }); } catch {}
-        }
-      } else {
-        let primaryOcc = occurrences.find(o => o.SCHEDULED_DATE === scheduledDate) || null;
-        if (!primaryOcc && occurrences.length) primaryOcc = occurrences[0];
-
-        if (primaryOcc) {
-          const prevDate = primaryOcc.SCHEDULED_DATE;
-          const prevTime = primaryOcc.SCHEDULED_TIME ?? null;
-          const needsUpdate = prevDate !== scheduledDate || (prevTime ?? null) !== (scheduledTime ?? null);
-          if (needsUpdate) {
+      if (dateList.length) p.start_date = dateList[0].date;
+      // 途中で失敗しても書きかけを残さないよう、1つのトランザクションで書き込む（日付を指定した変更では版の保存・ルールの書き換え・以後の回の整理まで）
+      await this.withTransaction(async () => {
+        // 開始時刻も版に含めるため、TASKS を書き換える前に残す
+        if (effectiveFrom) await this.archiveRuleVersion(id, effectiveFrom, now);
+        else if (supersededTo) await this.archiveRuleVersion(id, supersededTo, now);
+        await this.run(sql, [p.title, p.description, p.due_at, p.start_date, p.start_time, p.is_recurring, p.require_complete_comment, now, id]);
+        // Upsert/delete recurrence rule based on payload
+        const existing = await this.get<any>('SELECT ID FROM RECURRENCE_RULES WHERE TASK_ID = ?', [id]);
+        if (p.is_recurring && manualNextDue) {
+          if (existing && existing.ID) {
             await this.run(
-              `UPDATE TASK_OCCURRENCES SET SCHEDULED_DATE = ?, SCHEDULED_TIME = ?, UPDATED_AT = ? WHERE ID = ?`,
-              [scheduledDate, scheduledTime, now, primaryOcc.ID]
+              `UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL,
+                 WEEKLY_DOWS = NULL, YEARLY_MONTH = NULL, HORIZON_DAYS = NULL, INTERVAL = 1,
+                 INTERVAL_ANCHOR = 'scheduled', COUNT = 0, MANUAL_NEXT_DUE = 1, OCCURRENCE_OFFSET_DAYS = 0, UPDATED_AT = ? WHERE TASK_ID = ?`,
+              ['monthly', now, id]
+            );
+          } else {
+            await this.run(
+              `INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT)
+               VALUES (?, ?, ?, ?, ?, ?, ?)`,
+              [id, 'monthly', 0, 1, 0, now, now]
             );
-            try { await this.logEvent('occ.reschedule', 'system', id, primaryOcc.ID, { reason: 'single.realign', previousDate: prevDate, previousTime: prevTime, newDate: scheduledDate, newTime: scheduledTime }); } catch {}
-            primaryOcc.SCHEDULED_DATE = scheduledDate;
-            primaryOcc.SCHEDULED_TIME = scheduledTime;
+          }
+        } else if (p.is_recurring && rec && rec.freq === 'monthly' && monthlyDays.length) {
+          const count = end.count;
+          const interval = this.normalizePeriodInterval(rec, MAX_MONTHLY_INTERVAL);
+          if (existing && existing.ID) {
+            await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = ?, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, INTERVAL = ?, INTERVAL_ANCHOR = 'scheduled', COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
+              ['monthly', monthlyDays[0], interval, count, occurrenceOffsetDays, now, id]);
+          } else {
+            await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [id, 'monthly', monthlyDays[0], null, null, interval, count, 0, occurrenceOffsetDays, now, now]);
+          }
+        } else if (p.is_recurring && monthlyNthPairs.length) {
+          const count = end.count;
+          const interval = this.normalizePeriodInterval(rec, MAX_MONTHLY_INTERVAL);
+          if (existing && existing.ID) {
+            await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = ?, MONTHLY_NTH_DOW = ?, INTERVAL = ?, INTERVAL_ANCHOR = 'scheduled', COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
+              ['monthly', monthlyNthPairs[0].nth, monthlyNthPairs[0].dow, interval, count, occurrenceOffsetDays, now, id]);
+          } else {
+            await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [id, 'monthly', null, monthlyNthPairs[0].nth, monthlyNthPairs[0].dow, interval, count, 0, occurrenceOffsetDays, now, now]);
+          }
+        } else if (p.is_recurring && monthlyBusinessDay != null) {
+          const count = end.count;
+          const interval = this.normalizePeriodInterval(rec, MAX_MONTHLY_INTERVAL);
+          if (existing && existing.ID) {
+            await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, INTERVAL = ?, INTERVAL_ANCHOR = 'scheduled', COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
+              ['monthly', interval, count, occurrenceOffsetDays, now, id]);
+          } else {
+            await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+              [id, 'monthly', interval, count, 0, occurrenceOffsetDays, now, now]);
+          }
+        } else if (p.is_recurring && rec && rec.freq === 'daily') {
+          const count = end.count;
+          if (existing && existing.ID) {
+            let horizon = Number((rec as any).horizonDays || 14);
+            if (!isFinite(horizon) || horizon <= 0) horizon = 14;
+            if (horizon > 365) horizon = 365;
+            const interval = Math.max(1, Number((rec as any).interval || 1));
+            const anchor = String((rec as any).anchor || 'scheduled');
+            await this.run('UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, COUNT = ?, HORIZON_DAYS = ?, INTERVAL = ?, INTERVAL_ANCHOR = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?',
+              ['daily', count, horizon, interval, anchor, occurrenceOffsetDays, now, id]);
+          } else {
+            let horizon = Number((rec as any).horizonDays || 14);
+            if (!isFinite(horizon) || horizon <= 0) horizon = 14;
+            if (horizon > 365) horizon = 365;
+            const interval = Math.max(1, Number((rec as any).interval || 1));
+            const anchor = String((rec as any).anchor || 'scheduled');
+            await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, HORIZON_DAYS, INTERVAL, INTERVAL_ANCHOR, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [id, 'daily', null, null, null, count, horizon, interval, anchor, 0, occurrenceOffsetDays, now, now]);
+          }
+        } else if (p.is_recurring && rec && rec.freq === 'weekly') {
+          const count = end.count;
+          const dows = Math.max(0, Number((rec as any).weeklyDows || 0));
+          const interval = this.normalizePeriodInterval(rec, MAX_WEEKLY_INTERVAL);
+          if (existing && existing.ID) {
+            await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, WEEKLY_DOWS = ?, INTERVAL = ?, COUNT = ?, INTERVAL_ANCHOR = 'scheduled', MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
+              ['weekly', dows, interval, count, occurrenceOffsetDays, now, id]);
+          } else {
+            await this.run("INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, WEEKLY_DOWS, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+              [id, 'weekly', dows, interval, count, 0, occurrenceOffsetDays, now, now]);
+          }
+        } else if (p.is_recurring && dateList.length) {
+          if (existing && existing.ID) {
+            await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, WEEKLY_DOWS = NULL, YEARLY_MONTH = NULL, HORIZON_DAYS = NULL, INTERVAL = 1, INTERVAL_ANCHOR = 'scheduled', COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
+              ['dates', end.count, occurrenceOffsetDays, now, id]);
+          } else {
+            await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+              [id, 'dates', 1, end.count, 0, occurrenceOffsetDays, now, now]);
+          }
+        } else if (p.is_recurring && cronExpr) {
+          const horizon = this.normalizeHorizonDays(rec);
+          if (existing && existing.ID) {
+            await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, WEEKLY_DOWS = NULL, YEARLY_MONTH = NULL, HORIZON_DAYS = ?, INTERVAL = 1, INTERVAL_ANCHOR = 'scheduled', COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
+              ['cron', horizon, end.count, occurrenceOffsetDays, now, id]);
+          } else {
+            await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, INTERVAL, COUNT, HORIZON_DAYS, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [id, 'cron', 1, end.count, horizon, 0, occurrenceOffsetDays, now, now]);
+          }
+        } else if (p.is_recurring && rec && rec.freq === 'yearly') {
+          const count = end.count;
+          const month = Math.max(1, Math.min(12, Number((rec as any).yearlyMonth || (rec as any).month || 0)));
+          const day = Math.max(1, Math.min(31, Number((rec as any).yearlyDay || (rec as any).monthlyDay || 0)));
+          const interval = this.normalizePeriodInterval(rec, MAX_YEARLY_INTERVAL);
+          if (existing && existing.ID) {
+            await this.run("UPDATE RECURRENCE_RULES SET FREQ = ?, YEARLY_MONTH = ?, MONTHLY_DAY = ?, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, WEEKLY_DOWS = NULL, HORIZON_DAYS = NULL, INTERVAL = ?, INTERVAL_ANCHOR = 'scheduled', COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = ?, UPDATED_AT = ? WHERE TASK_ID = ?",
+              ['yearly', month, day, interval, count, occurrenceOffsetDays, now, id]);
+          } else {
+            await this.run("INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, YEARLY_MONTH, MONTHLY_DAY, INTERVAL, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+              [id, 'yearly', month, day, interval, count, 0, occurrenceOffsetDays, now, now]);
           }
         } else {
-          const newId = await this.run(
-            `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
-             VALUES (?, ?, ?, 'pending', ?, ?)`,
-            [id, scheduledDate, scheduledTime, now, now]
+          // Non-recurring: ensure rule with COUNT=1 exists
+          if (existing && existing.ID) {
+            await this.run('UPDATE RECURRENCE_RULES SET FREQ = ?, MONTHLY_DAY = NULL, MONTHLY_NTH = NULL, MONTHLY_NTH_DOW = NULL, COUNT = ?, MANUAL_NEXT_DUE = 0, OCCURRENCE_OFFSET_DAYS = 0, UPDATED_AT = ? WHERE TASK_ID = ?',
+              ['monthly', 1, now, id]);
+          } else {
+            await this.run('INSERT INTO RECURRENCE_RULES (TASK_ID, FREQ, MONTHLY_DAY, MONTHLY_NTH, MONTHLY_NTH_DOW, COUNT, MANUAL_NEXT_DUE, OCCURRENCE_OFFSET_DAYS, CREATED_AT, UPDATED_AT) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [id, 'monthly', null, null, null, 1, 0, 0, now, now]);
+          }
+          const scheduledDateRaw = p.due_at ? String(p.due_at) : (p.start_date ?? null);
+          const scheduledDate = scheduledDateRaw ? scheduledDateRaw.split('T')[0] : null;
+          const scheduledTime = p.start_time || null;
+          const occurrences = await this.all<any>(
+            `SELECT ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS FROM TASK_OCCURRENCES WHERE TASK_ID = ? ORDER BY ID ASC`,
+            [id]
           );
-          primaryOcc = { ID: newId, SCHEDULED_DATE: scheduledDate, SCHEDULED_TIME: scheduledTime, STATUS: 'pending' };
-          try { await this.logEvent('occ.autocreate', 'system', id, newId, { reason: 'single.realign.create', date: scheduledDate }); } catch {}
+
+          if (!scheduledDate) {
+            for (const occ of occurrences) {
+              await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+              try { await this.logEvent('occ.delete', 'system', id, occ.ID, { reason: 'single.realign.noDate', previousDate: occ.SCHEDULED_DATE, status: occ.STATUS }); } catch {}
+            }
+          } else {
+            let primaryOcc = occurrences.find(o => o.SCHEDULED_DATE === scheduledDate) || null;
+            if (!primaryOcc && occurrences.length) primaryOcc = occurrences[0];
+
+            if (primaryOcc) {
+              const prevDate = primaryOcc.SCHEDULED_DATE;
+              const prevTime = primaryOcc.SCHEDULED_TIME ?? null;
+              const needsUpdate = prevDate !== scheduledDate || (prevTime ?? null) !== (scheduledTime ?? null);
+              if (needsUpdate) {
+                await this.run(
+                  `UPDATE TASK_OCCURRENCES SET SCHEDULED_DATE = ?, SCHEDULED_TIME = ?, UPDATED_AT = ? WHERE ID = ?`,
+                  [scheduledDate, scheduledTime, now, primaryOcc.ID]
+                );
+                try { await this.logEvent('occ.reschedule', 'system', id, primaryOcc.ID, { reason: 'single.realign', previousDate: prevDate, previousTime: prevTime, newDate: scheduledDate, newTime: scheduledTime }); } catch {}
+                primaryOcc.SCHEDULED_DATE = scheduledDate;
+                primaryOcc.SCHEDULED_TIME = scheduledTime;
+              }
+            } else {
+              const newId = await this.run(
+                `INSERT INTO TASK_OCCURRENCES (TASK_ID, SCHEDULED_DATE, SCHEDULED_TIME, STATUS, CREATED_AT, UPDATED_AT)
+                 VALUES (?, ?, ?, 'pending', ?, ?)`,
+                [id, scheduledDate, scheduledTime, now, now]
+              );
+              primaryOcc = { ID: newId, SCHEDULED_DATE: scheduledDate, SCHEDULED_TIME: scheduledTime, STATUS: 'pending' };
+              try { await this.logEvent('occ.autocreate', 'system', id, newId, { reason: 'single.realign.create', date: scheduledDate }); } catch {}
+            }
+
+            for (const occ of occurrences) {
+              if (primaryOcc && occ.ID === primaryOcc.ID) continue;
+              await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
+              try { await this.logEvent('occ.delete', 'system', id, occ.ID, { reason: 'single.realign.remove', previousDate: occ.SCHEDULED_DATE, status: occ.STATUS }); } catch {}
+            }
+          }
         }
 
-        for (const occ of occurrences) {
-          if (primaryOcc && occ.ID === primaryOcc.ID) continue;
-          await this.run('DELETE FROM TASK_OCCURRENCES WHERE ID = ?', [occ.ID]);
-          try { await this.logEvent('occ.delete', 'system', id, occ.ID, { reason: 'single.realign.remove', previousDate: occ.SCHEDULED_DATE, status: occ.STATUS }); } catch {}
+        // 営業日指定・cron 式は他の頻度・月次指定と排他のため、どの分岐でもここでまとめて書き換える（他の指定へ変えたときは NULL）
+        await this.run('UPDATE RECURRENCE_RULES SET MONTHLY_BUSINESS_DAY = ?, CRON_EXPR = ? WHERE TASK_ID = ?', [monthlyBusinessDay, cronExpr, id]);
+        await this.writeMonthlySets(id, monthlyDays, monthlyNthPairs);
+        await this.writeTimesOfDay(id, timesOfDay, now);
+        await this.run('UPDATE RECURRENCE_RULES SET INTERVAL_ANCHOR = ? WHERE TASK_ID = ?', [intervalAnchor, id]);
+        await this.writeRecurrenceEnd(id, p.is_recurring ? (manualNextDue ? null : end) : { endKind: 'count', untilDate: null }, now);
+        await this.writeHolidayShift(id, holidayPolicy, calendarId, now);
+        await this.writeRecurrenceExtras(id, extras, now);
+        await this.writeDateList(id, dateList, p.start_time, now);
+        if (effectiveFrom) {
+          await this.startRuleVersion(id, before, effectiveFrom, occurrenceOffsetDays, now);
+        } else if (supersededTo) {
+          await this.supersedeRuleVersions(id, before, supersededTo, now);
+        }
+        if (p.is_recurring && !manualNextDue && end.untilDate) {
+          await this.pruneOccurrencesAfterUntil(id, end.untilDate);
         }
-      }
-    }
 
-    // If recurring with finite count, reconcile occurrences
-    if (p.is_recurring && !manualNextDue && rec && typeof rec.count !== 'undefined' && Number(rec.count) >= 1) {
-      if (rec && rec.freq === 'daily' && String((rec as any).anchor || 'scheduled') === 'completed') {
-        // 完了基準: pendingはensure側で1件だけ維持
-      } else {
-        await this.reconcileOccurrencesForTask(id);
+        if (cronExpr && end.count === 0) {
+          await this.realignCronOccurrences(id);
+        }
+
+        // If recurring with finite count, reconcile occurrences
+        if (p.is_recurring && !manualNextDue && rec && end.count >= 1) {
+          if (intervalAnchor === 'completed') {
+            // 完了基準: pendingはensure側で1件だけ維持
+          } else {
+            await this.reconcileOccurrencesForTask(id);
+          }
+        }
+
+        if (manualNextDue) {
+          const scheduledDateRaw = p.due_at ? String(p.due_at) : (p.start_date ?? null);
+          const scheduledDate = scheduledDateRaw ? scheduledDateRaw.split('T')[0] : null;
+          await this.ensureManualNextOccurrence(id, scheduledDate, p.start_time || null);
+        }
+
+        // Tags
+        if (Array.isArray(payload.tags)) {
+          await this.setTagsForTask(id, payload.tags.map((s: any) => String(s || '').trim()).filter(Boolean));
+        }
+        // Log: task.update (user)
+        try {
+          const after = await this.getTask(id);
+          await this.logEvent('task.update', 'user', id, null, { before, after, payload });
+        } catch {}
+      });
+      await this.markGenerationStale(id);
+    });
+  }
+
+  // 行を別のタスクへ写す（ID 以外の列はそのままで、overrides の列だけ値を差し替える）。新しい行の ID を返す
+  private async copyTaskRow(table: 'TASKS' | 'RECURRENCE_RULES' | 'RECURRENCE_EXTRA_RULES', row: any, overrides: Record<string, any>): Promise<number> {
+    const cols = (await this.all<any>(`PRAGMA table_info('${table}')`)).map(c => String(c.name)).filter(c => c !== 'ID');
+    return this.run(
+      `INSERT INTO ${table} (${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`,
+      cols.map(c => (c in overrides ? overrides[c] : row[c] ?? null))
+    );
+  }
+
+  // 繰り返しを指定日で2つのタスクに分ける。元のタスクは指定日の前で終え（回数指定は COUNT、それ以外は終了日）、
+  // 指定日以降の回を同じ設定（タグ・関連ファイル・ルール）の新しいタスクにする。
+  // 指定日以降の未完了オカレンスと振替・スキップの指定は新しいタスクへ移し、完了済みの履歴は元のタスクに残す。新しいタスクの ID を返す
+  async splitTask(taskId: number, date: string): Promise<number> {
+    return this.exclusive(async () => {
+      const splitDate = String(date ?? '').trim();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(splitDate) || this.dateToYmd(this.parseDateOnlyStrict(splitDate)) !== splitDate) {
+        throw new Error(`分割日の形式が不正です: ${date}`);
       }
-    }
+      const now = this.nowIso();
+      const createdId = await this.withTransaction(async () => {
+        const taskRow = await this.get<any>('SELECT * FROM TASKS WHERE ID = ?', [taskId]);
+        if (!taskRow) throw new Error('タスクが見つかりません');
+        const ruleRow = await this.get<any>('SELECT * FROM RECURRENCE_RULES WHERE TASK_ID = ?', [taskId]);
+        if (!Number(taskRow.IS_RECURRING || 0) || !ruleRow) throw new Error('分割できるのは繰り返しのタスクのみです');
+        if (Number(ruleRow.MANUAL_NEXT_DUE || 0) === 1 || String(ruleRow.INTERVAL_ANCHOR || 'scheduled') === 'completed') {
+          throw new Error('手動で次回を決める繰り返し・前回完了日基準の繰り返しは分割できません');
+        }
+        const rule = await this.loadRuleSpec(taskId);
+        if (!rule) throw new Error('繰り返しの設定を読み込めないため分割できません');
+        if (splitDate <= rule.startDate) {
+          throw new Error(`分割日は繰り返しの適用開始日（${rule.startDate}）より後の日付を指定してください`);
+        }
 
-    if (manualNextDue) {
-      const scheduledDateRaw = p.due_at ? String(p.due_at) : (p.start_date ?? null);
-      const scheduledDate = scheduledDateRaw ? scheduledDateRaw.split('T')[0] : null;
-      await this.ensureManualNextOccurrence(id, scheduledDate, p.start_time || null);
-    }
+        // 系列上の日付（オフセット適用後）で分ける。新しいタスクの開始日は分割日以降の最初の回の基準日とし、間隔の数え方を引き継ぐ
+        const offset = Number(rule.offsetDays || 0);
+        const boundary = addDaysYmd(splitDate, offset);
+        const finite = rule.freq !== 'dates' && Number(rule.count || 0) >= 1;
+        const perDate = seriesTimesOf(rule, null).length;
+        let slotsBefore = 0;
+        let nextSeries: string | null = null;
+        for (const seriesDate of iterateSeriesDates(rule, finite ? null : boundary)) {
+          if (seriesDate >= boundary) {
+            nextSeries = seriesDate;
+            break;
+          }
+          slotsBefore += perDate;
+        }
+        if (!nextSeries) throw new Error('分割日以降に繰り返しの回がありません');
+        const firstSeries = iterateSeriesDates(rule).next().value;
+        if (!ruleRow.EFFECTIVE_FROM && (!firstSeries || firstSeries >= boundary)) {
+          throw new Error('分割日より前に繰り返しの回がありません');
+        }
+        const newStartDate = addDaysYmd(nextSeries, -offset);
+
+        // 分割日以降の回は、完了済みがあれば分割しない（履歴を元のタスクに残すため）
+        const exceptions = await this.loadRecurrenceExceptionMap(taskId);
+        const extras = await this.loadRecurrenceExtras(taskId);
+        const extraSpecs = new Map(extras.rules.map(p => [Number(p.id), extraRuleSpec(rule, p)] as const));
+        const occs = await this.all<any>(
+          `SELECT ID, SCHEDULED_DATE, STATUS, SOURCE, EXTRA_RULE_ID FROM TASK_OCCURRENCES WHERE TASK_ID = ? ORDER BY SCHEDULED_DATE ASC, ID ASC`,
+          [taskId]
+        );
+        const moving: any[] = [];
+        for (const occ of occs) {
+          const occRule = occ.SOURCE === 'date' ? null : occ.SOURCE === 'extra' ? extraSpecs.get(Number(occ.EXTRA_RULE_ID)) ?? null : rule;
+          if (seriesDateOf(exceptions, String(occ.SCHEDULED_DATE), occRule) < boundary) continue;
+          if (occ.STATUS === 'done') throw new Error(`分割日以降に完了済みの回（${occ.SCHEDULED_DATE}）があるため分割できません`);
+          if (occ.STATUS === 'pending') moving.push(occ);
+        }
 
-    // Tags
-    if (Array.isArray(payload.tags)) {
-      await this.setTagsForTask(id, payload.tags.map((s: any) => String(s || '').trim()).filter(Boolean));
-    }
-    // Log: task.update (user)
-    try {
-      const after = await this.getTask(id);
-      await this.logEvent('task.update', 'user', id, null, { before, after, payload });
-    } catch {}
+        const newTaskId = await this.copyTaskRow('TASKS', taskRow, { START_DATE: newStartDate, CREATED_AT: now, UPDATED_AT: now });
+        const originalEnd = { endKind: String(ruleRow.END_KIND || 'none'), untilDate: ruleRow.UNTIL_DATE ?? null, count: ruleRow.COUNT ?? null };
+        let newCount = ruleRow.COUNT ?? null;
+        if (rule.freq === 'dates') {
+          await this.run('UPDATE RECURRENCE_DATES SET TASK_ID = ? WHERE TASK_ID = ? AND LIST_DATE >= ?', [newTaskId, taskId, splitDate]);
+          const remaining = (await this.loadDateList(taskId)).length;
+          newCount = (await this.loadDateList(newTaskId)).length;
+          await this.run('UPDATE RECURRENCE_RULES SET COUNT = ?, UPDATED_AT = ? WHERE TASK_ID = ?', [remaining, now, taskId]);
+        } else if (finite) {
+          // 回数は主ルールの回で分ける（スキップした回も含む）
+          newCount = Number(rule.count) - slotsBefore;
+          await this.run('UPDATE RECURRENCE_RULES SET COUNT = ?, UPDATED_AT = ? WHERE TASK_ID = ?', [slotsBefore, now, taskId]);
+        } else {
+          await this.writeRecurrenceEnd(taskId, { endKind: 'until', untilDate: addDaysYmd(boundary, -1) }, now);
+        }
+        await this.copyTaskRow('RECURRENCE_RULES', ruleRow, {
+          TASK_ID: newTaskId, COUNT: newCount, EFFECTIVE_FROM: null, RULE_VERSION: 1, GENERATED_THROUGH: null, CREATED_AT: now, UPDATED_AT: now
+        });
+        const extraRuleMap = new Map<number, number>();
+        for (const row of await this.all<any>('SELECT * FROM RECURRENCE_EXTRA_RULES WHERE TASK_ID = ? ORDER BY POSITION ASC, ID ASC', [taskId])) {
+          extraRuleMap.set(Number(row.ID), await this.copyTaskRow('RECURRENCE_EXTRA_RULES', row, { TASK_ID: newTaskId, CREATED_AT: now, UPDATED_AT: now }));
+        }
+        await this.run('UPDATE RECURRENCE_EXTRA_DATES SET TASK_ID = ? WHERE TASK_ID = ? AND EXTRA_DATE >= ?', [newTaskId, taskId, boundary]);
+        await this.run('UPDATE RECURRENCE_EXCEPTIONS SET TASK_ID = ? WHERE TASK_ID = ? AND EXCEPTION_DATE >= ?', [newTaskId, taskId, boundary]);
+        await this.run(
+          'INSERT INTO TASK_TAGS (TASK_ID, TAG_ID, CREATED_AT, UPDATED_AT) SELECT ?, TAG_ID, ?, ? FROM TASK_TAGS WHERE TASK_ID = ?',
+          [newTaskId, now, now, taskId]
+        );
+        await this.run(
+          'INSERT INTO TASK_FILE_LINKS (TASK_ID, FILE_SHA256, CREATED_AT, UPDATED_AT) SELECT ?, FILE_SHA256, ?, ? FROM TASK_FILE_LINKS WHERE TASK_ID = ?',
+          [newTaskId, now, now, taskId]
+        );
+        for (const occ of moving) {
+          const extraRuleId = occ.EXTRA_RULE_ID == null ? null : extraRuleMap.get(Number(occ.EXTRA_RULE_ID)) ?? null;
+          await this.run('UPDATE TASK_OCCURRENCES SET TASK_ID = ?, EXTRA_RULE_ID = ?, UPDATED_AT = ? WHERE ID = ?', [newTaskId, extraRuleId, now, occ.ID]);
+        }
+        await this.run('UPDATE TASKS SET UPDATED_AT = ? WHERE ID = ?', [now, taskId]);
+
+        const movedOccurrenceIds = moving.map(o => Number(o.ID));
+        try {
+          await this.logEvent('task.split', 'user', taskId, null, {
+            role: 'source', date: splitDate, newTaskId, newStartDate, movedOccurrenceIds, endBefore: originalEnd
+          });
+          await this.logEvent('task.split', 'user', newTaskId, null, {
+            role: 'target', date: splitDate, sourceTaskId: taskId, startDate: newStartDate, movedOccurrenceIds
+          });
+        } catch {}
+        return newTaskId;
+      });
+      await this.markGenerationStale(taskId);
+      return createdId;
+    });
   }
 
   async deleteTask(id: number): Promise<void> {
-    // Snapshot before delete
-    let before: any = null;
-    try { before = await this.getTask(id); } catch {}
-    await this.run('DELETE FROM TASKS WHERE ID = ?', [id]);
-    // Log: task.delete (user)
-    try {
-      await this.logEvent('task.delete', 'user', id, null, { before });
-    } catch {}
+    return this.exclusive(async () => {
+      // Snapshot before delete
+      let before: any = null;
+      try { before = await this.getTask(id); } catch {}
+      await this.run('DELETE FROM TASKS WHERE ID = ?', [id]);
+      // Log: task.delete (user)
+      try {
+        await this.logEvent('task.delete', 'user', id, null, { before });
+      } catch {}
+    });
   }
 }
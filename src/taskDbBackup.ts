@@ -0,0 +1,320 @@
+import * as sqlite3 from 'sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import log from 'electron-log';
+import type Store from 'electron-store';
+import { TaskDatabase } from './taskDatabase';
+
+export type TaskDbBackupReason = 'scheduled' | 'quit' | 'manual' | 'prerestore' | 'preimport';
+
+export type TaskDbBackupSettings = {
+  enabled: boolean;
+  /** 空ならタスクDBと同じフォルダの backups */
+  dir: string;
+  /** 直近何日分（1日1世代）を残すか */
+  keepDaily: number;
+  /** 直近何週分（1週1世代）を残すか */
+  keepWeekly: number;
+  /** 直近何か月分（1か月1世代）を残すか */
+  keepMonthly: number;
+};
+
+export const DEFAULT_TASK_DB_BACKUP_SETTINGS: TaskDbBackupSettings = {
+  enabled: true,
+  dir: '',
+  keepDaily: 7,
+  keepWeekly: 4,
+  keepMonthly: 6
+};
+
+export type TaskDbBackupEntry = {
+  fileName: string;
+  filePath: string;
+  createdAt: string;
+  reason: TaskDbBackupReason;
+  size: number;
+};
+
+/** 定期バックアップの間隔（前回のバックアップからこれ以上経っていれば取得） */
+const SCHEDULED_BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+/** 定期バックアップの要否を確認する間隔 */
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const BACKUP_FILE_RE = /^tasks-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})(?:-(\d+))?-(scheduled|quit|manual|prerestore|preimport)\.sqlite3$/;
+
+function pad2(n: number): string { return String(n).padStart(2, '0'); }
+
+function localYmd(d: Date): string {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+/** 週の代表日（月曜日）の YYYY-MM-DD */
+function weekKey(d: Date): string {
+  const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return localYmd(monday);
+}
+
+export function backupFileName(at: Date, reason: TaskDbBackupReason, seq = 0): string {
+  const stamp = `${at.getFullYear()}${pad2(at.getMonth() + 1)}${pad2(at.getDate())}-${pad2(at.getHours())}${pad2(at.getMinutes())}${pad2(at.getSeconds())}`;
+  return `tasks-${stamp}${seq > 0 ? `-${seq}` : ''}-${reason}.sqlite3`;
+}
+
+/** このアプリが作ったバックアップ名なら作成日時と理由を返す（それ以外のファイルは管理対象外） */
+export function parseBackupFileName(name: string): { createdAt: Date; reason: TaskDbBackupReason } | null {
+  const m = BACKUP_FILE_RE.exec(name);
+  if (!m) return null;
+  const createdAt = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4]), Number(m[5]), Number(m[6]));
+  if (Number.isNaN(createdAt.getTime())) return null;
+  return { createdAt, reason: m[8] as TaskDbBackupReason };
+}
+
+/**
+ * 世代管理（日次/週次/月次）で残すファイル名を選ぶ。entries の順序は問わない。
+ * 各区分では新しい順に「その日/週/月の最新1件」を指定数まで残し、最新のバックアップは常に残す。
+ */
+export function selectBackupsToKeep(entries: TaskDbBackupEntry[], settings: TaskDbBackupSettings): Set<string> {
+  const sorted = [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = new Set<string>();
+  if (sorted.length) keep.add(sorted[0].fileName);
+  const tiers: Array<{ limit: number; key: (d: Date) => string }> = [
+    { limit: settings.keepDaily, key: localYmd },
+    { limit: settings.keepWeekly, key: weekKey },
+    { limit: settings.keepMonthly, key: (d) => localYmd(d).slice(0, 7) }
+  ];
+  for (const tier of tiers) {
+    const limit = Math.max(0, Math.floor(Number(tier.limit) || 0));
+    const seen = new Set<string>();
+    for (const entry of sorted) {
+      if (seen.size >= limit) break;
+      const key = tier.key(new Date(entry.createdAt));
+      if (seen.has(key)) continue;
+      seen.add(key);
+      keep.add(entry.fileName);
+    }
+  }
+  return keep;
+}
+
+function normalizeSettings(raw: any): TaskDbBackupSettings {
+  const src = raw && typeof raw === 'object' ? raw : {};
+  const count = (v: any, fallback: number) => {
+    const n = Math.floor(Number(v));
+    return Number.isFinite(n) && n >= 0 ? n : fallback;
+  };
+  return {
+    enabled: typeof src.enabled === 'boolean' ? src.enabled : DEFAULT_TASK_DB_BACKUP_SETTINGS.enabled,
+    dir: typeof src.dir === 'string' ? src.dir.trim() : '',
+    keepDaily: count(src.keepDaily, DEFAULT_TASK_DB_BACKUP_SETTINGS.keepDaily),
+    keepWeekly: count(src.keepWeekly, DEFAULT_TASK_DB_BACKUP_SETTINGS.keepWeekly),
+    keepMonthly: count(src.keepMonthly, DEFAULT_TASK_DB_BACKUP_SETTINGS.keepMonthly)
+  };
+}
+
+/** 読み取り専用で開いて quick_check を行う */
+function quickCheck(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(filePath, sqlite3.OPEN_READONLY, (openErr) => {
+      if (openErr) return reject(openErr);
+      db.get('PRAGMA quick_check', [], (err, row: any) => {
+        db.close(() => (err ? reject(err) : resolve(String(row?.quick_check ?? ''))));
+      });
+    });
+  });
+}
+
+/**
+ * タスクDBのスナップショット取得・世代管理・復元。
+ * 取得と復元は直列に実行し、復元時は TaskDatabase を閉じてファイルを差し替え、開き直したインスタンスを setTaskDb で戻す。
+ */
+export class TaskDbBackupService {
+  private store: Store<any>;
+  private getTaskDb: () => TaskDatabase | null;
+  private setTaskDb: (db: TaskDatabase | null) => void;
+  private queue: Promise<unknown> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(opts: {
+    store: Store<any>;
+    getTaskDb: () => TaskDatabase | null;
+    setTaskDb: (db: TaskDatabase | null) => void;
+  }) {
+    this.store = opts.store;
+    this.getTaskDb = opts.getTaskDb;
+    this.setTaskDb = opts.setTaskDb;
+  }
+
+  getSettings(): TaskDbBackupSettings {
+    return normalizeSettings(this.store.get('taskDbBackup'));
+  }
+
+  getBackupDir(): string {
+    const { dir } = this.getSettings();
+    if (dir) return dir;
+    return path.join(path.dirname(this.getTaskDbPath()), 'backups');
+  }
+
+  private getTaskDbPath(): string {
+    const p = String(this.store.get('taskDbPath') || '');
+    if (!p) throw new Error('タスクDBのパスが設定されていません');
+    return p;
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn, fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async listBackups(): Promise<TaskDbBackupEntry[]> {
+    const dir = this.getBackupDir();
+    let names: string[] = [];
+    try {
+      names = await fs.promises.readdir(dir);
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return [];
+      throw e;
+    }
+    const entries: TaskDbBackupEntry[] = [];
+    for (const fileName of names) {
+      const parsed = parseBackupFileName(fileName);
+      if (!parsed) continue;
+      const filePath = path.join(dir, fileName);
+      try {
+        const stat = await fs.promises.stat(filePath);
+        if (!stat.isFile()) continue;
+        entries.push({ fileName, filePath, createdAt: parsed.createdAt.toISOString(), reason: parsed.reason, size: stat.size });
+      } catch {}
+    }
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  backupNow(reason: TaskDbBackupReason): Promise<TaskDbBackupEntry | null> {
+    return this.exclusive(() => this.takeSnapshot(reason));
+  }
+
+  /** 前回のバックアップから一定時間経っていれば取得する */
+  runScheduledBackup(): Promise<TaskDbBackupEntry | null> {
+    return this.exclusive(async () => {
+      if (!this.getSettings().enabled || !this.getTaskDb()) return null;
+      const latest = (await this.listBackups())[0];
+      if (latest && Date.now() - new Date(latest.createdAt).getTime() < SCHEDULED_BACKUP_INTERVAL_MS) return null;
+      return this.takeSnapshot('scheduled');
+    });
+  }
+
+  startSchedule(): void {
+    this.stopSchedule();
+    const tick = () => {
+      this.runScheduledBackup().catch((e) => log.error('Scheduled task DB backup failed:', e));
+    };
+    tick();
+    this.timer = setInterval(tick, SCHEDULE_CHECK_INTERVAL_MS);
+  }
+
+  stopSchedule(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async takeSnapshot(reason: TaskDbBackupReason, prune = true): Promise<TaskDbBackupEntry | null> {
+    const db = this.getTaskDb();
+    if (!db) return null;
+    const dir = this.getBackupDir();
+    await fs.promises.mkdir(dir, { recursive: true });
+    const now = new Date();
+    let seq = 0;
+    let fileName = backupFileName(now, reason);
+    while (fs.existsSync(path.join(dir, fileName))) fileName = backupFileName(now, reason, ++seq);
+    const filePath = path.join(dir, fileName);
+    // 途中で失敗したファイルが一覧に出ないよう、別名で書いてから改名する
+    const partial = `${filePath}.partial`;
+    await fs.promises.rm(partial, { force: true });
+    try {
+      await db.backupTo(partial);
+      await fs.promises.rename(partial, filePath);
+    } catch (e) {
+      await fs.promises.rm(partial, { force: true }).catch(() => undefined);
+      throw e;
+    }
+    const stat = await fs.promises.stat(filePath);
+    log.info(`Task DB backup (${reason}):`, filePath);
+    if (prune) await this.prune();
+    return { fileName, filePath, createdAt: now.toISOString(), reason, size: stat.size };
+  }
+
+  private async prune(): Promise<string[]> {
+    const entries = await this.listBackups();
+    const keep = selectBackupsToKeep(entries, this.getSettings());
+    const removed: string[] = [];
+    for (const entry of entries) {
+      if (keep.has(entry.fileName)) continue;
+      try {
+        await fs.promises.unlink(entry.filePath);
+        removed.push(entry.fileName);
+      } catch (e) {
+        log.warn('Failed to remove old task DB backup:', entry.filePath, e);
+      }
+    }
+    if (removed.length) log.info('Task DB backups pruned:', removed.join(', '));
+    return removed;
+  }
+
+  /**
+   * 一覧にあるスナップショットでタスクDBを置き換える。
+   * 置き換え前の状態は prerestore として保存し、開き直しに失敗した場合はそれを戻す。
+   */
+  restore(fileName: string): Promise<{ restored: TaskDbBackupEntry; preRestore: TaskDbBackupEntry | null }> {
+    return this.exclusive(async () => {
+      const entry = (await this.listBackups()).find(e => e.fileName === fileName);
+      if (!entry) throw new Error(`バックアップが見つかりません: ${fileName}`);
+      const check = await quickCheck(entry.filePath);
+      if (check !== 'ok') throw new Error(`バックアップが破損しています（${check}）`);
+      const info = await TaskDatabase.inspectSchemaVersion(entry.filePath);
+      if (!info.supported) throw new Error(info.message || 'このバックアップは新しいバージョンのアプリで作成されています');
+
+      const dbPath = this.getTaskDbPath();
+      // 復元元が世代整理で消えないよう、ここでは整理しない
+      const preRestore = await this.takeSnapshot('prerestore', false);
+      const current = this.getTaskDb();
+      this.setTaskDb(null);
+      if (current) await current.close();
+
+      const replaceWith = async (source: string) => {
+        const tmp = `${dbPath}.restoring`;
+        await fs.promises.copyFile(source, tmp);
+        await fs.promises.rename(tmp, dbPath);
+        // 差し替えたファイルに古いジャーナルが適用されないよう削除
+        for (const suffix of ['-journal', '-wal', '-shm']) {
+          await fs.promises.rm(`${dbPath}${suffix}`, { force: true });
+        }
+      };
+      const reopen = async () => {
+        const db = new TaskDatabase(dbPath);
+        try {
+          await db.init();
+        } catch (e) {
+          try { await db.close(); } catch {}
+          throw e;
+        }
+        this.setTaskDb(db);
+      };
+
+      try {
+        await replaceWith(entry.filePath);
+        await reopen();
+      } catch (e) {
+        log.error('Task DB restore failed:', e);
+        if (preRestore) {
+          await replaceWith(preRestore.filePath);
+          await reopen();
+        } else if (current) {
+          await reopen();
+        }
+        throw e;
+      }
+      log.info('Task DB restored from backup:', entry.filePath);
+      return { restored: entry, preRestore };
+    });
+  }
+}
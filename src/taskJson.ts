@@ -0,0 +1,122 @@
+// タスクDBの JSON 書き出し/取り込み形式
+// - テーブルごとに全列を行オブジェクトの配列として保持する（列名はDBと同じ大文字）
+// - 行はID順、列はDB定義順のまま整形して書き出すため、git で差分を取りやすい
+
+export const TASK_JSON_FORMAT = 'nyantasknotes-tasks';
+export const TASK_JSON_FORMAT_VERSION = 1;
+
+/** 書き出し/取り込みの対象テーブル（親→子の順。取り込みもこの順で挿入する） */
+export const TASK_JSON_TABLES = [
+  'CALENDARS',
+  'CALENDAR_ENTRIES',
+  'TASKS',
+  'RECURRENCE_RULES',
+  'RECURRENCE_RULE_VERSIONS',
+  'RECURRENCE_EXTRA_RULES',
+  'RECURRENCE_EXTRA_DATES',
+  'RECURRENCE_DATES',
+  'TASK_OCCURRENCES',
+  'RECURRENCE_EXCEPTIONS',
+  'TAG_INFOS',
+  'TASK_TAGS',
+  'TASK_FILE_LINKS',
+  'TASK_EVENTS'
+] as const;
+
+export type TaskJsonTable = typeof TASK_JSON_TABLES[number];
+
+/** 各テーブルの並び順（書き出しの安定化用） */
+export const TASK_JSON_ORDER_BY: Record<TaskJsonTable, string> = {
+  CALENDARS: 'ID',
+  CALENDAR_ENTRIES: 'ID',
+  TASKS: 'ID',
+  RECURRENCE_RULES: 'ID',
+  RECURRENCE_RULE_VERSIONS: 'TASK_ID, VERSION',
+  RECURRENCE_EXTRA_RULES: 'ID',
+  RECURRENCE_EXTRA_DATES: 'ID',
+  RECURRENCE_DATES: 'ID',
+  TASK_OCCURRENCES: 'ID',
+  RECURRENCE_EXCEPTIONS: 'ID',
+  TAG_INFOS: 'ID',
+  TASK_TAGS: 'ID',
+  TASK_FILE_LINKS: 'TASK_ID, FILE_SHA256',
+  TASK_EVENTS: 'ID'
+};
+
+export type TaskJsonRow = Record<string, any>;
+
+export type TaskJsonDocument = {
+  format: typeof TASK_JSON_FORMAT;
+  formatVersion: number;
+  /** 書き出し元DBの PRAGMA user_version */
+  schemaVersion: number;
+  exportedAt: string;
+  includesEvents: boolean;
+  tables: Partial<Record<TaskJsonTable, TaskJsonRow[]>>;
+};
+
+export type TaskJsonImportMode = 'replace' | 'merge';
+
+export type TaskJsonImportReport = {
+  mode: TaskJsonImportMode;
+  inserted: Partial<Record<TaskJsonTable, number>>;
+  /** merge 時に同名の既存タグへ寄せた件数など、挿入しなかった行 */
+  reused: Partial<Record<TaskJsonTable, number>>;
+  /** 取り込み先DBにない列（値は捨てた） */
+  droppedColumns: Partial<Record<TaskJsonTable, string[]>>;
+  warnings: string[];
+};
+
+/** JSON 文字列を検証して文書にする。形式違いは例外 */
+export function parseTaskJson(text: string, maxSchemaVersion: number): TaskJsonDocument {
+  let data: any;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (e: any) {
+    throw new Error(`JSONとして読み込めません: ${e?.message || String(e)}`);
+  }
+  if (!data || typeof data !== 'object' || data.format !== TASK_JSON_FORMAT) {
+    throw new Error('NyanTaskNotes のタスク書き出しファイルではありません');
+  }
+  const formatVersion = Number(data.formatVersion);
+  if (!Number.isInteger(formatVersion) || formatVersion < 1) {
+    throw new Error('formatVersion が不正です');
+  }
+  if (formatVersion > TASK_JSON_FORMAT_VERSION) {
+    throw new Error(`新しい形式のファイルです（formatVersion ${formatVersion} / 対応 ${TASK_JSON_FORMAT_VERSION}）。アプリを更新してください`);
+  }
+  const schemaVersion = Number(data.schemaVersion) || 0;
+  if (schemaVersion > maxSchemaVersion) {
+    throw new Error(`新しいバージョンのアプリで書き出されたファイルです（スキーマ版数 ${schemaVersion} / 対応版数 ${maxSchemaVersion}）。アプリを更新してください`);
+  }
+  if (!data.tables || typeof data.tables !== 'object') {
+    throw new Error('tables がありません');
+  }
+  const tables: Partial<Record<TaskJsonTable, TaskJsonRow[]>> = {};
+  for (const name of TASK_JSON_TABLES) {
+    const rows = data.tables[name];
+    if (typeof rows === 'undefined') continue;
+    if (!Array.isArray(rows) || rows.some((r: any) => !r || typeof r !== 'object' || Array.isArray(r))) {
+      throw new Error(`${name} の形式が不正です`);
+    }
+    tables[name] = rows;
+  }
+  return {
+    format: TASK_JSON_FORMAT,
+    formatVersion,
+    schemaVersion,
+    exportedAt: String(data.exportedAt || ''),
+    includesEvents: Array.isArray(tables.TASK_EVENTS),
+    tables
+  };
+}
+
+/** 取り込み前の確認表示用に件数をまとめる */
+export function summarizeTaskJson(doc: TaskJsonDocument): Partial<Record<TaskJsonTable, number>> {
+  const counts: Partial<Record<TaskJsonTable, number>> = {};
+  for (const name of TASK_JSON_TABLES) {
+    const rows = doc.tables[name];
+    if (rows) counts[name] = rows.length;
+  }
+  return counts;
+}